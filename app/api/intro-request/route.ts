@@ -5,34 +5,43 @@ export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   // Lazy import to avoid build-time initialization
-  const { createIntroRequest, hasIntroRequest } = await import('@/lib/database');
+  const { createIntroRequest, getFundraisingRound, hasIntroRequest } = await import('@/lib/database');
+  const { isRoundRaising } = await import('@/lib/roundStatus');
+  const { requireUser, assertSameUser, authErrorResponse } = await import('@/lib/apiAuth');
   try {
-    // Get the authorization header
-    const authHeader = request.headers.get('authorization');
-    
-    // For client-side requests, we'll check if user is authenticated via cookie/session
-    // In a real app, you'd verify the Supabase session here
+    // Verify the Supabase session; the investor is whoever owns the token
+    const auth = await requireUser(request);
+
     const body = await request.json();
-    const { roundId, startupName, userId } = body;
+    const { roundId, userId } = body;
+
+    // Older clients still send userId; it must match the session
+    assertSameUser(auth, userId);
 
     // Validate required fields
-    if (!roundId || !startupName) {
+    if (!roundId) {
       return NextResponse.json(
-        { error: 'Missing required fields: roundId and startupName' },
+        { error: 'Missing required field: roundId' },
         { status: 400 }
       );
     }
 
-    // Check if user ID is provided (should come from authenticated session)
-    if (!userId) {
+    const round = await getFundraisingRound(roundId, auth.supabase);
+    if (!round) {
+      return NextResponse.json({ error: 'Round not found' }, { status: 404 });
+    }
+
+    if (!isRoundRaising(round.status)) {
       return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
+        { error: 'This round is no longer taking intro requests' },
+        { status: 409 }
       );
     }
 
+    const investorId = auth.user.id;
+
     // Check for existing request (idempotency)
-    const existingRequest = await hasIntroRequest(userId, roundId);
+    const existingRequest = await hasIntroRequest(investorId, roundId, auth.supabase);
     if (existingRequest) {
       return NextResponse.json(
         { message: 'Intro already requested', alreadyRequested: true },
@@ -41,17 +50,26 @@ export async function POST(request: NextRequest) {
     }
 
     // Create the intro request
-    const requestId = await createIntroRequest({
-      investorId: userId,
-      roundId,
-      startupName,
-    });
+    const requestId = await createIntroRequest(
+      {
+        investorId,
+        roundId,
+        // Named after the round's company, never text from the client
+        startupName: round.companyName,
+      },
+      auth.supabase
+    );
 
     return NextResponse.json(
       { message: 'Intro request created successfully', requestId },
       { status: 201 }
     );
   } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+
     console.error('Error creating intro request:', error);
     return NextResponse.json(
       { error: 'Failed to create intro request' },
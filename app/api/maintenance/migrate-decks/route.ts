@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Force dynamic rendering to avoid build-time Supabase initialization
+export const dynamic = 'force-dynamic';
+
+// Called hourly by Vercel Cron (see vercel.json) to move decks from the public
+// bucket into the private decks bucket. Safe to call again if it stops halfway.
+export async function GET(request: NextRequest) {
+  // Lazy import to avoid build-time initialization
+  const { requireCronSecret, authErrorResponse } = await import('@/lib/apiAuth');
+  const { getSupabaseAdmin } = await import('@/lib/supabaseServer');
+  const { moveLegacyDecks } = await import('@/lib/deckAccess');
+
+  try {
+    requireCronSecret(request);
+
+    const movedRoundIds = await moveLegacyDecks(getSupabaseAdmin());
+
+    return NextResponse.json({ movedRoundIds }, { status: 200 });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+
+    console.error('Error moving legacy decks:', error);
+    return NextResponse.json(
+      { error: 'Failed to move legacy decks' },
+      { status: 500 }
+    );
+  }
+}
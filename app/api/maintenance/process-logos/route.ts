@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Force dynamic rendering to avoid build-time Supabase initialization
+export const dynamic = 'force-dynamic';
+
+// One-off backfill of logo variants for company logos uploaded before they existed.
+// Authorized with CRON_SECRET; safe to call again if it stops halfway.
+export async function POST(request: NextRequest) {
+  // Lazy import to avoid build-time initialization
+  const { requireCronSecret, authErrorResponse } = await import('@/lib/apiAuth');
+  const { getSupabaseAdmin } = await import('@/lib/supabaseServer');
+  const { processPendingLogos } = await import('@/lib/logoProcessing');
+
+  try {
+    requireCronSecret(request);
+
+    const processedCompanyIds = await processPendingLogos(getSupabaseAdmin());
+
+    return NextResponse.json({ processedCompanyIds }, { status: 200 });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+
+    console.error('Error processing logos:', error);
+    return NextResponse.json(
+      { error: 'Failed to process logos' },
+      { status: 500 }
+    );
+  }
+}
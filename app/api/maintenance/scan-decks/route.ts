@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Force dynamic rendering to avoid build-time Supabase initialization
+export const dynamic = 'force-dynamic';
+
+// Called hourly by Vercel Cron (see vercel.json) to scan decks left pending
+export async function GET(request: NextRequest) {
+  // Lazy import to avoid build-time initialization
+  const { requireCronSecret, authErrorResponse } = await import('@/lib/apiAuth');
+  const { getSupabaseAdmin } = await import('@/lib/supabaseServer');
+  const { scanPendingDecks } = await import('@/lib/malwareScan');
+
+  try {
+    requireCronSecret(request);
+
+    const results = await scanPendingDecks(getSupabaseAdmin());
+
+    return NextResponse.json({ results }, { status: 200 });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+
+    console.error('Error scanning pending decks:', error);
+    return NextResponse.json(
+      { error: 'Failed to scan pending decks' },
+      { status: 500 }
+    );
+  }
+}
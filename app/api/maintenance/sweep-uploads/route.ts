@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Force dynamic rendering to avoid build-time Supabase initialization
+export const dynamic = 'force-dynamic';
+
+// Called daily by Vercel Cron (see vercel.json)
+export async function GET(request: NextRequest) {
+  // Lazy import to avoid build-time initialization
+  const { requireCronSecret, authErrorResponse } = await import('@/lib/apiAuth');
+  const { getSupabaseAdmin } = await import('@/lib/supabaseServer');
+  const { sweepOrphanedUploads } = await import('@/lib/uploadSweep');
+
+  try {
+    requireCronSecret(request);
+
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === '1';
+    const result = await sweepOrphanedUploads(getSupabaseAdmin(), { dryRun });
+
+    return NextResponse.json({ dryRun, ...result }, { status: 200 });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+
+    console.error('Error sweeping orphaned uploads:', error);
+    return NextResponse.json(
+      { error: 'Failed to sweep orphaned uploads' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Force dynamic rendering to avoid build-time Supabase initialization
+export const dynamic = 'force-dynamic';
+
+interface DeckRouteContext {
+  params: { id: string };
+}
+
+// Issue a short-lived URL for a copy of a round's private deck watermarked
+// with the signed-in investor's name and email. ?version=n asks for an
+// earlier version, if the founder shares them.
+export async function GET(request: NextRequest, { params }: DeckRouteContext) {
+  // Lazy import to avoid build-time initialization
+  const { getDeckVersion, getFundraisingRound, getUserProfile } = await import('@/lib/database');
+  const { requireUser, authErrorResponse } = await import('@/lib/apiAuth');
+  const { canViewDeck, canViewPreviousDeckVersions, issueDeckUrl } = await import('@/lib/deckAccess');
+  const { getSupabaseAdmin } = await import('@/lib/supabaseServer');
+  try {
+    const auth = await requireUser(request);
+
+    // Read as the caller, so drafts of other founders stay invisible
+    const [round, viewer] = await Promise.all([
+      getFundraisingRound(params.id, auth.supabase),
+      getUserProfile(auth.user.id, auth.supabase),
+    ]);
+
+    if (!round) {
+      return NextResponse.json({ error: 'Round not found' }, { status: 404 });
+    }
+
+    if (!canViewDeck({ id: auth.user.id, role: viewer?.role ?? null }, round)) {
+      return NextResponse.json(
+        { error: 'Only investors can view pitch decks' },
+        { status: 403 }
+      );
+    }
+
+    let deck: Pick<typeof round, 'deckPath' | 'deckFilename' | 'deckUrl' | 'scanStatus'> = round;
+
+    const versionParam = request.nextUrl.searchParams.get('version');
+    if (versionParam !== null) {
+      const version = Number(versionParam);
+      if (!Number.isInteger(version) || version < 1) {
+        return NextResponse.json({ error: 'Invalid deck version' }, { status: 400 });
+      }
+
+      if (version !== round.deckVersion) {
+        if (!canViewPreviousDeckVersions(auth.user.id, round)) {
+          return NextResponse.json(
+            { error: 'The founder has not shared earlier versions of this deck' },
+            { status: 403 }
+          );
+        }
+
+        const deckVersion = await getDeckVersion(round.id, version, auth.supabase);
+        if (!deckVersion) {
+          return NextResponse.json({ error: 'Deck version not found' }, { status: 404 });
+        }
+        deck = {
+          deckPath: deckVersion.deckPath,
+          deckFilename: deckVersion.deckFilename,
+          scanStatus: deckVersion.scanStatus,
+        };
+      }
+    }
+
+    // A deck still in the public bucket is never handed out; the hourly
+    // migrate-decks job moves it to the private bucket first
+    if (!deck.deckPath && deck.deckUrl) {
+      return NextResponse.json(
+        { error: 'This pitch deck is being migrated. Please try again shortly' },
+        { status: 409 }
+      );
+    }
+
+    // Decks are only served once scanned; rejected ones never are
+    if (deck.scanStatus !== 'clean') {
+      return NextResponse.json(
+        {
+          error: deck.scanStatus === 'rejected'
+            ? 'This pitch deck failed a security scan and is unavailable'
+            : 'This pitch deck is still being scanned. Please try again shortly',
+          scanStatus: deck.scanStatus,
+        },
+        { status: 409 }
+      );
+    }
+
+    // The client sends the page that brought the viewer to the round
+    const referrer = request.nextUrl.searchParams.get('referrer');
+    const issued = await issueDeckUrl(
+      getSupabaseAdmin(),
+      {
+        id: round.id,
+        founderId: round.founderId,
+        deckPath: deck.deckPath,
+        deckFilename: deck.deckFilename,
+      },
+      {
+        id: auth.user.id,
+        displayName: viewer?.displayName ?? '',
+        email: viewer?.email || auth.user.email || '',
+      },
+      referrer
+    );
+    if (!issued) {
+      return NextResponse.json({ error: 'This round has no deck' }, { status: 404 });
+    }
+
+    return NextResponse.json(issued, {
+      status: 200,
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+
+    console.error('Error issuing deck URL:', error);
+    return NextResponse.json(
+      { error: 'Failed to load pitch deck' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Force dynamic rendering to avoid build-time Supabase initialization
+export const dynamic = 'force-dynamic';
+
+interface FilesRouteContext {
+  params: { id: string };
+}
+
+// Verify a logo and/or deck the founder uploaded and attach them to the round;
+// the logo goes to the round's company. Attaching a deck to a draft makes it live.
+export async function POST(request: NextRequest, { params }: FilesRouteContext) {
+  // Lazy import to avoid build-time initialization
+  const { getFundraisingRound } = await import('@/lib/database');
+  const { requireUser, authErrorResponse } = await import('@/lib/apiAuth');
+  const { attachRoundFiles } = await import('@/lib/roundFiles');
+  const { UploadRejectedError } = await import('@/lib/uploadVerification');
+  const { DECK_CHANGELOG_MAX_LENGTH } = await import('@/lib/storage');
+  const { getSupabaseAdmin } = await import('@/lib/supabaseServer');
+  try {
+    const auth = await requireUser(request);
+    const body = await request.json().catch(() => ({}));
+    const logoPath = typeof body.logoPath === 'string' ? body.logoPath : undefined;
+    const deckPath = typeof body.deckPath === 'string' ? body.deckPath : undefined;
+    const deckFilename = typeof body.deckFilename === 'string' ? body.deckFilename : undefined;
+    const changelog = typeof body.changelog === 'string' ? body.changelog : undefined;
+
+    if (!logoPath && !deckPath) {
+      return NextResponse.json(
+        { error: 'Missing required fields: logoPath or deckPath' },
+        { status: 400 }
+      );
+    }
+
+    if (changelog && changelog.trim().length > DECK_CHANGELOG_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Changelog must be ${DECK_CHANGELOG_MAX_LENGTH} characters or fewer` },
+        { status: 400 }
+      );
+    }
+
+    // Read as the caller, so drafts of other founders stay invisible
+    const round = await getFundraisingRound(params.id, auth.supabase);
+
+    if (!round) {
+      return NextResponse.json({ error: 'Round not found' }, { status: 404 });
+    }
+
+    if (round.founderId !== auth.user.id) {
+      return NextResponse.json(
+        { error: 'Only the founder can update this round' },
+        { status: 403 }
+      );
+    }
+
+    const attached = await attachRoundFiles(getSupabaseAdmin(), round, {
+      logoPath,
+      deckPath,
+      deckFilename,
+      changelog,
+    });
+
+    return NextResponse.json(attached, { status: 200 });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+
+    if (error instanceof UploadRejectedError) {
+      return NextResponse.json({ error: error.message, file: error.file }, { status: 422 });
+    }
+
+    console.error('Error attaching round files:', error);
+    return NextResponse.json(
+      { error: 'Failed to save uploaded files' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import { TagBrowsePage, getTagBrowseMetadata } from '@/components/TagBrowsePage';
+
+// Force dynamic rendering to avoid build-time Supabase initialization
+export const dynamic = 'force-dynamic';
+
+interface BusinessModelPageProps {
+  params: { slug: string };
+}
+
+export function generateMetadata({ params }: BusinessModelPageProps): Promise<Metadata> {
+  return getTagBrowseMetadata('business_model', params.slug);
+}
+
+export default function BusinessModelPage({ params }: BusinessModelPageProps) {
+  return <TagBrowsePage type="business_model" slug={params.slug} />;
+}
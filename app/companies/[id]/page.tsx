@@ -0,0 +1,171 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { CompanyEditor } from '@/components/CompanyEditor';
+import { getUrlLabel } from '@/lib/company';
+import { formatAmount } from '@/lib/format';
+import { getLogoSrc } from '@/lib/logoVariants';
+import { ROUND_STATUS_BADGE_STYLES, ROUND_STATUS_LABELS } from '@/lib/roundStatus';
+
+// Force dynamic rendering to avoid build-time Supabase initialization
+export const dynamic = 'force-dynamic';
+
+interface CompanyPageProps {
+  params: { id: string };
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const loadCompany = async (companyId: string) => {
+  if (!UUID_PATTERN.test(companyId)) {
+    return null;
+  }
+
+  // Lazy import to avoid build-time initialization
+  const { getCompany } = await import('@/lib/database');
+  return getCompany(companyId);
+};
+
+export async function generateMetadata({ params }: CompanyPageProps): Promise<Metadata> {
+  const { isDatabaseConfigured } = await import('@/lib/database');
+  if (!isDatabaseConfigured()) {
+    return { title: 'Fundfeed' };
+  }
+
+  const company = await loadCompany(params.id);
+  if (!company) {
+    return { title: 'Company not found | Fundfeed' };
+  }
+
+  return {
+    title: `${company.name} | Fundfeed`,
+    description: `${company.name}'s team and fundraising rounds on Fundfeed.`,
+  };
+}
+
+// A company's profile: its team and every round it has raised on Fundfeed
+export default async function CompanyPage({ params }: CompanyPageProps) {
+  const { getCompanyRounds, isDatabaseConfigured } = await import('@/lib/database');
+
+  if (!isDatabaseConfigured()) {
+    return (
+      <main className="min-h-screen bg-white dark:bg-gray-900">
+        <div className="mx-auto max-w-md px-4 py-8">
+          <div className="rounded-lg bg-red-50 p-4 text-center text-red-800 dark:bg-red-900 dark:text-red-200">
+            Database not configured. Please set up your Supabase credentials in .env.local
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const company = await loadCompany(params.id);
+  if (!company) {
+    notFound();
+  }
+
+  const rounds = await getCompanyRounds(company.id);
+  const team = company.team ?? [];
+
+  return (
+    <main className="min-h-screen bg-white dark:bg-gray-900">
+      <div className="mx-auto max-w-5xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 flex flex-col gap-6 sm:flex-row sm:items-center">
+          {company.logoUrl && (
+            <div className="relative h-24 w-24 flex-shrink-0 overflow-hidden rounded-lg">
+              <Image
+                src={getLogoSrc({ logoUrl: company.logoUrl, logoVariants: company.logoVariants }, 96)}
+                alt={`${company.name} logo`}
+                fill
+                className="object-cover"
+                sizes="96px"
+                priority
+              />
+            </div>
+          )}
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 sm:text-4xl">{company.name}</h1>
+            {company.website && (
+              <a
+                href={company.website}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-2 inline-block text-lg text-gray-600 hover:underline dark:text-gray-400"
+                data-testid="company-website"
+              >
+                {getUrlLabel(company.website)}
+              </a>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-8 lg:grid-cols-3">
+          <div className="space-y-8 lg:col-span-2">
+            <section>
+              <h2 className="mb-3 text-xl font-semibold text-gray-900 dark:text-gray-100">Rounds</h2>
+              {rounds.length === 0 ? (
+                <p className="text-gray-600 dark:text-gray-400">No rounds to show yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 dark:divide-gray-700 dark:border-gray-700">
+                  {rounds.map(round => (
+                    <li key={round.id}>
+                      <Link
+                        href={`/rounds/${round.id}`}
+                        className="flex flex-wrap items-center justify-between gap-3 p-4 hover:bg-gray-50 dark:hover:bg-gray-800"
+                      >
+                        <div>
+                          <p className="font-medium text-gray-900 dark:text-gray-100">
+                            {formatAmount(round.raisingAmount, round.currency)}
+                          </p>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            Launched {new Date(round.launchedAt ?? round.createdAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <span
+                          className={`rounded-full px-3 py-1 text-xs font-medium ${ROUND_STATUS_BADGE_STYLES[round.status]}`}
+                        >
+                          {ROUND_STATUS_LABELS[round.status]}
+                        </span>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {team.length > 0 && (
+              <section>
+                <h2 className="mb-3 text-xl font-semibold text-gray-900 dark:text-gray-100">Team</h2>
+                <ul className="grid grid-cols-1 gap-4 sm:grid-cols-2" data-testid="company-team">
+                  {team.map(member => (
+                    <li key={member.id} className="rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+                      {member.profileUrl ? (
+                        <a
+                          href={member.profileUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-medium text-gray-900 hover:underline dark:text-gray-100"
+                        >
+                          {member.name}
+                        </a>
+                      ) : (
+                        <p className="font-medium text-gray-900 dark:text-gray-100">{member.name}</p>
+                      )}
+                      {member.title && <p className="text-sm text-gray-600 dark:text-gray-400">{member.title}</p>}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+
+          <aside className="space-y-6">
+            <CompanyEditor company={company} />
+          </aside>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/Toast';
+import { IntroRequestList } from '@/components/IntroRequestList';
+import {
+  getFundraisingRoundsForFounder,
+  getIntroRequestsForRound,
+  updateIntroRequestStatus,
+  isDatabaseConfigured,
+} from '@/lib/database';
+import { IntroRequest } from '@/types';
+
+export default function IntroInboxPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const { showToast } = useToast();
+  const [requests, setRequests] = useState<IntroRequest[]>([]);
+  const [roundCount, setRoundCount] = useState(0);
+  const [fetching, setFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingRequestId, setUpdatingRequestId] = useState<string | null>(null);
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      alert('Please sign in to view your intro requests');
+      router.push('/');
+    }
+  }, [user, loading, router]);
+
+  // Fetch intro requests across all of the founder's rounds
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    const fetchRequests = async () => {
+      try {
+        setFetching(true);
+        setError(null);
+
+        if (!isDatabaseConfigured()) {
+          setError('Database not configured. Please set up your Supabase credentials in .env.local');
+          return;
+        }
+
+        const rounds = await getFundraisingRoundsForFounder(user.id);
+        setRoundCount(rounds.length);
+
+        const requestsPerRound = await Promise.all(rounds.map(round => getIntroRequestsForRound(round.id)));
+
+        // Pending requests first, newest first within each group
+        const allRequests = requestsPerRound.flat().sort((a, b) => {
+          if ((a.status === 'pending') !== (b.status === 'pending')) {
+            return a.status === 'pending' ? -1 : 1;
+          }
+          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+        });
+        setRequests(allRequests);
+      } catch (err) {
+        console.error('Error fetching intro requests:', err);
+        setError('Failed to load intro requests. Please try again later.');
+      } finally {
+        setFetching(false);
+      }
+    };
+
+    fetchRequests();
+  }, [user]);
+
+  const handleDecision = async (requestId: string, status: 'accepted' | 'declined') => {
+    setUpdatingRequestId(requestId);
+    try {
+      await updateIntroRequestStatus(requestId, status);
+      setRequests(prev => prev.map(request => (request.id === requestId ? { ...request, status } : request)));
+      showToast(status === 'accepted' ? 'Intro request accepted' : 'Intro request declined', 'success');
+    } catch (err) {
+      console.error('Error updating intro request:', err);
+      showToast('Failed to update intro request. Please try again.', 'error');
+    } finally {
+      setUpdatingRequestId(null);
+    }
+  };
+
+  // Show loading state while checking authentication
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-white dark:bg-gray-900">
+        <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+          <div className="flex justify-center py-12">
+            <div className="text-gray-600 dark:text-gray-400">Loading...</div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  // Don't render the inbox if not authenticated
+  if (!user) {
+    return null;
+  }
+
+  const pendingCount = requests.filter(request => request.status === 'pending').length;
+
+  return (
+    <main className="min-h-screen bg-white dark:bg-gray-900">
+      <div className="mx-auto max-w-4xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 sm:text-4xl">
+            Intro Requests
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            {pendingCount} pending across {roundCount} {roundCount === 1 ? 'round' : 'rounds'}
+          </p>
+        </div>
+
+        {/* Loading State */}
+        {fetching && (
+          <div className="flex justify-center py-12">
+            <div className="text-gray-600 dark:text-gray-400">Loading intro requests...</div>
+          </div>
+        )}
+
+        {/* Error State */}
+        {error && (
+          <div className="mx-auto max-w-md rounded-lg bg-red-50 p-4 text-center text-red-800 dark:bg-red-900 dark:text-red-200">
+            {error}
+          </div>
+        )}
+
+        {/* Empty State */}
+        {!fetching && !error && requests.length === 0 && (
+          <div className="mx-auto max-w-md rounded-lg bg-gray-50 p-8 text-center dark:bg-gray-800">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+              No intro requests yet
+            </h2>
+            <p className="mt-2 text-gray-600 dark:text-gray-400">
+              Investors who request an intro to one of your rounds will show up here.
+            </p>
+          </div>
+        )}
+
+        {/* Requests */}
+        {!fetching && !error && requests.length > 0 && (
+          <IntroRequestList
+            requests={requests}
+            updatingRequestId={updatingRequestId}
+            onDecision={handleDecision}
+          />
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,27 +1,79 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { TrendingCard } from '@/components/TrendingCard';
 import { TrendingGridSkeleton } from '@/components/LoadingSkeleton';
+import { FeedFilterBar } from '@/components/FeedFilterBar';
 import { getTrendingRounds, isDatabaseConfigured } from '@/lib/database';
-import { followRound, unfollowRound, getUserProfile, getIntroRequestsForInvestor } from '@/lib/database';
-import { FundraisingRound } from '@/types';
+import {
+  followRound,
+  unfollowRound,
+  getUserProfile,
+  getIntroRequestsForInvestor,
+  getCommitmentProgress,
+  getTags,
+} from '@/lib/database';
+import { feedFiltersToQueryString, hasActiveFilters, parseFeedFilters } from '@/lib/feedFilters';
+import { appendUniqueRounds, getTrendingCursor, TrendingCursor } from '@/lib/trending';
+import { CommitmentProgress, FundraisingRound, RoundFilters, Tag } from '@/types';
 
-export default function Home() {
+const PAGE_SIZE = 20;
+
+function HomeFeed() {
   const { user } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // Filters live in the URL so a filtered feed can be shared as a link
+  const filterQuery = feedFiltersToQueryString(parseFeedFilters(searchParams));
+  const filters = useMemo(() => parseFeedFilters(new URLSearchParams(filterQuery)), [filterQuery]);
   const [rounds, setRounds] = useState<FundraisingRound[]>([]);
   const [followedRounds, setFollowedRounds] = useState<string[]>([]);
   const [requestedIntros, setRequestedIntros] = useState<string[]>([]);
+  // Committed totals of the rounds on screen whose founders made them public
+  const [commitmentProgress, setCommitmentProgress] = useState<Record<string, CommitmentProgress>>({});
+  const [tags, setTags] = useState<Tag[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Every page of one feed is scored against the time of its first page
+  const [asOf, setAsOf] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<TrendingCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  // asOf of the feed currently on screen, to drop pages from a replaced feed
+  const feedAsOfRef = useRef<string | null>(null);
+
+  // Progress bars are extra, so a failure only leaves them out
+  const loadCommitmentProgress = useCallback(async (pageRounds: FundraisingRound[]) => {
+    try {
+      const progress = await getCommitmentProgress(pageRounds.map(round => round.id));
+      setCommitmentProgress(prev => ({ ...prev, ...progress }));
+    } catch (err) {
+      console.error('Error fetching commitment progress:', err);
+    }
+  }, []);
+
+  // The tag filters are extra, so a failure only leaves them out
+  useEffect(() => {
+    if (!isDatabaseConfigured()) {
+      return;
+    }
+    getTags()
+      .then(setTags)
+      .catch(err => console.error('Error fetching tags:', err));
+  }, []);
 
-  // Fetch trending rounds and user's followed rounds
+  // Fetch the first page of trending rounds whenever the filters change
   useEffect(() => {
-    const fetchData = async () => {
+    let cancelled = false;
+
+    const fetchRounds = async () => {
       try {
         setLoading(true);
         setError(null);
+        setLoadMoreError(null);
 
         // Check if database is configured
         if (!isDatabaseConfigured()) {
@@ -30,32 +82,108 @@ export default function Home() {
           return;
         }
 
-        // Fetch trending rounds
-        const trendingRounds = await getTrendingRounds(20);
+        const feedAsOf = new Date().toISOString();
+        feedAsOfRef.current = feedAsOf;
+        const trendingRounds = await getTrendingRounds(PAGE_SIZE, { asOf: feedAsOf, filters });
+        if (cancelled) {
+          return;
+        }
         setRounds(trendingRounds);
+        setAsOf(feedAsOf);
+        setCursor(getTrendingCursor(trendingRounds, PAGE_SIZE));
+        loadCommitmentProgress(trendingRounds);
+      } catch (err) {
+        console.error('Error fetching data:', err);
+        if (!cancelled) {
+          setError('Failed to load fundraising rounds. Please try again later.');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchRounds();
 
-        // Fetch user's followed rounds and intro requests if authenticated
-        if (user) {
-          const userProfile = await getUserProfile(user.id);
-          if (userProfile) {
-            setFollowedRounds(userProfile.followedRounds || []);
-          }
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, loadCommitmentProgress]);
 
-          // Fetch user's intro requests
-          const introRequests = await getIntroRequestsForInvestor(user.id);
-          setRequestedIntros(introRequests.map(req => req.roundId));
+  // Fetch user's followed rounds and intro requests if authenticated
+  useEffect(() => {
+    if (!user || !isDatabaseConfigured()) {
+      return;
+    }
+
+    const fetchUserData = async () => {
+      try {
+        const userProfile = await getUserProfile(user.id);
+        if (userProfile) {
+          setFollowedRounds(userProfile.followedRounds || []);
         }
+
+        const introRequests = await getIntroRequestsForInvestor(user.id);
+        setRequestedIntros(introRequests.map(req => req.roundId));
       } catch (err) {
-        console.error('Error fetching data:', err);
-        setError('Failed to load fundraising rounds. Please try again later.');
-      } finally {
-        setLoading(false);
+        console.error('Error fetching user data:', err);
       }
     };
 
-    fetchData();
+    fetchUserData();
   }, [user]);
 
+  // Load the page after the cursor and append the rounds not shown yet
+  const loadMore = useCallback(async () => {
+    if (!cursor || !asOf || loadingMore) {
+      return;
+    }
+
+    setLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const nextRounds = await getTrendingRounds(PAGE_SIZE, { asOf, cursor, filters });
+      // The filters changed while this page was loading; it belongs to the old feed
+      if (feedAsOfRef.current !== asOf) {
+        return;
+      }
+      setRounds(prev => appendUniqueRounds(prev, nextRounds));
+      setCursor(getTrendingCursor(nextRounds, PAGE_SIZE));
+      loadCommitmentProgress(nextRounds);
+    } catch (err) {
+      console.error('Error loading more rounds:', err);
+      setLoadMoreError('Failed to load more rounds.');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [asOf, cursor, filters, loadingMore, loadCommitmentProgress]);
+
+  // Load the next page when the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !cursor || loadMoreError || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          loadMore();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [cursor, loadMore, loadMoreError]);
+
+  const handleFiltersChange = (nextFilters: RoundFilters) => {
+    const query = feedFiltersToQueryString(nextFilters);
+    router.replace(query ? `/?${query}` : '/', { scroll: false });
+  };
+
   // Handle follow/unfollow toggle
   const handleFollowToggle = async (roundId: string) => {
     if (!user) {
@@ -92,6 +220,8 @@ export default function Home() {
           </p>
         </div>
 
+        <FeedFilterBar key={filterQuery} filters={filters} onChange={handleFiltersChange} tags={tags} />
+
         {/* Loading State */}
         {loading && <TrendingGridSkeleton count={8} />}
 
@@ -105,12 +235,25 @@ export default function Home() {
         {/* Empty State */}
         {!loading && !error && rounds.length === 0 && (
           <div className="mx-auto max-w-md rounded-lg bg-gray-50 p-8 text-center dark:bg-gray-800">
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
-              No fundraising rounds yet
-            </h2>
-            <p className="mt-2 text-gray-600 dark:text-gray-400">
-              Be the first to launch a fundraising round!
-            </p>
+            {hasActiveFilters(filters) ? (
+              <>
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                  No rounds match these filters
+                </h2>
+                <p className="mt-2 text-gray-600 dark:text-gray-400">
+                  Try a wider amount range, a longer time window or fewer categories.
+                </p>
+              </>
+            ) : (
+              <>
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                  No fundraising rounds yet
+                </h2>
+                <p className="mt-2 text-gray-600 dark:text-gray-400">
+                  Be the first to launch a fundraising round!
+                </p>
+              </>
+            )}
           </div>
         )}
 
@@ -124,11 +267,49 @@ export default function Home() {
                 isFollowing={followedRounds.includes(round.id)}
                 hasRequestedIntro={requestedIntros.includes(round.id)}
                 onFollowToggle={handleFollowToggle}
+                commitmentProgress={commitmentProgress[round.id]}
               />
             ))}
           </div>
         )}
+
+        {/* Next page */}
+        {!loading && !error && loadingMore && (
+          <div className="mt-6">
+            <TrendingGridSkeleton count={4} />
+          </div>
+        )}
+        {!loading && !error && cursor && !loadingMore && (
+          <div ref={sentinelRef} className="mt-6 flex flex-col items-center gap-2">
+            {loadMoreError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{loadMoreError}</p>
+            )}
+            <button
+              onClick={loadMore}
+              className="rounded-lg bg-gray-200 px-4 py-2 text-sm font-medium text-gray-900 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-100 dark:hover:bg-gray-600"
+            >
+              {loadMoreError ? 'Try again' : 'Load more'}
+            </button>
+          </div>
+        )}
       </div>
     </main>
   );
 }
+
+export default function Home() {
+  // useSearchParams() needs a Suspense boundary in a client page
+  return (
+    <Suspense
+      fallback={
+        <main className="min-h-screen bg-white dark:bg-gray-900">
+          <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+            <TrendingGridSkeleton count={8} />
+          </div>
+        </main>
+      }
+    >
+      <HomeFeed />
+    </Suspense>
+  );
+}
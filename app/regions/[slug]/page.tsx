@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import { TagBrowsePage, getTagBrowseMetadata } from '@/components/TagBrowsePage';
+
+// Force dynamic rendering to avoid build-time Supabase initialization
+export const dynamic = 'force-dynamic';
+
+interface RegionPageProps {
+  params: { slug: string };
+}
+
+export function generateMetadata({ params }: RegionPageProps): Promise<Metadata> {
+  return getTagBrowseMetadata('geography', params.slug);
+}
+
+export default function RegionPage({ params }: RegionPageProps) {
+  return <TagBrowsePage type="geography" slug={params.slug} />;
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { LaunchForm } from '@/components/LaunchForm';
+import { FundraisingRound } from '@/types';
+
+interface EditRoundPageProps {
+  params: { id: string };
+}
+
+export default function EditRoundPage({ params }: EditRoundPageProps) {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [round, setRound] = useState<FundraisingRound | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      alert('Please sign in to edit this round');
+      router.push('/');
+    }
+  }, [user, authLoading, router]);
+
+  useEffect(() => {
+    const fetchRound = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { getFundraisingRound } = await import('@/lib/database');
+        const found = await getFundraisingRound(params.id);
+        if (!found) {
+          setError('This round does not exist.');
+          return;
+        }
+        setRound(found);
+      } catch (err) {
+        console.error('Error fetching round:', err);
+        setError('Failed to load this round. Please try again later.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRound();
+  }, [params.id]);
+
+  // Show loading state while checking authentication
+  if (authLoading || loading) {
+    return (
+      <main className="min-h-screen bg-white dark:bg-gray-900">
+        <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+          <div className="flex justify-center py-12">
+            <div className="text-gray-600 dark:text-gray-400">Loading...</div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  // Don't render form if not authenticated
+  if (!user) {
+    return null;
+  }
+
+  if (error || !round || round.founderId !== user.id) {
+    return (
+      <main className="min-h-screen bg-white dark:bg-gray-900">
+        <div className="mx-auto max-w-md px-4 py-8">
+          <div className="rounded-lg bg-red-50 p-4 text-center text-red-800 dark:bg-red-900 dark:text-red-200">
+            {error || 'Only the founder of this round can edit it.'}
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const handleSuccess = () => {
+    router.push(`/rounds/${round.id}`);
+    router.refresh();
+  };
+
+  return (
+    <main className="min-h-screen bg-white dark:bg-gray-900">
+      <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 text-center">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-100 sm:text-5xl">
+            Edit {round.companyName}
+          </h1>
+          <p className="mt-4 text-lg text-gray-600 dark:text-gray-400">
+            Fix details or replace your logo and deck.{' '}
+            <Link href={`/rounds/${round.id}`} className="underline hover:text-gray-900 dark:hover:text-gray-100">
+              Back to round
+            </Link>
+          </p>
+        </div>
+
+        {/* Edit Form */}
+        <LaunchForm round={round} onSuccess={handleSuccess} />
+      </div>
+    </main>
+  );
+}
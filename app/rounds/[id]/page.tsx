@@ -0,0 +1,209 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { DeckAnalyticsPanel } from '@/components/DeckAnalyticsPanel';
+import { DeckVersionHistory } from '@/components/DeckVersionHistory';
+import { DeckViewer } from '@/components/DeckViewer';
+import { RoundActions } from '@/components/RoundActions';
+import { RoundCommitments } from '@/components/RoundCommitments';
+import { RoundStatusControls } from '@/components/RoundStatusControls';
+import { TagChips } from '@/components/TagChips';
+import { formatAmount } from '@/lib/format';
+import { getLogoSrc } from '@/lib/logoVariants';
+import { ROUND_STATUS_BADGE_STYLES, ROUND_STATUS_LABELS, isRoundRaising } from '@/lib/roundStatus';
+import { describeRoundTerms } from '@/lib/roundTerms';
+import { FundraisingRound } from '@/types';
+
+// Force dynamic rendering to avoid build-time Supabase initialization
+export const dynamic = 'force-dynamic';
+
+interface RoundPageProps {
+  params: { id: string };
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const getAmountLabel = (round: FundraisingRound): string => {
+  if (round.status === 'funded') return 'Raised';
+  return isRoundRaising(round.status) ? 'Raising' : 'Was raising';
+};
+
+// Each transition the round has been through, oldest first
+const getStatusTimeline = (round: FundraisingRound): { label: string; at: string }[] =>
+  [
+    { label: 'Launched', at: round.launchedAt ?? (round.status === 'draft' ? undefined : round.createdAt) },
+    { label: 'Closing', at: round.closingAt },
+    { label: 'Closed', at: round.closedAt },
+    { label: 'Funded', at: round.fundedAt },
+    { label: 'Withdrawn', at: round.withdrawnAt },
+  ].filter((entry): entry is { label: string; at: string } => Boolean(entry.at));
+
+const loadRound = async (roundId: string) => {
+  if (!UUID_PATTERN.test(roundId)) {
+    return null;
+  }
+
+  // Lazy import to avoid build-time initialization
+  const { getFundraisingRound } = await import('@/lib/database');
+  return getFundraisingRound(roundId);
+};
+
+export async function generateMetadata({ params }: RoundPageProps): Promise<Metadata> {
+  const { isDatabaseConfigured } = await import('@/lib/database');
+  if (!isDatabaseConfigured()) {
+    return { title: 'Fundfeed' };
+  }
+
+  const round = await loadRound(params.id);
+  if (!round) {
+    return { title: 'Round not found | Fundfeed' };
+  }
+
+  return {
+    title: `${round.companyName} | Fundfeed`,
+    description: round.description.slice(0, 160),
+  };
+}
+
+export default async function RoundPage({ params }: RoundPageProps) {
+  const { getPublicProfile, isDatabaseConfigured } = await import('@/lib/database');
+
+  if (!isDatabaseConfigured()) {
+    return (
+      <main className="min-h-screen bg-white dark:bg-gray-900">
+        <div className="mx-auto max-w-md px-4 py-8">
+          <div className="rounded-lg bg-red-50 p-4 text-center text-red-800 dark:bg-red-900 dark:text-red-200">
+            Database not configured. Please set up your Supabase credentials in .env.local
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const round = await loadRound(params.id);
+  if (!round) {
+    notFound();
+  }
+
+  const founder = await getPublicProfile(round.founderId);
+  const terms = describeRoundTerms(round.terms, round.currency);
+
+  return (
+    <main className="min-h-screen bg-white dark:bg-gray-900">
+      <div className="mx-auto max-w-5xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 flex flex-col gap-6 sm:flex-row sm:items-center">
+          <div className="relative h-24 w-24 flex-shrink-0 overflow-hidden rounded-lg">
+            <Image
+              src={getLogoSrc(round, 96)}
+              alt={`${round.companyName} logo`}
+              fill
+              className="object-cover"
+              sizes="96px"
+              priority
+            />
+          </div>
+          <div>
+            <div className="flex flex-wrap items-center gap-3">
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 sm:text-4xl">
+                <Link href={`/companies/${round.companyId}`} className="hover:underline">
+                  {round.companyName}
+                </Link>
+              </h1>
+              <span
+                className={`rounded-full px-3 py-1 text-xs font-medium ${ROUND_STATUS_BADGE_STYLES[round.status]}`}
+                data-testid="round-status"
+              >
+                {ROUND_STATUS_LABELS[round.status]}
+              </span>
+            </div>
+            <p className="mt-2 text-lg text-gray-600 dark:text-gray-400" data-testid="raising-amount">
+              {getAmountLabel(round)} {formatAmount(round.raisingAmount, round.currency)}
+            </p>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400" data-testid="round-timeline">
+              {getStatusTimeline(round)
+                .map(entry => `${entry.label} ${new Date(entry.at).toLocaleDateString()}`)
+                .join(' · ')}
+            </p>
+            {round.tags && <TagChips tags={round.tags} className="mt-3" />}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-8 lg:grid-cols-3">
+          {/* Description and deck */}
+          <div className="space-y-8 lg:col-span-2">
+            <section>
+              <h2 className="mb-3 text-xl font-semibold text-gray-900 dark:text-gray-100">About the round</h2>
+              <p className="whitespace-pre-line text-gray-700 dark:text-gray-300">{round.description}</p>
+            </section>
+
+            {terms.length > 0 && (
+              <section>
+                <h2 className="mb-3 text-xl font-semibold text-gray-900 dark:text-gray-100">Terms</h2>
+                <dl className="grid grid-cols-1 gap-4 sm:grid-cols-2" data-testid="round-terms">
+                  {terms.map(term => (
+                    <div key={term.label}>
+                      <dt className="text-sm text-gray-600 dark:text-gray-400">{term.label}</dt>
+                      <dd className="font-medium text-gray-900 dark:text-gray-100">{term.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </section>
+            )}
+
+            <RoundCommitments round={round} />
+
+            <section>
+              <h2 className="mb-3 text-xl font-semibold text-gray-900 dark:text-gray-100">Pitch deck</h2>
+              <DeckViewer roundId={round.id} companyName={round.companyName} scanStatus={round.scanStatus} />
+            </section>
+
+            <DeckVersionHistory
+              roundId={round.id}
+              founderId={round.founderId}
+              deckVersion={round.deckVersion}
+              deckUpdatedAt={round.deckUpdatedAt}
+              allowPreviousDeckVersions={round.allowPreviousDeckVersions}
+            />
+
+            <DeckAnalyticsPanel roundId={round.id} founderId={round.founderId} />
+          </div>
+
+          {/* Sidebar: actions and founder */}
+          <aside className="space-y-6">
+            <div className="rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+              <RoundActions round={round} />
+            </div>
+
+            <RoundStatusControls roundId={round.id} founderId={round.founderId} status={round.status} />
+
+            {founder && (
+              <div className="rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+                <h2 className="mb-3 text-sm font-medium text-gray-600 dark:text-gray-400">Founder</h2>
+                <div className="flex items-center gap-3">
+                  {founder.photoUrl ? (
+                    <Image
+                      src={founder.photoUrl}
+                      alt={founder.displayName}
+                      width={40}
+                      height={40}
+                      className="h-10 w-10 rounded-full"
+                    />
+                  ) : (
+                    <div className="flex h-10 w-10 items-center justify-center rounded-full bg-gray-300 dark:bg-gray-700">
+                      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                        {founder.displayName?.[0]?.toUpperCase() || 'F'}
+                      </span>
+                    </div>
+                  )}
+                  <span className="font-medium text-gray-900 dark:text-gray-100">{founder.displayName}</span>
+                </div>
+              </div>
+            )}
+          </aside>
+        </div>
+      </div>
+    </main>
+  );
+}
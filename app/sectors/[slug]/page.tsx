@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import { TagBrowsePage, getTagBrowseMetadata } from '@/components/TagBrowsePage';
+
+// Force dynamic rendering to avoid build-time Supabase initialization
+export const dynamic = 'force-dynamic';
+
+interface SectorPageProps {
+  params: { slug: string };
+}
+
+export function generateMetadata({ params }: SectorPageProps): Promise<Metadata> {
+  return getTagBrowseMetadata('sector', params.slug);
+}
+
+export default function SectorPage({ params }: SectorPageProps) {
+  return <TagBrowsePage type="sector" slug={params.slug} />;
+}
@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import { TagBrowsePage, getTagBrowseMetadata } from '@/components/TagBrowsePage';
+
+// Force dynamic rendering to avoid build-time Supabase initialization
+export const dynamic = 'force-dynamic';
+
+interface StagePageProps {
+  params: { slug: string };
+}
+
+export function generateMetadata({ params }: StagePageProps): Promise<Metadata> {
+  return getTagBrowseMetadata('stage', params.slug);
+}
+
+export default function StagePage({ params }: StagePageProps) {
+  return <TagBrowsePage type="stage" slug={params.slug} />;
+}
@@ -0,0 +1,32 @@
+import React from 'react';
+import { formatAmount } from '@/lib/format';
+import { CommitmentProgress } from '@/types';
+
+interface CommitmentProgressBarProps {
+  progress: CommitmentProgress;
+  raisingAmount: number;
+  currency: string;
+}
+
+// "$600,000 of $1,500,000 committed" with a bar; an oversubscribed round shows a full bar
+export const CommitmentProgressBar: React.FC<CommitmentProgressBarProps> = ({ progress, raisingAmount, currency }) => {
+  const percent = raisingAmount > 0 ? Math.min(100, Math.round((progress.committedAmount / raisingAmount) * 100)) : 0;
+
+  return (
+    <div data-testid="commitment-progress">
+      <div
+        role="progressbar"
+        aria-label="Committed so far"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        className="h-2 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700"
+      >
+        <div className="h-full bg-green-600 dark:bg-green-500" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+        {formatAmount(progress.committedAmount, currency)} of {formatAmount(raisingAmount, currency)} committed
+      </p>
+    </div>
+  );
+};
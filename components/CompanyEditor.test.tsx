@@ -0,0 +1,89 @@
+/**
+ * Tests for CompanyEditor
+ * Feature: fundfeed-pwa, Company profiles
+ */
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { CompanyEditor } from './CompanyEditor';
+import { Company } from '@/types';
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+const mockRefresh = jest.fn();
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ refresh: mockRefresh }),
+}));
+
+const mockUpdateCompany = jest.fn();
+const mockSetCompanyTeam = jest.fn();
+
+jest.mock('@/lib/database', () => ({
+  updateCompany: (...args: unknown[]) => mockUpdateCompany(...args),
+  setCompanyTeam: (...args: unknown[]) => mockSetCompanyTeam(...args),
+}));
+
+import { useAuth } from '@/contexts/AuthContext';
+
+const company: Company = {
+  id: 'company-1',
+  founderId: 'founder-1',
+  name: 'Acme',
+  website: 'https://acme.com',
+  team: [{ id: 'member-1', name: 'Ada', title: 'CEO' }],
+  createdAt: '2025-12-30T00:00:00.000Z',
+  updatedAt: '2025-12-30T00:00:00.000Z',
+};
+
+describe('CompanyEditor', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUpdateCompany.mockResolvedValue(undefined);
+    mockSetCompanyTeam.mockResolvedValue(undefined);
+  });
+
+  it('should render nothing for anyone but the founder', () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'investor-1' } });
+
+    const { container } = render(<CompanyEditor company={company} />);
+
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('should save the details and the team in the order listed', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' } });
+
+    render(<CompanyEditor company={company} />);
+    fireEvent.click(screen.getByText('Edit company'));
+
+    fireEvent.change(screen.getByLabelText('Website'), { target: { value: 'acme.io' } });
+    fireEvent.click(screen.getByText('Add team member'));
+    fireEvent.change(screen.getByLabelText('Team member 2 name'), { target: { value: ' Grace ' } });
+    fireEvent.change(screen.getByLabelText('Team member 2 profile'), { target: { value: 'example.com/grace' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() => {
+      expect(mockRefresh).toHaveBeenCalled();
+    });
+    expect(mockUpdateCompany).toHaveBeenCalledWith('company-1', { name: 'Acme', website: 'https://acme.io' });
+    expect(mockSetCompanyTeam).toHaveBeenCalledWith('company-1', [
+      { name: 'Ada', title: 'CEO', profileUrl: undefined },
+      { name: 'Grace', title: undefined, profileUrl: 'https://example.com/grace' },
+    ]);
+  });
+
+  it('should not save a team member without a name', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' } });
+
+    render(<CompanyEditor company={company} />);
+    fireEvent.click(screen.getByText('Edit company'));
+    fireEvent.click(screen.getByText('Add team member'));
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(await screen.findByText('Every team member needs a name')).toBeTruthy();
+    expect(mockUpdateCompany).not.toHaveBeenCalled();
+    expect(mockSetCompanyTeam).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,222 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  COMPANY_TEAM_MAX_SIZE,
+  CompanyDetailsErrors,
+  TeamMemberInput,
+  normalizeWebUrl,
+  validateCompanyDetails,
+} from '@/lib/company';
+import { Company } from '@/types';
+
+interface CompanyEditorProps {
+  company: Company;
+}
+
+// Team rows as typed; blank optional fields are dropped on save
+interface TeamMemberRow {
+  name: string;
+  title: string;
+  profileUrl: string;
+}
+
+const toTeamMemberRows = (company: Company): TeamMemberRow[] =>
+  (company.team ?? []).map(member => ({
+    name: member.name,
+    title: member.title ?? '',
+    profileUrl: member.profileUrl ?? '',
+  }));
+
+const toTeamMemberInput = (row: TeamMemberRow): TeamMemberInput => ({
+  name: row.name.trim(),
+  title: row.title.trim() || undefined,
+  profileUrl: normalizeWebUrl(row.profileUrl),
+});
+
+const INPUT_CLASS_NAME =
+  'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white';
+
+// Founder-only form for the company's name, website and team. The logo is
+// replaced from the edit page of any of its rounds.
+export const CompanyEditor: React.FC<CompanyEditorProps> = ({ company }) => {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(company.name);
+  const [website, setWebsite] = useState(company.website ?? '');
+  const [team, setTeam] = useState<TeamMemberRow[]>(() => toTeamMemberRows(company));
+  const [errors, setErrors] = useState<CompanyDetailsErrors>({});
+  const [saving, setSaving] = useState(false);
+
+  if (user?.id !== company.founderId) {
+    return null;
+  }
+
+  const updateMember = (index: number, field: keyof TeamMemberRow, value: string) => {
+    setTeam(prev => prev.map((member, i) => (i === index ? { ...member, [field]: value } : member)));
+    setErrors(prev => ({ ...prev, team: undefined }));
+  };
+
+  const handleCancel = () => {
+    setName(company.name);
+    setWebsite(company.website ?? '');
+    setTeam(toTeamMemberRows(company));
+    setErrors({});
+    setEditing(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const details = {
+      name: name.trim(),
+      website: normalizeWebUrl(website),
+      team: team.map(toTeamMemberInput),
+    };
+    const newErrors = validateCompanyDetails(details);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { setCompanyTeam, updateCompany } = await import('@/lib/database');
+      await updateCompany(company.id, { name: details.name, website: details.website });
+      await setCompanyTeam(company.id, details.team);
+      setEditing(false);
+      router.refresh();
+    } catch (error) {
+      console.error('Error updating company:', error);
+      alert('Failed to save the company. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+        <button
+          onClick={() => setEditing(true)}
+          className="w-full rounded-lg bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-800 dark:bg-gray-100 dark:text-gray-900 dark:hover:bg-gray-200"
+        >
+          Edit company
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="space-y-4 rounded-lg border border-gray-200 p-4 dark:border-gray-700"
+      data-testid="company-editor"
+    >
+      <div>
+        <label htmlFor="company-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Company name
+        </label>
+        <input
+          type="text"
+          id="company-name"
+          value={name}
+          onChange={e => {
+            setName(e.target.value);
+            setErrors(prev => ({ ...prev, name: undefined }));
+          }}
+          className={INPUT_CLASS_NAME}
+        />
+        {errors.name && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.name}</p>}
+      </div>
+
+      <div>
+        <label htmlFor="company-website" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Website
+        </label>
+        <input
+          type="text"
+          id="company-website"
+          value={website}
+          onChange={e => {
+            setWebsite(e.target.value);
+            setErrors(prev => ({ ...prev, website: undefined }));
+          }}
+          className={INPUT_CLASS_NAME}
+          placeholder="acme.com"
+        />
+        {errors.website && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.website}</p>}
+      </div>
+
+      <fieldset className="space-y-3">
+        <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">Team</legend>
+        {team.map((member, index) => (
+          <div key={index} className="space-y-2 rounded-md bg-gray-50 p-3 dark:bg-gray-800">
+            <input
+              type="text"
+              aria-label={`Team member ${index + 1} name`}
+              value={member.name}
+              onChange={e => updateMember(index, 'name', e.target.value)}
+              className={INPUT_CLASS_NAME}
+              placeholder="Name"
+            />
+            <input
+              type="text"
+              aria-label={`Team member ${index + 1} title`}
+              value={member.title}
+              onChange={e => updateMember(index, 'title', e.target.value)}
+              className={INPUT_CLASS_NAME}
+              placeholder="Title, e.g. CTO"
+            />
+            <input
+              type="text"
+              aria-label={`Team member ${index + 1} profile`}
+              value={member.profileUrl}
+              onChange={e => updateMember(index, 'profileUrl', e.target.value)}
+              className={INPUT_CLASS_NAME}
+              placeholder="Profile link (optional)"
+            />
+            <button
+              type="button"
+              onClick={() => setTeam(prev => prev.filter((_, i) => i !== index))}
+              className="text-sm text-red-700 hover:underline dark:text-red-400"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        {team.length < COMPANY_TEAM_MAX_SIZE && (
+          <button
+            type="button"
+            onClick={() => setTeam(prev => [...prev, { name: '', title: '', profileUrl: '' }])}
+            className="text-sm font-medium text-gray-900 hover:underline dark:text-gray-100"
+          >
+            Add team member
+          </button>
+        )}
+        {errors.team && <p className="text-sm text-red-600 dark:text-red-400">{errors.team}</p>}
+      </fieldset>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex-1 rounded-lg bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-gray-100 dark:text-gray-900 dark:hover:bg-gray-200"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          type="button"
+          onClick={handleCancel}
+          disabled={saving}
+          className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
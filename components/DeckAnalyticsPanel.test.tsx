@@ -0,0 +1,112 @@
+/**
+ * Property-Based Tests for DeckAnalyticsPanel
+ * Feature: fundfeed-pwa, Deck view analytics for founders
+ */
+
+import * as fc from 'fast-check';
+import { render, waitFor } from '@testing-library/react';
+import { DeckAnalyticsPanel } from './DeckAnalyticsPanel';
+
+// Mock Next.js Image component
+jest.mock('next/image', () => ({
+  __esModule: true,
+  default: (props: any) => {
+    // eslint-disable-next-line @next/next/no-img-element, jsx-a11y/alt-text
+    return <img {...props} />;
+  },
+}));
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+const mockGetDeckViewStats = jest.fn();
+const mockGetRecentDeckViews = jest.fn();
+
+jest.mock('@/lib/database', () => ({
+  getDeckViewStats: (...args: unknown[]) => mockGetDeckViewStats(...args),
+  getRecentDeckViews: (...args: unknown[]) => mockGetRecentDeckViews(...args),
+}));
+
+import { useAuth } from '@/contexts/AuthContext';
+
+describe('DeckAnalyticsPanel - Property-Based Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show totals and one bar per day to the founder', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.record({ views: fc.integer({ min: 0, max: 50 }), uniqueViewers: fc.integer({ min: 0, max: 50 }) }), {
+          minLength: 1,
+          maxLength: 30,
+        }),
+        async days => {
+          (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' } });
+          const daily = days.map((day, index) => ({
+            date: new Date(Date.UTC(2025, 11, index + 1)).toISOString().slice(0, 10),
+            ...day,
+          }));
+          const totalViews = days.reduce((sum, day) => sum + day.views, 0);
+          mockGetDeckViewStats.mockResolvedValue({ totalViews, uniqueViewers: 7, daily });
+          mockGetRecentDeckViews.mockResolvedValue([]);
+
+          const { getByTestId, getAllByTestId, unmount } = render(
+            <DeckAnalyticsPanel roundId="round-1" founderId="founder-1" />
+          );
+
+          await waitFor(() => {
+            expect(getByTestId('total-views').textContent).toBe(String(totalViews));
+          });
+          expect(getByTestId('unique-viewers').textContent).toBe('7');
+
+          const bars = getAllByTestId('daily-bar');
+          expect(bars).toHaveLength(days.length);
+          // The busiest day fills the chart
+          const maxViews = Math.max(...days.map(day => day.views));
+          if (maxViews > 0) {
+            expect(bars[days.findIndex(day => day.views === maxViews)].style.height).toBe('100%');
+          }
+
+          unmount();
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should list recent viewers with where they came from', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' } });
+    mockGetDeckViewStats.mockResolvedValue({ totalViews: 1, uniqueViewers: 1, daily: [] });
+    mockGetRecentDeckViews.mockResolvedValue([
+      {
+        viewerId: 'investor-1',
+        viewedAt: '2025-12-20T10:00:00.000Z',
+        referrer: 'https://www.linkedin.com/feed/',
+        viewer: { displayName: 'Ada' },
+      },
+    ]);
+
+    const { findByText, getByText } = render(<DeckAnalyticsPanel roundId="round-1" founderId="founder-1" />);
+
+    expect(await findByText('Ada')).toBeInTheDocument();
+    expect(getByText(/via linkedin\.com/)).toBeInTheDocument();
+    expect(mockGetRecentDeckViews).toHaveBeenCalledWith('round-1', 'founder-1');
+  });
+
+  it('should render nothing and load nothing for anyone but the founder', () => {
+    fc.assert(
+      fc.property(fc.option(fc.uuid(), { nil: null }), viewerId => {
+        (useAuth as jest.Mock).mockReturnValue({ user: viewerId ? { id: viewerId } : null });
+
+        const { container, unmount } = render(<DeckAnalyticsPanel roundId="round-1" founderId="founder-1" />);
+
+        expect(container.innerHTML).toBe('');
+        expect(mockGetDeckViewStats).not.toHaveBeenCalled();
+        unmount();
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
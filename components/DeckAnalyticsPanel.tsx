@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useAuth } from '@/contexts/AuthContext';
+import { DeckView, DeckViewStats } from '@/types';
+
+interface DeckAnalyticsPanelProps {
+  roundId: string;
+  founderId: string;
+}
+
+const CHART_DAYS = 30;
+
+// "https://www.linkedin.com/feed/" -> "linkedin.com"
+const getReferrerLabel = (referrer?: string): string => {
+  if (!referrer) {
+    return 'Direct';
+  }
+  try {
+    return new URL(referrer).hostname.replace(/^www\./, '');
+  } catch {
+    return referrer;
+  }
+};
+
+// Deck views for the round's founder: totals, a daily chart and recent viewers.
+// Renders nothing for anyone else.
+export const DeckAnalyticsPanel: React.FC<DeckAnalyticsPanelProps> = ({ roundId, founderId }) => {
+  const { user } = useAuth();
+  const isFounder = user?.id === founderId;
+  const [stats, setStats] = useState<DeckViewStats | null>(null);
+  const [recentViews, setRecentViews] = useState<DeckView[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isFounder) {
+      return;
+    }
+
+    const fetchAnalytics = async () => {
+      try {
+        setError(null);
+        const { getDeckViewStats, getRecentDeckViews } = await import('@/lib/database');
+        const [viewStats, views] = await Promise.all([
+          getDeckViewStats(roundId, CHART_DAYS),
+          getRecentDeckViews(roundId, founderId),
+        ]);
+        setStats(viewStats);
+        setRecentViews(views);
+      } catch (err) {
+        console.error('Error fetching deck analytics:', err);
+        setError('Failed to load deck analytics.');
+      }
+    };
+
+    fetchAnalytics();
+  }, [isFounder, roundId, founderId]);
+
+  if (!isFounder) {
+    return null;
+  }
+
+  const maxDailyViews = Math.max(1, ...(stats?.daily.map(day => day.views) ?? []));
+
+  return (
+    <section className="rounded-lg border border-gray-200 p-4 dark:border-gray-700" data-testid="deck-analytics">
+      <h2 className="mb-4 text-xl font-semibold text-gray-900 dark:text-gray-100">Deck analytics</h2>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {!error && !stats && (
+        <div className="h-40 w-full animate-pulse rounded bg-gray-200 dark:bg-gray-700" />
+      )}
+
+      {stats && (
+        <div className="space-y-6">
+          <dl className="flex gap-8">
+            <div>
+              <dt className="text-sm text-gray-600 dark:text-gray-400">Unique viewers</dt>
+              <dd className="text-2xl font-semibold text-gray-900 dark:text-gray-100" data-testid="unique-viewers">
+                {stats.uniqueViewers}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-600 dark:text-gray-400">Total views</dt>
+              <dd className="text-2xl font-semibold text-gray-900 dark:text-gray-100" data-testid="total-views">
+                {stats.totalViews}
+              </dd>
+            </div>
+          </dl>
+
+          {/* Daily views, oldest on the left */}
+          <div>
+            <h3 className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">
+              Views per day, last {CHART_DAYS} days
+            </h3>
+            <div className="flex h-32 items-end gap-0.5" role="img" aria-label="Deck views per day">
+              {stats.daily.map(day => (
+                <div
+                  key={day.date}
+                  className="flex-1 rounded-t bg-black dark:bg-white"
+                  style={{ height: `${(day.views / maxDailyViews) * 100}%`, minHeight: day.views > 0 ? 2 : 0 }}
+                  title={`${day.date}: ${day.views} views, ${day.uniqueViewers} unique`}
+                  data-testid="daily-bar"
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">Recent viewers</h3>
+            {recentViews.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">Nobody has opened your deck yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {recentViews.map((view, index) => (
+                  <li key={`${view.viewerId}-${view.viewedAt}-${index}`} className="flex items-center gap-3 py-2">
+                    {view.viewer?.photoUrl ? (
+                      <Image
+                        src={view.viewer.photoUrl}
+                        alt={view.viewer.displayName}
+                        width={32}
+                        height={32}
+                        className="h-8 w-8 rounded-full"
+                      />
+                    ) : (
+                      <div className="flex h-8 w-8 items-center justify-center rounded-full bg-gray-300 dark:bg-gray-700">
+                        <span className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                          {view.viewer?.displayName?.[0]?.toUpperCase() || 'I'}
+                        </span>
+                      </div>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium text-gray-900 dark:text-gray-100">
+                        {view.viewer?.displayName || 'Investor'}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {new Date(view.viewedAt).toLocaleString()} · via {getReferrerLabel(view.referrer)}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
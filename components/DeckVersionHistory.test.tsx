@@ -0,0 +1,100 @@
+/**
+ * Property-Based Tests for DeckVersionHistory
+ * Feature: fundfeed-pwa, Deck version history
+ */
+
+import * as fc from 'fast-check';
+import { render, waitFor } from '@testing-library/react';
+import { DeckVersionHistory } from './DeckVersionHistory';
+import { DeckVersion } from '@/types';
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+const mockGetDeckVersions = jest.fn();
+
+jest.mock('@/lib/database', () => ({
+  getDeckVersions: (...args: unknown[]) => mockGetDeckVersions(...args),
+}));
+
+jest.mock('@/lib/deckUrl', () => ({
+  openDeckInNewTab: jest.fn(),
+}));
+
+import { useAuth } from '@/contexts/AuthContext';
+
+const makeVersions = (count: number): DeckVersion[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `version-${count - index}`,
+    roundId: 'round-1',
+    version: count - index,
+    deckPath: `round-1/${count - index}-deck.pdf`,
+    changelog: `Changes in ${count - index}`,
+    scanStatus: 'clean' as const,
+    createdAt: new Date(Date.UTC(2025, 11, count - index)).toISOString(),
+  }));
+
+describe('DeckVersionHistory - Property-Based Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should render nothing while the round has a single deck version', () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' } });
+
+    const { container } = render(
+      <DeckVersionHistory roundId="round-1" founderId="founder-1" deckVersion={1} allowPreviousDeckVersions />
+    );
+
+    expect(container.firstChild).toBeNull();
+    expect(mockGetDeckVersions).not.toHaveBeenCalled();
+  });
+
+  it('should list every version and offer earlier ones only to those allowed to open them', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 6 }),
+        fc.constantFrom('founder-1', 'investor-1', null),
+        fc.boolean(),
+        async (count, userId, allowPreviousDeckVersions) => {
+          (useAuth as jest.Mock).mockReturnValue({ user: userId ? { id: userId } : null });
+          mockGetDeckVersions.mockResolvedValue(makeVersions(count));
+
+          mockGetDeckVersions.mockClear();
+          const { getAllByTestId, getByTestId, queryAllByTestId, queryAllByText, unmount } = render(
+            <DeckVersionHistory
+              roundId="round-1"
+              founderId="founder-1"
+              deckVersion={count}
+              deckUpdatedAt={new Date().toISOString()}
+              allowPreviousDeckVersions={allowPreviousDeckVersions}
+            />
+          );
+
+          expect(getByTestId('deck-updated').textContent).toContain('Deck updated');
+
+          // Without the founder's permission, the history itself stays hidden
+          if (userId !== 'founder-1' && !allowPreviousDeckVersions) {
+            expect(mockGetDeckVersions).not.toHaveBeenCalled();
+            expect(queryAllByTestId('deck-version')).toHaveLength(0);
+            unmount();
+            return;
+          }
+
+          await waitFor(() => {
+            expect(getAllByTestId('deck-version')).toHaveLength(count);
+          });
+
+          expect(getAllByTestId('deck-version')[0].textContent).toContain('Current');
+
+          const canOpen = userId === 'founder-1' || (userId !== null && allowPreviousDeckVersions);
+          expect(queryAllByText('Open')).toHaveLength(canOpen ? count - 1 : 0);
+
+          unmount();
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+});
@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { openDeckInNewTab } from '@/lib/deckUrl';
+import { DeckVersion } from '@/types';
+
+interface DeckVersionHistoryProps {
+  roundId: string;
+  founderId: string;
+  deckVersion?: number;
+  deckUpdatedAt?: string;
+  allowPreviousDeckVersions: boolean;
+}
+
+// Every deck the founder has attached, newest first, with their changelog
+// notes. Earlier versions can be opened by the founder, and by investors if
+// the founder shares them; otherwise only the update date is shown, as the
+// database hides the list. Renders nothing until the deck has been updated.
+export const DeckVersionHistory: React.FC<DeckVersionHistoryProps> = ({
+  roundId,
+  founderId,
+  deckVersion,
+  deckUpdatedAt,
+  allowPreviousDeckVersions,
+}) => {
+  const { user } = useAuth();
+  const [versions, setVersions] = useState<DeckVersion[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const hasHistory = (deckVersion ?? 0) > 1;
+  // Mirrors the read policy on deck_versions
+  const canListVersions = user?.id === founderId || allowPreviousDeckVersions;
+
+  useEffect(() => {
+    if (!hasHistory || !canListVersions) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchVersions = async () => {
+      try {
+        const { getDeckVersions } = await import('@/lib/database');
+        const data = await getDeckVersions(roundId);
+        if (!cancelled) setVersions(data);
+      } catch (err) {
+        console.error('Error fetching deck versions:', err);
+        if (!cancelled) setError('Failed to load deck history.');
+      }
+    };
+
+    fetchVersions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hasHistory, canListVersions, roundId, deckVersion]);
+
+  if (!hasHistory) {
+    return null;
+  }
+
+  // Mirrors canViewPreviousDeckVersions(); the deck route enforces it
+  const canOpen = !!user && (user.id === founderId || allowPreviousDeckVersions);
+
+  const handleOpen = async (version: number) => {
+    try {
+      setError(null);
+      await openDeckInNewTab(roundId, version);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load pitch deck');
+    }
+  };
+
+  return (
+    <section className="rounded-lg border border-gray-200 p-4 dark:border-gray-700" data-testid="deck-version-history">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Deck history</h2>
+      {deckUpdatedAt && (
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400" data-testid="deck-updated">
+          Deck updated {new Date(deckUpdatedAt).toLocaleDateString()}
+        </p>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <ol className="mt-4 divide-y divide-gray-100 dark:divide-gray-800">
+        {versions.map(version => {
+          const isCurrent = version.version === deckVersion;
+          return (
+            <li key={version.id} className="flex items-start justify-between gap-4 py-3" data-testid="deck-version">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 dark:text-gray-100">
+                  Version {version.version}
+                  {isCurrent && (
+                    <span className="ml-2 rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                      Current
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(version.createdAt).toLocaleDateString()}
+                </p>
+                {version.changelog && (
+                  <p className="mt-1 whitespace-pre-line text-sm text-gray-700 dark:text-gray-300">{version.changelog}</p>
+                )}
+              </div>
+              {!isCurrent && canOpen && version.scanStatus === 'clean' && (
+                <button
+                  type="button"
+                  onClick={() => handleOpen(version.version)}
+                  className="flex-shrink-0 text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                >
+                  Open
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+};
@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { downloadDeck, openDeckInNewTab, requestDeckUrl } from '@/lib/deckUrl';
+import { DeckScanStatus } from '@/types';
+
+interface DeckViewerProps {
+  roundId: string;
+  companyName: string;
+  scanStatus: DeckScanStatus;
+}
+
+const SCAN_NOTICES: Record<Exclude<DeckScanStatus, 'clean'>, string> = {
+  pending: 'This pitch deck is being scanned for malware and will be available shortly.',
+  rejected:
+    'This pitch deck failed a security scan and is unavailable. If this is your round, upload a new deck from the edit page.',
+};
+
+export const DeckViewer: React.FC<DeckViewerProps> = ({ roundId, companyName, scanStatus }) => {
+  const { user, loading } = useAuth();
+  const [deckUrl, setDeckUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // The server refuses decks that haven't been scanned clean, so don't ask
+    if (!user || scanStatus !== 'clean') {
+      setDeckUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    setError(null);
+
+    requestDeckUrl(roundId)
+      .then(url => {
+        if (!cancelled) setDeckUrl(url);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, roundId, scanStatus]);
+
+  // The URL in the iframe may have expired by now, so fetch a new one
+  const handleOpenInNewTab = async () => {
+    try {
+      await openDeckInNewTab(roundId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load pitch deck');
+    }
+  };
+
+  const handleDownload = async () => {
+    try {
+      await downloadDeck(roundId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load pitch deck');
+    }
+  };
+
+  if (scanStatus !== 'clean') {
+    return (
+      <div
+        className={`rounded-lg border p-8 text-center ${
+          scanStatus === 'rejected'
+            ? 'border-red-200 bg-red-50 text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-300'
+            : 'border-gray-200 bg-gray-50 text-gray-600 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400'
+        }`}
+        data-testid="deck-scan-notice"
+      >
+        {SCAN_NOTICES[scanStatus]}
+      </div>
+    );
+  }
+
+  if (loading) {
+    return null;
+  }
+
+  if (!user || error) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-gray-50 p-8 text-center text-gray-600 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400">
+        {error || 'Sign in as an investor to view the pitch deck.'}
+      </div>
+    );
+  }
+
+  if (!deckUrl) {
+    return <div className="h-[70vh] min-h-[400px] w-full animate-pulse rounded-lg bg-gray-200 dark:bg-gray-700" />;
+  }
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-gray-200 dark:border-gray-700">
+      <iframe
+        src={deckUrl}
+        title={`${companyName} pitch deck`}
+        className="h-[70vh] min-h-[400px] w-full bg-gray-50 dark:bg-gray-800"
+        data-testid="deck-viewer"
+      />
+      <div className="flex justify-end gap-4 border-t border-gray-200 bg-gray-50 px-4 py-2 dark:border-gray-700 dark:bg-gray-800">
+        <button
+          type="button"
+          onClick={handleDownload}
+          className="text-sm font-medium text-blue-600 hover:underline dark:text-blue-400"
+        >
+          Download
+        </button>
+        <button
+          type="button"
+          onClick={handleOpenInNewTab}
+          className="text-sm font-medium text-blue-600 hover:underline dark:text-blue-400"
+        >
+          Open deck in a new tab
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useState } from 'react';
+import { RoundFilters, Tag } from '@/types';
+import { SUPPORTED_CURRENCIES } from '@/lib/format';
+import { POSTED_WITHIN_OPTIONS, hasActiveFilters } from '@/lib/feedFilters';
+import { TAG_FILTER_KEYS, TAG_TYPES, TAG_TYPE_LABELS, groupTagOptions } from '@/lib/taxonomy';
+
+interface FeedFilterBarProps {
+  filters: RoundFilters;
+  onChange: (filters: RoundFilters) => void;
+  // Taxonomy to filter by; the tag selects are hidden until it has loaded
+  tags?: Tag[];
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white';
+
+const toAmount = (value: string): number | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const amount = Number(trimmed);
+  return Number.isFinite(amount) && amount >= 0 ? Math.floor(amount) : undefined;
+};
+
+export const FeedFilterBar: React.FC<FeedFilterBarProps> = ({ filters, onChange, tags = [] }) => {
+  // Amounts are typed freely and only applied on blur or Enter, not per keystroke
+  const [minAmount, setMinAmount] = useState(filters.minAmount?.toString() ?? '');
+  const [maxAmount, setMaxAmount] = useState(filters.maxAmount?.toString() ?? '');
+
+  const applyAmounts = () => {
+    const nextMin = toAmount(minAmount);
+    const nextMax = toAmount(maxAmount);
+    if (nextMin !== filters.minAmount || nextMax !== filters.maxAmount) {
+      onChange({ ...filters, minAmount: nextMin, maxAmount: nextMax });
+    }
+  };
+
+  const handleAmountKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      applyAmounts();
+    }
+  };
+
+  const clearFilters = () => {
+    setMinAmount('');
+    setMaxAmount('');
+    onChange({});
+  };
+
+  return (
+    <div
+      className="mb-8 grid grid-cols-2 gap-4 rounded-lg border border-gray-200 bg-gray-50 p-4 dark:border-gray-700 dark:bg-gray-800 md:grid-cols-5 md:items-end"
+      data-testid="feed-filters"
+    >
+      <div>
+        <label htmlFor="filter-min-amount" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Min amount
+        </label>
+        <input
+          id="filter-min-amount"
+          type="number"
+          min="0"
+          inputMode="numeric"
+          value={minAmount}
+          onChange={e => setMinAmount(e.target.value)}
+          onBlur={applyAmounts}
+          onKeyDown={handleAmountKeyDown}
+          placeholder="Any"
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="filter-max-amount" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Max amount
+        </label>
+        <input
+          id="filter-max-amount"
+          type="number"
+          min="0"
+          inputMode="numeric"
+          value={maxAmount}
+          onChange={e => setMaxAmount(e.target.value)}
+          onBlur={applyAmounts}
+          onKeyDown={handleAmountKeyDown}
+          placeholder="Any"
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="filter-currency" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Currency
+        </label>
+        <select
+          id="filter-currency"
+          value={filters.currency ?? ''}
+          onChange={e => onChange({ ...filters, currency: e.target.value || undefined })}
+          className={inputClassName}
+        >
+          <option value="">All currencies</option>
+          {SUPPORTED_CURRENCIES.map(currency => (
+            <option key={currency} value={currency}>
+              {currency}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="filter-posted-within" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Posted
+        </label>
+        <select
+          id="filter-posted-within"
+          value={filters.postedWithinDays?.toString() ?? ''}
+          onChange={e =>
+            onChange({ ...filters, postedWithinDays: e.target.value ? Number(e.target.value) : undefined })
+          }
+          className={inputClassName}
+        >
+          <option value="">Any time</option>
+          {POSTED_WITHIN_OPTIONS.map(option => (
+            <option key={option.days} value={option.days}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {tags.length > 0 &&
+        TAG_TYPES.map(type => {
+          const key = TAG_FILTER_KEYS[type];
+          return (
+            <div key={type}>
+              <label htmlFor={`filter-${type}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                {TAG_TYPE_LABELS[type]}
+              </label>
+              <select
+                id={`filter-${type}`}
+                value={filters[key] ?? ''}
+                onChange={e => onChange({ ...filters, [key]: e.target.value || undefined })}
+                className={inputClassName}
+              >
+                <option value="">Any</option>
+                {groupTagOptions(tags, type).map(({ tag, children }) =>
+                  children.length > 0 ? (
+                    <optgroup key={tag.id} label={tag.name}>
+                      <option value={tag.slug}>{`All of ${tag.name}`}</option>
+                      {children.map(child => (
+                        <option key={child.id} value={child.slug}>
+                          {child.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ) : (
+                    <option key={tag.id} value={tag.slug}>
+                      {tag.name}
+                    </option>
+                  )
+                )}
+              </select>
+            </div>
+          );
+        })}
+
+      <button
+        type="button"
+        onClick={clearFilters}
+        disabled={!hasActiveFilters(filters) && !minAmount && !maxAmount}
+        className="col-span-2 rounded-lg bg-gray-200 px-4 py-2 text-sm font-medium text-gray-900 hover:bg-gray-300 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-gray-700 dark:text-gray-100 dark:hover:bg-gray-600 md:col-span-1"
+      >
+        Clear filters
+      </button>
+    </div>
+  );
+};
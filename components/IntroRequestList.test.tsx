@@ -0,0 +1,105 @@
+/**
+ * Property-Based Tests for IntroRequestList
+ * Feature: fundfeed-pwa, Founder intro request inbox
+ */
+
+import * as fc from 'fast-check';
+import { render, fireEvent } from '@testing-library/react';
+import { IntroRequestList } from './IntroRequestList';
+import { IntroRequest } from '@/types';
+
+// Mock Next.js Image component
+jest.mock('next/image', () => ({
+  __esModule: true,
+  default: (props: any) => {
+    // eslint-disable-next-line @next/next/no-img-element, jsx-a11y/alt-text
+    return <img {...props} />;
+  },
+}));
+
+const requestArb = fc.record({
+  id: fc.uuid(),
+  investorId: fc.uuid(),
+  roundId: fc.uuid(),
+  startupName: fc.string({ minLength: 1, maxLength: 50 }),
+  status: fc.constantFrom<IntroRequest['status']>('pending', 'accepted', 'declined'),
+  createdAt: fc.date({ min: new Date('2024-01-01'), max: new Date('2026-01-01') }).map(date => date.toISOString()),
+  investor: fc.record({
+    id: fc.uuid(),
+    email: fc.emailAddress(),
+    displayName: fc.string({ minLength: 1, maxLength: 50 }),
+    role: fc.constantFrom<'founder' | 'investor' | 'both'>('investor', 'both'),
+  }),
+});
+
+describe('IntroRequestList - Property-Based Tests', () => {
+  it('should only offer accept and decline for pending requests', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uniqueArray(requestArb, { maxLength: 10, selector: request => request.id }), async requests => {
+        const onDecision = jest.fn().mockResolvedValue(undefined);
+
+        const { container, unmount } = render(
+          <IntroRequestList requests={requests} onDecision={onDecision} />
+        );
+
+        const items = container.querySelectorAll('[data-testid="intro-request"]');
+        expect(items.length).toBe(requests.length);
+
+        requests.forEach((request, index) => {
+          const item = items[index];
+          expect(item.querySelector('[data-testid="intro-request-status"]')?.textContent).toBe(request.status);
+          expect(item.textContent).toContain(request.investor.email);
+
+          const buttons = item.querySelectorAll('button');
+          expect(buttons.length).toBe(request.status === 'pending' ? 2 : 0);
+        });
+
+        unmount();
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should report the founder decision for the clicked request', async () => {
+    await fc.assert(
+      fc.asyncProperty(requestArb, fc.constantFrom<'accepted' | 'declined'>('accepted', 'declined'), async (request, decision) => {
+        const onDecision = jest.fn().mockResolvedValue(undefined);
+
+        const { container, unmount } = render(
+          <IntroRequestList requests={[{ ...request, status: 'pending' }]} onDecision={onDecision} />
+        );
+
+        const label = decision === 'accepted' ? 'Accept' : 'Decline';
+        fireEvent.click(container.querySelector(`button[aria-label^="${label}"]`)!);
+
+        expect(onDecision).toHaveBeenCalledWith(request.id, decision);
+
+        unmount();
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should disable the actions of a request that is being updated', () => {
+    const { container } = render(
+      <IntroRequestList
+        requests={[
+          {
+            id: 'request-1',
+            investorId: 'investor-1',
+            roundId: 'round-1',
+            startupName: 'Acme',
+            status: 'pending',
+            createdAt: '2025-12-13T09:00:00.000Z',
+          },
+        ]}
+        updatingRequestId="request-1"
+        onDecision={jest.fn()}
+      />
+    );
+
+    container.querySelectorAll('button').forEach(button => {
+      expect(button).toBeDisabled();
+    });
+  });
+});
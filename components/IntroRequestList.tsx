@@ -0,0 +1,109 @@
+'use client';
+
+import React from 'react';
+import Image from 'next/image';
+import { IntroRequest } from '@/types';
+
+type IntroRequestDecision = 'accepted' | 'declined';
+
+interface IntroRequestListProps {
+  requests: IntroRequest[];
+  updatingRequestId?: string | null;
+  onDecision: (requestId: string, status: IntroRequestDecision) => Promise<void>;
+}
+
+const statusStyles: Record<IntroRequest['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  accepted: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  declined: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+export const IntroRequestList: React.FC<IntroRequestListProps> = ({
+  requests,
+  updatingRequestId,
+  onDecision,
+}) => {
+  return (
+    <ul className="space-y-4" data-testid="intro-request-list">
+      {requests.map(request => {
+        const investorName = request.investor?.displayName || request.investor?.email || 'Investor';
+        const isUpdating = updatingRequestId === request.id;
+
+        return (
+          <li
+            key={request.id}
+            className="flex flex-col gap-4 rounded-lg border border-gray-200 bg-white p-4 shadow-sm dark:border-gray-700 dark:bg-gray-800 sm:flex-row sm:items-start sm:justify-between"
+            data-testid="intro-request"
+          >
+            {/* Investor */}
+            <div className="flex items-start gap-3">
+              {request.investor?.photoUrl ? (
+                <Image
+                  src={request.investor.photoUrl}
+                  alt={investorName}
+                  width={40}
+                  height={40}
+                  className="h-10 w-10 rounded-full"
+                />
+              ) : (
+                <div className="flex h-10 w-10 items-center justify-center rounded-full bg-gray-300 dark:bg-gray-700">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    {investorName[0]?.toUpperCase()}
+                  </span>
+                </div>
+              )}
+              <div>
+                <p className="font-medium text-gray-900 dark:text-gray-100">{investorName}</p>
+                {request.investor?.email && (
+                  <a
+                    href={`mailto:${request.investor.email}`}
+                    className="text-sm text-blue-600 hover:underline dark:text-blue-400"
+                  >
+                    {request.investor.email}
+                  </a>
+                )}
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                  Requested an intro to {request.startupName} on{' '}
+                  {new Date(request.createdAt).toLocaleDateString()}
+                </p>
+                {request.message && (
+                  <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">{request.message}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Status and actions */}
+            <div className="flex items-center gap-2 sm:flex-col sm:items-end">
+              <span
+                className={`rounded-full px-3 py-1 text-xs font-medium capitalize ${statusStyles[request.status]}`}
+                data-testid="intro-request-status"
+              >
+                {request.status}
+              </span>
+              {request.status === 'pending' && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onDecision(request.id, 'accepted')}
+                    disabled={isUpdating}
+                    className="rounded-lg bg-black px-4 py-2 text-sm font-medium text-white hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-gray-200"
+                    aria-label={`Accept intro request from ${investorName}`}
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => onDecision(request.id, 'declined')}
+                    disabled={isUpdating}
+                    className="rounded-lg bg-gray-200 px-4 py-2 text-sm font-medium text-gray-900 hover:bg-gray-300 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-gray-700 dark:text-gray-100 dark:hover:bg-gray-600"
+                    aria-label={`Decline intro request from ${investorName}`}
+                  >
+                    Decline
+                  </button>
+                </div>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -34,18 +34,48 @@ jest.mock('@/lib/storage', () => ({
     }
     return { valid: true };
   }),
-  uploadRoundFiles: jest.fn().mockResolvedValue({
-    logoUrl: 'https://example.com/logo.png',
-    deckUrl: 'https://example.com/deck.pdf',
-  }),
+  uploadLogo: jest.fn(),
+  uploadDeck: jest.fn(),
+  deleteFile: jest.fn(),
+  getStoragePathFromUrl: jest.fn(),
+}));
+
+// Mock launch and database functions
+jest.mock('@/lib/launch', () => ({
+  launchFundraisingRound: jest.fn().mockResolvedValue('round-123'),
+  submitRoundFiles: jest.fn().mockResolvedValue(undefined),
+  RoundFileRejectedError: class RoundFileRejectedError extends Error {},
 }));
 
-// Mock database functions
 jest.mock('@/lib/database', () => ({
-  createFundraisingRound: jest.fn().mockResolvedValue('round-123'),
+  updateFundraisingRound: jest.fn().mockResolvedValue(undefined),
+  getTags: jest.fn().mockResolvedValue([]),
+  setRoundTags: jest.fn().mockResolvedValue(undefined),
+  getCompaniesForFounder: jest.fn().mockResolvedValue([]),
+  updateCompany: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('@/lib/confetti', () => ({
+  triggerCelebration: jest.fn(),
+}));
+
+jest.mock('@/lib/resumableUpload', () => ({
+  UploadCancelledError: class UploadCancelledError extends Error {},
+  UploadRequestError: class UploadRequestError extends Error {},
 }));
 
 import { useAuth } from '@/contexts/AuthContext';
+import {
+  getCompaniesForFounder,
+  getTags,
+  setRoundTags,
+  updateCompany,
+  updateFundraisingRound,
+} from '@/lib/database';
+import { launchFundraisingRound, submitRoundFiles } from '@/lib/launch';
+import { UploadCancelledError } from '@/lib/resumableUpload';
+import { uploadDeck, uploadLogo } from '@/lib/storage';
+import { Company, FundraisingRound, Tag } from '@/types';
 
 describe('LaunchForm - Property-Based Tests', () => {
   beforeEach(() => {
@@ -217,4 +247,390 @@ describe('LaunchForm - Property-Based Tests', () => {
       { numRuns: 50 }
     );
   }, 15000);
+
+  /**
+   * Property: Edit mode keeps the current files unless they are replaced
+   */
+  it('should pre-fill and save an existing round without requiring new files', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.record({
+          companyName: fc.string({ minLength: 1, maxLength: 100 }).filter(name => name.trim().length > 0),
+          raisingAmount: fc.integer({ min: 1, max: 100000000 }),
+          description: fc.string({ minLength: 1, maxLength: 500 }).filter(text => text.trim().length > 0),
+        }),
+        async (data) => {
+          (useAuth as jest.Mock).mockReturnValue({
+            user: { id: 'founder-1' },
+            loading: false,
+          });
+          (updateFundraisingRound as jest.Mock).mockClear();
+          (updateCompany as jest.Mock).mockClear();
+
+          const round: FundraisingRound = {
+            id: 'round-1',
+            companyId: 'company-1',
+            companyName: data.companyName,
+            logoUrl: 'https://example.com/logo.png',
+            raisingAmount: data.raisingAmount,
+            currency: 'EUR',
+            terms: {
+              instrument: 'safe',
+              valuation: data.raisingAmount * 10,
+              valuationType: 'post_money',
+              discountPercent: 20,
+              leadStatus: 'seeking_lead',
+            },
+            description: data.description,
+            deckUrl: 'https://example.com/deck.pdf',
+            founderId: 'founder-1',
+            followerCount: 0,
+            introRequestCount: 0,
+            status: 'live',
+            scanStatus: 'clean',
+            allowPreviousDeckVersions: false,
+            showCommitments: false,
+            createdAt: '2025-12-18T00:00:00.000Z',
+            updatedAt: '2025-12-18T00:00:00.000Z',
+          };
+          const mockOnSuccess = jest.fn();
+
+          const { container, unmount } = render(
+            <LaunchForm round={round} onSuccess={mockOnSuccess} />
+          );
+
+          expect((container.querySelector('#companyName') as HTMLInputElement).value).toBe(data.companyName);
+          expect((container.querySelector('#raisingAmount') as HTMLInputElement).value).toBe(String(data.raisingAmount));
+          expect((container.querySelector('#currency') as HTMLSelectElement).value).toBe('EUR');
+          expect((container.querySelector('#description') as HTMLTextAreaElement).value).toBe(data.description);
+
+          fireEvent.submit(container.querySelector('form')!);
+
+          await waitFor(() => {
+            expect(mockOnSuccess).toHaveBeenCalled();
+          }, { timeout: 500 });
+
+          expect(updateFundraisingRound).toHaveBeenCalledWith('round-1', {
+            raisingAmount: data.raisingAmount,
+            currency: 'EUR',
+            terms: round.terms,
+            description: data.description.trim(),
+            allowPreviousDeckVersions: false,
+          });
+          // The name is the company's and wasn't changed
+          expect(updateCompany).not.toHaveBeenCalled();
+          expect(uploadLogo).not.toHaveBeenCalled();
+          // No new files, so nothing for the server to verify
+          expect(submitRoundFiles).not.toHaveBeenCalled();
+          expect(uploadDeck).not.toHaveBeenCalled();
+          // Categories weren't touched
+          expect(setRoundTags).not.toHaveBeenCalled();
+
+          unmount();
+        }
+      ),
+      { numRuns: 20 }
+    );
+  }, 15000);
+
+  /**
+   * Property: The company name is the company's, so renaming it updates the company
+   */
+  it('should rename the company when the name is changed while editing', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' }, loading: false });
+    const round: FundraisingRound = {
+      id: 'round-1',
+      companyId: 'company-1',
+      companyName: 'Acme',
+      logoUrl: 'https://example.com/logo.png',
+      raisingAmount: 1000000,
+      currency: 'USD',
+      terms: {},
+      description: 'Rockets',
+      deckPath: 'round-1/deck.pdf',
+      founderId: 'founder-1',
+      followerCount: 0,
+      introRequestCount: 0,
+      status: 'live',
+      scanStatus: 'clean',
+      allowPreviousDeckVersions: false,
+      showCommitments: false,
+      createdAt: '2025-12-18T00:00:00.000Z',
+      updatedAt: '2025-12-18T00:00:00.000Z',
+    };
+    const mockOnSuccess = jest.fn();
+
+    const { container } = render(<LaunchForm round={round} onSuccess={mockOnSuccess} />);
+
+    expect(container.querySelector('#companyId')).toBeNull();
+    fireEvent.change(container.querySelector('#companyName')!, { target: { value: ' Acme Rockets ' } });
+    fireEvent.submit(container.querySelector('form')!);
+
+    await waitFor(() => {
+      expect(mockOnSuccess).toHaveBeenCalled();
+    });
+    expect(updateCompany).toHaveBeenCalledWith('company-1', { name: 'Acme Rockets' });
+    expect(getCompaniesForFounder).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Property: A round for an existing company reuses its logo
+   */
+  it('should launch for an existing company without a new logo', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' }, loading: false });
+    const companies: Company[] = [
+      {
+        id: 'company-1',
+        founderId: 'founder-1',
+        name: 'Acme',
+        logoUrl: 'https://example.com/logo.png',
+        website: 'https://acme.com',
+        createdAt: '2025-12-18T00:00:00.000Z',
+        updatedAt: '2025-12-18T00:00:00.000Z',
+      },
+    ];
+    (getCompaniesForFounder as jest.Mock).mockResolvedValueOnce(companies);
+    const mockOnSuccess = jest.fn();
+
+    const { container, findByLabelText } = render(<LaunchForm onSuccess={mockOnSuccess} />);
+
+    expect(((await findByLabelText(/Company \*/)) as HTMLSelectElement).value).toBe('company-1');
+    expect(container.querySelector('#companyName')).toBeNull();
+    fireEvent.change(container.querySelector('#raisingAmount')!, { target: { value: '2000000' } });
+    fireEvent.change(container.querySelector('#description')!, { target: { value: 'More rockets' } });
+    fireEvent.change(container.querySelector('#deck')!, {
+      target: { files: [new File(['deck'], 'deck.pdf', { type: 'application/pdf' })] },
+    });
+    fireEvent.submit(container.querySelector('form')!);
+
+    await waitFor(() => {
+      expect(mockOnSuccess).toHaveBeenCalled();
+    });
+    const [roundData, logo] = (launchFundraisingRound as jest.Mock).mock.calls[0];
+    expect(roundData.company).toEqual({ id: 'company-1' });
+    expect(logo).toBeNull();
+  });
+
+  /**
+   * Property: A new company's website is checked, and a bare domain is accepted
+   */
+  it('should create a new company with its website', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' }, loading: false });
+    const mockOnSuccess = jest.fn();
+
+    const { container, findByText } = render(<LaunchForm onSuccess={mockOnSuccess} />);
+
+    fireEvent.change(container.querySelector('#companyName')!, { target: { value: 'Acme' } });
+    fireEvent.change(container.querySelector('#website')!, { target: { value: 'not a website' } });
+    fireEvent.change(container.querySelector('#raisingAmount')!, { target: { value: '1000000' } });
+    fireEvent.change(container.querySelector('#description')!, { target: { value: 'Rockets' } });
+    fireEvent.change(container.querySelector('#logo')!, {
+      target: { files: [new File(['logo'], 'logo.png', { type: 'image/png' })] },
+    });
+    fireEvent.change(container.querySelector('#deck')!, {
+      target: { files: [new File(['deck'], 'deck.pdf', { type: 'application/pdf' })] },
+    });
+    fireEvent.submit(container.querySelector('form')!);
+
+    await findByText('Enter the company website, e.g. https://acme.com');
+    expect(launchFundraisingRound).not.toHaveBeenCalled();
+
+    fireEvent.change(container.querySelector('#website')!, { target: { value: 'acme.com' } });
+    fireEvent.submit(container.querySelector('form')!);
+
+    await waitFor(() => {
+      expect(mockOnSuccess).toHaveBeenCalled();
+    });
+    const [roundData] = (launchFundraisingRound as jest.Mock).mock.calls[0];
+    expect(roundData.company).toEqual({ name: 'Acme', website: 'https://acme.com' });
+  });
+
+  /**
+   * Property: A new company can't reuse the name of one the founder already has
+   */
+  it('should point to the existing company when a new one has the same name', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' }, loading: false });
+    (getCompaniesForFounder as jest.Mock).mockResolvedValueOnce([
+      {
+        id: 'company-1',
+        founderId: 'founder-1',
+        name: 'Acme',
+        logoUrl: 'https://example.com/logo.png',
+        createdAt: '2025-12-18T00:00:00.000Z',
+        updatedAt: '2025-12-18T00:00:00.000Z',
+      },
+    ] as Company[]);
+
+    const { container, findByLabelText, findByText } = render(<LaunchForm onSuccess={jest.fn()} />);
+
+    fireEvent.change(await findByLabelText(/Company \*/), { target: { value: '' } });
+    fireEvent.change(container.querySelector('#companyName')!, { target: { value: ' ACME ' } });
+    fireEvent.change(container.querySelector('#raisingAmount')!, { target: { value: '1000000' } });
+    fireEvent.change(container.querySelector('#description')!, { target: { value: 'Rockets' } });
+    fireEvent.change(container.querySelector('#logo')!, {
+      target: { files: [new File(['logo'], 'logo.png', { type: 'image/png' })] },
+    });
+    fireEvent.change(container.querySelector('#deck')!, {
+      target: { files: [new File(['deck'], 'deck.pdf', { type: 'application/pdf' })] },
+    });
+    fireEvent.submit(container.querySelector('form')!);
+
+    await findByText('You already have a company named Acme. Pick it from the list above');
+    expect(launchFundraisingRound).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Property: Terms that contradict each other are caught before saving
+   */
+  it('should reject a discount on a priced round', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' }, loading: false });
+    const round: FundraisingRound = {
+      id: 'round-1',
+      companyId: 'company-1',
+      companyName: 'Acme',
+      logoUrl: 'https://example.com/logo.png',
+      raisingAmount: 1000000,
+      currency: 'USD',
+      terms: {},
+      description: 'Rockets',
+      deckPath: 'round-1/deck.pdf',
+      founderId: 'founder-1',
+      followerCount: 0,
+      introRequestCount: 0,
+      status: 'live',
+      scanStatus: 'clean',
+      allowPreviousDeckVersions: false,
+      showCommitments: false,
+      createdAt: '2025-12-18T00:00:00.000Z',
+      updatedAt: '2025-12-18T00:00:00.000Z',
+    };
+
+    const { container, findByText } = render(<LaunchForm round={round} onSuccess={jest.fn()} />);
+
+    fireEvent.change(container.querySelector('#instrument')!, { target: { value: 'priced_equity' } });
+    fireEvent.change(container.querySelector('#valuation')!, { target: { value: '8000000' } });
+    fireEvent.change(container.querySelector('#valuationType')!, { target: { value: 'pre_money' } });
+    fireEvent.change(container.querySelector('#discountPercent')!, { target: { value: '20' } });
+    fireEvent.submit(container.querySelector('form')!);
+
+    expect(await findByText("Priced rounds don't have a discount")).toBeTruthy();
+    expect(updateFundraisingRound).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Property: Categories are picked from the taxonomy and only saved when changed
+   */
+  it('should offer countries under their region and save changed categories', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' }, loading: false });
+    const climate: Tag = { id: 'tag-climate', type: 'sector', slug: 'climate', name: 'Climate' };
+    const tags: Tag[] = [
+      climate,
+      { id: 'tag-fintech', type: 'sector', slug: 'fintech', name: 'Fintech' },
+      { id: 'tag-europe', type: 'geography', slug: 'europe', name: 'Europe' },
+      { id: 'tag-germany', type: 'geography', slug: 'germany', name: 'Germany', parentId: 'tag-europe' },
+    ];
+    (getTags as jest.Mock).mockResolvedValue(tags);
+    const round: FundraisingRound = {
+      id: 'round-1',
+      companyId: 'company-1',
+      companyName: 'Acme',
+      logoUrl: 'https://example.com/logo.png',
+      raisingAmount: 1000000,
+      currency: 'USD',
+      terms: {},
+      tags: [climate],
+      description: 'Rockets',
+      deckPath: 'round-1/deck.pdf',
+      founderId: 'founder-1',
+      followerCount: 0,
+      introRequestCount: 0,
+      status: 'live',
+      scanStatus: 'clean',
+      allowPreviousDeckVersions: false,
+      showCommitments: false,
+      createdAt: '2025-12-18T00:00:00.000Z',
+      updatedAt: '2025-12-18T00:00:00.000Z',
+    };
+    const mockOnSuccess = jest.fn();
+
+    const { container, findByLabelText } = render(<LaunchForm round={round} onSuccess={mockOnSuccess} />);
+
+    const sector = (await findByLabelText('Sector')) as HTMLSelectElement;
+    expect(sector.value).toBe('tag-climate');
+    const region = container.querySelector('#tag-geography optgroup[label="Europe"]');
+    expect(Array.from(region!.querySelectorAll('option')).map(option => option.value)).toEqual([
+      'tag-europe',
+      'tag-germany',
+    ]);
+
+    fireEvent.change(sector, { target: { value: 'tag-fintech' } });
+    fireEvent.change(container.querySelector('#tag-geography')!, { target: { value: 'tag-germany' } });
+    fireEvent.submit(container.querySelector('form')!);
+
+    await waitFor(() => {
+      expect(mockOnSuccess).toHaveBeenCalled();
+    });
+    expect(setRoundTags).toHaveBeenCalledWith('round-1', ['tag-fintech', 'tag-germany']);
+  });
+
+  /**
+   * Property: Uploads show their progress and can be cancelled
+   */
+  it('should show upload progress for each file and cancel the launch on request', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: 100 }), fc.integer({ min: 0, max: 100 }), async (logoPercent, deckPercent) => {
+        (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' }, loading: false });
+        const alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        // Report progress, then hold the upload open until it is cancelled
+        (launchFundraisingRound as jest.Mock).mockImplementation(
+          (_data, _logo, _deck, { onProgress, signal }) =>
+            new Promise((_, reject) => {
+              onProgress('logo', { uploaded: logoPercent, total: 100 });
+              onProgress('deck', { uploaded: deckPercent, total: 100 });
+              signal.addEventListener('abort', () => reject(new UploadCancelledError()));
+            })
+        );
+
+        const mockOnSuccess = jest.fn();
+        const { container, getByLabelText, queryByText, getByText, unmount } = render(
+          <LaunchForm onSuccess={mockOnSuccess} />
+        );
+
+        fireEvent.change(container.querySelector('#companyName')!, { target: { value: 'Acme' } });
+        fireEvent.change(container.querySelector('#raisingAmount')!, { target: { value: '1000000' } });
+        fireEvent.change(container.querySelector('#description')!, { target: { value: 'Rockets' } });
+        fireEvent.change(container.querySelector('#logo')!, {
+          target: { files: [new File(['logo'], 'logo.png', { type: 'image/png' })] },
+        });
+        fireEvent.change(container.querySelector('#deck')!, {
+          target: { files: [new File(['deck'], 'deck.pdf', { type: 'application/pdf' })] },
+        });
+        fireEvent.submit(container.querySelector('form')!);
+
+        await waitFor(() => {
+          expect(getByLabelText('Deck upload progress').getAttribute('aria-valuenow')).toBe(String(deckPercent));
+        });
+        expect(getByLabelText('Logo upload progress').getAttribute('aria-valuenow')).toBe(String(logoPercent));
+
+        const cancelButton = queryByText('Cancel upload');
+        if (logoPercent === 100 && deckPercent === 100) {
+          // Nothing left to cancel once both files are up
+          expect(cancelButton).toBeNull();
+        } else {
+          fireEvent.click(getByText('Cancel upload'));
+          await waitFor(() => {
+            expect(queryByText('Launch Fundraising Round')).not.toBeNull();
+          });
+          expect(alertSpy).not.toHaveBeenCalled();
+          expect(mockOnSuccess).not.toHaveBeenCalled();
+        }
+
+        unmount();
+        jest.restoreAllMocks();
+      }),
+      { numRuns: 20 }
+    );
+  }, 15000);
 });
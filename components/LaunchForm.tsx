@@ -1,40 +1,217 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { validateLogoFile, validateDeckFile } from '@/lib/storage';
+import { DECK_CHANGELOG_MAX_LENGTH, validateLogoFile, validateDeckFile } from '@/lib/storage';
+import type { UploadProgress } from '@/lib/resumableUpload';
+import { SUPPORTED_CURRENCIES } from '@/lib/format';
+import {
+  INSTRUMENT_LABELS,
+  LEAD_STATUS_LABELS,
+  VALUATION_TYPE_LABELS,
+  getValuationLabel,
+  validateRoundTerms,
+} from '@/lib/roundTerms';
+import { TAG_TYPES, TAG_TYPE_LABELS, groupTagOptions } from '@/lib/taxonomy';
+import { normalizeWebUrl, validateCompanyDetails } from '@/lib/company';
+import {
+  Company,
+  FundraisingRound,
+  LeadInvestorStatus,
+  RoundInstrument,
+  RoundTerms,
+  Tag,
+  TagType,
+  ValuationType,
+} from '@/types';
 
 interface LaunchFormProps {
   onSuccess: () => void;
+  // Edit this round instead of launching a new one; files become optional
+  round?: FundraisingRound;
 }
 
 interface FormData {
+  // One of the founder's companies, or '' for a new one
+  companyId: string;
   companyName: string;
+  website: string;
   raisingAmount: string;
   currency: string;
   description: string;
+  // Terms, '' when not given
+  instrument: string;
+  valuation: string;
+  valuationType: string;
+  discountPercent: string;
+  minimumCheck: string;
+  leadStatus: string;
 }
 
-interface FormErrors {
+interface FormErrors extends Partial<Record<keyof RoundTerms, string>> {
   companyName?: string;
+  website?: string;
   raisingAmount?: string;
   description?: string;
   logo?: string;
   deck?: string;
+  changelog?: string;
 }
 
-export const LaunchForm: React.FC<LaunchFormProps> = ({ onSuccess }) => {
+type UploadedFile = 'logo' | 'deck';
+
+const parseOptionalNumber = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : parseFloat(value);
+
+// Only the terms the founder filled in, so cleared ones are removed on save
+const parseRoundTerms = (formData: FormData): RoundTerms => {
+  const terms: RoundTerms = {};
+  const valuation = parseOptionalNumber(formData.valuation);
+  const discountPercent = parseOptionalNumber(formData.discountPercent);
+  const minimumCheck = parseOptionalNumber(formData.minimumCheck);
+
+  if (formData.instrument) terms.instrument = formData.instrument as RoundInstrument;
+  if (valuation !== undefined) terms.valuation = valuation;
+  if (formData.valuationType) terms.valuationType = formData.valuationType as ValuationType;
+  if (discountPercent !== undefined) terms.discountPercent = discountPercent;
+  if (minimumCheck !== undefined) terms.minimumCheck = minimumCheck;
+  if (formData.leadStatus) terms.leadStatus = formData.leadStatus as LeadInvestorStatus;
+  return terms;
+};
+
+const toFormValue = (value: number | undefined): string => (value === undefined ? '' : String(value));
+
+// Selected tag id of each type
+type TagSelection = Partial<Record<TagType, string>>;
+
+const toTagSelection = (tags: Tag[] = []): TagSelection =>
+  Object.fromEntries(tags.map(tag => [tag.type, tag.id]));
+
+const getSelectedTagIds = (selection: TagSelection): string[] =>
+  TAG_TYPES.map(type => selection[type]).filter((id): id is string => Boolean(id));
+
+const UploadProgressBar: React.FC<{ label: string; progress: UploadProgress }> = ({ label, progress }) => {
+  const percent = progress.total > 0 ? Math.round((progress.uploaded / progress.total) * 100) : 100;
+  return (
+    <div className="mt-2 flex items-center gap-3">
+      <div
+        role="progressbar"
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        className="h-2 flex-1 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700"
+      >
+        <div className="h-full bg-black transition-all dark:bg-white" style={{ width: `${percent}%` }} />
+      </div>
+      <span className="w-10 text-right text-xs text-gray-600 dark:text-gray-400">{percent}%</span>
+    </div>
+  );
+};
+
+export const LaunchForm: React.FC<LaunchFormProps> = ({ onSuccess, round }) => {
   const { user } = useAuth();
+  const isEditing = Boolean(round);
   const [formData, setFormData] = useState<FormData>({
-    companyName: '',
-    raisingAmount: '',
-    currency: 'USD',
-    description: '',
+    companyId: round?.companyId ?? '',
+    companyName: round?.companyName ?? '',
+    website: '',
+    raisingAmount: round ? String(round.raisingAmount) : '',
+    currency: round?.currency ?? 'USD',
+    description: round?.description ?? '',
+    instrument: round?.terms.instrument ?? '',
+    valuation: toFormValue(round?.terms.valuation),
+    valuationType: round?.terms.valuationType ?? '',
+    discountPercent: toFormValue(round?.terms.discountPercent),
+    minimumCheck: toFormValue(round?.terms.minimumCheck),
+    leadStatus: round?.terms.leadStatus ?? '',
   });
   const [logoFile, setLogoFile] = useState<File | null>(null);
   const [deckFile, setDeckFile] = useState<File | null>(null);
+  // Only used when editing: notes for a replaced deck, and sharing of earlier versions
+  const [changelog, setChangelog] = useState('');
+  const [allowPreviousDeckVersions, setAllowPreviousDeckVersions] = useState(
+    round?.allowPreviousDeckVersions ?? false
+  );
+  // The founder's companies, offered when launching
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [availableTags, setAvailableTags] = useState<Tag[]>([]);
+  const [tagSelection, setTagSelection] = useState<TagSelection>(() => toTagSelection(round?.tags));
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Set while files upload, so the founder can cancel
+  const [uploadController, setUploadController] = useState<AbortController | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<Partial<Record<UploadedFile, UploadProgress>>>({});
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        const { getTags } = await import('@/lib/database');
+        setAvailableTags(await getTags());
+      } catch (error) {
+        console.error('Error fetching tags:', error);
+      }
+    };
+
+    fetchTags();
+  }, []);
+
+  useEffect(() => {
+    if (isEditing || !user) {
+      return;
+    }
+
+    const fetchCompanies = async () => {
+      try {
+        const { getCompaniesForFounder } = await import('@/lib/database');
+        const founderCompanies = await getCompaniesForFounder(user.id);
+        setCompanies(founderCompanies);
+        // Most founders raise again for the same company
+        if (founderCompanies.length > 0) {
+          setFormData(prev => ({ ...prev, companyId: prev.companyId || founderCompanies[0].id }));
+        }
+      } catch (error) {
+        console.error('Error fetching companies:', error);
+      }
+    };
+
+    fetchCompanies();
+  }, [isEditing, user]);
+
+  // Launching for an existing company, which keeps its name, website and logo
+  const selectedCompany = isEditing ? undefined : companies.find(company => company.id === formData.companyId);
+
+  const startUpload = () => {
+    const controller = new AbortController();
+    setUploadController(controller);
+    setUploadProgress({});
+    return {
+      signal: controller.signal,
+      onProgress: (file: UploadedFile, progress: UploadProgress) =>
+        setUploadProgress(prev => ({ ...prev, [file]: progress })),
+    };
+  };
+
+  const finishUpload = () => {
+    setUploadController(null);
+    setUploadProgress({});
+  };
+
+  // Alert for a failed launch or save; a cancelled upload needs none
+  const alertFailure = async (error: unknown, fallback: string) => {
+    const { RoundFileRejectedError } = await import('@/lib/launch');
+    const { UploadCancelledError, UploadRequestError } = await import('@/lib/resumableUpload');
+    if (error instanceof UploadCancelledError) {
+      return;
+    }
+    if (error instanceof RoundFileRejectedError) {
+      alert(error.message);
+    } else if (error instanceof UploadRequestError) {
+      alert('Uploading your files failed. Check your connection and try again.');
+    } else {
+      alert(fallback);
+    }
+  };
 
   // Handle text input changes
   const handleInputChange = (
@@ -82,8 +259,20 @@ export const LaunchForm: React.FC<LaunchFormProps> = ({ onSuccess }) => {
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {};
 
-    if (!formData.companyName.trim()) {
-      newErrors.companyName = 'Company name is required';
+    if (!selectedCompany) {
+      const { name, website } = validateCompanyDetails({
+        name: formData.companyName,
+        website: isEditing ? undefined : normalizeWebUrl(formData.website),
+      });
+      if (name) newErrors.companyName = name;
+      if (website) newErrors.website = website;
+
+      // Names are unique per founder, ignoring case
+      const companyName = formData.companyName.trim().toLowerCase();
+      const existingCompany = companies.find(company => company.name.trim().toLowerCase() === companyName);
+      if (!name && !isEditing && existingCompany) {
+        newErrors.companyName = `You already have a company named ${existingCompany.name}. Pick it from the list above`;
+      }
     }
 
     if (!formData.raisingAmount || parseFloat(formData.raisingAmount) <= 0) {
@@ -94,24 +283,107 @@ export const LaunchForm: React.FC<LaunchFormProps> = ({ onSuccess }) => {
       newErrors.description = 'Description is required';
     }
 
-    if (!logoFile) {
+    Object.assign(newErrors, validateRoundTerms(parseRoundTerms(formData), parseFloat(formData.raisingAmount)));
+
+    // When editing, the current logo and deck are kept unless replaced
+    if (!logoFile && !isEditing && !selectedCompany?.logoUrl) {
       newErrors.logo = 'Logo is required';
     }
 
-    if (!deckFile) {
+    if (!deckFile && !isEditing) {
       newErrors.deck = 'Pitch deck is required';
     }
 
+    if (changelog.trim().length > DECK_CHANGELOG_MAX_LENGTH) {
+      newErrors.changelog = `Keep the changelog under ${DECK_CHANGELOG_MAX_LENGTH} characters`;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  // Save edits to an existing round, uploading only the files that were replaced
+  const handleUpdate = async (existing: FundraisingRound) => {
+    setIsSubmitting(true);
+
+    try {
+      const { uploadLogo, uploadDeck, deleteFile, getStoragePathFromUrl } = await import('@/lib/storage');
+      const { setRoundTags, updateCompany, updateFundraisingRound } = await import('@/lib/database');
+      const { submitRoundFiles } = await import('@/lib/launch');
+
+      const { signal, onProgress } = startUpload();
+      const [logoResult, deckResult] = await Promise.all([
+        logoFile ? uploadLogo(existing.id, logoFile, { signal, onProgress: progress => onProgress('logo', progress) }) : null,
+        deckFile ? uploadDeck(existing.id, deckFile, { signal, onProgress: progress => onProgress('deck', progress) }) : null,
+      ]);
+
+      // Renaming the company renames all its rounds
+      const companyName = formData.companyName.trim();
+      if (companyName !== existing.companyName.trim()) {
+        await updateCompany(existing.companyId, { name: companyName });
+      }
+
+      await updateFundraisingRound(existing.id, {
+        raisingAmount: parseFloat(formData.raisingAmount),
+        currency: formData.currency,
+        terms: parseRoundTerms(formData),
+        description: formData.description.trim(),
+        allowPreviousDeckVersions,
+      });
+
+      const tagIds = getSelectedTagIds(tagSelection);
+      const currentTagIds = getSelectedTagIds(toTagSelection(existing.tags));
+      if (tagIds.join() !== currentTagIds.join()) {
+        await setRoundTags(existing.id, tagIds);
+      }
+
+      // New files are checked by the server before the round points at them;
+      // a new deck becomes the next version, and the old one stays in the history
+      if (logoResult || deckResult) {
+        await submitRoundFiles(existing.id, {
+          ...(logoResult && { logoPath: logoResult.path }),
+          ...(deckResult && {
+            deckPath: deckResult.path,
+            deckFilename: deckResult.filename,
+            changelog: changelog.trim(),
+          }),
+        });
+      }
+
+      // Remove replaced files; a leftover file is harmless, so failures are only logged
+      const replaced: { path: string | null; bucket?: string }[] = [];
+      const existingLogoPath = getStoragePathFromUrl(existing.logoUrl);
+      if (logoResult && existingLogoPath !== logoResult.path) {
+        replaced.push({ path: existingLogoPath });
+      }
+      if (deckResult && existing.deckUrl) {
+        // Legacy deck in the public bucket
+        replaced.push({ path: getStoragePathFromUrl(existing.deckUrl) });
+      }
+      await Promise.all(
+        replaced
+          .filter((file): file is { path: string; bucket?: string } => Boolean(file.path))
+          .map(file =>
+            deleteFile(file.path, file.bucket).catch(err => console.error('Error deleting replaced file:', err))
+          )
+      );
+
+      onSuccess();
+    } catch (error) {
+      console.error('Error updating fundraising round:', error);
+      await alertFailure(error, 'Failed to save changes. Please try again.');
+    } finally {
+      finishUpload();
+      setIsSubmitting(false);
+    }
+  };
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!user) {
-      alert('Please sign in to launch a fundraising round');
+      alert(isEditing ? 'Please sign in to edit this round' : 'Please sign in to launch a fundraising round');
       return;
     }
 
@@ -119,34 +391,35 @@ export const LaunchForm: React.FC<LaunchFormProps> = ({ onSuccess }) => {
       return;
     }
 
+    if (round) {
+      await handleUpdate(round);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
       // Import functions dynamically to avoid circular dependencies
-      const { uploadRoundFiles } = await import('@/lib/storage');
-      const { createFundraisingRound } = await import('@/lib/database');
-
-      // Generate a temporary ID for the round
-      const tempRoundId = `temp-${Date.now()}`;
-
-      // Upload files
-      const { logoUrl, deckUrl } = await uploadRoundFiles(
-        tempRoundId,
-        logoFile!,
-        deckFile!
+      const { launchFundraisingRound } = await import('@/lib/launch');
+
+      // Reserve the round, upload files under its id, then make it live
+      await launchFundraisingRound(
+        {
+          company: selectedCompany
+            ? { id: selectedCompany.id }
+            : { name: formData.companyName.trim(), website: normalizeWebUrl(formData.website) },
+          raisingAmount: parseFloat(formData.raisingAmount),
+          currency: formData.currency,
+          terms: parseRoundTerms(formData),
+          description: formData.description.trim(),
+          founderId: user.id,
+          tagIds: getSelectedTagIds(tagSelection),
+        },
+        logoFile,
+        deckFile!,
+        startUpload()
       );
 
-      // Create fundraising round
-      await createFundraisingRound({
-        companyName: formData.companyName.trim(),
-        logoUrl,
-        raisingAmount: parseFloat(formData.raisingAmount),
-        currency: formData.currency,
-        description: formData.description.trim(),
-        deckUrl,
-        founderId: user.id,
-      });
-
       // Trigger confetti animation
       const { triggerCelebration } = await import('@/lib/confetti');
       triggerCelebration();
@@ -155,35 +428,99 @@ export const LaunchForm: React.FC<LaunchFormProps> = ({ onSuccess }) => {
       onSuccess();
     } catch (error) {
       console.error('Error creating fundraising round:', error);
-      alert('Failed to create fundraising round. Please try again.');
+      await alertFailure(error, 'Failed to create fundraising round. Please try again.');
     } finally {
+      finishUpload();
       setIsSubmitting(false);
     }
   };
 
+  // Cancelling is only offered until every selected file has been uploaded
+  const uploadsFinished = ([logoFile && 'logo', deckFile && 'deck'].filter(Boolean) as UploadedFile[]).every(
+    file => {
+      const progress = uploadProgress[file];
+      return progress !== undefined && progress.uploaded >= progress.total;
+    }
+  );
+
   return (
     <form onSubmit={handleSubmit} className="mx-auto max-w-2xl space-y-6">
-      {/* Company Name */}
-      <div>
-        <label
-          htmlFor="companyName"
-          className="block text-sm font-medium text-gray-700 dark:text-gray-300"
-        >
-          Company Name *
-        </label>
-        <input
-          type="text"
-          id="companyName"
-          name="companyName"
-          value={formData.companyName}
-          onChange={handleInputChange}
-          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
-          placeholder="Enter your company name"
-        />
-        {errors.companyName && (
-          <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.companyName}</p>
-        )}
-      </div>
+      {/* Company */}
+      {companies.length > 0 && (
+        <div>
+          <label
+            htmlFor="companyId"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            Company *
+          </label>
+          <select
+            id="companyId"
+            name="companyId"
+            value={formData.companyId}
+            onChange={handleInputChange}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+          >
+            {companies.map(company => (
+              <option key={company.id} value={company.id}>
+                {company.name}
+              </option>
+            ))}
+            <option value="">New company</option>
+          </select>
+        </div>
+      )}
+
+      {!selectedCompany && (
+        <div>
+          <label
+            htmlFor="companyName"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            Company Name *
+          </label>
+          <input
+            type="text"
+            id="companyName"
+            name="companyName"
+            value={formData.companyName}
+            onChange={handleInputChange}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+            placeholder="Enter your company name"
+          />
+          {isEditing && (
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              The name is the company&apos;s, so every round of it is renamed
+            </p>
+          )}
+          {errors.companyName && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.companyName}</p>
+          )}
+        </div>
+      )}
+
+      {!isEditing && !selectedCompany && (
+        <div>
+          <label
+            htmlFor="website"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            Website
+          </label>
+          <input
+            type="text"
+            id="website"
+            name="website"
+            value={formData.website}
+            onChange={handleInputChange}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+            placeholder="acme.com"
+          />
+          {errors.website && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.website}</p>
+          )}
+        </div>
+      )}
 
       {/* Raising Amount */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
@@ -224,15 +561,194 @@ export const LaunchForm: React.FC<LaunchFormProps> = ({ onSuccess }) => {
             onChange={handleInputChange}
             className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
           >
-            <option value="USD">USD</option>
-            <option value="EUR">EUR</option>
-            <option value="GBP">GBP</option>
-            <option value="JPY">JPY</option>
-            <option value="INR">INR</option>
+            {SUPPORTED_CURRENCIES.map(currency => (
+              <option key={currency} value={currency}>
+                {currency}
+              </option>
+            ))}
           </select>
         </div>
       </div>
 
+      {/* Round terms */}
+      <fieldset className="space-y-4 rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+        <legend className="px-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+          Round terms (optional, in {formData.currency})
+        </legend>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="instrument" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Instrument
+            </label>
+            <select
+              id="instrument"
+              name="instrument"
+              value={formData.instrument}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+            >
+              <option value="">Not specified</option>
+              {Object.entries(INSTRUMENT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {errors.instrument && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.instrument}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="leadStatus" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Lead investor
+            </label>
+            <select
+              id="leadStatus"
+              name="leadStatus"
+              value={formData.leadStatus}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+            >
+              <option value="">Not specified</option>
+              {Object.entries(LEAD_STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="valuation" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              {getValuationLabel((formData.instrument || undefined) as RoundInstrument | undefined)}
+            </label>
+            <input
+              type="number"
+              id="valuation"
+              name="valuation"
+              value={formData.valuation}
+              onChange={handleInputChange}
+              min="0"
+              step="1000"
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+              placeholder="10000000"
+            />
+            {errors.valuation && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.valuation}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="valuationType" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Pre- or post-money
+            </label>
+            <select
+              id="valuationType"
+              name="valuationType"
+              value={formData.valuationType}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+            >
+              <option value="">Not specified</option>
+              {Object.entries(VALUATION_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {errors.valuationType && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.valuationType}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="discountPercent" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Discount (%)
+            </label>
+            <input
+              type="number"
+              id="discountPercent"
+              name="discountPercent"
+              value={formData.discountPercent}
+              onChange={handleInputChange}
+              min="0"
+              max="100"
+              step="0.01"
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+              placeholder="20"
+            />
+            {errors.discountPercent && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.discountPercent}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="minimumCheck" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Minimum check
+            </label>
+            <input
+              type="number"
+              id="minimumCheck"
+              name="minimumCheck"
+              value={formData.minimumCheck}
+              onChange={handleInputChange}
+              min="0"
+              step="1000"
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+              placeholder="25000"
+            />
+            {errors.minimumCheck && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.minimumCheck}</p>
+            )}
+          </div>
+        </div>
+      </fieldset>
+
+      {/* Categories */}
+      {availableTags.length > 0 && (
+        <fieldset className="space-y-4 rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+          <legend className="px-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+            Categories (optional, helps investors find your round)
+          </legend>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            {TAG_TYPES.map(type => (
+              <div key={type}>
+                <label htmlFor={`tag-${type}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {TAG_TYPE_LABELS[type]}
+                </label>
+                <select
+                  id={`tag-${type}`}
+                  value={tagSelection[type] ?? ''}
+                  onChange={e => setTagSelection(prev => ({ ...prev, [type]: e.target.value || undefined }))}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+                >
+                  <option value="">Not specified</option>
+                  {groupTagOptions(availableTags, type).map(({ tag, children }) =>
+                    children.length > 0 ? (
+                      <optgroup key={tag.id} label={tag.name}>
+                        <option value={tag.id}>{`${tag.name} (anywhere)`}</option>
+                        {children.map(child => (
+                          <option key={child.id} value={child.id}>
+                            {child.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ) : (
+                      <option key={tag.id} value={tag.id}>
+                        {tag.name}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
       {/* Description */}
       <div>
         <label
@@ -261,7 +777,7 @@ export const LaunchForm: React.FC<LaunchFormProps> = ({ onSuccess }) => {
           htmlFor="logo"
           className="block text-sm font-medium text-gray-700 dark:text-gray-300"
         >
-          Company Logo * (PNG, JPG, WEBP - Max 5MB)
+          Company Logo {isEditing || selectedCompany?.logoUrl ? '' : '* '}(PNG, JPG, WEBP - Max 5MB)
         </label>
         <input
           type="file"
@@ -275,6 +791,14 @@ export const LaunchForm: React.FC<LaunchFormProps> = ({ onSuccess }) => {
             Selected: {logoFile.name}
           </p>
         )}
+        {logoFile && uploadProgress.logo && (
+          <UploadProgressBar label="Logo upload progress" progress={uploadProgress.logo} />
+        )}
+        {!logoFile && (isEditing || selectedCompany?.logoUrl) && (
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Leave empty to keep the current logo
+          </p>
+        )}
         {errors.logo && (
           <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.logo}</p>
         )}
@@ -286,7 +810,7 @@ export const LaunchForm: React.FC<LaunchFormProps> = ({ onSuccess }) => {
           htmlFor="deck"
           className="block text-sm font-medium text-gray-700 dark:text-gray-300"
         >
-          Pitch Deck * (PDF - Max 10MB)
+          Pitch Deck {isEditing ? '' : '* '}(PDF - Max 10MB)
         </label>
         <input
           type="file"
@@ -300,19 +824,80 @@ export const LaunchForm: React.FC<LaunchFormProps> = ({ onSuccess }) => {
             Selected: {deckFile.name}
           </p>
         )}
+        {deckFile && uploadProgress.deck && (
+          <UploadProgressBar label="Deck upload progress" progress={uploadProgress.deck} />
+        )}
+        {!deckFile && isEditing && (
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Leave empty to keep the current deck
+          </p>
+        )}
         {errors.deck && (
           <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.deck}</p>
         )}
       </div>
 
+      {/* Deck versions, when editing */}
+      {isEditing && deckFile && (
+        <div>
+          <label
+            htmlFor="changelog"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            What changed in this deck?
+          </label>
+          <textarea
+            id="changelog"
+            name="changelog"
+            value={changelog}
+            onChange={e => {
+              setChangelog(e.target.value);
+              setErrors(prev => ({ ...prev, changelog: undefined }));
+            }}
+            rows={2}
+            maxLength={DECK_CHANGELOG_MAX_LENGTH}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+            placeholder="e.g. Updated traction numbers for Q4"
+          />
+          {errors.changelog && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.changelog}</p>
+          )}
+        </div>
+      )}
+
+      {isEditing && (
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={allowPreviousDeckVersions}
+            onChange={e => setAllowPreviousDeckVersions(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+          Let investors view earlier versions of the deck
+        </label>
+      )}
+
       {/* Submit Button */}
-      <div className="flex justify-end">
+      <div className="flex justify-end gap-3">
+        {uploadController && !uploadsFinished && (
+          <button
+            type="button"
+            onClick={() => uploadController.abort()}
+            className="rounded-lg border border-gray-300 px-6 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+          >
+            Cancel upload
+          </button>
+        )}
         <button
           type="submit"
           disabled={isSubmitting}
           className="rounded-lg bg-black px-6 py-3 text-sm font-medium text-white hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-gray-200"
         >
-          {isSubmitting ? 'Launching...' : 'Launch Fundraising Round'}
+          {isSubmitting && uploadController && !uploadsFinished
+            ? 'Uploading...'
+            : isEditing
+              ? isSubmitting ? 'Saving...' : 'Save Changes'
+              : isSubmitting ? 'Launching...' : 'Launch Fundraising Round'}
         </button>
       </div>
     </form>
@@ -4,6 +4,7 @@ import React from 'react';
 import Link from 'next/link';
 import { AuthButton } from './AuthButton';
 import ThemeToggle from './ThemeToggle';
+import { SearchBar } from './SearchBar';
 
 export const Navigation: React.FC = () => {
   return (
@@ -34,10 +35,19 @@ export const Navigation: React.FC = () => {
             >
               Launch Round
             </Link>
+            <Link
+              href="/dashboard/intros"
+              className="text-gray-700 hover:text-gray-900 dark:text-gray-300 dark:hover:text-gray-100"
+            >
+              Intro Requests
+            </Link>
           </div>
 
-          {/* Right side: Theme Toggle and Auth Button */}
+          {/* Right side: Search, Theme Toggle and Auth Button */}
           <div className="flex items-center space-x-4">
+            <div className="hidden sm:block">
+              <SearchBar />
+            </div>
             <ThemeToggle />
             <AuthButton />
           </div>
@@ -2,6 +2,7 @@
 
 import React, { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { fetchWithAuth } from '@/lib/auth';
 
 interface RequestIntroButtonProps {
   roundId: string;
@@ -31,17 +32,13 @@ export const RequestIntroButton: React.FC<RequestIntroButtonProps> = ({
     setIsLoading(true);
 
     try {
-      // Call API route to create intro request
-      const response = await fetch('/api/intro-request', {
+      // Call API route to create intro request; the investor is taken from the session
+      const response = await fetchWithAuth('/api/intro-request', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          roundId,
-          startupName,
-          userId: user.id,
-        }),
+        body: JSON.stringify({ roundId }),
       });
 
       if (!response.ok) {
@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { isRoundRaising } from '@/lib/roundStatus';
+import { FundraisingRound } from '@/types';
+import { FollowButton } from './FollowButton';
+import { RequestIntroButton } from './RequestIntroButton';
+
+interface RoundActionsProps {
+  round: Pick<FundraisingRound, 'id' | 'companyName' | 'founderId' | 'followerCount' | 'introRequestCount' | 'status'>;
+}
+
+// Follower and intro counts plus the Follow and Request Intro actions for a
+// single round. The page around it is server-rendered, so the signed-in
+// user's follow and intro state is loaded here on the client.
+export const RoundActions: React.FC<RoundActionsProps> = ({ round }) => {
+  const { user } = useAuth();
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [hasRequestedIntro, setHasRequestedIntro] = useState(false);
+  const [followerCount, setFollowerCount] = useState(round.followerCount);
+
+  useEffect(() => {
+    if (!user) {
+      setIsFollowing(false);
+      setHasRequestedIntro(false);
+      return;
+    }
+
+    const fetchUserState = async () => {
+      try {
+        const { getUserProfile, hasIntroRequest } = await import('@/lib/database');
+        const [userProfile, requested] = await Promise.all([
+          getUserProfile(user.id),
+          hasIntroRequest(user.id, round.id),
+        ]);
+        setIsFollowing(Boolean(userProfile?.followedRounds.includes(round.id)));
+        setHasRequestedIntro(requested);
+      } catch (err) {
+        console.error('Error fetching follow and intro state:', err);
+      }
+    };
+
+    fetchUserState();
+  }, [user, round.id]);
+
+  const handleFollowToggle = async () => {
+    if (!user) {
+      return;
+    }
+
+    const { followRound, unfollowRound } = await import('@/lib/database');
+
+    if (isFollowing) {
+      await unfollowRound(user.id, round.id);
+      setIsFollowing(false);
+      setFollowerCount(count => Math.max(count - 1, 0));
+    } else {
+      await followRound(user.id, round.id);
+      setIsFollowing(true);
+      setFollowerCount(count => count + 1);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Engagement counts */}
+      <dl className="flex gap-8">
+        <div>
+          <dt className="text-sm text-gray-600 dark:text-gray-400">Followers</dt>
+          <dd className="text-2xl font-semibold text-gray-900 dark:text-gray-100" data-testid="follower-count">
+            {followerCount}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-sm text-gray-600 dark:text-gray-400">Intro requests</dt>
+          <dd className="text-2xl font-semibold text-gray-900 dark:text-gray-100" data-testid="intro-request-count">
+            {round.introRequestCount}
+          </dd>
+        </div>
+      </dl>
+
+      {/* Action Buttons */}
+      <div className="flex flex-col gap-2 sm:flex-row sm:gap-3">
+        <FollowButton roundId={round.id} isFollowing={isFollowing} onToggle={handleFollowToggle} />
+        {/* Remount when the loaded intro state changes, the button keeps its own copy */}
+        {isRoundRaising(round.status) && (
+          <RequestIntroButton
+            key={String(hasRequestedIntro)}
+            roundId={round.id}
+            startupName={round.companyName}
+            hasRequested={hasRequestedIntro}
+          />
+        )}
+      </div>
+
+      {!isRoundRaising(round.status) && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">This round is no longer taking intro requests.</p>
+      )}
+
+      {/* Founder-only edit link */}
+      {user?.id === round.founderId && (
+        <Link
+          href={`/rounds/${round.id}/edit`}
+          className="block rounded-lg border border-gray-300 px-4 py-2 text-center text-sm font-medium text-gray-900 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-100 dark:hover:bg-gray-800"
+        >
+          Edit round
+        </Link>
+      )}
+    </div>
+  );
+};
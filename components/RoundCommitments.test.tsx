@@ -0,0 +1,106 @@
+/**
+ * Tests for RoundCommitments
+ * Feature: fundfeed-pwa, Soft commitments
+ */
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { RoundCommitments } from './RoundCommitments';
+import { FundraisingRound } from '@/types';
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+const mockGetCommitmentProgress = jest.fn();
+const mockGetRoundCommitments = jest.fn();
+const mockGetInvestorCommitment = jest.fn();
+const mockSaveCommitment = jest.fn();
+const mockUpdateFundraisingRound = jest.fn();
+
+jest.mock('@/lib/database', () => ({
+  getCommitmentProgress: (...args: unknown[]) => mockGetCommitmentProgress(...args),
+  getRoundCommitments: (...args: unknown[]) => mockGetRoundCommitments(...args),
+  getInvestorCommitment: (...args: unknown[]) => mockGetInvestorCommitment(...args),
+  saveCommitment: (...args: unknown[]) => mockSaveCommitment(...args),
+  withdrawCommitment: jest.fn(),
+  updateFundraisingRound: (...args: unknown[]) => mockUpdateFundraisingRound(...args),
+}));
+
+import { useAuth } from '@/contexts/AuthContext';
+
+const round: Pick<FundraisingRound, 'id' | 'founderId' | 'raisingAmount' | 'currency' | 'status' | 'showCommitments'> = {
+  id: 'round-1',
+  founderId: 'founder-1',
+  raisingAmount: 1500000,
+  currency: 'USD',
+  status: 'live',
+  showCommitments: false,
+};
+
+describe('RoundCommitments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetCommitmentProgress.mockResolvedValue({});
+    mockGetRoundCommitments.mockResolvedValue([]);
+    mockGetInvestorCommitment.mockResolvedValue(null);
+    mockSaveCommitment.mockResolvedValue(undefined);
+    mockUpdateFundraisingRound.mockResolvedValue(undefined);
+  });
+
+  it('should show nothing to visitors while the total is private', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: null });
+
+    const { container } = render(<RoundCommitments round={round} />);
+
+    await waitFor(() => expect(mockGetCommitmentProgress).toHaveBeenCalledWith(['round-1']));
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('should show the founder every commitment and let them publish the total', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' } });
+    mockGetCommitmentProgress.mockResolvedValue({
+      'round-1': { roundId: 'round-1', committedAmount: 600000, commitmentCount: 2 },
+    });
+    mockGetRoundCommitments.mockResolvedValue([
+      { id: 'c-1', roundId: 'round-1', investorId: 'i-1', amount: 500000, createdAt: '', updatedAt: '', investor: { displayName: 'Ada' } },
+      { id: 'c-2', roundId: 'round-1', investorId: 'i-2', amount: 100000, createdAt: '', updatedAt: '', investor: { displayName: 'Grace' } },
+    ]);
+
+    render(<RoundCommitments round={round} />);
+
+    expect(await screen.findByText('$600,000 of $1,500,000 committed')).toBeTruthy();
+    expect((await screen.findAllByTestId('commitment')).map(item => item.textContent)).toEqual([
+      'Ada$500,000',
+      'Grace$100,000',
+    ]);
+    expect(screen.queryByLabelText(/Soft-circle/)).toBeNull();
+
+    fireEvent.click(screen.getByRole('checkbox'));
+    await waitFor(() =>
+      expect(mockUpdateFundraisingRound).toHaveBeenCalledWith('round-1', { showCommitments: true })
+    );
+  });
+
+  it('should let an investor soft-circle an amount and refresh the total', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'investor-1' } });
+
+    render(<RoundCommitments round={round} />);
+
+    const input = await screen.findByLabelText('Soft-circle an amount (USD)');
+    fireEvent.change(input, { target: { value: '50000' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Commit' }));
+
+    await waitFor(() => expect(mockSaveCommitment).toHaveBeenCalledWith('investor-1', 'round-1', 50000));
+    await waitFor(() => expect(mockGetCommitmentProgress).toHaveBeenCalledTimes(2));
+    expect(mockGetRoundCommitments).not.toHaveBeenCalled();
+  });
+
+  it('should not take commitments once the round stopped raising', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'investor-1' } });
+
+    const { container } = render(<RoundCommitments round={{ ...round, status: 'closed' }} />);
+
+    await waitFor(() => expect(mockGetCommitmentProgress).toHaveBeenCalled());
+    expect(container.firstChild).toBeNull();
+  });
+});
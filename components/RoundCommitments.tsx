@@ -0,0 +1,214 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatAmount } from '@/lib/format';
+import { isRoundRaising } from '@/lib/roundStatus';
+import { Commitment, CommitmentProgress, FundraisingRound } from '@/types';
+import { CommitmentProgressBar } from './CommitmentProgressBar';
+
+interface RoundCommitmentsProps {
+  round: Pick<FundraisingRound, 'id' | 'founderId' | 'raisingAmount' | 'currency' | 'status' | 'showCommitments'>;
+}
+
+// Soft commitments to a round. Investors record the amount they intend to
+// put in; the founder sees each commitment and decides whether the total is
+// public. Everyone else only sees the total, and only when it is public.
+export const RoundCommitments: React.FC<RoundCommitmentsProps> = ({ round }) => {
+  const { user } = useAuth();
+  const isFounder = user?.id === round.founderId;
+  const canCommit = Boolean(user) && !isFounder && isRoundRaising(round.status);
+  const [progress, setProgress] = useState<CommitmentProgress | null>(null);
+  const [commitments, setCommitments] = useState<Commitment[]>([]);
+  const [ownCommitment, setOwnCommitment] = useState<Commitment | null>(null);
+  const [amount, setAmount] = useState('');
+  const [showCommitments, setShowCommitments] = useState(round.showCommitments);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProgress = useCallback(async () => {
+    const { getCommitmentProgress } = await import('@/lib/database');
+    const totals = await getCommitmentProgress([round.id]);
+    setProgress(totals[round.id] ?? null);
+  }, [round.id]);
+
+  useEffect(() => {
+    const fetchCommitments = async () => {
+      try {
+        await loadProgress();
+        if (!user) {
+          return;
+        }
+        const { getInvestorCommitment, getRoundCommitments } = await import('@/lib/database');
+        if (isFounder) {
+          setCommitments(await getRoundCommitments(round.id));
+        } else {
+          const commitment = await getInvestorCommitment(user.id, round.id);
+          setOwnCommitment(commitment);
+          setAmount(commitment ? String(commitment.amount) : '');
+        }
+      } catch (err) {
+        console.error('Error fetching commitments:', err);
+      }
+    };
+
+    fetchCommitments();
+  }, [user, isFounder, round.id, loadProgress]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) {
+      return;
+    }
+
+    const value = parseFloat(amount);
+    if (!(value > 0)) {
+      setError('Enter the amount you intend to invest');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const { getInvestorCommitment, saveCommitment } = await import('@/lib/database');
+      await saveCommitment(user.id, round.id, value);
+      setOwnCommitment(await getInvestorCommitment(user.id, round.id));
+      await loadProgress();
+    } catch (err) {
+      console.error('Error saving commitment:', err);
+      setError('Failed to save your commitment. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!user || !confirm('Withdraw your commitment to this round?')) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const { withdrawCommitment } = await import('@/lib/database');
+      await withdrawCommitment(user.id, round.id);
+      setOwnCommitment(null);
+      setAmount('');
+      await loadProgress();
+    } catch (err) {
+      console.error('Error withdrawing commitment:', err);
+      setError('Failed to withdraw your commitment. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVisibilityChange = async (visible: boolean) => {
+    setShowCommitments(visible);
+    try {
+      const { updateFundraisingRound } = await import('@/lib/database');
+      await updateFundraisingRound(round.id, { showCommitments: visible });
+    } catch (err) {
+      console.error('Error updating commitment visibility:', err);
+      setShowCommitments(!visible);
+      alert('Failed to update the round. Please try again.');
+    }
+  };
+
+  if (!progress && !isFounder && !canCommit) {
+    return null;
+  }
+
+  return (
+    <section data-testid="round-commitments">
+      <h2 className="mb-3 text-xl font-semibold text-gray-900 dark:text-gray-100">Commitments</h2>
+
+      {progress && (
+        <div className="mb-4">
+          <CommitmentProgressBar progress={progress} raisingAmount={round.raisingAmount} currency={round.currency} />
+        </div>
+      )}
+
+      {canCommit && (
+        <form onSubmit={handleSave} className="space-y-2">
+          <label htmlFor="commitmentAmount" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            {ownCommitment
+              ? `You committed ${formatAmount(ownCommitment.amount, round.currency)}`
+              : `Soft-circle an amount (${round.currency})`}
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              id="commitmentAmount"
+              value={amount}
+              onChange={e => {
+                setAmount(e.target.value);
+                setError(null);
+              }}
+              min="0"
+              step="1000"
+              className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+              placeholder="50000"
+            />
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="rounded-lg bg-black px-4 py-2 text-sm font-medium text-white hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-gray-200"
+            >
+              {ownCommitment ? 'Update' : 'Commit'}
+            </button>
+            {ownCommitment && (
+              <button
+                type="button"
+                onClick={handleWithdraw}
+                disabled={isSaving}
+                className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+              >
+                Withdraw
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Not binding. Only the founder sees your amount.
+          </p>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </form>
+      )}
+
+      {isFounder && (
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={showCommitments}
+              onChange={e => handleVisibilityChange(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            Show the committed total on the feed and this page
+          </label>
+
+          {commitments.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No commitments yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {commitments.map(commitment => (
+                <li
+                  key={commitment.id}
+                  className="flex items-center justify-between py-2 text-sm"
+                  data-testid="commitment"
+                >
+                  <span className="text-gray-900 dark:text-gray-100">
+                    {commitment.investor?.displayName ?? 'Investor'}
+                  </span>
+                  <span className="font-medium text-gray-900 dark:text-gray-100">
+                    {formatAmount(commitment.amount, round.currency)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
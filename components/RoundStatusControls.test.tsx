@@ -0,0 +1,87 @@
+/**
+ * Tests for RoundStatusControls
+ * Feature: fundfeed-pwa, Round lifecycle
+ */
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { RoundStatusControls } from './RoundStatusControls';
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+const mockPush = jest.fn();
+const mockRefresh = jest.fn();
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ push: mockPush, refresh: mockRefresh }),
+}));
+
+const mockUpdateRoundStatus = jest.fn();
+
+jest.mock('@/lib/database', () => ({
+  updateRoundStatus: (...args: unknown[]) => mockUpdateRoundStatus(...args),
+}));
+
+import { useAuth } from '@/contexts/AuthContext';
+
+describe('RoundStatusControls', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUpdateRoundStatus.mockResolvedValue(undefined);
+    window.confirm = jest.fn().mockReturnValue(true);
+  });
+
+  it('should render nothing for anyone but the founder', () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'investor-1' } });
+
+    const { container } = render(<RoundStatusControls roundId="round-1" founderId="founder-1" status="live" />);
+
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('should render nothing once the round can no longer move', () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' } });
+
+    (['closed', 'funded', 'withdrawn'] as const).forEach(status => {
+      const { container, unmount } = render(
+        <RoundStatusControls roundId="round-1" founderId="founder-1" status={status} />
+      );
+      expect(container.firstChild).toBeNull();
+      unmount();
+    });
+  });
+
+  it('should offer the next statuses of a closing round', () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' } });
+
+    render(<RoundStatusControls roundId="round-1" founderId="founder-1" status="closing" />);
+
+    expect(screen.getAllByRole('button').map(button => button.textContent)).toEqual([
+      'Close round',
+      'Mark as funded',
+      'Withdraw round',
+    ]);
+  });
+
+  it('should move the round after confirmation and reload the page', async () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' } });
+
+    render(<RoundStatusControls roundId="round-1" founderId="founder-1" status="live" />);
+    fireEvent.click(screen.getByRole('button', { name: 'Start closing' }));
+
+    await waitFor(() => expect(mockRefresh).toHaveBeenCalled());
+    expect(mockUpdateRoundStatus).toHaveBeenCalledWith('round-1', 'live', 'closing');
+    expect(mockPush).not.toHaveBeenCalled();
+  });
+
+  it('should leave the round alone when the founder cancels', () => {
+    (useAuth as jest.Mock).mockReturnValue({ user: { id: 'founder-1' } });
+    (window.confirm as jest.Mock).mockReturnValue(false);
+
+    render(<RoundStatusControls roundId="round-1" founderId="founder-1" status="live" />);
+    fireEvent.click(screen.getByRole('button', { name: 'Withdraw round' }));
+
+    expect(mockUpdateRoundStatus).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getFounderTransitions } from '@/lib/roundStatus';
+import { RoundStatus } from '@/types';
+
+interface RoundStatusControlsProps {
+  roundId: string;
+  founderId: string;
+  status: RoundStatus;
+}
+
+const TRANSITION_ACTIONS: Partial<Record<RoundStatus, { label: string; confirm: string }>> = {
+  closing: {
+    label: 'Start closing',
+    confirm: 'Start closing this round? It will leave the feed, but its page stays up.',
+  },
+  closed: { label: 'Close round', confirm: 'Close this round? This cannot be undone.' },
+  funded: { label: 'Mark as funded', confirm: 'Mark this round as funded? This cannot be undone.' },
+  withdrawn: {
+    label: 'Withdraw round',
+    confirm: 'Withdraw this round? Only you will be able to see it, and this cannot be undone.',
+  },
+};
+
+// Founder-only buttons that move a round through its lifecycle; see
+// lib/roundStatus.ts for the allowed transitions
+export const RoundStatusControls: React.FC<RoundStatusControlsProps> = ({ roundId, founderId, status }) => {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [pending, setPending] = useState<RoundStatus | null>(null);
+
+  const transitions = getFounderTransitions(status);
+  if (user?.id !== founderId || transitions.length === 0) {
+    return null;
+  }
+
+  const handleTransition = async (next: RoundStatus) => {
+    if (!confirm(TRANSITION_ACTIONS[next]?.confirm ?? 'Change the status of this round?')) {
+      return;
+    }
+
+    setPending(next);
+    try {
+      const { updateRoundStatus } = await import('@/lib/database');
+      await updateRoundStatus(roundId, status, next);
+      // A withdrawn round is hidden from everyone but its founder
+      if (next === 'withdrawn') {
+        router.push('/');
+      }
+      router.refresh();
+    } catch (error) {
+      console.error('Error updating round status:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update the round. Please try again.');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-gray-200 p-4 dark:border-gray-700" data-testid="round-status-controls">
+      <h2 className="text-sm font-medium text-gray-600 dark:text-gray-400">Round status</h2>
+      <div className="flex flex-col gap-2">
+        {transitions.map(next => (
+          <button
+            key={next}
+            onClick={() => handleTransition(next)}
+            disabled={pending !== null}
+            className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+              next === 'withdrawn'
+                ? 'border border-red-300 text-red-700 hover:bg-red-50 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-950'
+                : 'bg-gray-900 text-white hover:bg-gray-800 dark:bg-gray-100 dark:text-gray-900 dark:hover:bg-gray-200'
+            }`}
+          >
+            {pending === next ? 'Updating...' : TRANSITION_ACTIONS[next]?.label ?? next}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { FundraisingRound } from '@/types';
+import { formatAmount } from '@/lib/format';
+import { getLogoSrc } from '@/lib/logoVariants';
+import { getSearchSnippet, highlightMatches } from '@/lib/search';
+
+const MIN_QUERY_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 250;
+
+const Highlighted: React.FC<{ text: string; query: string }> = ({ text, query }) => (
+  <>
+    {highlightMatches(text, query).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="rounded bg-yellow-200 px-0.5 text-gray-900 dark:bg-yellow-600 dark:text-gray-100">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export const SearchBar: React.FC = () => {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<FundraisingRound[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  // Debounced search; only the latest query is allowed to set results
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const { searchRounds } = await import('@/lib/database');
+        const found = await searchRounds(trimmed);
+        if (!cancelled) {
+          setResults(found);
+          setActiveIndex(-1);
+        }
+      } catch (err) {
+        console.error('Error searching rounds:', err);
+        if (!cancelled) {
+          setResults([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  // Close the results when clicking outside
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const openRound = (roundId: string) => {
+    setIsOpen(false);
+    setQuery('');
+    router.push(`/rounds/${roundId}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && activeIndex >= 0 && results[activeIndex]) {
+      e.preventDefault();
+      openRound(results[activeIndex].id);
+    }
+  };
+
+  const trimmedQuery = query.trim();
+  const showResults = isOpen && trimmedQuery.length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div ref={containerRef} className="relative w-full max-w-xs">
+      <input
+        type="search"
+        value={query}
+        onChange={e => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search rounds..."
+        aria-label="Search rounds"
+        aria-expanded={showResults}
+        aria-controls="search-results"
+        role="combobox"
+        className="block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-white dark:focus:ring-white"
+      />
+
+      {showResults && (
+        <div
+          id="search-results"
+          className="absolute left-0 right-0 z-40 mt-2 overflow-hidden rounded-lg border border-gray-200 bg-white shadow-lg dark:border-gray-700 dark:bg-gray-800 sm:w-96"
+        >
+          {isSearching && results.length === 0 && (
+            <p className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">Searching...</p>
+          )}
+          {!isSearching && results.length === 0 && (
+            <p className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+              No rounds match &ldquo;{trimmedQuery}&rdquo;
+            </p>
+          )}
+          {results.length > 0 && (
+            <ul role="listbox" data-testid="search-results">
+              {results.map((round, index) => (
+                <li key={round.id} role="option" aria-selected={index === activeIndex}>
+                  <button
+                    type="button"
+                    onMouseDown={e => e.preventDefault()}
+                    onClick={() => openRound(round.id)}
+                    className={`flex w-full items-start gap-3 px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                      index === activeIndex ? 'bg-gray-50 dark:bg-gray-700' : ''
+                    }`}
+                  >
+                    <div className="relative h-10 w-10 flex-shrink-0 overflow-hidden rounded">
+                      <Image src={getLogoSrc(round, 40)} alt={`${round.companyName} logo`} fill className="object-cover" sizes="40px" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-gray-100">
+                        <Highlighted text={round.companyName} query={trimmedQuery} />
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Raising {formatAmount(round.raisingAmount, round.currency)}
+                      </p>
+                      <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                        <Highlighted text={getSearchSnippet(round.description, trimmedQuery)} query={trimmedQuery} />
+                      </p>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
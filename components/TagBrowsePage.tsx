@@ -0,0 +1,100 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { feedFiltersToQueryString } from '@/lib/feedFilters';
+import { TAG_TYPE_LABELS, getTagFilters, getTagHref, isValidTagSlug } from '@/lib/taxonomy';
+import { TagType } from '@/types';
+import { TagChips } from './TagChips';
+import { TaggedRounds } from './TaggedRounds';
+
+interface TagBrowsePageProps {
+  type: TagType;
+  slug: string;
+}
+
+const loadTag = async (type: TagType, slug: string) => {
+  if (!isValidTagSlug(slug)) {
+    return null;
+  }
+
+  // Lazy import to avoid build-time initialization
+  const { getTag } = await import('@/lib/database');
+  return getTag(type, slug);
+};
+
+export const getTagBrowseMetadata = async (type: TagType, slug: string): Promise<Metadata> => {
+  const { isDatabaseConfigured } = await import('@/lib/database');
+  if (!isDatabaseConfigured()) {
+    return { title: 'Fundfeed' };
+  }
+
+  const tag = await loadTag(type, slug);
+  if (!tag) {
+    return { title: 'Not found | Fundfeed' };
+  }
+
+  return {
+    title: `${tag.name} rounds | Fundfeed`,
+    description: `Startups raising now, tagged ${TAG_TYPE_LABELS[type].toLowerCase()} ${tag.name}.`,
+  };
+};
+
+/**
+ * Browse page of one tag, e.g. /sectors/climate: the live rounds tagged with
+ * it, with links up to a country's region and down to a region's countries.
+ */
+export const TagBrowsePage = async ({ type, slug }: TagBrowsePageProps) => {
+  const { getTags, isDatabaseConfigured } = await import('@/lib/database');
+
+  if (!isDatabaseConfigured()) {
+    return (
+      <main className="min-h-screen bg-white dark:bg-gray-900">
+        <div className="mx-auto max-w-md px-4 py-8">
+          <div className="rounded-lg bg-red-50 p-4 text-center text-red-800 dark:bg-red-900 dark:text-red-200">
+            Database not configured. Please set up your Supabase credentials in .env.local
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const tags = isValidTagSlug(slug) ? await getTags() : [];
+  const tag = tags.find(candidate => candidate.type === type && candidate.slug === slug);
+  if (!tag) {
+    notFound();
+  }
+
+  const parent = tags.find(candidate => candidate.id === tag.parentId);
+  const children = tags.filter(candidate => candidate.parentId === tag.id);
+  const filters = getTagFilters(tag);
+
+  return (
+    <main className="min-h-screen bg-white dark:bg-gray-900">
+      <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        <div className="mb-8 text-center">
+          <p className="text-sm font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            {TAG_TYPE_LABELS[type]}
+            {parent && (
+              <>
+                {' · '}
+                <Link href={getTagHref(parent)} className="hover:underline">
+                  {parent.name}
+                </Link>
+              </>
+            )}
+          </p>
+          <h1 className="mt-2 text-4xl font-bold text-gray-900 dark:text-gray-100 sm:text-5xl">{tag.name}</h1>
+          <p className="mt-4 text-lg text-gray-600 dark:text-gray-400">
+            Startups raising now.{' '}
+            <Link href={`/?${feedFiltersToQueryString(filters)}`} className="underline">
+              Filter further in the feed
+            </Link>
+          </p>
+          {children.length > 0 && <TagChips tags={children} className="mt-4 justify-center" />}
+        </div>
+
+        <TaggedRounds filters={filters} />
+      </div>
+    </main>
+  );
+};
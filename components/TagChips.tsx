@@ -0,0 +1,32 @@
+import React from 'react';
+import Link from 'next/link';
+import { getTagHref, TAG_TYPE_LABELS } from '@/lib/taxonomy';
+import { Tag } from '@/types';
+
+interface TagChipsProps {
+  tags: Tag[];
+  className?: string;
+}
+
+// A round's tags, each linking to its browse page
+export const TagChips: React.FC<TagChipsProps> = ({ tags, className = '' }) => {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={`flex flex-wrap gap-2 ${className}`} data-testid="tag-chips">
+      {tags.map(tag => (
+        <li key={tag.id}>
+          <Link
+            href={getTagHref(tag)}
+            title={TAG_TYPE_LABELS[tag.type]}
+            className="inline-block rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+          >
+            {tag.name}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
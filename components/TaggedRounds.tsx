@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { feedFiltersToQueryString, parseFeedFilters } from '@/lib/feedFilters';
+import { CommitmentProgress, FundraisingRound, RoundFilters } from '@/types';
+import { TrendingGridSkeleton } from './LoadingSkeleton';
+import { TrendingCard } from './TrendingCard';
+
+interface TaggedRoundsProps {
+  filters: RoundFilters;
+}
+
+const PAGE_SIZE = 24;
+
+// Top trending rounds for a browse page; the rest are in the feed with the same filters
+export const TaggedRounds: React.FC<TaggedRoundsProps> = ({ filters }) => {
+  const { user } = useAuth();
+  const [rounds, setRounds] = useState<FundraisingRound[]>([]);
+  const [followedRounds, setFollowedRounds] = useState<string[]>([]);
+  const [requestedIntros, setRequestedIntros] = useState<string[]>([]);
+  const [commitmentProgress, setCommitmentProgress] = useState<Record<string, CommitmentProgress>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const query = feedFiltersToQueryString(filters);
+
+  useEffect(() => {
+    const fetchRounds = async () => {
+      try {
+        const { getCommitmentProgress, getTrendingRounds } = await import('@/lib/database');
+        // Read back from the query string, which stays the same across renders
+        const tagged = await getTrendingRounds(PAGE_SIZE, { filters: parseFeedFilters(new URLSearchParams(query)) });
+        setRounds(tagged);
+        // Progress bars are extra, so a failure only leaves them out
+        getCommitmentProgress(tagged.map(round => round.id))
+          .then(setCommitmentProgress)
+          .catch(err => console.error('Error fetching commitment progress:', err));
+      } catch (err) {
+        console.error('Error fetching rounds:', err);
+        setError('Failed to load fundraising rounds. Please try again later.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRounds();
+  }, [query]);
+
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    const fetchUserData = async () => {
+      try {
+        const { getIntroRequestsForInvestor, getUserProfile } = await import('@/lib/database');
+        const userProfile = await getUserProfile(user.id);
+        setFollowedRounds(userProfile?.followedRounds || []);
+        const introRequests = await getIntroRequestsForInvestor(user.id);
+        setRequestedIntros(introRequests.map(request => request.roundId));
+      } catch (err) {
+        console.error('Error fetching user data:', err);
+      }
+    };
+
+    fetchUserData();
+  }, [user]);
+
+  const handleFollowToggle = async (roundId: string) => {
+    if (!user) {
+      alert('Please sign in to follow startups');
+      return;
+    }
+
+    try {
+      const { followRound, unfollowRound } = await import('@/lib/database');
+      if (followedRounds.includes(roundId)) {
+        await unfollowRound(user.id, roundId);
+        setFollowedRounds(prev => prev.filter(id => id !== roundId));
+      } else {
+        await followRound(user.id, roundId);
+        setFollowedRounds(prev => [...prev, roundId]);
+      }
+    } catch (err) {
+      console.error('Error toggling follow:', err);
+      alert('Failed to update follow status. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return <TrendingGridSkeleton count={8} />;
+  }
+
+  if (error) {
+    return (
+      <div className="mx-auto max-w-md rounded-lg bg-red-50 p-4 text-center text-red-800 dark:bg-red-900 dark:text-red-200">
+        {error}
+      </div>
+    );
+  }
+
+  if (rounds.length === 0) {
+    return (
+      <div className="mx-auto max-w-md rounded-lg bg-gray-50 p-8 text-center dark:bg-gray-800">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">No rounds raising here yet</h2>
+        <p className="mt-2 text-gray-600 dark:text-gray-400">Check back soon, or browse the whole feed.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+        {rounds.map(round => (
+          <TrendingCard
+            key={round.id}
+            round={round}
+            isFollowing={followedRounds.includes(round.id)}
+            hasRequestedIntro={requestedIntros.includes(round.id)}
+            onFollowToggle={handleFollowToggle}
+            commitmentProgress={commitmentProgress[round.id]}
+          />
+        ))}
+      </div>
+      {rounds.length === PAGE_SIZE && (
+        <div className="mt-6 text-center">
+          <Link
+            href={`/?${query}`}
+            className="rounded-lg bg-gray-200 px-4 py-2 text-sm font-medium text-gray-900 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-100 dark:hover:bg-gray-600"
+          >
+            See all in the feed
+          </Link>
+        </div>
+      )}
+    </>
+  );
+};
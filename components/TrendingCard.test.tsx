@@ -55,6 +55,11 @@ describe('TrendingCard - Property-Based Tests', () => {
           // Create a fundraising round with the generated data
           const round: FundraisingRound = {
             ...roundData,
+            companyId: 'company-1',
+            status: 'live',
+            scanStatus: 'clean',
+            allowPreviousDeckVersions: false,
+            showCommitments: false,
             createdAt: new Date(),
             updatedAt: new Date(),
           };
@@ -126,6 +131,11 @@ describe('TrendingCard - Property-Based Tests', () => {
         async (roundData) => {
           const round: FundraisingRound = {
             ...roundData,
+            companyId: 'company-1',
+            status: 'live',
+            scanStatus: 'clean',
+            allowPreviousDeckVersions: false,
+            showCommitments: false,
             createdAt: new Date(),
             updatedAt: new Date(),
           };
@@ -155,4 +165,242 @@ describe('TrendingCard - Property-Based Tests', () => {
       { numRuns: 100 }
     );
   });
+
+  /**
+   * Property: Card should link to the round detail page
+   */
+  it('should link the logo and company name to the round detail page', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uuid(), fc.string({ minLength: 1, maxLength: 50 }), async (id, companyName) => {
+        const round: FundraisingRound = {
+          id,
+          companyId: 'company-1',
+          companyName,
+          logoUrl: 'https://example.com/logo.png',
+          raisingAmount: 1000000,
+          currency: 'USD',
+          terms: {},
+          description: 'Test description',
+          deckUrl: 'https://example.com/deck.pdf',
+          founderId: 'founder-1',
+          followerCount: 0,
+          introRequestCount: 0,
+          status: 'live',
+          scanStatus: 'clean',
+          allowPreviousDeckVersions: false,
+          showCommitments: false,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        const { container, unmount } = render(
+          <TrendingCard
+            round={round}
+            isFollowing={false}
+            hasRequestedIntro={false}
+            onFollowToggle={jest.fn().mockResolvedValue(undefined)}
+          />
+        );
+
+        const links = Array.from(container.querySelectorAll('a'));
+        expect(links.length).toBe(2);
+        links.forEach(link => {
+          expect(link.getAttribute('href')).toBe(`/rounds/${id}`);
+        });
+
+        unmount();
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  /**
+   * Property: Decks not scanned clean are flagged on the card
+   */
+  it('should flag rounds whose deck is pending or rejected', () => {
+    fc.assert(
+      fc.property(fc.constantFrom('pending' as const, 'clean' as const, 'rejected' as const), scanStatus => {
+        const round: FundraisingRound = {
+          id: 'round-1',
+          companyId: 'company-1',
+          companyName: 'Acme',
+          logoUrl: 'https://example.com/logo.png',
+          raisingAmount: 1000000,
+          currency: 'USD',
+          terms: {},
+          description: 'Test description',
+          deckPath: 'decks/round-1/deck.pdf',
+          founderId: 'founder-1',
+          followerCount: 0,
+          introRequestCount: 0,
+          status: 'live',
+          scanStatus,
+          allowPreviousDeckVersions: false,
+          showCommitments: false,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        const { queryByTestId, unmount } = render(
+          <TrendingCard
+            round={round}
+            isFollowing={false}
+            hasRequestedIntro={false}
+            onFollowToggle={jest.fn().mockResolvedValue(undefined)}
+          />
+        );
+
+        const flag = queryByTestId('deck-scan-flag');
+        if (scanStatus === 'clean') {
+          expect(flag).toBeNull();
+        } else {
+          expect(flag?.textContent).toBe(scanStatus === 'rejected' ? 'Deck unavailable' : 'Deck under review');
+        }
+
+        unmount();
+      }),
+      { numRuns: 20 }
+    );
+  });
+  /**
+   * Property: A recently replaced deck is called out on the card
+   */
+  it('should show "Deck updated" only for decks replaced in the last week', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 5 }), fc.integer({ min: 0, max: 30 }), (deckVersion, daysAgo) => {
+        const round: FundraisingRound = {
+          id: 'round-1',
+          companyId: 'company-1',
+          companyName: 'Acme',
+          logoUrl: 'https://example.com/logo.png',
+          raisingAmount: 1000000,
+          currency: 'USD',
+          terms: {},
+          description: 'Test description',
+          deckPath: 'decks/round-1/deck.pdf',
+          deckVersion,
+          deckUpdatedAt: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000 - 60 * 1000).toISOString(),
+          founderId: 'founder-1',
+          followerCount: 0,
+          introRequestCount: 0,
+          status: 'live',
+          scanStatus: 'clean',
+          allowPreviousDeckVersions: false,
+          showCommitments: false,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        const { queryByTestId, unmount } = render(
+          <TrendingCard
+            round={round}
+            isFollowing={false}
+            hasRequestedIntro={false}
+            onFollowToggle={jest.fn().mockResolvedValue(undefined)}
+          />
+        );
+
+        expect(queryByTestId('deck-updated') !== null).toBe(deckVersion > 1 && daysAgo < 7);
+
+        unmount();
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  /**
+   * Property: Public commitment progress is shown as a share of the raise
+   */
+  it('should show committed progress capped at a full bar', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 5000000 }), committedAmount => {
+        const round: FundraisingRound = {
+          id: 'round-1',
+          companyId: 'company-1',
+          companyName: 'Acme',
+          logoUrl: 'https://example.com/logo.png',
+          raisingAmount: 1500000,
+          currency: 'USD',
+          terms: {},
+          description: 'Test description',
+          deckPath: 'decks/round-1/deck.pdf',
+          founderId: 'founder-1',
+          followerCount: 0,
+          introRequestCount: 0,
+          status: 'live',
+          scanStatus: 'clean',
+          allowPreviousDeckVersions: false,
+          showCommitments: true,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        const { getByRole, getByTestId, unmount } = render(
+          <TrendingCard
+            round={round}
+            isFollowing={false}
+            hasRequestedIntro={false}
+            onFollowToggle={jest.fn().mockResolvedValue(undefined)}
+            commitmentProgress={{ roundId: 'round-1', committedAmount, commitmentCount: 3 }}
+          />
+        );
+
+        const percent = Number(getByRole('progressbar').getAttribute('aria-valuenow'));
+        expect(percent).toBe(Math.min(100, Math.round((committedAmount / 1500000) * 100)));
+        expect(getByTestId('commitment-progress').textContent).toContain('of $1,500,000 committed');
+
+        unmount();
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  /**
+   * Property: Tags show as chips linking to their browse pages
+   */
+  it('should link each tag chip to its browse page', () => {
+    const round: FundraisingRound = {
+      id: 'round-1',
+      companyId: 'company-1',
+      companyName: 'Acme',
+      logoUrl: 'https://example.com/logo.png',
+      raisingAmount: 1500000,
+      currency: 'USD',
+      terms: {},
+      tags: [
+        { id: 'tag-1', type: 'sector', slug: 'climate', name: 'Climate' },
+        { id: 'tag-2', type: 'stage', slug: 'pre-seed', name: 'Pre-seed' },
+        { id: 'tag-3', type: 'geography', slug: 'germany', name: 'Germany', parentId: 'tag-4' },
+        { id: 'tag-5', type: 'business_model', slug: 'b2b-saas', name: 'B2B SaaS' },
+      ],
+      description: 'Test description',
+      deckPath: 'decks/round-1/deck.pdf',
+      founderId: 'founder-1',
+      followerCount: 0,
+      introRequestCount: 0,
+      status: 'live',
+      scanStatus: 'clean',
+      allowPreviousDeckVersions: false,
+      showCommitments: false,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    const { getByTestId } = render(
+      <TrendingCard
+        round={round}
+        isFollowing={false}
+        hasRequestedIntro={false}
+        onFollowToggle={jest.fn().mockResolvedValue(undefined)}
+      />
+    );
+
+    const chips = Array.from(getByTestId('tag-chips').querySelectorAll('a'));
+    expect(chips.map(chip => [chip.textContent, chip.getAttribute('href')])).toEqual([
+      ['Climate', '/sectors/climate'],
+      ['Pre-seed', '/stages/pre-seed'],
+      ['Germany', '/regions/germany'],
+      ['B2B SaaS', '/business-models/b2b-saas'],
+    ]);
+  });
 });
@@ -2,61 +2,69 @@
 
 import React from 'react';
 import Image from 'next/image';
-import { FundraisingRound } from '@/types';
+import Link from 'next/link';
+import { CommitmentProgress, FundraisingRound } from '@/types';
+import { formatAmount } from '@/lib/format';
+import { getLogoSrc } from '@/lib/logoVariants';
+import { CommitmentProgressBar } from './CommitmentProgressBar';
 import { FollowButton } from './FollowButton';
 import { RequestIntroButton } from './RequestIntroButton';
+import { TagChips } from './TagChips';
 
 interface TrendingCardProps {
   round: FundraisingRound;
   isFollowing: boolean;
   hasRequestedIntro: boolean;
   onFollowToggle: (roundId: string) => Promise<void>;
+  // Only given when the founder made the committed total public
+  commitmentProgress?: CommitmentProgress;
 }
 
+// How long after a new deck version the card says so
+const DECK_UPDATED_BADGE_DAYS = 7;
+
+const isDeckRecentlyUpdated = (round: FundraisingRound): boolean =>
+  (round.deckVersion ?? 0) > 1 &&
+  !!round.deckUpdatedAt &&
+  Date.now() - new Date(round.deckUpdatedAt).getTime() < DECK_UPDATED_BADGE_DAYS * 24 * 60 * 60 * 1000;
+
 export const TrendingCard: React.FC<TrendingCardProps> = ({
   round,
   isFollowing,
   hasRequestedIntro,
   onFollowToggle,
+  commitmentProgress,
 }) => {
   const handleFollowToggle = async () => {
     await onFollowToggle(round.id);
   };
 
-  // Format the raising amount with proper currency display
-  const formatAmount = (amount: number, currency: string) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
-
   return (
     <div
       className="flex flex-col rounded-lg border border-gray-200 bg-white p-4 shadow-sm transition-shadow hover:shadow-md dark:border-gray-700 dark:bg-gray-800 sm:p-6"
       data-testid="trending-card"
     >
       {/* Logo */}
-      <div className="mb-4 flex justify-center">
+      <Link href={`/rounds/${round.id}`} className="mb-4 flex justify-center">
         <div className="relative h-20 w-20 overflow-hidden rounded-lg sm:h-24 sm:w-24">
           <Image
-            src={round.logoUrl}
+            src={getLogoSrc(round, 96)}
             alt={`${round.companyName} logo`}
             fill
             className="object-cover"
             sizes="(max-width: 640px) 80px, 96px"
           />
         </div>
-      </div>
+      </Link>
 
       {/* Company Name */}
       <h3
         className="mb-2 text-center text-lg font-semibold text-gray-900 dark:text-gray-100 sm:text-xl"
         data-testid="company-name"
       >
-        {round.companyName}
+        <Link href={`/rounds/${round.id}`} className="hover:underline">
+          {round.companyName}
+        </Link>
       </h3>
 
       {/* Raising Amount */}
@@ -67,6 +75,36 @@ export const TrendingCard: React.FC<TrendingCardProps> = ({
         Raising {formatAmount(round.raisingAmount, round.currency)}
       </p>
 
+      {round.tags && <TagChips tags={round.tags} className="mb-4 justify-center" />}
+
+      {commitmentProgress && (
+        <div className="mb-4">
+          <CommitmentProgressBar
+            progress={commitmentProgress}
+            raisingAmount={round.raisingAmount}
+            currency={round.currency}
+          />
+        </div>
+      )}
+
+      {/* Deck not scanned clean yet */}
+      {round.scanStatus !== 'clean' && (
+        <p
+          className={`mb-4 text-center text-xs font-medium ${
+            round.scanStatus === 'rejected' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+          }`}
+          data-testid="deck-scan-flag"
+        >
+          {round.scanStatus === 'rejected' ? 'Deck unavailable' : 'Deck under review'}
+        </p>
+      )}
+
+      {round.scanStatus === 'clean' && isDeckRecentlyUpdated(round) && (
+        <p className="mb-4 text-center text-xs font-medium text-blue-600 dark:text-blue-400" data-testid="deck-updated">
+          Deck updated
+        </p>
+      )}
+
       {/* Action Buttons */}
       <div className="mt-auto flex flex-col gap-2 sm:flex-row sm:justify-center sm:gap-3">
         <FollowButton
@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Property-Based Tests for API route authentication
+ * Feature: fundfeed-pwa, Property 3: Authentication requirement for protected actions
+ * Validates: Requirements 3.2, 4.5, 10.1
+ */
+
+import * as fc from 'fast-check';
+
+const mockGetUser = jest.fn();
+const mockCreateSupabaseForAccessToken = jest.fn();
+
+jest.mock('./supabaseServer', () => ({
+  createSupabaseForAccessToken: (accessToken: string) => mockCreateSupabaseForAccessToken(accessToken),
+}));
+
+import {
+  ACCESS_TOKEN_COOKIE,
+  ApiAuthError,
+  assertSameUser,
+  authErrorResponse,
+  getRequestAccessToken,
+  requireCronSecret,
+  requireUser,
+} from './apiAuth';
+
+const tokenArb = fc.stringMatching(/^[A-Za-z0-9._-]{10,60}$/);
+
+const buildRequest = (headers: Record<string, string> = {}, cookies: Record<string, string> = {}) => ({
+  headers: new Headers(headers),
+  cookies: {
+    get: (name: string) => (name in cookies ? { name, value: cookies[name] } : undefined),
+  },
+}) as any;
+
+describe('API auth - Property-Based Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCreateSupabaseForAccessToken.mockImplementation(() => ({ auth: { getUser: mockGetUser } }));
+  });
+
+  it('should read bearer tokens from the Authorization header before the cookie', async () => {
+    await fc.assert(
+      fc.property(tokenArb, tokenArb, (headerToken, cookieToken) => {
+        const request = buildRequest(
+          { authorization: `Bearer ${headerToken}` },
+          { [ACCESS_TOKEN_COOKIE]: cookieToken }
+        );
+
+        expect(getRequestAccessToken(request)).toBe(headerToken);
+        expect(getRequestAccessToken(buildRequest({}, { [ACCESS_TOKEN_COOKIE]: cookieToken }))).toBe(cookieToken);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should ignore non-bearer Authorization headers', () => {
+    expect(getRequestAccessToken(buildRequest({ authorization: 'Basic dXNlcjpwYXNz' }))).toBeNull();
+    expect(getRequestAccessToken(buildRequest({ authorization: 'Bearer' }))).toBeNull();
+    expect(getRequestAccessToken(buildRequest())).toBeNull();
+  });
+
+  it('should reject requests without a token with 401', async () => {
+    await expect(requireUser(buildRequest())).rejects.toMatchObject({ status: 401 });
+    expect(mockGetUser).not.toHaveBeenCalled();
+  });
+
+  it('should reject tokens that Supabase does not accept with 401', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: null }, error: { message: 'invalid JWT' } });
+
+    await expect(requireUser(buildRequest({ authorization: 'Bearer forged-token' }))).rejects.toMatchObject({
+      status: 401,
+    });
+    expect(mockGetUser).toHaveBeenCalledWith('forged-token');
+  });
+
+  it('should derive the user from the verified token', async () => {
+    await fc.assert(
+      fc.asyncProperty(tokenArb, fc.uuid(), async (token, userId) => {
+        mockGetUser.mockResolvedValue({ data: { user: { id: userId } }, error: null });
+
+        const auth = await requireUser(buildRequest({ authorization: `Bearer ${token}` }));
+
+        expect(mockCreateSupabaseForAccessToken).toHaveBeenCalledWith(token);
+        expect(auth.user.id).toBe(userId);
+        expect(auth.accessToken).toBe(token);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should reject claims to act as another user with 403', async () => {
+    await fc.assert(
+      fc.property(fc.uuid(), fc.uuid(), (sessionUserId, claimedUserId) => {
+        const auth = { user: { id: sessionUserId }, accessToken: 'token', supabase: {} } as any;
+
+        if (sessionUserId === claimedUserId) {
+          expect(() => assertSameUser(auth, claimedUserId)).not.toThrow();
+        } else {
+          expect(() => assertSameUser(auth, claimedUserId)).toThrow(ApiAuthError);
+        }
+        expect(() => assertSameUser(auth, undefined)).not.toThrow();
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should turn auth errors into JSON responses and leave other errors alone', async () => {
+    const response = authErrorResponse(new ApiAuthError(403, 'Forbidden'));
+
+    expect(response?.status).toBe(403);
+    expect(await response?.json()).toEqual({ error: 'Forbidden' });
+    expect(authErrorResponse(new Error('database down'))).toBeNull();
+  });
+
+  it('should only accept maintenance calls that carry the cron secret', () => {
+    fc.assert(
+      fc.property(tokenArb, tokenArb, (secret, presented) => {
+        process.env.CRON_SECRET = secret;
+
+        const request = buildRequest({ authorization: `Bearer ${presented}` });
+        if (presented === secret) {
+          expect(() => requireCronSecret(request)).not.toThrow();
+        } else {
+          expect(() => requireCronSecret(request)).toThrow(ApiAuthError);
+        }
+        expect(() => requireCronSecret(buildRequest())).toThrow(ApiAuthError);
+        expect(() => requireCronSecret(buildRequest({ authorization: `Bearer ${secret}` }))).not.toThrow();
+      }),
+      { numRuns: 50 }
+    );
+
+    // Without a configured secret nothing gets through
+    delete process.env.CRON_SECRET;
+    expect(() => requireCronSecret(buildRequest({ authorization: 'Bearer ' }))).toThrow(ApiAuthError);
+  });
+});
@@ -0,0 +1,87 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import type { SupabaseClient, User as SupabaseUser } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import { createSupabaseForAccessToken } from './supabaseServer';
+
+export const ACCESS_TOKEN_COOKIE = 'sb-access-token';
+
+export class ApiAuthError extends Error {
+  constructor(public readonly status: 401 | 403, message: string) {
+    super(message);
+    this.name = 'ApiAuthError';
+  }
+}
+
+export interface AuthenticatedRequest {
+  user: SupabaseUser;
+  accessToken: string;
+  // Client scoped to the caller, so database writes run under their RLS policies
+  supabase: SupabaseClient<Database>;
+}
+
+type RequestWithCredentials = Pick<NextRequest, 'headers' | 'cookies'>;
+
+/**
+ * Read the Supabase access token from the Authorization header, falling back
+ * to the sb-access-token cookie.
+ */
+export const getRequestAccessToken = (request: RequestWithCredentials): string | null => {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader) {
+    const [scheme, token] = authHeader.trim().split(/\s+/);
+    if (scheme?.toLowerCase() === 'bearer' && token) {
+      return token;
+    }
+  }
+
+  return request.cookies.get(ACCESS_TOKEN_COOKIE)?.value || null;
+};
+
+/**
+ * Verify the caller's session with Supabase Auth and return the user it
+ * belongs to. Throws ApiAuthError(401) when there is no valid session.
+ */
+export const requireUser = async (request: RequestWithCredentials): Promise<AuthenticatedRequest> => {
+  const accessToken = getRequestAccessToken(request);
+  if (!accessToken) {
+    throw new ApiAuthError(401, 'Authentication required');
+  }
+
+  const supabase = createSupabaseForAccessToken(accessToken);
+  const { data, error } = await supabase.auth.getUser(accessToken);
+
+  if (error || !data.user) {
+    throw new ApiAuthError(401, 'Invalid or expired session');
+  }
+
+  return { user: data.user, accessToken, supabase };
+};
+
+/**
+ * Reject requests that claim to act for a user other than the verified one.
+ */
+export const assertSameUser = (auth: AuthenticatedRequest, claimedUserId?: string | null): void => {
+  if (claimedUserId && claimedUserId !== auth.user.id) {
+    throw new ApiAuthError(403, 'You can only act on behalf of your own account');
+  }
+};
+
+/**
+ * Authorize scheduled and maintenance jobs, which send CRON_SECRET as a
+ * bearer token (Vercel Cron does this automatically).
+ */
+export const requireCronSecret = (request: Pick<NextRequest, 'headers'>): void => {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    throw new ApiAuthError(401, 'Unauthorized');
+  }
+};
+
+// Map an ApiAuthError to its JSON response; other errors return null
+export const authErrorResponse = (error: unknown): NextResponse | null => {
+  if (error instanceof ApiAuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+};
@@ -82,3 +82,27 @@ export const getCurrentUser = async () => {
 
   return user;
 };
+
+export const getAccessToken = async (): Promise<string | null> => {
+  const supabase = getSupabase();
+  const { data: { session }, error } = await supabase.auth.getSession();
+
+  if (error) {
+    console.error('Error getting session:', error);
+    return null;
+  }
+
+  return session?.access_token ?? null;
+};
+
+// fetch() wrapper for our API routes, which verify the session server-side
+export const fetchWithAuth = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+  const accessToken = await getAccessToken();
+  const headers = new Headers(init.headers);
+
+  if (accessToken) {
+    headers.set('Authorization', `Bearer ${accessToken}`);
+  }
+
+  return fetch(input, { ...init, headers });
+};
@@ -0,0 +1,63 @@
+/**
+ * Property-Based Tests for company details
+ */
+
+import * as fc from 'fast-check';
+import {
+  COMPANY_TEAM_MAX_SIZE,
+  getUrlLabel,
+  isValidWebUrl,
+  normalizeWebUrl,
+  validateCompanyDetails,
+} from './company';
+
+describe('Company details', () => {
+  it('should accept any http(s) URL and nothing else', () => {
+    fc.assert(
+      fc.property(fc.webUrl({ validSchemes: ['http', 'https'] }), url => {
+        expect(isValidWebUrl(url)).toBe(true);
+      })
+    );
+
+    ['acme.com', 'ftp://acme.com', 'javascript:alert(1)', 'https://acme .com', ''].forEach(url => {
+      expect(isValidWebUrl(url)).toBe(false);
+    });
+  });
+
+  it('should add https to a bare domain and leave blank values out', () => {
+    expect(normalizeWebUrl(' acme.com ')).toBe('https://acme.com');
+    expect(normalizeWebUrl('http://acme.com')).toBe('http://acme.com');
+    expect(normalizeWebUrl('HTTPS://acme.com')).toBe('HTTPS://acme.com');
+    expect(normalizeWebUrl('   ')).toBeUndefined();
+  });
+
+  it('should label a URL by its host', () => {
+    expect(getUrlLabel('https://www.acme.com/about')).toBe('acme.com');
+    expect(getUrlLabel('https://blog.acme.com')).toBe('blog.acme.com');
+    expect(getUrlLabel('not a url')).toBe('not a url');
+  });
+
+  it('should require a name and report each invalid field', () => {
+    expect(validateCompanyDetails({ name: 'Acme', website: 'https://acme.com' })).toEqual({});
+    expect(validateCompanyDetails({ name: '  ', website: 'acme' })).toEqual({
+      name: 'Company name is required',
+      website: 'Enter the company website, e.g. https://acme.com',
+    });
+  });
+
+  it('should check every team member and the size of the team', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: COMPANY_TEAM_MAX_SIZE * 2 }), size => {
+        const team = Array.from({ length: size }, (_, i) => ({ name: `Member ${i}` }));
+        expect(validateCompanyDetails({ name: 'Acme', team }).team !== undefined).toBe(size > COMPANY_TEAM_MAX_SIZE);
+      })
+    );
+
+    expect(validateCompanyDetails({ name: 'Acme', team: [{ name: ' ', title: 'CTO' }] }).team).toBe(
+      'Every team member needs a name'
+    );
+    expect(validateCompanyDetails({ name: 'Acme', team: [{ name: 'Ada', profileUrl: 'ada' }] }).team).toBe(
+      'Profile links must be web addresses'
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { TeamMember } from '@/types';
+
+export const COMPANY_TEAM_MAX_SIZE = 20;
+
+export type TeamMemberInput = Omit<TeamMember, 'id'>;
+
+export interface CompanyDetails {
+  name: string;
+  website?: string;
+  team?: TeamMemberInput[];
+}
+
+export type CompanyDetailsErrors = Partial<Record<keyof CompanyDetails, string>>;
+
+const WEB_URL_PATTERN = /^https?:\/\/\S+$/i;
+
+// Same rule as the database: an http(s) URL without whitespace
+export const isValidWebUrl = (url: string): boolean => {
+  if (!WEB_URL_PATTERN.test(url)) {
+    return false;
+  }
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Founders often type a bare domain; blank means no URL
+export const normalizeWebUrl = (value: string): string | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+// Host of a URL for display, e.g. "acme.com" for https://www.acme.com/about
+export const getUrlLabel = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Check a company's name, website and team before saving. Returns an error
+ * per field; the database rejects the same values.
+ */
+export const validateCompanyDetails = ({ name, website, team = [] }: CompanyDetails): CompanyDetailsErrors => {
+  const errors: CompanyDetailsErrors = {};
+
+  if (!name.trim()) {
+    errors.name = 'Company name is required';
+  }
+
+  if (website !== undefined && !isValidWebUrl(website)) {
+    errors.website = 'Enter the company website, e.g. https://acme.com';
+  }
+
+  if (team.length > COMPANY_TEAM_MAX_SIZE) {
+    errors.team = `List at most ${COMPANY_TEAM_MAX_SIZE} team members`;
+  } else if (team.some(member => !member.name.trim())) {
+    errors.team = 'Every team member needs a name';
+  } else if (team.some(member => member.profileUrl !== undefined && !isValidWebUrl(member.profileUrl))) {
+    errors.team = 'Profile links must be web addresses';
+  }
+
+  return errors;
+};
@@ -6,23 +6,39 @@
 
 import * as fc from 'fast-check';
 import { FundraisingRound } from '@/types';
+import { DEFAULT_TRENDING_WEIGHTS, calculateTrendingScore, sortByTrendingScore } from './trending';
 
-// Create a mock function that we can control
+// Create mock functions that we can control
 const mockFromFn = jest.fn();
+const mockRpcFn = jest.fn();
 
 jest.mock('@/lib/supabase', () => ({
   supabase: { from: jest.fn() },
-  getSupabase: () => ({ from: mockFromFn }),
+  getSupabase: () => ({ from: mockFromFn, rpc: mockRpcFn }),
   isSupabaseConfigured: () => true,
 }));
 
 // Import after mock is set up
-import { getTrendingRounds } from './database';
+import {
+  followRound,
+  getCompany,
+  getCommitmentProgress,
+  getRoundFollowers,
+  getTrendingRounds,
+  getUserProfile,
+  searchRounds,
+  unfollowRound,
+  updateCompany,
+  updateFundraisingRound,
+  updateIntroRequestStatus,
+  updateRoundStatus,
+} from './database';
 
 describe('Database - Property-Based Tests', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockFromFn.mockReset();
+    mockRpcFn.mockReset();
   });
 
   /**
@@ -30,7 +46,7 @@ describe('Database - Property-Based Tests', () => {
    * For any set of fundraising rounds, the homepage must display them sorted
    * by the trending algorithm (recency and engagement) in descending order.
    */
-  it('should return rounds sorted by createdAt desc, then followerCount desc', async () => {
+  it('should return rounds in descending trending score order', async () => {
     await fc.assert(
       fc.asyncProperty(
         fc.array(
@@ -38,6 +54,7 @@ describe('Database - Property-Based Tests', () => {
             companyName: fc.string({ minLength: 1, maxLength: 50 }),
             raisingAmount: fc.integer({ min: 10000, max: 100000000 }),
             followerCount: fc.integer({ min: 0, max: 10000 }),
+            introRequestCount: fc.integer({ min: 0, max: 1000 }),
             createdAtMs: fc.integer({
               min: Date.now() - 365 * 24 * 60 * 60 * 1000,
               max: Date.now(),
@@ -46,80 +63,517 @@ describe('Database - Property-Based Tests', () => {
           { minLength: 2, maxLength: 20 }
         ),
         async roundsData => {
+          const asOf = new Date();
+
           // Convert to FundraisingRound objects
           const mockRounds: FundraisingRound[] = roundsData.map((data, index) => ({
             id: `round-${index}`,
+            companyId: `company-${index}`,
             companyName: data.companyName,
             logoUrl: `https://example.com/logo-${index}.png`,
             raisingAmount: data.raisingAmount,
             currency: 'USD',
+            terms: {},
             description: 'Test description',
             deckUrl: `https://example.com/deck-${index}.pdf`,
             founderId: `founder-${index}`,
             createdAt: new Date(data.createdAtMs).toISOString(),
             updatedAt: new Date(data.createdAtMs).toISOString(),
             followerCount: data.followerCount,
-            introRequestCount: 0,
+            introRequestCount: data.introRequestCount,
+            status: 'live',
+            scanStatus: 'clean',
+            allowPreviousDeckVersions: false,
+            showCommitments: false,
           }));
 
-          // Sort the mock data according to the trending algorithm
-          const sortedRounds = [...mockRounds].sort((a, b) => {
-            const timeA = new Date(a.createdAt).getTime();
-            const timeB = new Date(b.createdAt).getTime();
-
-            if (timeA !== timeB) {
-              return timeB - timeA; // Descending
-            }
+          // get_trending_rounds() returns rows already ranked by trending_score()
+          const sortedRounds = sortByTrendingScore(mockRounds, DEFAULT_TRENDING_WEIGHTS, asOf);
 
-            return b.followerCount - a.followerCount; // Descending
+          mockRpcFn.mockResolvedValue({
+            data: sortedRounds.map(round => ({
+              fundraising_round: {
+                id: round.id,
+                company_name: round.companyName,
+                logo_url: round.logoUrl,
+                raising_amount: round.raisingAmount,
+                currency: round.currency,
+                description: round.description,
+                deck_url: round.deckUrl,
+                founder_id: round.founderId,
+                created_at: round.createdAt,
+                updated_at: round.updatedAt,
+                follower_count: round.followerCount,
+                intro_request_count: round.introRequestCount,
+                status: round.status,
+                scan_status: round.scanStatus,
+              },
+              trending_score: calculateTrendingScore(round, DEFAULT_TRENDING_WEIGHTS, asOf),
+            })),
+            error: null,
           });
 
-          // Mock Supabase to return sorted data
-          mockFromFn.mockImplementation(() => ({
-            select: jest.fn().mockReturnValue({
-              order: jest.fn().mockReturnValue({
-                order: jest.fn().mockReturnValue({
-                  limit: jest.fn().mockResolvedValue({
-                    data: sortedRounds.map(round => ({
-                      id: round.id,
-                      company_name: round.companyName,
-                      logo_url: round.logoUrl,
-                      raising_amount: round.raisingAmount,
-                      currency: round.currency,
-                      description: round.description,
-                      deck_url: round.deckUrl,
-                      founder_id: round.founderId,
-                      created_at: round.createdAt,
-                      updated_at: round.updatedAt,
-                      follower_count: round.followerCount,
-                      intro_request_count: round.introRequestCount,
-                    })),
-                    error: null,
-                  }),
-                }),
-              }),
-            }),
-          }));
-
           const result = await getTrendingRounds(mockRounds.length);
 
+          expect(mockRpcFn).toHaveBeenCalledWith('get_trending_rounds', {
+            limit_count: mockRounds.length,
+            follow_weight: DEFAULT_TRENDING_WEIGHTS.follow,
+            intro_weight: DEFAULT_TRENDING_WEIGHTS.intro,
+            gravity: DEFAULT_TRENDING_WEIGHTS.gravity,
+          });
+          expect(result.map(round => round.id)).toEqual(sortedRounds.map(round => round.id));
+
           // Verify the sorting property
           for (let i = 0; i < result.length - 1; i++) {
-            const current = result[i];
-            const next = result[i + 1];
-
-            const currentTime = new Date(current.createdAt).getTime();
-            const nextTime = new Date(next.createdAt).getTime();
-
-            if (currentTime !== nextTime) {
-              expect(currentTime).toBeGreaterThanOrEqual(nextTime);
-            } else {
-              expect(current.followerCount).toBeGreaterThanOrEqual(next.followerCount);
-            }
+            expect(result[i].trendingScore!).toBeGreaterThanOrEqual(result[i + 1].trendingScore!);
           }
         }
       ),
       { numRuns: 100 }
     );
   }, 30000);
+
+  it('should pass custom weights through to the database', async () => {
+    mockRpcFn.mockResolvedValue({ data: [], error: null });
+
+    await getTrendingRounds(5, { weights: { follow: 2, intro: 10, gravity: 1.2 } });
+
+    expect(mockRpcFn).toHaveBeenCalledWith('get_trending_rounds', {
+      limit_count: 5,
+      follow_weight: 2,
+      intro_weight: 10,
+      gravity: 1.2,
+    });
+  });
+
+  it('should continue from a cursor with a pinned reference time', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.double({ min: 0, max: 1000, noNaN: true }),
+        fc.uuid(),
+        fc.date({ min: new Date('2025-01-01'), max: new Date('2026-01-01') }),
+        async (score, id, asOf) => {
+          mockRpcFn.mockReset();
+          mockRpcFn.mockResolvedValue({ data: [], error: null });
+
+          await getTrendingRounds(20, { asOf: asOf.toISOString(), cursor: { score, id } });
+
+          expect(mockRpcFn).toHaveBeenCalledWith('get_trending_rounds', {
+            limit_count: 20,
+            follow_weight: DEFAULT_TRENDING_WEIGHTS.follow,
+            intro_weight: DEFAULT_TRENDING_WEIGHTS.intro,
+            gravity: DEFAULT_TRENDING_WEIGHTS.gravity,
+            as_of: asOf.toISOString(),
+            cursor_score: score,
+            cursor_id: id,
+          });
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should pass feed filters through to the database', async () => {
+    mockRpcFn.mockResolvedValue({ data: [], error: null });
+
+    await getTrendingRounds(20, {
+      asOf: '2025-12-17T12:00:00.000Z',
+      filters: { currency: 'EUR', minAmount: 500000, maxAmount: 2000000, postedWithinDays: 7 },
+    });
+
+    expect(mockRpcFn).toHaveBeenCalledWith('get_trending_rounds', {
+      limit_count: 20,
+      follow_weight: DEFAULT_TRENDING_WEIGHTS.follow,
+      intro_weight: DEFAULT_TRENDING_WEIGHTS.intro,
+      gravity: DEFAULT_TRENDING_WEIGHTS.gravity,
+      as_of: '2025-12-17T12:00:00.000Z',
+      currency_filter: 'EUR',
+      min_amount: 500000,
+      max_amount: 2000000,
+      // The window is measured back from the pinned reference time
+      posted_after: '2025-12-10T12:00:00.000Z',
+    });
+  });
+
+  it('should pass tag filters through and return the tags of each round in type order', async () => {
+    mockRpcFn.mockResolvedValue({
+      data: [
+        {
+          fundraising_round: { id: 'round-1', company_name: 'Acme', status: 'live', scan_status: 'clean' },
+          trending_score: 1,
+          tags: [
+            { id: 'tag-2', type: 'geography', slug: 'germany', name: 'Germany', parent_id: 'tag-3' },
+            { id: 'tag-1', type: 'sector', slug: 'climate', name: 'Climate', parent_id: null },
+          ],
+        },
+      ],
+      error: null,
+    });
+
+    const result = await getTrendingRounds(20, { filters: { sector: 'climate', geography: 'europe' } });
+
+    expect(mockRpcFn).toHaveBeenCalledWith('get_trending_rounds', {
+      limit_count: 20,
+      follow_weight: DEFAULT_TRENDING_WEIGHTS.follow,
+      intro_weight: DEFAULT_TRENDING_WEIGHTS.intro,
+      gravity: DEFAULT_TRENDING_WEIGHTS.gravity,
+      sector_filter: 'climate',
+      geography_filter: 'europe',
+    });
+    expect(result[0].tags).toEqual([
+      { id: 'tag-1', type: 'sector', slug: 'climate', name: 'Climate', parentId: undefined },
+      { id: 'tag-2', type: 'geography', slug: 'germany', name: 'Germany', parentId: 'tag-3' },
+    ]);
+  });
+
+  it('should throw when the trending query fails', async () => {
+    const error = new Error('rpc failed');
+    mockRpcFn.mockResolvedValue({ data: null, error });
+
+    await expect(getTrendingRounds()).rejects.toBe(error);
+  });
+});
+
+describe('Search', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFromFn.mockReset();
+    mockRpcFn.mockReset();
+  });
+
+  it('should pass the trimmed query and filters to search_rounds', async () => {
+    mockRpcFn.mockResolvedValue({
+      data: [
+        {
+          fundraising_round: {
+            id: 'round-1',
+            company_name: 'Stripe',
+            logo_url: 'https://example.com/logo.png',
+            raising_amount: 5000000,
+            currency: 'USD',
+            description: 'Payments infrastructure',
+            deck_url: 'https://example.com/deck.pdf',
+            founder_id: 'founder-1',
+            created_at: '2025-12-16T00:00:00.000Z',
+            updated_at: '2025-12-16T00:00:00.000Z',
+            follower_count: 3,
+            intro_request_count: 1,
+          },
+          rank: 0.9,
+        },
+      ],
+      error: null,
+    });
+
+    const results = await searchRounds('  stripe ', { currency: 'USD', minAmount: 1000000 }, 5);
+
+    expect(mockRpcFn).toHaveBeenCalledWith('search_rounds', {
+      search_query: 'stripe',
+      currency_filter: 'USD',
+      min_amount: 1000000,
+      max_amount: null,
+      limit_count: 5,
+    });
+    expect(results.map(round => round.companyName)).toEqual(['Stripe']);
+  });
+
+  it('should not query the database for a blank search', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.stringOf(fc.constantFrom(' ', '\t', '\n')), async query => {
+        await expect(searchRounds(query)).resolves.toEqual([]);
+        expect(mockRpcFn).not.toHaveBeenCalled();
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
+
+describe('Round updates', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFromFn.mockReset();
+    mockRpcFn.mockReset();
+  });
+
+  it('should write cleared and zero values instead of dropping them', async () => {
+    const eq = jest.fn().mockResolvedValue({ error: null });
+    const update = jest.fn().mockReturnValue({ eq });
+    mockFromFn.mockReturnValue({ update });
+
+    await updateFundraisingRound('round-1', { description: '', raisingAmount: 0 });
+
+    expect(eq).toHaveBeenCalledWith('id', 'round-1');
+    expect(update).toHaveBeenCalledWith({
+      raising_amount: 0,
+      description: '',
+      updated_at: expect.any(String),
+    });
+  });
+
+  it('should leave the follower and intro request counts to the database', async () => {
+    const eq = jest.fn().mockResolvedValue({ error: null });
+    const update = jest.fn().mockReturnValue({ eq });
+    mockFromFn.mockReturnValue({ update });
+
+    await updateFundraisingRound('round-1', { followerCount: 1000, introRequestCount: 1000 });
+
+    expect(update).toHaveBeenCalledWith({ updated_at: expect.any(String) });
+  });
+});
+
+describe('Companies', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFromFn.mockReset();
+    mockRpcFn.mockReset();
+  });
+
+  it('should leave the name and logo of a round to its company', async () => {
+    const eq = jest.fn().mockResolvedValue({ error: null });
+    const update = jest.fn().mockReturnValue({ eq });
+    mockFromFn.mockReturnValue({ update });
+
+    await updateFundraisingRound('round-1', { companyName: 'Acme', logoUrl: 'https://example.com/logo.png' });
+
+    expect(update).toHaveBeenCalledWith({ updated_at: expect.any(String) });
+  });
+
+  it('should clear a removed website and stale logo variants', async () => {
+    const eq = jest.fn().mockResolvedValue({ error: null });
+    const update = jest.fn().mockReturnValue({ eq });
+    mockFromFn.mockReturnValue({ update });
+
+    await updateCompany('company-1', { website: undefined, logoUrl: 'https://example.com/new.png' });
+
+    expect(mockFromFn).toHaveBeenCalledWith('companies');
+    expect(eq).toHaveBeenCalledWith('id', 'company-1');
+    expect(update).toHaveBeenCalledWith({
+      website: null,
+      logo_url: 'https://example.com/new.png',
+      logo_variants: null,
+      updated_at: expect.any(String),
+    });
+  });
+
+  it('should return the team in display order', async () => {
+    const maybeSingle = jest.fn().mockResolvedValue({
+      data: {
+        id: 'company-1',
+        founder_id: 'founder-1',
+        name: 'Acme',
+        logo_url: null,
+        website: 'https://acme.com',
+        company_team_members: [
+          { id: 'member-2', name: 'Grace', title: 'CTO', profile_url: null, position: 2 },
+          { id: 'member-1', name: 'Ada', title: 'CEO', profile_url: 'https://example.com/ada', position: 1 },
+        ],
+        created_at: '2025-12-30T00:00:00.000Z',
+        updated_at: '2025-12-30T00:00:00.000Z',
+      },
+      error: null,
+    });
+    const eq = jest.fn().mockReturnValue({ maybeSingle });
+    const select = jest.fn().mockReturnValue({ eq });
+    mockFromFn.mockReturnValue({ select });
+
+    const company = await getCompany('company-1');
+
+    expect(company?.logoUrl).toBeUndefined();
+    expect(company?.team).toEqual([
+      { id: 'member-1', name: 'Ada', title: 'CEO', profileUrl: 'https://example.com/ada' },
+      { id: 'member-2', name: 'Grace', title: 'CTO', profileUrl: undefined },
+    ]);
+  });
+});
+
+describe('Round status', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFromFn.mockReset();
+    mockRpcFn.mockReset();
+  });
+
+  const mockStatusUpdate = (rows: { id: string }[]) => {
+    const select = jest.fn().mockResolvedValue({ data: rows, error: null });
+    const eqStatus = jest.fn().mockReturnValue({ select });
+    const eqId = jest.fn().mockReturnValue({ eq: eqStatus });
+    const update = jest.fn().mockReturnValue({ eq: eqId });
+    mockFromFn.mockReturnValue({ update });
+    return { update, eqId, eqStatus };
+  };
+
+  it('should only update a round that still has the status it was loaded with', async () => {
+    const { update, eqId, eqStatus } = mockStatusUpdate([{ id: 'round-1' }]);
+
+    await updateRoundStatus('round-1', 'live', 'closing');
+
+    expect(update).toHaveBeenCalledWith({ status: 'closing', updated_at: expect.any(String) });
+    expect(eqId).toHaveBeenCalledWith('id', 'round-1');
+    expect(eqStatus).toHaveBeenCalledWith('status', 'live');
+  });
+
+  it('should fail when the round moved on in the meantime', async () => {
+    mockStatusUpdate([]);
+
+    await expect(updateRoundStatus('round-1', 'closing', 'funded')).rejects.toThrow('reload');
+  });
+
+  it('should reject invalid transitions without a query', async () => {
+    await expect(updateRoundStatus('round-1', 'closed', 'live')).rejects.toThrow('cannot go from closed to live');
+    expect(mockFromFn).not.toHaveBeenCalled();
+  });
+});
+
+describe('Intro request status', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFromFn.mockReset();
+    mockRpcFn.mockReset();
+  });
+
+  const mockRequestUpdate = (rows: { id: string }[]) => {
+    const select = jest.fn().mockResolvedValue({ data: rows, error: null });
+    const eq = jest.fn().mockReturnValue({ select });
+    const update = jest.fn().mockReturnValue({ eq });
+    mockFromFn.mockReturnValue({ update });
+    return { update, eq };
+  };
+
+  it("should answer a request for one of the founder's rounds", async () => {
+    const { update, eq } = mockRequestUpdate([{ id: 'request-1' }]);
+
+    await updateIntroRequestStatus('request-1', 'accepted');
+
+    expect(mockFromFn).toHaveBeenCalledWith('intro_requests');
+    expect(update).toHaveBeenCalledWith({ status: 'accepted' });
+    expect(eq).toHaveBeenCalledWith('id', 'request-1');
+  });
+
+  it('should fail when row level security leaves the request unchanged', async () => {
+    mockRequestUpdate([]);
+
+    await expect(updateIntroRequestStatus('request-1', 'accepted')).rejects.toThrow('founder of the round');
+  });
+});
+
+describe('Commitment progress', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFromFn.mockReset();
+  });
+
+  it('should key visible totals by round and leave out rounds without commitments', async () => {
+    const inFn = jest.fn().mockResolvedValue({
+      data: [
+        { round_id: 'round-1', committed_amount: 600000, commitment_count: 2 },
+        { round_id: 'round-2', committed_amount: 0, commitment_count: 0 },
+      ],
+      error: null,
+    });
+    mockFromFn.mockReturnValue({ select: jest.fn().mockReturnValue({ in: inFn }) });
+
+    const progress = await getCommitmentProgress(['round-1', 'round-2', 'round-3']);
+
+    expect(mockFromFn).toHaveBeenCalledWith('round_commitment_totals');
+    expect(inFn).toHaveBeenCalledWith('round_id', ['round-1', 'round-2', 'round-3']);
+    expect(progress).toEqual({ 'round-1': { roundId: 'round-1', committedAmount: 600000, commitmentCount: 2 } });
+  });
+
+  it('should not query for an empty page', async () => {
+    await expect(getCommitmentProgress([])).resolves.toEqual({});
+    expect(mockFromFn).not.toHaveBeenCalled();
+  });
+});
+
+describe('Follows', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFromFn.mockReset();
+    mockRpcFn.mockReset();
+  });
+
+  it('should follow and unfollow through the atomic database functions', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.uuid(),
+        fc.uuid(),
+        fc.boolean(),
+        async (userId, roundId, follow) => {
+          mockRpcFn.mockReset();
+          mockRpcFn.mockResolvedValue({ data: null, error: null });
+
+          await (follow ? followRound(userId, roundId) : unfollowRound(userId, roundId));
+
+          expect(mockRpcFn).toHaveBeenCalledTimes(1);
+          expect(mockRpcFn).toHaveBeenCalledWith(follow ? 'follow_round' : 'unfollow_round', {
+            p_user_id: userId,
+            p_round_id: roundId,
+          });
+          // The follow list and counter must never be written separately from the client
+          expect(mockFromFn).not.toHaveBeenCalled();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should surface errors raised by the database function', async () => {
+    const error = { code: '42501', message: 'Cannot follow rounds on behalf of another user' };
+    mockRpcFn.mockResolvedValue({ data: null, error });
+
+    await expect(followRound('user-1', 'round-1')).rejects.toBe(error);
+  });
+
+  it('should read followed rounds from round_follows', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uuid(), fc.uniqueArray(fc.uuid(), { maxLength: 20 }), async (userId, roundIds) => {
+        const select = jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            maybeSingle: jest.fn().mockResolvedValue({
+              data: {
+                id: userId,
+                email: 'investor@example.com',
+                display_name: 'Investor',
+                photo_url: null,
+                role: 'investor',
+                created_at: '2025-12-01T00:00:00.000Z',
+                round_follows: roundIds.map(round_id => ({ round_id })),
+              },
+              error: null,
+            }),
+          }),
+        });
+        mockFromFn.mockReset();
+        mockFromFn.mockReturnValue({ select });
+
+        const profile = await getUserProfile(userId);
+
+        expect(select).toHaveBeenCalledWith('*, round_follows(round_id)');
+        expect(profile?.followedRounds).toEqual(roundIds);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should list the followers of a round, newest first', async () => {
+    const order = jest.fn().mockResolvedValue({
+      data: [
+        { user_id: 'user-2', created_at: '2025-12-12T10:00:00.000Z', users: { display_name: 'Bea', photo_url: null } },
+        { user_id: 'user-1', created_at: '2025-12-11T10:00:00.000Z', users: { display_name: 'Al', photo_url: 'https://example.com/al.png' } },
+      ],
+      error: null,
+    });
+    const eq = jest.fn().mockReturnValue({ order });
+    mockFromFn.mockReturnValue({ select: jest.fn().mockReturnValue({ eq }) });
+
+    const followers = await getRoundFollowers('round-1');
+
+    expect(mockFromFn).toHaveBeenCalledWith('round_follows');
+    expect(eq).toHaveBeenCalledWith('round_id', 'round-1');
+    expect(order).toHaveBeenCalledWith('created_at', { ascending: false });
+    expect(followers).toEqual([
+      { userId: 'user-2', roundId: 'round-1', displayName: 'Bea', photoUrl: undefined, followedAt: '2025-12-12T10:00:00.000Z' },
+      { userId: 'user-1', roundId: 'round-1', displayName: 'Al', photoUrl: 'https://example.com/al.png', followedAt: '2025-12-11T10:00:00.000Z' },
+    ]);
+  });
 });
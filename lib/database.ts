@@ -1,26 +1,158 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { getSupabase, isSupabaseConfigured } from './supabase';
-import { FundraisingRound, User, IntroRequest } from '@/types';
+import {
+  Commitment,
+  CommitmentProgress,
+  Company,
+  DeckVersion,
+  DeckView,
+  DeckViewStats,
+  FundraisingRound,
+  IntroRequest,
+  PublicProfile,
+  RoundFilters,
+  RoundFollower,
+  RoundStatus,
+  RoundTerms,
+  Tag,
+  TagType,
+  TeamMember,
+  User,
+} from '@/types';
 import type { Database } from '@/types/database';
+import type { TeamMemberInput } from './company';
+import { canTransitionRound } from './roundStatus';
+import { sortTagsByType } from './taxonomy';
+import { DEFAULT_TRENDING_WEIGHTS, TrendingCursor, TrendingWeights } from './trending';
 
 // Helper to check if database operations are available
 export const isDatabaseConfigured = (): boolean => {
   return isSupabaseConfigured();
 };
 
-export const createFundraisingRound = async (
-  roundData: Omit<FundraisingRound, 'id' | 'createdAt' | 'updatedAt' | 'followerCount' | 'introRequestCount'>
+const mapIntroRequest = (row: any): IntroRequest => ({
+  id: row.id,
+  investorId: row.investor_id,
+  roundId: row.round_id,
+  startupName: row.startup_name,
+  status: row.status,
+  message: row.message || undefined,
+  createdAt: row.created_at,
+  investor: row.users
+    ? {
+        id: row.users.id,
+        email: row.users.email,
+        displayName: row.users.display_name,
+        photoUrl: row.users.photo_url || undefined,
+        role: row.users.role,
+      }
+    : undefined,
+});
+
+const mapRoundTerms = (row: any): RoundTerms => ({
+  instrument: row.instrument || undefined,
+  valuation: row.valuation ?? undefined,
+  valuationType: row.valuation_type || undefined,
+  discountPercent: row.discount_percent ?? undefined,
+  minimumCheck: row.minimum_check ?? undefined,
+  leadStatus: row.lead_status || undefined,
+});
+
+// Terms are always written as a set, so a term missing from `terms` is cleared
+const toRoundTermsRow = (terms: RoundTerms) => ({
+  instrument: terms.instrument ?? null,
+  valuation: terms.valuation ?? null,
+  valuation_type: terms.valuationType ?? null,
+  discount_percent: terms.discountPercent ?? null,
+  minimum_check: terms.minimumCheck ?? null,
+  lead_status: terms.leadStatus ?? null,
+});
+
+const mapTag = (row: any): Tag => ({
+  id: row.id,
+  type: row.type,
+  slug: row.slug,
+  name: row.name,
+  parentId: row.parent_id || undefined,
+});
+
+// Tags embedded by a round_tags(tags(*)) select; feed rows carry them separately
+const mapRoundTags = (row: any): Tag[] | undefined =>
+  row.round_tags ? sortTagsByType(row.round_tags.map((link: any) => mapTag(link.tags))) : undefined;
+
+const mapTeamMember = (row: any): TeamMember => ({
+  id: row.id,
+  name: row.name,
+  title: row.title || undefined,
+  profileUrl: row.profile_url || undefined,
+});
+
+const mapCompany = (row: any): Company => ({
+  id: row.id,
+  founderId: row.founder_id,
+  name: row.name,
+  logoUrl: row.logo_url || undefined,
+  logoVariants: row.logo_variants || undefined,
+  website: row.website || undefined,
+  team: row.company_team_members
+    ? [...row.company_team_members].sort((a: any, b: any) => a.position - b.position).map(mapTeamMember)
+    : undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const mapFundraisingRound = (row: any): FundraisingRound => ({
+  id: row.id,
+  companyId: row.company_id,
+  companyName: row.company_name,
+  logoUrl: row.logo_url,
+  logoVariants: row.logo_variants || undefined,
+  raisingAmount: row.raising_amount,
+  currency: row.currency,
+  terms: mapRoundTerms(row),
+  tags: mapRoundTags(row),
+  description: row.description,
+  deckPath: row.deck_path || undefined,
+  deckFilename: row.deck_filename || undefined,
+  deckUrl: row.deck_url || undefined,
+  scanStatus: row.scan_status,
+  scannedAt: row.scanned_at || undefined,
+  deckVersion: row.deck_version ?? undefined,
+  deckUpdatedAt: row.deck_updated_at || undefined,
+  allowPreviousDeckVersions: Boolean(row.allow_previous_deck_versions),
+  showCommitments: Boolean(row.show_commitments),
+  founderId: row.founder_id,
+  followerCount: row.follower_count,
+  introRequestCount: row.intro_request_count,
+  status: row.status,
+  launchedAt: row.launched_at || undefined,
+  closingAt: row.closing_at || undefined,
+  closedAt: row.closed_at || undefined,
+  fundedAt: row.funded_at || undefined,
+  withdrawnAt: row.withdrawn_at || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * First phase of a launch: insert the round as a draft without files, so
+ * they can be uploaded under its real id. See launchFundraisingRound().
+ */
+export const reserveFundraisingRound = async (
+  roundData: Pick<FundraisingRound, 'companyId' | 'raisingAmount' | 'currency' | 'terms' | 'description' | 'founderId'>
 ): Promise<string> => {
   const supabase = getSupabase();
   const { data, error }: any = await supabase
     .from('fundraising_rounds')
     .insert({
-      company_name: roundData.companyName,
-      logo_url: roundData.logoUrl,
+      // The company's name and logo are copied onto the round by the database
+      company_id: roundData.companyId,
       raising_amount: roundData.raisingAmount,
       currency: roundData.currency,
+      ...toRoundTermsRow(roundData.terms),
       description: roundData.description,
-      deck_url: roundData.deckUrl,
       founder_id: roundData.founderId,
+      status: 'draft',
     } as any)
     .select('id')
     .single();
@@ -32,11 +164,39 @@ export const createFundraisingRound = async (
   return data.id;
 };
 
-export const getFundraisingRound = async (roundId: string): Promise<FundraisingRound | null> => {
-  const supabase = getSupabase();
+/**
+ * Second phase of a launch: attach the uploaded deck and make the round live;
+ * the logo is the company's. Signed-in users can't change files or make a round
+ * live, so this runs on the server with the service role once the files are
+ * verified; see attachRoundFiles().
+ */
+export const finalizeFundraisingRound = async (
+  roundId: string,
+  files: { deckPath: string; deckFilename?: string },
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<void> => {
+  const { error }: any = await (supabase.from('fundraising_rounds') as any)
+    .update({
+      deck_path: files.deckPath,
+      deck_filename: files.deckFilename ?? null,
+      status: 'live',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', roundId)
+    .eq('status', 'draft');
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const getFundraisingRound = async (
+  roundId: string,
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<FundraisingRound | null> => {
   const { data, error }: any = await supabase
     .from('fundraising_rounds')
-    .select('*')
+    .select('*, round_tags(tags(*))')
     .eq('id', roundId)
     .maybeSingle();
 
@@ -48,66 +208,314 @@ export const getFundraisingRound = async (roundId: string): Promise<FundraisingR
     return null;
   }
 
-  return {
-    id: data.id,
-    companyName: data.company_name,
-    logoUrl: data.logo_url,
-    raisingAmount: data.raising_amount,
-    currency: data.currency,
-    description: data.description,
-    deckUrl: data.deck_url,
-    founderId: data.founder_id,
-    followerCount: data.follower_count,
-    introRequestCount: data.intro_request_count,
-    createdAt: data.created_at,
-    updatedAt: data.updated_at,
+  return mapFundraisingRound(data);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrendingQueryOptions {
+  weights?: TrendingWeights;
+  // Reference time for the decay; pin it across pages of the same feed
+  asOf?: string;
+  // Last round of the previous page, see getTrendingCursor()
+  cursor?: TrendingCursor | null;
+  filters?: RoundFilters;
+}
+
+export const getTrendingRounds = async (
+  limitCount: number = 20,
+  options: TrendingQueryOptions = {}
+): Promise<FundraisingRound[]> => {
+  const supabase = getSupabase();
+  const weights = options.weights ?? DEFAULT_TRENDING_WEIGHTS;
+  const params: Record<string, any> = {
+    limit_count: limitCount,
+    follow_weight: weights.follow,
+    intro_weight: weights.intro,
+    gravity: weights.gravity,
   };
+
+  if (options.asOf) params.as_of = options.asOf;
+  if (options.cursor) {
+    params.cursor_score = options.cursor.score;
+    params.cursor_id = options.cursor.id;
+  }
+
+  const filters = options.filters ?? {};
+  if (filters.currency) params.currency_filter = filters.currency;
+  if (filters.minAmount !== undefined) params.min_amount = filters.minAmount;
+  if (filters.maxAmount !== undefined) params.max_amount = filters.maxAmount;
+  if (filters.postedWithinDays !== undefined) {
+    // Relative to the pinned reference time, so the window doesn't slide between pages
+    const reference = options.asOf ? new Date(options.asOf).getTime() : Date.now();
+    params.posted_after = new Date(reference - filters.postedWithinDays * DAY_MS).toISOString();
+  }
+  if (filters.sector) params.sector_filter = filters.sector;
+  if (filters.stage) params.stage_filter = filters.stage;
+  if (filters.geography) params.geography_filter = filters.geography;
+  if (filters.businessModel) params.business_model_filter = filters.businessModel;
+
+  const { data, error }: any = await (supabase as any).rpc('get_trending_rounds', params);
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map((row: any) => ({
+    ...mapFundraisingRound(row.fundraising_round),
+    tags: row.tags ? sortTagsByType(row.tags.map(mapTag)) : undefined,
+    trendingScore: row.trending_score,
+  }));
 };
 
-export const getTrendingRounds = async (limitCount: number = 20): Promise<FundraisingRound[]> => {
+export const searchRounds = async (
+  query: string,
+  filters: RoundFilters = {},
+  limitCount: number = 10
+): Promise<FundraisingRound[]> => {
+  if (!query.trim()) {
+    return [];
+  }
+
   const supabase = getSupabase();
+  const { data, error }: any = await (supabase as any).rpc('search_rounds', {
+    search_query: query.trim(),
+    currency_filter: filters.currency ?? null,
+    min_amount: filters.minAmount ?? null,
+    max_amount: filters.maxAmount ?? null,
+    limit_count: limitCount,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map((row: any) => mapFundraisingRound(row.fundraising_round));
+};
+
+export const getCompany = async (
+  companyId: string,
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<Company | null> => {
+  const { data, error }: any = await supabase
+    .from('companies')
+    .select('*, company_team_members(*)')
+    .eq('id', companyId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapCompany(data) : null;
+};
+
+export const getCompaniesForFounder = async (founderId: string): Promise<Company[]> => {
+  const supabase = getSupabase();
+  const { data, error }: any = await supabase
+    .from('companies')
+    .select('*')
+    .eq('founder_id', founderId)
+    .order('name');
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map(mapCompany);
+};
+
+/**
+ * Every round of a company the caller can see, newest first.
+ */
+export const getCompanyRounds = async (
+  companyId: string,
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<FundraisingRound[]> => {
   const { data, error }: any = await supabase
     .from('fundraising_rounds')
     .select('*')
-    .order('created_at', { ascending: false })
-    .order('follower_count', { ascending: false })
-    .limit(limitCount);
+    .eq('company_id', companyId)
+    .order('created_at', { ascending: false });
 
   if (error) {
     throw error;
   }
 
-  return data.map((row: any) => ({
-    id: row.id,
-    companyName: row.company_name,
-    logoUrl: row.logo_url,
-    raisingAmount: row.raising_amount,
-    currency: row.currency,
-    description: row.description,
-    deckUrl: row.deck_url,
-    founderId: row.founder_id,
-    followerCount: row.follower_count,
-    introRequestCount: row.intro_request_count,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  }));
+  return data.map(mapFundraisingRound);
 };
 
+export const createCompany = async (
+  company: Pick<Company, 'founderId' | 'name' | 'website'>
+): Promise<string> => {
+  const supabase = getSupabase();
+  const { data, error }: any = await supabase
+    .from('companies')
+    .insert({
+      founder_id: company.founderId,
+      name: company.name,
+      website: company.website ?? null,
+    } as any)
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data.id;
+};
+
+/**
+ * Update a company; its rounds pick up a new name or logo. Only the server
+ * can set the logo, with a service-role client once it is verified.
+ */
+export const updateCompany = async (
+  companyId: string,
+  updates: Partial<Pick<Company, 'name' | 'website' | 'logoUrl'>>,
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<void> => {
+  const dbUpdates: Record<string, any> = {};
+
+  if (updates.name !== undefined) dbUpdates.name = updates.name;
+  // Cleared with '' as well, since a missing website is stored as null
+  if ('website' in updates) dbUpdates.website = updates.website || null;
+  if (updates.logoUrl !== undefined) {
+    dbUpdates.logo_url = updates.logoUrl;
+    // Variants of the old logo are stale; the new ones are made after the update
+    dbUpdates.logo_variants = null;
+  }
+
+  dbUpdates.updated_at = new Date().toISOString();
+
+  const { error }: any = await (supabase.from('companies') as any).update(dbUpdates).eq('id', companyId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Fails while the company still has rounds
+export const deleteCompany = async (companyId: string): Promise<void> => {
+  const supabase = getSupabase();
+  const { error }: any = await supabase.from('companies').delete().eq('id', companyId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+/**
+ * Replace a company's team, keeping the given order.
+ */
+export const setCompanyTeam = async (companyId: string, team: TeamMemberInput[]): Promise<void> => {
+  const supabase = getSupabase();
+  const { error }: any = await (supabase as any).rpc('set_company_team', {
+    p_company_id: companyId,
+    p_members: team.map(member => ({
+      name: member.name,
+      title: member.title ?? null,
+      profile_url: member.profileUrl ?? null,
+    })),
+  });
+
+  if (error) {
+    throw error;
+  }
+};
+
+/**
+ * The whole taxonomy, in display order within each type.
+ */
+export const getTags = async (supabase: SupabaseClient<Database> = getSupabase()): Promise<Tag[]> => {
+  const { data, error }: any = await supabase.from('tags').select('*').order('type').order('position');
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map(mapTag);
+};
+
+export const getTag = async (
+  type: TagType,
+  slug: string,
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<Tag | null> => {
+  const { data, error }: any = await supabase
+    .from('tags')
+    .select('*')
+    .eq('type', type)
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapTag(data) : null;
+};
+
+/**
+ * Replace a round's tags. At most one tag of each type; the database rejects
+ * a second one. Only the round's founder can tag it.
+ */
+export const setRoundTags = async (roundId: string, tagIds: string[]): Promise<void> => {
+  const supabase = getSupabase();
+  const { error }: any = await (supabase as any).rpc('set_round_tags', {
+    p_round_id: roundId,
+    p_tag_ids: tagIds,
+  });
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const getFundraisingRoundsForFounder = async (founderId: string): Promise<FundraisingRound[]> => {
+  const supabase = getSupabase();
+  const { data, error }: any = await supabase
+    .from('fundraising_rounds')
+    .select('*')
+    .eq('founder_id', founderId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map(mapFundraisingRound);
+};
+
+// Changing deckPath or deckUrl needs the service role; see attachRoundFiles().
+// The status moves through updateRoundStatus(), and the follower and intro
+// request counts only through their database functions
 export const updateFundraisingRound = async (
   roundId: string,
-  updates: Partial<Omit<FundraisingRound, 'id' | 'createdAt'>>
+  updates: Partial<Omit<FundraisingRound, 'id' | 'createdAt'>>,
+  supabase: SupabaseClient<Database> = getSupabase()
 ): Promise<void> => {
-  const supabase = getSupabase();
   const dbUpdates: Record<string, any> = {};
 
-  if (updates.companyName) dbUpdates.company_name = updates.companyName;
-  if (updates.logoUrl) dbUpdates.logo_url = updates.logoUrl;
-  if (updates.raisingAmount) dbUpdates.raising_amount = updates.raisingAmount;
-  if (updates.currency) dbUpdates.currency = updates.currency;
-  if (updates.description) dbUpdates.description = updates.description;
-  if (updates.deckUrl) dbUpdates.deck_url = updates.deckUrl;
-  if (updates.followerCount !== undefined) dbUpdates.follower_count = updates.followerCount;
-  if (updates.introRequestCount !== undefined) dbUpdates.intro_request_count = updates.introRequestCount;
+  // Compare against undefined so fields can be cleared to '' or 0.
+  // The name and logo belong to the company; see updateCompany()
+  if (updates.raisingAmount !== undefined) dbUpdates.raising_amount = updates.raisingAmount;
+  if (updates.currency !== undefined) dbUpdates.currency = updates.currency;
+  if (updates.terms !== undefined) Object.assign(dbUpdates, toRoundTermsRow(updates.terms));
+  if (updates.description !== undefined) dbUpdates.description = updates.description;
+  if (updates.deckUrl !== undefined) dbUpdates.deck_url = updates.deckUrl;
+  if (updates.deckPath !== undefined) {
+    dbUpdates.deck_path = updates.deckPath;
+    dbUpdates.deck_filename = updates.deckFilename ?? null;
+    // A private deck replaces any legacy public one, and needs scanning again
+    dbUpdates.deck_url = null;
+    dbUpdates.scan_status = 'pending';
+    dbUpdates.scanned_at = null;
+  }
+  if (updates.allowPreviousDeckVersions !== undefined) {
+    dbUpdates.allow_previous_deck_versions = updates.allowPreviousDeckVersions;
+  }
+  if (updates.showCommitments !== undefined) dbUpdates.show_commitments = updates.showCommitments;
 
   dbUpdates.updated_at = new Date().toISOString();
 
@@ -120,6 +528,36 @@ export const updateFundraisingRound = async (
   }
 };
 
+/**
+ * Move a round from one status to the next, e.g. live to closing. The update
+ * only applies while the round still has `from`, so a stale page can't skip
+ * a step; the database stamps the transition time and rejects invalid moves.
+ */
+export const updateRoundStatus = async (
+  roundId: string,
+  from: RoundStatus,
+  to: RoundStatus,
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<void> => {
+  if (!canTransitionRound(from, to)) {
+    throw new Error(`A round cannot go from ${from} to ${to}`);
+  }
+
+  const { data, error }: any = await (supabase.from('fundraising_rounds') as any)
+    .update({ status: to, updated_at: new Date().toISOString() })
+    .eq('id', roundId)
+    .eq('status', from)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('The round has changed since it was loaded; reload and try again');
+  }
+};
+
 export const deleteFundraisingRound = async (roundId: string): Promise<void> => {
   const supabase = getSupabase();
   const { error }: any = await supabase
@@ -132,7 +570,10 @@ export const deleteFundraisingRound = async (roundId: string): Promise<void> =>
   }
 };
 
-export const createOrUpdateUser = async (userId: string, userData: Omit<User, 'id'>): Promise<void> => {
+export const createOrUpdateUser = async (
+  userId: string,
+  userData: Omit<User, 'id' | 'followedRounds'>
+): Promise<void> => {
   const supabase = getSupabase();
   const { error }: any = await supabase.from('users').upsert({
     id: userId,
@@ -140,7 +581,6 @@ export const createOrUpdateUser = async (userId: string, userData: Omit<User, 'i
     display_name: userData.displayName,
     photo_url: userData.photoUrl,
     role: userData.role,
-    followed_rounds: userData.followedRounds,
   } as any);
 
   if (error) {
@@ -148,11 +588,13 @@ export const createOrUpdateUser = async (userId: string, userData: Omit<User, 'i
   }
 };
 
-export const getUserProfile = async (userId: string): Promise<User | null> => {
-  const supabase = getSupabase();
+export const getUserProfile = async (
+  userId: string,
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<User | null> => {
   const { data, error }: any = await supabase
     .from('users')
-    .select('*')
+    .select('*, round_follows(round_id)')
     .eq('id', userId)
     .maybeSingle();
 
@@ -170,14 +612,38 @@ export const getUserProfile = async (userId: string): Promise<User | null> => {
     displayName: data.display_name,
     photoUrl: data.photo_url || undefined,
     role: data.role,
-    followedRounds: data.followed_rounds,
+    followedRounds: (data.round_follows || []).map((follow: any) => follow.round_id),
     createdAt: data.created_at,
   };
 };
 
+export const getPublicProfile = async (userId: string): Promise<PublicProfile | null> => {
+  const supabase = getSupabase();
+  const { data, error }: any = await supabase
+    .from('public_profiles')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    displayName: data.display_name,
+    photoUrl: data.photo_url || undefined,
+    role: data.role,
+  };
+};
+
 export const updateUserProfile = async (
   userId: string,
-  updates: Partial<Omit<User, 'id' | 'createdAt'>>
+  updates: Partial<Omit<User, 'id' | 'createdAt' | 'followedRounds'>>
 ): Promise<void> => {
   const supabase = getSupabase();
   const dbUpdates: Record<string, any> = {};
@@ -186,7 +652,6 @@ export const updateUserProfile = async (
   if (updates.displayName) dbUpdates.display_name = updates.displayName;
   if (updates.photoUrl !== undefined) dbUpdates.photo_url = updates.photoUrl;
   if (updates.role) dbUpdates.role = updates.role;
-  if (updates.followedRounds) dbUpdates.followed_rounds = updates.followedRounds;
 
   const { error }: any = await (supabase.from('users') as any).update(dbUpdates).eq('id', userId);
 
@@ -197,143 +662,198 @@ export const updateUserProfile = async (
 
 export const followRound = async (userId: string, roundId: string): Promise<void> => {
   const supabase = getSupabase();
-  const { data: userData, error: userError }: any = await supabase
-    .from('users')
-    .select('followed_rounds')
-    .eq('id', userId)
-    .single();
+  // follow_round() updates the follow list and follower_count in one transaction
+  const { error }: any = await (supabase as any).rpc('follow_round', {
+    p_user_id: userId,
+    p_round_id: roundId,
+  });
 
-  if (userError) {
-    throw userError;
+  if (error) {
+    throw error;
   }
+};
 
-  const followedRounds = userData.followed_rounds || [];
-
-  if (!followedRounds.includes(roundId)) {
-    const { error: updateUserError }: any = await (supabase.from('users') as any)
-      .update({ followed_rounds: [...followedRounds, roundId] })
-      .eq('id', userId);
-
-    if (updateUserError) {
-      throw updateUserError;
-    }
-
-    const { data: roundData, error: roundError }: any = await supabase
-      .from('fundraising_rounds')
-      .select('follower_count')
-      .eq('id', roundId)
-      .single();
-
-    if (roundError) {
-      throw roundError;
-    }
-
-    const { error: updateRoundError }: any = await (supabase.from('fundraising_rounds') as any)
-      .update({ follower_count: (roundData.follower_count || 0) + 1 })
-      .eq('id', roundId);
+export const unfollowRound = async (userId: string, roundId: string): Promise<void> => {
+  const supabase = getSupabase();
+  const { error }: any = await (supabase as any).rpc('unfollow_round', {
+    p_user_id: userId,
+    p_round_id: roundId,
+  });
 
-    if (updateRoundError) {
-      throw updateRoundError;
-    }
+  if (error) {
+    throw error;
   }
 };
 
-export const unfollowRound = async (userId: string, roundId: string): Promise<void> => {
+/**
+ * Deck view totals and a daily breakdown for the last `days` days. Only the
+ * round's founder gets real numbers; views by the founder are not counted.
+ */
+export const getDeckViewStats = async (roundId: string, days: number = 30): Promise<DeckViewStats> => {
   const supabase = getSupabase();
-  const { data: userData, error: userError }: any = await supabase
-    .from('users')
-    .select('followed_rounds')
-    .eq('id', userId)
-    .single();
+  const { data, error }: any = await (supabase as any).rpc('get_deck_view_stats', {
+    p_round_id: roundId,
+    p_days: days,
+  });
 
-  if (userError) {
-    throw userError;
+  if (error) {
+    throw error;
   }
 
-  const followedRounds = userData.followed_rounds || [];
-
-  if (followedRounds.includes(roundId)) {
-    const { error: updateUserError }: any = await (supabase.from('users') as any)
-      .update({ followed_rounds: followedRounds.filter((id: string) => id !== roundId) })
-      .eq('id', userId);
+  return {
+    totalViews: data.total_views,
+    uniqueViewers: data.unique_viewers,
+    daily: (data.daily || []).map((entry: any) => ({
+      date: entry.day,
+      views: entry.views,
+      uniqueViewers: entry.unique_viewers,
+    })),
+  };
+};
 
-    if (updateUserError) {
-      throw updateUserError;
-    }
+/**
+ * Most recent deck views of a round, newest first, without the founder's own.
+ */
+export const getRecentDeckViews = async (
+  roundId: string,
+  founderId: string,
+  limitCount: number = 10
+): Promise<DeckView[]> => {
+  const supabase = getSupabase();
+  const { data, error }: any = await supabase
+    .from('deck_access_logs')
+    .select('viewer_id, referrer, created_at, users(display_name, photo_url)')
+    .eq('round_id', roundId)
+    .neq('viewer_id', founderId)
+    .order('created_at', { ascending: false })
+    .limit(limitCount);
 
-    const { data: roundData, error: roundError }: any = await supabase
-      .from('fundraising_rounds')
-      .select('follower_count')
-      .eq('id', roundId)
-      .single();
+  if (error) {
+    throw error;
+  }
 
-    if (roundError) {
-      throw roundError;
-    }
+  return data.map((row: any) => ({
+    viewerId: row.viewer_id,
+    viewedAt: row.created_at,
+    referrer: row.referrer || undefined,
+    viewer: row.users
+      ? { displayName: row.users.display_name, photoUrl: row.users.photo_url || undefined }
+      : undefined,
+  }));
+};
 
-    const { error: updateRoundError }: any = await (supabase.from('fundraising_rounds') as any)
-      .update({ follower_count: Math.max((roundData.follower_count || 0) - 1, 0) })
-      .eq('id', roundId);
+const mapDeckVersion = (row: any): DeckVersion => ({
+  id: row.id,
+  roundId: row.round_id,
+  version: row.version,
+  deckPath: row.deck_path,
+  deckFilename: row.deck_filename || undefined,
+  changelog: row.changelog || undefined,
+  scanStatus: row.scan_status,
+  createdAt: row.created_at,
+});
+
+/**
+ * Every deck version of a round, newest first.
+ */
+export const getDeckVersions = async (
+  roundId: string,
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<DeckVersion[]> => {
+  const { data, error }: any = await supabase
+    .from('deck_versions')
+    .select('*')
+    .eq('round_id', roundId)
+    .order('version', { ascending: false });
 
-    if (updateRoundError) {
-      throw updateRoundError;
-    }
+  if (error) {
+    throw error;
   }
+
+  return data.map(mapDeckVersion);
 };
 
-export const createIntroRequest = async (
-  requestData: Omit<IntroRequest, 'id' | 'createdAt' | 'status'>
-): Promise<string> => {
-  const supabase = getSupabase();
-  const { data: existingRequest, error: checkError }: any = await supabase
-    .from('intro_requests')
-    .select('id')
-    .eq('investor_id', requestData.investorId)
-    .eq('round_id', requestData.roundId)
+export const getDeckVersion = async (
+  roundId: string,
+  version: number,
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<DeckVersion | null> => {
+  const { data, error }: any = await supabase
+    .from('deck_versions')
+    .select('*')
+    .eq('round_id', roundId)
+    .eq('version', version)
     .maybeSingle();
 
-  if (checkError) {
-    throw checkError;
+  if (error) {
+    throw error;
   }
 
-  if (existingRequest) {
-    return existingRequest.id;
-  }
+  return data ? mapDeckVersion(data) : null;
+};
 
-  const { data, error }: any = await supabase
-    .from('intro_requests')
-    .insert({
-      investor_id: requestData.investorId,
-      round_id: requestData.roundId,
-      startup_name: requestData.startupName,
-      message: requestData.message,
-    } as any)
-    .select('id')
-    .single();
+/**
+ * Record a newly attached deck as the round's next version and return its
+ * number. Only the service role may call this; see attachRoundFiles().
+ */
+export const recordDeckVersion = async (
+  roundId: string,
+  deckPath: string,
+  changelog: string | null,
+  supabase: SupabaseClient<Database>
+): Promise<number> => {
+  const { data, error }: any = await (supabase as any).rpc('record_deck_version', {
+    p_round_id: roundId,
+    p_deck_path: deckPath,
+    p_changelog: changelog,
+  });
 
   if (error) {
     throw error;
   }
 
-  const { data: roundData, error: roundError }: any = await supabase
-    .from('fundraising_rounds')
-    .select('intro_request_count')
-    .eq('id', requestData.roundId)
-    .single();
+  return data;
+};
 
-  if (roundError) {
-    throw roundError;
+export const getRoundFollowers = async (roundId: string): Promise<RoundFollower[]> => {
+  const supabase = getSupabase();
+  const { data, error }: any = await supabase
+    .from('round_follows')
+    .select('user_id, created_at, users(display_name, photo_url)')
+    .eq('round_id', roundId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
   }
 
-  const { error: updateError }: any = await (supabase.from('fundraising_rounds') as any)
-    .update({ intro_request_count: (roundData.intro_request_count || 0) + 1 })
-    .eq('id', requestData.roundId);
+  return data.map((row: any) => ({
+    userId: row.user_id,
+    roundId,
+    displayName: row.users?.display_name,
+    photoUrl: row.users?.photo_url || undefined,
+    followedAt: row.created_at,
+  }));
+};
 
-  if (updateError) {
-    throw updateError;
+export const createIntroRequest = async (
+  requestData: Omit<IntroRequest, 'id' | 'createdAt' | 'status'>,
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<string> => {
+  // create_intro_request() is idempotent per investor and round, and only
+  // increments intro_request_count when a new request is inserted
+  const { data, error }: any = await (supabase as any).rpc('create_intro_request', {
+    p_investor_id: requestData.investorId,
+    p_round_id: requestData.roundId,
+    p_startup_name: requestData.startupName,
+    p_message: requestData.message ?? null,
+  });
+
+  if (error) {
+    throw error;
   }
 
-  return data.id;
+  return data;
 };
 
 export const getIntroRequestsForInvestor = async (investorId: string): Promise<IntroRequest[]> => {
@@ -347,41 +867,29 @@ export const getIntroRequestsForInvestor = async (investorId: string): Promise<I
     throw error;
   }
 
-  return data.map((row: any) => ({
-    id: row.id,
-    investorId: row.investor_id,
-    roundId: row.round_id,
-    startupName: row.startup_name,
-    status: row.status,
-    message: row.message || undefined,
-    createdAt: row.created_at,
-  }));
+  return data.map(mapIntroRequest);
 };
 
 export const getIntroRequestsForRound = async (roundId: string): Promise<IntroRequest[]> => {
   const supabase = getSupabase();
   const { data, error }: any = await supabase
     .from('intro_requests')
-    .select('*')
-    .eq('round_id', roundId);
+    .select('*, users(id, email, display_name, photo_url, role)')
+    .eq('round_id', roundId)
+    .order('created_at', { ascending: false });
 
   if (error) {
     throw error;
   }
 
-  return data.map((row: any) => ({
-    id: row.id,
-    investorId: row.investor_id,
-    roundId: row.round_id,
-    startupName: row.startup_name,
-    status: row.status,
-    message: row.message || undefined,
-    createdAt: row.created_at,
-  }));
+  return data.map(mapIntroRequest);
 };
 
-export const hasIntroRequest = async (investorId: string, roundId: string): Promise<boolean> => {
-  const supabase = getSupabase();
+export const hasIntroRequest = async (
+  investorId: string,
+  roundId: string,
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<boolean> => {
   const { data, error }: any = await supabase
     .from('intro_requests')
     .select('id')
@@ -401,7 +909,131 @@ export const updateIntroRequestStatus = async (
   status: 'pending' | 'accepted' | 'declined'
 ): Promise<void> => {
   const supabase = getSupabase();
-  const { error }: any = await (supabase.from('intro_requests') as any).update({ status }).eq('id', requestId);
+  const { data, error }: any = await (supabase.from('intro_requests') as any)
+    .update({ status })
+    .eq('id', requestId)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  // RLS skips requests the user can't answer without an error
+  if (!data || data.length === 0) {
+    throw new Error('This intro request can only be answered by the founder of the round');
+  }
+};
+
+const mapCommitment = (row: any): Commitment => ({
+  id: row.id,
+  roundId: row.round_id,
+  investorId: row.investor_id,
+  amount: row.amount,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  investor: row.users
+    ? { displayName: row.users.display_name, photoUrl: row.users.photo_url || undefined }
+    : undefined,
+});
+
+/**
+ * Committed totals of the given rounds, keyed by round id. Rounds whose
+ * founder keeps the total private, or without commitments, are left out,
+ * unless the caller is their founder.
+ */
+export const getCommitmentProgress = async (
+  roundIds: string[],
+  supabase: SupabaseClient<Database> = getSupabase()
+): Promise<Record<string, CommitmentProgress>> => {
+  if (roundIds.length === 0) {
+    return {};
+  }
+
+  const { data, error }: any = await supabase
+    .from('round_commitment_totals')
+    .select('round_id, committed_amount, commitment_count')
+    .in('round_id', roundIds);
+
+  if (error) {
+    throw error;
+  }
+
+  return Object.fromEntries(
+    data
+      .filter((row: any) => row.commitment_count > 0)
+      .map((row: any) => [
+        row.round_id,
+        { roundId: row.round_id, committedAmount: row.committed_amount, commitmentCount: row.commitment_count },
+      ])
+  );
+};
+
+/**
+ * Every commitment to a round, largest first. Only its founder gets any rows.
+ */
+export const getRoundCommitments = async (roundId: string): Promise<Commitment[]> => {
+  const supabase = getSupabase();
+  const { data, error }: any = await supabase
+    .from('commitments')
+    .select('*, users(display_name, photo_url)')
+    .eq('round_id', roundId)
+    .order('amount', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map(mapCommitment);
+};
+
+export const getInvestorCommitment = async (investorId: string, roundId: string): Promise<Commitment | null> => {
+  const supabase = getSupabase();
+  const { data, error }: any = await supabase
+    .from('commitments')
+    .select('*')
+    .eq('investor_id', investorId)
+    .eq('round_id', roundId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapCommitment(data) : null;
+};
+
+/**
+ * Record how much an investor intends to put into a round, replacing their
+ * earlier amount. Only allowed while the round is raising.
+ */
+export const saveCommitment = async (investorId: string, roundId: string, amount: number): Promise<void> => {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error('Commitment must be a positive amount');
+  }
+
+  const supabase = getSupabase();
+  const { error }: any = await (supabase.from('commitments') as any).upsert(
+    {
+      investor_id: investorId,
+      round_id: roundId,
+      amount,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'round_id,investor_id' }
+  );
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const withdrawCommitment = async (investorId: string, roundId: string): Promise<void> => {
+  const supabase = getSupabase();
+  const { error }: any = await supabase
+    .from('commitments')
+    .delete()
+    .eq('investor_id', investorId)
+    .eq('round_id', roundId);
 
   if (error) {
     throw error;
@@ -0,0 +1,192 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Property-Based Tests for private deck access
+ */
+
+import * as fc from 'fast-check';
+
+jest.mock('./supabase', () => ({
+  getSupabase: jest.fn(),
+}));
+
+jest.mock('./watermark', () => ({
+  ...jest.requireActual('./watermark'),
+  watermarkPdf: jest.fn(async (bytes: Uint8Array, text: string) => new TextEncoder().encode(`${text}\n`)),
+}));
+
+import {
+  DECK_URL_TTL_SECONDS,
+  canViewDeck,
+  canViewPreviousDeckVersions,
+  issueDeckUrl,
+  normalizeReferrer,
+} from './deckAccess';
+import { getWatermarkedDeckPath } from './storage';
+import { getWatermarkText } from './watermark';
+
+const NOW = new Date('2025-12-19T12:00:00.000Z');
+const VIEWER = { id: 'viewer-1', displayName: 'Grace Hopper', email: 'grace@example.com' };
+
+const ORIGINAL_DECK = new TextEncoder().encode('%PDF-1.7 original');
+
+const buildAdmin = ({ signError = null, logError = null }: { signError?: unknown; logError?: unknown } = {}) => {
+  const download = jest.fn().mockResolvedValue({
+    data: { arrayBuffer: async () => ORIGINAL_DECK.slice().buffer },
+    error: null,
+  });
+  const upload = jest.fn().mockResolvedValue({ error: null });
+  const createSignedUrl = jest.fn().mockImplementation(async (path: string, _ttl: number, options?: { download?: string }) => ({
+    data: signError
+      ? null
+      : {
+          signedUrl: `https://project.supabase.co/storage/v1/object/sign/decks/${path}?token=abc${
+            options?.download ? `&download=${encodeURIComponent(options.download)}` : ''
+          }`,
+        },
+    error: signError,
+  }));
+  const insert = jest.fn().mockResolvedValue({ error: logError });
+  const admin = {
+    storage: { from: jest.fn().mockReturnValue({ download, upload, createSignedUrl }) },
+    from: jest.fn().mockReturnValue({ insert }),
+  } as any;
+
+  return { admin, download, upload, createSignedUrl, insert };
+};
+
+describe('Deck access', () => {
+  it('should let investors and the round founder view decks, and nobody else', () => {
+    fc.assert(
+      fc.property(
+        fc.uuid(),
+        fc.uuid(),
+        fc.constantFrom('founder', 'investor', 'both', null),
+        (viewerId, founderId, role) => {
+          const allowed = canViewDeck({ id: viewerId, role: role as any }, { founderId });
+
+          expect(allowed).toBe(viewerId === founderId || role === 'investor' || role === 'both');
+          // Founders always see their own deck, whatever their role
+          expect(canViewDeck({ id: founderId, role: role as any }, { founderId })).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should open earlier deck versions to the founder, and to others only when shared', () => {
+    fc.assert(
+      fc.property(fc.uuid(), fc.uuid(), fc.boolean(), (viewerId, founderId, allowPreviousDeckVersions) => {
+        const round = { founderId, allowPreviousDeckVersions };
+
+        expect(canViewPreviousDeckVersions(viewerId, round)).toBe(viewerId === founderId || allowPreviousDeckVersions);
+        expect(canViewPreviousDeckVersions(founderId, round)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should sign a watermarked copy of private decks with an expiry and log the access', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uuid(), fc.uuid(), async (roundId, viewerId) => {
+        const { admin, download, upload, createSignedUrl, insert } = buildAdmin();
+        const deckPath = `decks/${roundId}/deck.pdf`;
+        const viewer = { id: viewerId, displayName: 'Ada Lovelace', email: 'ada@example.com' };
+
+        const issued = await issueDeckUrl(admin, { id: roundId, founderId: 'founder-1', deckPath }, viewer, null, NOW);
+
+        const copyPath = getWatermarkedDeckPath(roundId, viewerId, NOW);
+        expect(admin.storage.from).toHaveBeenCalledWith('decks');
+        expect(download).toHaveBeenCalledWith(deckPath);
+        // The copy is stamped and stored separately; the original is never written
+        expect(upload).toHaveBeenCalledTimes(1);
+        const [uploadedPath, uploadedBytes] = upload.mock.calls[0];
+        expect(uploadedPath).toBe(copyPath);
+        expect(new TextDecoder().decode(uploadedBytes)).toBe(`${getWatermarkText(viewer, NOW)}\n`);
+        expect(createSignedUrl).toHaveBeenCalledWith(copyPath, DECK_URL_TTL_SECONDS);
+        expect(createSignedUrl).not.toHaveBeenCalledWith(deckPath, expect.anything());
+        expect(issued?.url).toContain(copyPath);
+        expect(issued?.url).not.toContain('download=');
+        // Without an original filename, downloads are named after the stored file
+        expect(createSignedUrl).toHaveBeenCalledWith(copyPath, DECK_URL_TTL_SECONDS, { download: 'deck.pdf' });
+        expect(issued?.downloadUrl).toContain(copyPath);
+        expect(issued?.expiresAt).toBe(new Date(NOW.getTime() + DECK_URL_TTL_SECONDS * 1000).toISOString());
+        expect(admin.from).toHaveBeenCalledWith('deck_access_logs');
+        expect(insert).toHaveBeenCalledWith({ round_id: roundId, viewer_id: viewerId, referrer: null });
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should offer the deck for download under its original filename', async () => {
+    const { admin, createSignedUrl } = buildAdmin();
+
+    const issued = await issueDeckUrl(
+      admin,
+      { id: 'round-1', founderId: 'founder-1', deckPath: 'decks/round-1/0f3a.pdf', deckFilename: 'Acme Series A.pdf' },
+      VIEWER,
+      null,
+      NOW
+    );
+
+    expect(createSignedUrl).toHaveBeenCalledWith(getWatermarkedDeckPath('round-1', VIEWER.id, NOW), DECK_URL_TTL_SECONDS, {
+      download: 'Acme Series A.pdf',
+    });
+    expect(issued?.downloadUrl).toContain(`download=${encodeURIComponent('Acme Series A.pdf')}`);
+  });
+
+  it('should not hand out a URL when the access cannot be logged', async () => {
+    const logError = new Error('insert failed');
+    const { admin } = buildAdmin({ logError });
+
+    await expect(
+      issueDeckUrl(admin, { id: 'round-1', founderId: 'founder-1', deckPath: 'decks/round-1/deck.pdf' }, VIEWER, null, NOW)
+    ).rejects.toBe(logError);
+  });
+
+  it('should log the referring page of a stamped deck', async () => {
+    const { admin, download, insert } = buildAdmin();
+
+    await issueDeckUrl(
+      admin,
+      { id: 'round-1', founderId: 'founder-1', deckPath: 'decks/round-1/deck.pdf' },
+      VIEWER,
+      'https://www.linkedin.com/feed/?trk=abc',
+      NOW
+    );
+
+    expect(download).toHaveBeenCalledWith('decks/round-1/deck.pdf');
+    expect(insert).toHaveBeenCalledWith({
+      round_id: 'round-1',
+      viewer_id: 'viewer-1',
+      referrer: 'https://www.linkedin.com/feed/',
+    });
+  });
+
+  it('should return null for rounds without a private deck, never a legacy public one', async () => {
+    const { admin, download, createSignedUrl, insert } = buildAdmin();
+
+    await expect(issueDeckUrl(admin, { id: 'round-1', founderId: 'founder-1' }, VIEWER, null, NOW)).resolves.toBeNull();
+    expect(download).not.toHaveBeenCalled();
+    expect(createSignedUrl).not.toHaveBeenCalled();
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('should store referrers as origin and path only', () => {
+    fc.assert(
+      fc.property(fc.webUrl({ withQueryParameters: true, withFragments: true }), url => {
+        const normalized = normalizeReferrer(url);
+        const parsed = new URL(url);
+
+        expect(normalized).toBe(`${parsed.origin}${parsed.pathname}`);
+      }),
+      { numRuns: 100 }
+    );
+
+    expect(normalizeReferrer('javascript:alert(1)')).toBeNull();
+    expect(normalizeReferrer('not a url')).toBeNull();
+    expect(normalizeReferrer('')).toBeNull();
+  });
+});
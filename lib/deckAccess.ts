@@ -0,0 +1,206 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import { FundraisingRound, User } from '@/types';
+import { recordDeckVersion } from './database';
+import { DECK_BUCKET, PUBLIC_BUCKET, getStoragePathFromUrl, getWatermarkedDeckPath } from './storage';
+import { getWatermarkText, watermarkPdf } from './watermark';
+
+// Signed deck URLs stop working after this long
+export const DECK_URL_TTL_SECONDS = 5 * 60;
+
+export interface DeckRound {
+  id: string;
+  founderId: string;
+  deckPath?: string | null;
+  deckFilename?: string | null;
+}
+
+export type DeckViewer = Pick<User, 'id' | 'displayName' | 'email'>;
+
+export interface IssuedDeckUrl {
+  url: string;
+  // Same deck, served as an attachment named after the original file
+  downloadUrl: string;
+  expiresAt: string;
+}
+
+/**
+ * Investors can view any deck; founders can always view their own.
+ */
+export const canViewDeck = (
+  viewer: { id: string; role: User['role'] | null },
+  round: Pick<DeckRound, 'founderId'>
+): boolean => {
+  return viewer.id === round.founderId || viewer.role === 'investor' || viewer.role === 'both';
+};
+
+/**
+ * Earlier deck versions are visible to investors only if the founder shares
+ * them; founders can always see their own.
+ */
+export const canViewPreviousDeckVersions = (
+  viewerId: string,
+  round: Pick<FundraisingRound, 'founderId' | 'allowPreviousDeckVersions'>
+): boolean => {
+  return viewerId === round.founderId || round.allowPreviousDeckVersions;
+};
+
+const MAX_REFERRER_LENGTH = 2048;
+
+/**
+ * Reduce a referrer to origin and path, dropping query strings and fragments
+ * that may carry tokens. Anything that isn't an http(s) URL becomes null.
+ */
+export const normalizeReferrer = (value: string | null | undefined): string | null => {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+    return `${url.origin}${url.pathname}`.slice(0, MAX_REFERRER_LENGTH);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Stamp the viewer's name, email and the access time on a copy of a private
+ * deck and store it under watermarked/. The original upload is never changed.
+ * Copies are not referenced by any round, so the upload sweep removes them.
+ */
+const createWatermarkedCopy = async (
+  admin: SupabaseClient<Database>,
+  round: DeckRound & { deckPath: string },
+  viewer: DeckViewer,
+  now: Date
+): Promise<string> => {
+  const { data: original, error: downloadError } = await admin.storage.from(DECK_BUCKET).download(round.deckPath);
+  if (downloadError) {
+    throw downloadError;
+  }
+
+  const stamped = await watermarkPdf(
+    new Uint8Array(await original.arrayBuffer()),
+    getWatermarkText(viewer, now)
+  );
+
+  const path = getWatermarkedDeckPath(round.id, viewer.id, now);
+  const { error: uploadError } = await admin.storage
+    .from(DECK_BUCKET)
+    .upload(path, stamped, { contentType: 'application/pdf', upsert: true });
+  if (uploadError) {
+    throw uploadError;
+  }
+
+  return path;
+};
+
+/**
+ * Create a short-lived URL for a watermarked copy of a round's deck and log
+ * the access against the round. Uses the service role, since the decks bucket
+ * has no read policy for investors. The URL is only returned once the access
+ * has been logged. Every deck served is stamped, so a legacy deck still in the
+ * public bucket gets null until moveLegacyDecks() has moved it.
+ */
+export const issueDeckUrl = async (
+  admin: SupabaseClient<Database>,
+  round: DeckRound,
+  viewer: DeckViewer,
+  referrer: string | null = null,
+  now: Date = new Date()
+): Promise<IssuedDeckUrl | null> => {
+  if (!round.deckPath) {
+    return null;
+  }
+
+  const path = await createWatermarkedCopy(admin, { ...round, deckPath: round.deckPath }, viewer, now);
+  const bucket = admin.storage.from(DECK_BUCKET);
+  const [view, download] = await Promise.all([
+    bucket.createSignedUrl(path, DECK_URL_TTL_SECONDS),
+    bucket.createSignedUrl(path, DECK_URL_TTL_SECONDS, {
+      download: round.deckFilename || round.deckPath.split('/').pop() || 'deck.pdf',
+    }),
+  ]);
+
+  if (view.error || download.error) {
+    throw view.error ?? download.error;
+  }
+
+  const { error: logError }: any = await (admin.from('deck_access_logs') as any).insert({
+    round_id: round.id,
+    viewer_id: viewer.id,
+    referrer: normalizeReferrer(referrer),
+  });
+
+  if (logError) {
+    throw logError;
+  }
+
+  return {
+    url: view.data.signedUrl,
+    downloadUrl: download.data.signedUrl,
+    expiresAt: new Date(now.getTime() + DECK_URL_TTL_SECONDS * 1000).toISOString(),
+  };
+};
+
+/**
+ * Move decks uploaded before the private bucket existed out of the public
+ * bucket, then point their rounds at the private copy. Safe to run repeatedly.
+ */
+export const moveLegacyDecks = async (admin: SupabaseClient<Database>): Promise<string[]> => {
+  const { data: rounds, error }: any = await admin
+    .from('fundraising_rounds')
+    .select('id, deck_url')
+    .is('deck_path', null)
+    .not('deck_url', 'is', null);
+
+  if (error) {
+    throw error;
+  }
+
+  const movedRoundIds: string[] = [];
+
+  for (const round of rounds as { id: string; deck_url: string }[]) {
+    const path = getStoragePathFromUrl(round.deck_url);
+    if (!path) {
+      console.error(`Deck of round ${round.id} is not in the ${PUBLIC_BUCKET} bucket, skipping`);
+      continue;
+    }
+
+    const { data: file, error: downloadError } = await admin.storage.from(PUBLIC_BUCKET).download(path);
+    if (downloadError) {
+      throw downloadError;
+    }
+
+    const { error: uploadError } = await admin.storage
+      .from(DECK_BUCKET)
+      .upload(path, file, { contentType: 'application/pdf', upsert: true });
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    const { error: updateError }: any = await (admin.from('fundraising_rounds') as any)
+      .update({ deck_path: path, deck_url: null })
+      .eq('id', round.id);
+    if (updateError) {
+      throw updateError;
+    }
+
+    // Legacy decks predate version history, so the moved copy starts it
+    await recordDeckVersion(round.id, path, null, admin);
+
+    // The round no longer points at the public copy; a failed removal is left for the upload sweep
+    const { error: removeError } = await admin.storage.from(PUBLIC_BUCKET).remove([path]);
+    if (removeError) {
+      console.error(`Error removing public deck of round ${round.id}:`, removeError);
+    }
+
+    movedRoundIds.push(round.id);
+  }
+
+  return movedRoundIds;
+};
@@ -0,0 +1,57 @@
+import { fetchWithAuth } from './auth';
+
+/**
+ * Ask the server for fresh, expiring URLs of a round's deck, or of an earlier
+ * version of it: one to view it and one to download it under its original
+ * filename. Only signed-in investors and the founder get them, and each
+ * request is logged against the round together with the page that referred
+ * the viewer.
+ */
+const requestDeckUrls = async (roundId: string, version?: number): Promise<{ url: string; downloadUrl: string }> => {
+  const params = new URLSearchParams();
+  if (version !== undefined) {
+    params.set('version', String(version));
+  }
+  if (document.referrer) {
+    params.set('referrer', document.referrer);
+  }
+  const query = params.toString();
+  const response = await fetchWithAuth(`/api/rounds/${roundId}/deck${query ? `?${query}` : ''}`);
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to load pitch deck');
+  }
+
+  return { url: body.url, downloadUrl: body.downloadUrl };
+};
+
+export const requestDeckUrl = async (roundId: string, version?: number): Promise<string> => {
+  return (await requestDeckUrls(roundId, version)).url;
+};
+
+/**
+ * Download a deck. The URL is served as an attachment, so the page stays put.
+ */
+export const downloadDeck = async (roundId: string, version?: number): Promise<void> => {
+  const { downloadUrl } = await requestDeckUrls(roundId, version);
+  window.location.assign(downloadUrl);
+};
+
+/**
+ * Open a deck in a new tab. The tab is opened before the URL is requested, so
+ * popup blockers still treat it as a response to the click.
+ */
+export const openDeckInNewTab = async (roundId: string, version?: number): Promise<void> => {
+  const newTab = window.open('', '_blank');
+  try {
+    const url = await requestDeckUrl(roundId, version);
+    if (newTab) {
+      newTab.opener = null;
+      newTab.location.href = url;
+    }
+  } catch (error) {
+    newTab?.close();
+    throw error;
+  }
+};
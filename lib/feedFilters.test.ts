@@ -0,0 +1,63 @@
+/**
+ * Property-Based Tests for feed filter URL params
+ */
+
+import * as fc from 'fast-check';
+import { RoundFilters } from '@/types';
+import { SUPPORTED_CURRENCIES } from './format';
+import { POSTED_WITHIN_OPTIONS, feedFiltersToQueryString, hasActiveFilters, parseFeedFilters } from './feedFilters';
+
+const parse = (query: string) => parseFeedFilters(new URLSearchParams(query));
+
+describe('Feed filters', () => {
+  it('should survive a round trip through the query string', () => {
+    fc.assert(
+      fc.property(
+        fc.option(fc.constantFrom(...SUPPORTED_CURRENCIES), { nil: undefined }),
+        fc.option(fc.integer({ min: 0, max: 1000000000 }), { nil: undefined }),
+        fc.option(fc.integer({ min: 0, max: 1000000000 }), { nil: undefined }),
+        fc.option(fc.constantFrom(...POSTED_WITHIN_OPTIONS.map(option => option.days)), { nil: undefined }),
+        (currency, low, high, postedWithinDays) => {
+          const filters: RoundFilters = {};
+          if (currency !== undefined) filters.currency = currency;
+          if (low !== undefined) filters.minAmount = high !== undefined ? Math.min(low, high) : low;
+          if (high !== undefined) filters.maxAmount = low !== undefined ? Math.max(low, high) : high;
+          if (postedWithinDays !== undefined) filters.postedWithinDays = postedWithinDays;
+
+          expect(parse(feedFiltersToQueryString(filters))).toEqual(filters);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should ignore malformed values', () => {
+    expect(parse('currency=XYZ&min=-5&max=1e9&within=3')).toEqual({});
+    expect(parse('min=abc&max=')).toEqual({});
+    expect(hasActiveFilters(parse('foo=bar'))).toBe(false);
+  });
+
+  it('should accept lowercase currencies and swap a reversed amount range', () => {
+    expect(parse('currency=eur&min=5000000&max=100000&within=7')).toEqual({
+      currency: 'EUR',
+      minAmount: 100000,
+      maxAmount: 5000000,
+      postedWithinDays: 7,
+    });
+  });
+
+  it('should omit unset filters from the query string', () => {
+    expect(feedFiltersToQueryString({})).toBe('');
+    expect(feedFiltersToQueryString({ minAmount: 0 })).toBe('min=0');
+  });
+
+  it('should round-trip tag filters and drop malformed slugs', () => {
+    const filters: RoundFilters = { sector: 'climate', stage: 'pre-seed', geography: 'europe', businessModel: 'b2b-saas' };
+    const query = feedFiltersToQueryString(filters);
+
+    expect(query).toBe('sector=climate&stage=pre-seed&region=europe&model=b2b-saas');
+    expect(parse(query)).toEqual(filters);
+    expect(hasActiveFilters({ geography: 'europe' })).toBe(true);
+    expect(parse('sector=Climate&stage=seed--a&region=-europe&model=%3Cb%3E')).toEqual({ sector: 'climate' });
+  });
+});
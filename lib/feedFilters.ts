@@ -0,0 +1,96 @@
+import { RoundFilters } from '@/types';
+import { SUPPORTED_CURRENCIES } from './format';
+import { TagFilterKey, isValidTagSlug } from './taxonomy';
+
+// Windows offered for "posted within", in days
+export const POSTED_WITHIN_OPTIONS = [
+  { days: 1, label: 'Last 24 hours' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+// Query parameter names, kept short so shared links stay readable
+const PARAM_CURRENCY = 'currency';
+const PARAM_MIN_AMOUNT = 'min';
+const PARAM_MAX_AMOUNT = 'max';
+const PARAM_POSTED_WITHIN = 'within';
+const TAG_PARAMS: [TagFilterKey, string][] = [
+  ['sector', 'sector'],
+  ['stage', 'stage'],
+  ['geography', 'region'],
+  ['businessModel', 'model'],
+];
+
+const parseAmount = (value: string | null): number | undefined => {
+  if (!value || !/^\d+$/.test(value)) {
+    return undefined;
+  }
+  const amount = Number(value);
+  return Number.isSafeInteger(amount) ? amount : undefined;
+};
+
+/**
+ * Read feed filters from URL query params. Unknown or malformed values are
+ * ignored, so a hand-edited link still opens a working feed.
+ */
+export const parseFeedFilters = (params: Pick<URLSearchParams, 'get'>): RoundFilters => {
+  const filters: RoundFilters = {};
+
+  const currency = params.get(PARAM_CURRENCY)?.toUpperCase();
+  if (currency && SUPPORTED_CURRENCIES.includes(currency)) {
+    filters.currency = currency;
+  }
+
+  const minAmount = parseAmount(params.get(PARAM_MIN_AMOUNT));
+  const maxAmount = parseAmount(params.get(PARAM_MAX_AMOUNT));
+  if (minAmount !== undefined) filters.minAmount = minAmount;
+  if (maxAmount !== undefined) filters.maxAmount = maxAmount;
+  // A reversed range is almost always a typo; swap rather than show nothing
+  if (filters.minAmount !== undefined && filters.maxAmount !== undefined && filters.minAmount > filters.maxAmount) {
+    [filters.minAmount, filters.maxAmount] = [filters.maxAmount, filters.minAmount];
+  }
+
+  const postedWithinDays = Number(params.get(PARAM_POSTED_WITHIN));
+  if (POSTED_WITHIN_OPTIONS.some(option => option.days === postedWithinDays)) {
+    filters.postedWithinDays = postedWithinDays;
+  }
+
+  // Slugs are only checked for shape; an unknown tag just matches no rounds
+  for (const [key, param] of TAG_PARAMS) {
+    const slug = params.get(param)?.toLowerCase();
+    if (slug && isValidTagSlug(slug)) {
+      filters[key] = slug;
+    }
+  }
+
+  return filters;
+};
+
+/**
+ * Serialize feed filters to a query string, omitting unset filters.
+ */
+export const feedFiltersToQueryString = (filters: RoundFilters): string => {
+  const params = new URLSearchParams();
+
+  if (filters.currency) params.set(PARAM_CURRENCY, filters.currency);
+  if (filters.minAmount !== undefined) params.set(PARAM_MIN_AMOUNT, String(filters.minAmount));
+  if (filters.maxAmount !== undefined) params.set(PARAM_MAX_AMOUNT, String(filters.maxAmount));
+  if (filters.postedWithinDays !== undefined) params.set(PARAM_POSTED_WITHIN, String(filters.postedWithinDays));
+  for (const [key, param] of TAG_PARAMS) {
+    const slug = filters[key];
+    if (slug) params.set(param, slug);
+  }
+
+  return params.toString();
+};
+
+export const hasActiveFilters = (filters: RoundFilters): boolean => {
+  return (
+    filters.currency !== undefined ||
+    filters.minAmount !== undefined ||
+    filters.maxAmount !== undefined ||
+    filters.postedWithinDays !== undefined ||
+    TAG_PARAMS.some(([key]) => filters[key] !== undefined)
+  );
+};
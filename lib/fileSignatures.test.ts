@@ -0,0 +1,53 @@
+/**
+ * Property-Based Tests for file type sniffing
+ */
+
+import * as fc from 'fast-check';
+import { detectFileType } from './fileSignatures';
+
+const bytesOf = (text: string): number[] => text.split('').map(char => char.charCodeAt(0));
+
+const HEADERS: Record<string, number[]> = {
+  'application/pdf': bytesOf('%PDF-1.7'),
+  'image/png': [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  'image/jpeg': [0xff, 0xd8, 0xff, 0xe0],
+  'image/webp': [...bytesOf('RIFF'), 0x24, 0x00, 0x00, 0x00, ...bytesOf('WEBP')],
+};
+
+describe('File type sniffing', () => {
+  it('should recognise each accepted type by its signature, whatever follows', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...Object.keys(HEADERS)),
+        fc.uint8Array({ maxLength: 64 }),
+        (type, rest) => {
+          const bytes = new Uint8Array([...HEADERS[type], ...Array.from(rest)]);
+
+          expect(detectFileType(bytes)).toBe(type);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should not be fooled by a file name or MIME type, only by content', () => {
+    // A Windows executable and a ZIP archive, as a renamed "deck.pdf" might contain
+    expect(detectFileType(new Uint8Array([...bytesOf('MZ'), 0x90, 0x00, 0x03]))).toBeNull();
+    expect(detectFileType(new Uint8Array([...bytesOf('PK'), 0x03, 0x04]))).toBeNull();
+    // The PDF marker has to come first
+    expect(detectFileType(new Uint8Array([0x00, ...bytesOf('%PDF-1.7')]))).toBeNull();
+    // A RIFF container that isn't WebP, e.g. a WAV file
+    expect(detectFileType(new Uint8Array([...bytesOf('RIFF'), 0, 0, 0, 0, ...bytesOf('WAVE')]))).toBeNull();
+  });
+
+  it('should reject files shorter than a signature', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...Object.keys(HEADERS)), fc.nat(), (type, cut) => {
+        const header = HEADERS[type].slice(0, type === 'image/webp' ? 11 : cut % 3);
+
+        expect(detectFileType(new Uint8Array(header))).toBeNull();
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
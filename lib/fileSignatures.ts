@@ -0,0 +1,30 @@
+// Signature bytes at the start of each file type we accept. `null` matches any byte.
+const SIGNATURES: { type: SniffedFileType; offset: number; bytes: (number | null)[] }[] = [
+  { type: 'application/pdf', offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { type: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  // RIFF....WEBP
+  {
+    type: 'image/webp',
+    offset: 0,
+    bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+  },
+];
+
+export type SniffedFileType = 'application/pdf' | 'image/png' | 'image/jpeg' | 'image/webp';
+
+// Enough of the start of a file for detectFileType()
+export const SIGNATURE_LENGTH = 12;
+
+/**
+ * The type of a file going by its signature bytes, whatever its name or
+ * declared MIME type say. Returns null for anything we don't accept.
+ */
+export const detectFileType = (bytes: Uint8Array): SniffedFileType | null => {
+  const match = SIGNATURES.find(({ offset, bytes: signature }) =>
+    bytes.length >= offset + signature.length &&
+    signature.every((byte, index) => byte === null || bytes[offset + index] === byte)
+  );
+
+  return match?.type ?? null;
+};
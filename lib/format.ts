@@ -0,0 +1,12 @@
+// Format an amount with its currency, without decimals (e.g. "$1,500,000")
+export const formatAmount = (amount: number, currency: string): string => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+// Currencies founders can raise in
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'INR'];
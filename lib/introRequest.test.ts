@@ -6,12 +6,13 @@
 
 import * as fc from 'fast-check';
 
-// Create a mock function that we can control
+// Create mock functions that we can control
 const mockFromFn = jest.fn();
+const mockRpcFn = jest.fn();
 
 jest.mock('@/lib/supabase', () => ({
   supabase: { from: jest.fn() },
-  getSupabase: () => ({ from: mockFromFn }),
+  getSupabase: () => ({ from: mockFromFn, rpc: mockRpcFn }),
   isSupabaseConfigured: () => true,
 }));
 
@@ -22,6 +23,7 @@ describe('Intro Request - Property-Based Tests', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockFromFn.mockReset();
+    mockRpcFn.mockReset();
   });
 
   /**
@@ -40,52 +42,30 @@ describe('Intro Request - Property-Based Tests', () => {
           requestCount: fc.integer({ min: 1, max: 5 }),
         }),
         async (data) => {
-          mockFromFn.mockReset();
-          
+          mockRpcFn.mockReset();
+
+          // Simulates create_intro_request(): insert once, then return the stored row
           const existingRequests: any[] = [];
           let insertCallCount = 0;
 
-          mockFromFn.mockImplementation((table: string) => {
-            if (table === 'intro_requests') {
-              return {
-                select: jest.fn().mockReturnValue({
-                  eq: jest.fn().mockReturnValue({
-                    eq: jest.fn().mockReturnValue({
-                      maybeSingle: jest.fn().mockResolvedValue({
-                        data: existingRequests.length > 0 ? existingRequests[0] : null,
-                        error: null,
-                      }),
-                    }),
-                  }),
-                }),
-                insert: jest.fn().mockImplementation((insertData: any) => {
-                  insertCallCount++;
-                  const newRequest = {
-                    id: `request-${Date.now()}-${insertCallCount}`,
-                    ...insertData,
-                  };
-                  existingRequests.push(newRequest);
-                  return {
-                    select: jest.fn().mockReturnValue({
-                      single: jest.fn().mockResolvedValue({
-                        data: newRequest,
-                        error: null,
-                      }),
-                    }),
-                  };
-                }),
-              };
+          mockRpcFn.mockImplementation(async (fn: string, args: any) => {
+            expect(fn).toBe('create_intro_request');
+            const existing = existingRequests.find(
+              request => request.investor_id === args.p_investor_id && request.round_id === args.p_round_id
+            );
+            if (existing) {
+              return { data: existing.id, error: null };
             }
-            return {
-              select: jest.fn().mockReturnValue({
-                eq: jest.fn().mockReturnValue({
-                  single: jest.fn().mockResolvedValue({ data: { intro_request_count: 0 }, error: null }),
-                }),
-              }),
-              update: jest.fn().mockReturnValue({
-                eq: jest.fn().mockResolvedValue({ data: null, error: null }),
-              }),
+
+            insertCallCount++;
+            const newRequest = {
+              id: `request-${Date.now()}-${insertCallCount}`,
+              investor_id: args.p_investor_id,
+              round_id: args.p_round_id,
+              startup_name: args.p_startup_name,
             };
+            existingRequests.push(newRequest);
+            return { data: newRequest.id, error: null };
           });
 
           // Submit multiple intro requests for the same investor-round pair
@@ -108,6 +88,9 @@ describe('Intro Request - Property-Based Tests', () => {
 
           // Property: insert should only be called once (first request)
           expect(insertCallCount).toBe(1);
+
+          // Property: counters are never written from the client
+          expect(mockFromFn).not.toHaveBeenCalled();
         }
       ),
       { numRuns: 100 }
@@ -157,6 +140,7 @@ describe('Intro Request Data Completeness - Property-Based Tests', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockFromFn.mockReset();
+    mockRpcFn.mockReset();
   });
 
   it('should store all required fields in intro request documents', async () => {
@@ -168,46 +152,18 @@ describe('Intro Request Data Completeness - Property-Based Tests', () => {
           startupName: fc.string({ minLength: 1, maxLength: 100 }),
         }),
         async (data) => {
-          mockFromFn.mockReset();
-          
+          mockRpcFn.mockReset();
+
           let storedDocument: any = null;
 
-          mockFromFn.mockImplementation((table: string) => {
-            if (table === 'intro_requests') {
-              return {
-                select: jest.fn().mockReturnValue({
-                  eq: jest.fn().mockReturnValue({
-                    eq: jest.fn().mockReturnValue({
-                      maybeSingle: jest.fn().mockResolvedValue({
-                        data: null,
-                        error: null,
-                      }),
-                    }),
-                  }),
-                }),
-                insert: jest.fn().mockImplementation((insertData: any) => {
-                  storedDocument = insertData;
-                  return {
-                    select: jest.fn().mockReturnValue({
-                      single: jest.fn().mockResolvedValue({
-                        data: { id: 'new-request-id', ...insertData },
-                        error: null,
-                      }),
-                    }),
-                  };
-                }),
-              };
-            }
-            return {
-              select: jest.fn().mockReturnValue({
-                eq: jest.fn().mockReturnValue({
-                  single: jest.fn().mockResolvedValue({ data: { intro_request_count: 0 }, error: null }),
-                }),
-              }),
-              update: jest.fn().mockReturnValue({
-                eq: jest.fn().mockResolvedValue({ data: null, error: null }),
-              }),
+          // Simulates the row inserted by create_intro_request()
+          mockRpcFn.mockImplementation(async (_fn: string, args: any) => {
+            storedDocument = {
+              investor_id: args.p_investor_id,
+              round_id: args.p_round_id,
+              startup_name: args.p_startup_name,
             };
+            return { data: 'new-request-id', error: null };
           });
 
           await createIntroRequest({
@@ -0,0 +1,224 @@
+/**
+ * Tests for the two-phase round launch
+ */
+
+import * as fc from 'fast-check';
+
+const mockReserve = jest.fn();
+const mockDeleteRound = jest.fn();
+const mockUploadRoundFiles = jest.fn();
+const mockDeleteFile = jest.fn();
+const mockSetRoundTags = jest.fn();
+const mockCreateCompany = jest.fn();
+const mockDeleteCompany = jest.fn();
+
+jest.mock('./database', () => ({
+  reserveFundraisingRound: (...args: unknown[]) => mockReserve(...args),
+  deleteFundraisingRound: (...args: unknown[]) => mockDeleteRound(...args),
+  setRoundTags: (...args: unknown[]) => mockSetRoundTags(...args),
+  createCompany: (...args: unknown[]) => mockCreateCompany(...args),
+  deleteCompany: (...args: unknown[]) => mockDeleteCompany(...args),
+}));
+
+jest.mock('./storage', () => ({
+  DECK_BUCKET: 'decks',
+  LOGO_UPLOAD_BUCKET: 'logo-uploads',
+  uploadRoundFiles: (...args: unknown[]) => mockUploadRoundFiles(...args),
+  deleteFile: (...args: unknown[]) => mockDeleteFile(...args),
+}));
+
+const mockFetchWithAuth = jest.fn();
+
+jest.mock('./auth', () => ({
+  fetchWithAuth: (...args: unknown[]) => mockFetchWithAuth(...args),
+}));
+
+import { RoundFileRejectedError, launchFundraisingRound } from './launch';
+
+const roundData = {
+  company: { id: 'company-1' },
+  raisingAmount: 1000000,
+  currency: 'USD',
+  terms: { instrument: 'safe' as const, valuation: 10000000, valuationType: 'post_money' as const },
+  description: 'Rockets',
+  founderId: 'founder-1',
+};
+const logoFile = new File(['logo'], 'logo.png', { type: 'image/png' });
+const deckFile = new File(['deck'], 'deck.pdf', { type: 'application/pdf' });
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+});
+
+const uploadsFor = (roundId: string) => ({
+  logoPath: `logos/${roundId}/logo.png`,
+  deckPath: `decks/${roundId}/deck.pdf`,
+  deckFilename: 'Acme Series A.pdf',
+});
+
+describe('launchFundraisingRound', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDeleteFile.mockResolvedValue(undefined);
+    mockDeleteRound.mockResolvedValue(undefined);
+    mockDeleteCompany.mockResolvedValue(undefined);
+    mockFetchWithAuth.mockResolvedValue(jsonResponse(200, {}));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should upload files under the reserved round id before the server makes it live', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uuid(), async roundId => {
+        mockReserve.mockResolvedValue(roundId);
+        mockUploadRoundFiles.mockResolvedValue(uploadsFor(roundId));
+
+        const uploadOptions = { onProgress: jest.fn(), signal: new AbortController().signal };
+
+        await expect(launchFundraisingRound(roundData, logoFile, deckFile, uploadOptions)).resolves.toBe(roundId);
+
+        const { company, ...round } = roundData;
+        expect(mockReserve).toHaveBeenLastCalledWith({ ...round, companyId: company.id });
+        expect(mockUploadRoundFiles).toHaveBeenLastCalledWith(roundId, logoFile, deckFile, uploadOptions);
+        const [url, init] = mockFetchWithAuth.mock.calls[mockFetchWithAuth.mock.calls.length - 1];
+        expect(url).toBe(`/api/rounds/${roundId}/files`);
+        expect(init.method).toBe('POST');
+        expect(JSON.parse(init.body)).toEqual({
+          logoPath: uploadsFor(roundId).logoPath,
+          deckPath: uploadsFor(roundId).deckPath,
+          deckFilename: 'Acme Series A.pdf',
+        });
+        expect(mockCreateCompany).not.toHaveBeenCalled();
+        expect(mockDeleteFile).not.toHaveBeenCalled();
+        expect(mockDeleteRound).not.toHaveBeenCalled();
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should create a new company for the round, and delete it after the draft when the launch fails', async () => {
+    const error = new Error('upload failed');
+    mockCreateCompany.mockResolvedValue('company-2');
+    mockReserve.mockResolvedValue('round-1');
+    mockUploadRoundFiles.mockRejectedValue(error);
+    mockDeleteRound.mockImplementation(async () => {
+      expect(mockDeleteCompany).not.toHaveBeenCalled();
+    });
+
+    const launch = launchFundraisingRound(
+      { ...roundData, company: { name: 'Acme', website: 'https://acme.com' } },
+      logoFile,
+      deckFile
+    );
+
+    await expect(launch).rejects.toBe(error);
+    expect(mockCreateCompany).toHaveBeenCalledWith({
+      founderId: 'founder-1',
+      name: 'Acme',
+      website: 'https://acme.com',
+    });
+    expect(mockReserve.mock.calls[0][0].companyId).toBe('company-2');
+    expect(mockDeleteRound).toHaveBeenCalledWith('round-1');
+    expect(mockDeleteCompany).toHaveBeenCalledWith('company-2');
+  });
+
+  it('should keep an existing company when the launch fails', async () => {
+    mockReserve.mockResolvedValue('round-1');
+    mockUploadRoundFiles.mockRejectedValue(new Error('upload failed'));
+
+    await expect(launchFundraisingRound(roundData, logoFile, deckFile)).rejects.toThrow('upload failed');
+
+    expect(mockDeleteCompany).not.toHaveBeenCalled();
+  });
+
+  it('should launch without a logo when the company already has one', async () => {
+    const { logoPath, ...deckOnly } = uploadsFor('round-1');
+    mockReserve.mockResolvedValue('round-1');
+    mockUploadRoundFiles.mockResolvedValue(deckOnly);
+
+    await expect(launchFundraisingRound(roundData, null, deckFile)).resolves.toBe('round-1');
+
+    expect(mockUploadRoundFiles).toHaveBeenCalledWith('round-1', null, deckFile, undefined);
+    const [, init] = mockFetchWithAuth.mock.calls[0];
+    expect(JSON.parse(init.body)).toEqual({ deckPath: 'decks/round-1/deck.pdf', deckFilename: 'Acme Series A.pdf' });
+  });
+
+  it('should roll back and explain why when the server rejects a file', async () => {
+    mockReserve.mockResolvedValue('round-1');
+    mockUploadRoundFiles.mockResolvedValue(uploadsFor('round-1'));
+    mockFetchWithAuth.mockResolvedValue(jsonResponse(422, { error: 'Pitch deck must be a PDF', file: 'deck' }));
+
+    const launch = launchFundraisingRound(roundData, logoFile, deckFile);
+
+    await expect(launch).rejects.toBeInstanceOf(RoundFileRejectedError);
+    await expect(launch).rejects.toThrow('Pitch deck must be a PDF');
+    expect(mockDeleteFile).toHaveBeenCalledWith('logos/round-1/logo.png', 'logo-uploads');
+    expect(mockDeleteFile).toHaveBeenCalledWith('logos/round-1/logo.png');
+    expect(mockDeleteRound).toHaveBeenCalledWith('round-1');
+  });
+
+  it('should tag the draft before uploading, and delete it when tagging fails', async () => {
+    const error = new Error('A round can only have one tag of each type');
+    mockReserve.mockResolvedValue('round-1');
+    mockSetRoundTags.mockRejectedValue(error);
+
+    await expect(launchFundraisingRound({ ...roundData, tagIds: ['tag-1', 'tag-2'] }, logoFile, deckFile)).rejects.toBe(
+      error
+    );
+
+    expect(mockSetRoundTags).toHaveBeenCalledWith('round-1', ['tag-1', 'tag-2']);
+    expect(mockUploadRoundFiles).not.toHaveBeenCalled();
+    expect(mockDeleteRound).toHaveBeenCalledWith('round-1');
+  });
+
+  it('should delete the draft when an upload fails', async () => {
+    const error = new Error('upload failed');
+    mockReserve.mockResolvedValue('round-1');
+    mockUploadRoundFiles.mockRejectedValue(error);
+
+    await expect(launchFundraisingRound(roundData, logoFile, deckFile)).rejects.toBe(error);
+
+    expect(mockFetchWithAuth).not.toHaveBeenCalled();
+    expect(mockDeleteRound).toHaveBeenCalledWith('round-1');
+    expect(mockDeleteFile).not.toHaveBeenCalled();
+  });
+
+  it('should delete the uploads and the draft when finalizing fails', async () => {
+    mockReserve.mockResolvedValue('round-1');
+    mockUploadRoundFiles.mockResolvedValue(uploadsFor('round-1'));
+    mockFetchWithAuth.mockResolvedValue(jsonResponse(500, { error: 'Failed to save uploaded files' }));
+
+    await expect(launchFundraisingRound(roundData, logoFile, deckFile)).rejects.toThrow('Failed to save uploaded files');
+
+    expect(mockDeleteFile).toHaveBeenCalledWith('logos/round-1/logo.png', 'logo-uploads');
+    expect(mockDeleteFile).toHaveBeenCalledWith('logos/round-1/logo.png');
+    expect(mockDeleteFile).toHaveBeenCalledWith('decks/round-1/deck.pdf', 'decks');
+    expect(mockDeleteRound).toHaveBeenCalledWith('round-1');
+  });
+
+  it('should surface the original error when the rollback also fails', async () => {
+    const error = new Error('network down');
+    mockReserve.mockResolvedValue('round-1');
+    mockUploadRoundFiles.mockResolvedValue(uploadsFor('round-1'));
+    mockFetchWithAuth.mockRejectedValue(error);
+    mockDeleteFile.mockRejectedValue(new Error('storage down'));
+    mockDeleteRound.mockRejectedValue(new Error('database down'));
+
+    await expect(launchFundraisingRound(roundData, logoFile, deckFile)).rejects.toBe(error);
+  });
+
+  it('should not upload anything when the reservation fails', async () => {
+    const error = new Error('insert failed');
+    mockReserve.mockRejectedValue(error);
+
+    await expect(launchFundraisingRound(roundData, logoFile, deckFile)).rejects.toBe(error);
+
+    expect(mockUploadRoundFiles).not.toHaveBeenCalled();
+    expect(mockFetchWithAuth).not.toHaveBeenCalled();
+  });
+});
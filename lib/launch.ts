@@ -0,0 +1,119 @@
+import { Company, FundraisingRound } from '@/types';
+import {
+  createCompany,
+  deleteCompany,
+  deleteFundraisingRound,
+  reserveFundraisingRound,
+  setRoundTags,
+} from './database';
+import { DECK_BUCKET, LOGO_UPLOAD_BUCKET, RoundFilesUploadOptions, deleteFile, uploadRoundFiles } from './storage';
+import { fetchWithAuth } from './auth';
+import type { RoundFiles } from './roundFiles';
+
+export type LaunchRoundData = Pick<
+  FundraisingRound,
+  'raisingAmount' | 'currency' | 'terms' | 'description' | 'founderId'
+> & {
+  // One of the founder's companies, or a new one created with the round
+  company: { id: string } | Pick<Company, 'name' | 'website'>;
+  // Taxonomy tags to attach, at most one of each type
+  tagIds?: string[];
+};
+
+const logRollbackErrors = (results: PromiseSettledResult<void>[]) => {
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error('Error rolling back launch:', result.reason);
+    }
+  }
+};
+
+// Undo a failed launch. Anything that can't be removed here is left for the
+// upload sweep, so cleanup errors are logged instead of replacing the original error.
+const rollbackLaunch = async (
+  roundId: string | null,
+  uploaded: { logoPath?: string; deckPath: string } | null,
+  createdCompanyId: string | null
+): Promise<void> => {
+  logRollbackErrors(
+    await Promise.allSettled([
+      // The logo is staged, or published if it passed verification
+      ...(uploaded?.logoPath ? [deleteFile(uploaded.logoPath, LOGO_UPLOAD_BUCKET), deleteFile(uploaded.logoPath)] : []),
+      ...(uploaded ? [deleteFile(uploaded.deckPath, DECK_BUCKET)] : []),
+      ...(roundId ? [deleteFundraisingRound(roundId)] : []),
+    ])
+  );
+
+  // A company can only be deleted once its round is gone
+  if (createdCompanyId) {
+    logRollbackErrors(await Promise.allSettled([deleteCompany(createdCompanyId)]));
+  }
+};
+
+// The server refused an uploaded file; the message says why and can be shown as is
+export class RoundFileRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoundFileRejectedError';
+  }
+}
+
+/**
+ * Have the server verify uploaded files and attach them to a round. Files
+ * can't be attached from the browser, since their type and contents are only
+ * trusted once the server has checked them.
+ */
+export const submitRoundFiles = async (roundId: string, files: RoundFiles): Promise<void> => {
+  const response = await fetchWithAuth(`/api/rounds/${roundId}/files`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(files),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    if (response.status === 422) {
+      throw new RoundFileRejectedError(body.error);
+    }
+    throw new Error(body.error || `Saving files failed with status ${response.status}`);
+  }
+};
+
+/**
+ * Launch a round in two phases: reserve it as a draft, upload the files under
+ * its id, then have the server verify them and make it live. The logo can be
+ * left out when the company already has one. On failure, or when the upload
+ * is cancelled, the uploads, the draft and any company created for it are
+ * deleted.
+ */
+export const launchFundraisingRound = async (
+  roundData: LaunchRoundData,
+  logoFile: File | null,
+  deckFile: File,
+  uploadOptions?: RoundFilesUploadOptions
+): Promise<string> => {
+  const { company, tagIds, ...round } = roundData;
+  const companyId = 'id' in company ? company.id : await createCompany({ founderId: round.founderId, ...company });
+  const createdCompanyId = 'id' in company ? null : companyId;
+  let roundId: string | null = null;
+  let uploaded: { logoPath?: string; deckPath: string } | null = null;
+
+  try {
+    roundId = await reserveFundraisingRound({ ...round, companyId });
+
+    if (tagIds?.length) {
+      await setRoundTags(roundId, tagIds);
+    }
+
+    // uploadRoundFiles() already removes a half-finished upload pair
+    const { logoPath, deckPath, deckFilename } = await uploadRoundFiles(roundId, logoFile, deckFile, uploadOptions);
+    uploaded = { logoPath, deckPath };
+
+    await submitRoundFiles(roundId, { logoPath, deckPath, deckFilename });
+  } catch (error) {
+    await rollbackLaunch(roundId, uploaded, createdCompanyId);
+    throw error;
+  }
+
+  return roundId;
+};
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Property-Based Tests for logo processing
+ */
+
+import * as fc from 'fast-check';
+import sharp from 'sharp';
+
+jest.mock('./supabase', () => ({
+  getSupabase: jest.fn(),
+}));
+
+import { LOGO_VARIANT_SIZES } from './logoVariants';
+import { createLogoVariants, processCompanyLogo } from './logoProcessing';
+
+const buildImage = (width: number, height: number, format: 'png' | 'jpeg' = 'png'): Promise<Buffer> =>
+  sharp({ create: { width, height, channels: 3, background: { r: 200, g: 40, b: 40 } } })
+    [format]()
+    .toBuffer();
+
+describe('Logo processing', () => {
+  it('should make square WebP variants without upscaling past the original', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 16, max: 600 }),
+        fc.integer({ min: 16, max: 600 }),
+        fc.constantFrom('png' as const, 'jpeg' as const),
+        async (width, height, format) => {
+          const variants = await createLogoVariants(await buildImage(width, height, format));
+          const side = Math.min(width, height);
+
+          expect(variants.map(variant => variant.size)).toEqual(
+            LOGO_VARIANT_SIZES.filter((size, index) => index === 0 || size <= side)
+          );
+
+          for (const { size, data } of variants) {
+            const metadata = await sharp(data).metadata();
+            expect(metadata.format).toBe('webp');
+            expect(metadata.width).toBe(size);
+            expect(metadata.height).toBe(size);
+          }
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+
+  it('should crop rotated photos after applying their EXIF orientation', async () => {
+    // 300x100 stored, but orientation 6 displays it as 100x300
+    const rotated = await sharp(await buildImage(300, 100)).withMetadata({ orientation: 6 }).jpeg().toBuffer();
+
+    const variants = await createLogoVariants(rotated);
+
+    expect(variants.map(variant => variant.size)).toEqual([48, 96]);
+  });
+
+  it('should reject files that are not images', async () => {
+    await expect(createLogoVariants(Buffer.from('not an image'))).rejects.toThrow();
+  });
+
+  it('should store variants next to the original and save their URLs on the company', async () => {
+    const logoUrl = 'https://project.supabase.co/storage/v1/object/public/fundraising/logos/round-1/acme.png';
+    const original = await buildImage(200, 120);
+    const upload = jest.fn().mockResolvedValue({ error: null });
+    const updateChain = { eq: jest.fn() };
+    updateChain.eq.mockReturnValueOnce(updateChain).mockResolvedValueOnce({ error: null });
+    const update = jest.fn().mockReturnValue(updateChain);
+    const admin = {
+      storage: {
+        from: jest.fn().mockReturnValue({
+          download: jest.fn().mockResolvedValue({ data: new Blob([new Uint8Array(original)]), error: null }),
+          upload,
+          getPublicUrl: (path: string) => ({
+            data: { publicUrl: `https://project.supabase.co/storage/v1/object/public/fundraising/${path}` },
+          }),
+        }),
+      },
+      from: jest.fn().mockReturnValue({ update }),
+    } as any;
+
+    const logoVariants = await processCompanyLogo(admin, { id: 'company-1', logoUrl });
+
+    expect(logoVariants).toEqual({ 48: `${logoUrl}.48.webp`, 96: `${logoUrl}.96.webp` });
+    expect(upload.mock.calls.map(call => call[0])).toEqual([
+      'logos/round-1/acme.png.48.webp',
+      'logos/round-1/acme.png.96.webp',
+    ]);
+    expect(admin.from).toHaveBeenCalledWith('companies');
+    expect(update).toHaveBeenCalledWith({ logo_variants: logoVariants });
+    // A logo replaced while processing keeps its own (null) variants
+    expect(updateChain.eq).toHaveBeenCalledWith('logo_url', logoUrl);
+  });
+
+  it('should skip logos outside the public bucket', async () => {
+    const admin = { storage: { from: jest.fn() }, from: jest.fn() } as any;
+
+    await expect(processCompanyLogo(admin, { id: 'company-1', logoUrl: 'https://example.com/logo.png' })).resolves.toBeNull();
+    expect(admin.storage.from).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,112 @@
+import sharp from 'sharp';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import { LogoVariants } from '@/types';
+import { LOGO_VARIANT_SIZES, LogoVariantSize, getLogoVariantPath } from './logoVariants';
+import { PUBLIC_BUCKET, getStoragePathFromUrl } from './storage';
+
+const WEBP_QUALITY = 80;
+
+export interface LogoVariantImage {
+  size: LogoVariantSize;
+  data: Buffer;
+}
+
+/**
+ * Crop a logo to a centred square and encode it as WebP at each of
+ * LOGO_VARIANT_SIZES. Sizes larger than the cropped square are skipped rather
+ * than upscaled, except the smallest, so every logo gets at least one variant.
+ */
+export const createLogoVariants = async (image: Buffer): Promise<LogoVariantImage[]> => {
+  // Apply the EXIF orientation first, so width and height are as displayed
+  const oriented = await sharp(image).rotate().toBuffer({ resolveWithObject: true });
+  const side = Math.min(oriented.info.width, oriented.info.height);
+
+  const sizes = LOGO_VARIANT_SIZES.filter((size, index) => index === 0 || size <= side);
+
+  return Promise.all(
+    sizes.map(async size => ({
+      size,
+      data: await sharp(oriented.data)
+        .resize(size, size, { fit: 'cover', position: 'centre' })
+        .webp({ quality: WEBP_QUALITY })
+        .toBuffer(),
+    }))
+  );
+};
+
+/**
+ * Make WebP variants of a company's logo, store them next to the original in
+ * the public bucket and save their URLs on the company, which copies them to
+ * its rounds. Needs a service-role client. Returns null when the logo is not
+ * in the public bucket.
+ */
+export const processCompanyLogo = async (
+  admin: SupabaseClient<Database>,
+  company: { id: string; logoUrl: string }
+): Promise<LogoVariants | null> => {
+  const logoPath = getStoragePathFromUrl(company.logoUrl);
+  if (!logoPath) {
+    return null;
+  }
+
+  const { data: original, error: downloadError } = await admin.storage.from(PUBLIC_BUCKET).download(logoPath);
+  if (downloadError) {
+    throw downloadError;
+  }
+
+  const variants = await createLogoVariants(Buffer.from(await original.arrayBuffer()));
+
+  const logoVariants: LogoVariants = {};
+  for (const { size, data } of variants) {
+    const path = getLogoVariantPath(logoPath, size);
+    const { error: uploadError } = await admin.storage
+      .from(PUBLIC_BUCKET)
+      .upload(path, data, { contentType: 'image/webp', cacheControl: '31536000', upsert: true });
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    logoVariants[size] = admin.storage.from(PUBLIC_BUCKET).getPublicUrl(path).data.publicUrl;
+  }
+
+  // Only if the logo is still the one processed, in case it was replaced meanwhile
+  const { error: updateError }: any = await (admin.from('companies') as any)
+    .update({ logo_variants: logoVariants })
+    .eq('id', company.id)
+    .eq('logo_url', company.logoUrl);
+  if (updateError) {
+    throw updateError;
+  }
+
+  return logoVariants;
+};
+
+/**
+ * Process every company whose logo has no variants yet, e.g. logos uploaded
+ * before variants existed. A failing logo is logged and skipped.
+ */
+export const processPendingLogos = async (admin: SupabaseClient<Database>): Promise<string[]> => {
+  const { data: companies, error }: any = await admin
+    .from('companies')
+    .select('id, logo_url')
+    .is('logo_variants', null)
+    .not('logo_url', 'is', null);
+
+  if (error) {
+    throw error;
+  }
+
+  const processedCompanyIds: string[] = [];
+  for (const company of companies as { id: string; logo_url: string }[]) {
+    try {
+      if (await processCompanyLogo(admin, { id: company.id, logoUrl: company.logo_url })) {
+        processedCompanyIds.push(company.id);
+      }
+    } catch (err) {
+      console.error(`Error processing logo of company ${company.id}:`, err);
+    }
+  }
+
+  return processedCompanyIds;
+};
@@ -0,0 +1,55 @@
+/**
+ * Property-Based Tests for picking logo variants
+ */
+
+import * as fc from 'fast-check';
+import { LOGO_VARIANT_SIZES, getLogoSrc, getLogoVariantPath } from './logoVariants';
+
+const ORIGINAL = 'https://project.supabase.co/storage/v1/object/public/fundraising/logos/round-1/acme.png';
+
+const variantsArbitrary = fc
+  .subarray([...LOGO_VARIANT_SIZES], { minLength: 1 })
+  .map(sizes => Object.fromEntries(sizes.map(size => [size, `${ORIGINAL}.${size}.webp`])));
+
+describe('Logo variants', () => {
+  it('should pick the smallest variant that is sharp on a 2x screen', () => {
+    fc.assert(
+      fc.property(variantsArbitrary, fc.integer({ min: 1, max: 400 }), (logoVariants, displaySize) => {
+        const src = getLogoSrc({ logoUrl: ORIGINAL, logoVariants }, displaySize);
+        const sizes = Object.keys(logoVariants).map(Number);
+        const picked = sizes.find(size => logoVariants[size] === src)!;
+
+        expect(picked).toBeDefined();
+        const largeEnough = sizes.filter(size => size >= displaySize * 2);
+        if (largeEnough.length > 0) {
+          expect(picked).toBe(Math.min(...largeEnough));
+        } else {
+          // Nothing is big enough, so the biggest one is the best available
+          expect(picked).toBe(Math.max(...sizes));
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should fall back to the original until the logo is processed', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 400 }), displaySize => {
+        expect(getLogoSrc({ logoUrl: ORIGINAL }, displaySize)).toBe(ORIGINAL);
+        expect(getLogoSrc({ logoUrl: ORIGINAL, logoVariants: {} }, displaySize)).toBe(ORIGINAL);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should store variants as WebP next to the original', () => {
+    fc.assert(
+      fc.property(fc.uuid(), fc.constantFrom(...LOGO_VARIANT_SIZES), (roundId, size) => {
+        const path = getLogoVariantPath(`logos/${roundId}/logo.png`, size);
+
+        expect(path).toBe(`logos/${roundId}/logo.png.${size}.webp`);
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
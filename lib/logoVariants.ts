@@ -0,0 +1,32 @@
+import { FundraisingRound } from '@/types';
+
+// Widths, in pixels, of the square WebP variants made from every logo. The
+// feed shows logos at 80-96px and search results at 40px, so these cover both
+// at 1x and 2x.
+export const LOGO_VARIANT_SIZES = [48, 96, 192, 384] as const;
+
+export type LogoVariantSize = (typeof LOGO_VARIANT_SIZES)[number];
+
+// Variants sit next to the original, e.g. logos/{roundId}/acme.png.96.webp
+export const getLogoVariantPath = (logoPath: string, size: LogoVariantSize): string => {
+  return `${logoPath}.${size}.webp`;
+};
+
+/**
+ * The smallest variant that stays sharp at `displaySize` CSS pixels on a 2x
+ * screen, or the largest variant if none is big enough. Falls back to the
+ * original until the logo has been processed.
+ */
+export const getLogoSrc = (
+  round: Pick<FundraisingRound, 'logoUrl' | 'logoVariants'>,
+  displaySize: number
+): string => {
+  const variants = round.logoVariants;
+  const available = LOGO_VARIANT_SIZES.filter(size => variants?.[size]);
+  if (!variants || available.length === 0) {
+    return round.logoUrl;
+  }
+
+  const size = available.find(candidate => candidate >= displaySize * 2) ?? available[available.length - 1];
+  return variants[size] as string;
+};
@@ -0,0 +1,216 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Property-Based Tests for deck malware scanning
+ */
+
+import * as fc from 'fast-check';
+import { AddressInfo, Server, createServer } from 'net';
+
+jest.mock('./supabase', () => ({
+  getSupabase: jest.fn(),
+}));
+
+import {
+  MalwareScanner,
+  createClamAvScanner,
+  getMalwareScanner,
+  noopScanner,
+  scanPendingDecks,
+  parseClamAvReply,
+  scanRoundDeck,
+} from './malwareScan';
+
+const NOW = new Date('2025-12-23T09:00:00.000Z');
+const EICAR_MARKER = 'EICAR-STANDARD-ANTIVIRUS-TEST-FILE';
+
+/**
+ * A minimal clamd: reads a zINSTREAM command and its length-prefixed chunks,
+ * then replies like ClamAV would. Records each stream it reassembled.
+ */
+const startFakeClamd = async (): Promise<{ server: Server; port: number; streams: Buffer[] }> => {
+  const streams: Buffer[] = [];
+  const server = createServer(socket => {
+    let buffer = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+    });
+    socket.on('end', () => {
+      const command = 'zINSTREAM\0';
+      if (buffer.subarray(0, command.length).toString() !== command) {
+        socket.end('UNKNOWN COMMAND\0');
+        return;
+      }
+
+      const parts: Buffer[] = [];
+      let offset = command.length;
+      for (;;) {
+        const length = buffer.readUInt32BE(offset);
+        offset += 4;
+        if (length === 0) break;
+        parts.push(buffer.subarray(offset, offset + length));
+        offset += length;
+      }
+
+      const stream = Buffer.concat(parts);
+      streams.push(stream);
+      socket.end(stream.includes(EICAR_MARKER) ? 'stream: Eicar-Signature FOUND\0' : 'stream: OK\0');
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, port: (server.address() as AddressInfo).port, streams };
+};
+
+const buildAdmin = () => {
+  const download = jest.fn().mockResolvedValue({ data: new Blob(['%PDF-1.7 deck']), error: null });
+  // Each update is filtered by two eq() calls before it is awaited
+  const buildUpdate = () => {
+    const chain = { eq: jest.fn() };
+    chain.eq.mockReturnValueOnce(chain).mockResolvedValueOnce({ error: null });
+    return { update: jest.fn().mockReturnValue(chain), chain };
+  };
+  const rounds = buildUpdate();
+  const versions = buildUpdate();
+  const admin = {
+    storage: { from: jest.fn().mockReturnValue({ download }) },
+    from: jest.fn().mockImplementation((table: string) => ({
+      update: table === 'deck_versions' ? versions.update : rounds.update,
+    })),
+  } as any;
+  return { admin, download, update: rounds.update, updateChain: rounds.chain, versions };
+};
+
+describe('Malware scanning', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('should read clean and infected verdicts from ClamAV replies', () => {
+    fc.assert(
+      fc.property(fc.stringMatching(/^[A-Za-z0-9.\-_]{1,40}$/), signature => {
+        expect(parseClamAvReply(`stream: ${signature} FOUND\0`)).toEqual({ status: 'rejected', signature });
+      }),
+      { numRuns: 100 }
+    );
+
+    expect(parseClamAvReply('stream: OK\0')).toEqual({ status: 'clean' });
+    // Errors are not verdicts
+    expect(() => parseClamAvReply('INSTREAM size limit exceeded. ERROR\0')).toThrow();
+    expect(() => parseClamAvReply('')).toThrow();
+  });
+
+  it('should stream whole files to clamd in chunks and return its verdict', async () => {
+    const { server, port, streams } = await startFakeClamd();
+    try {
+      const scanner = createClamAvScanner('127.0.0.1', port);
+
+      await fc.assert(
+        fc.asyncProperty(fc.uint8Array({ maxLength: 200 * 1024 }), fc.boolean(), async (bytes, infected) => {
+          const data = infected ? new Uint8Array([...Array.from(bytes), ...Array.from(Buffer.from(EICAR_MARKER))]) : bytes;
+
+          const result = await scanner.scan(data);
+
+          expect(Buffer.from(streams[streams.length - 1]).equals(Buffer.from(data))).toBe(true);
+          if (infected) {
+            expect(result).toEqual({ status: 'rejected', signature: 'Eicar-Signature' });
+          } else if (!Buffer.from(bytes).includes(EICAR_MARKER)) {
+            expect(result).toEqual({ status: 'clean' });
+          }
+        }),
+        { numRuns: 10 }
+      );
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should fail rather than pass a file when clamd is unreachable', async () => {
+    const { server, port } = await startFakeClamd();
+    await new Promise(resolve => server.close(resolve));
+
+    await expect(createClamAvScanner('127.0.0.1', port).scan(new Uint8Array([1, 2, 3]))).rejects.toThrow();
+  });
+
+  it('should use ClamAV only when it is configured', () => {
+    process.env = { ...originalEnv, CLAMAV_HOST: '' };
+    expect(getMalwareScanner()).toBe(noopScanner);
+
+    process.env = { ...originalEnv, CLAMAV_HOST: 'clamd.internal', CLAMAV_PORT: '3311' };
+    expect(getMalwareScanner().name).toBe('clamav');
+  });
+
+  it('should record the verdict on the round, unless its deck was replaced meanwhile', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uuid(), fc.constantFrom('clean' as const, 'rejected' as const), async (roundId, verdict) => {
+        const { admin, download, update, updateChain, versions } = buildAdmin();
+        const scanner: MalwareScanner = {
+          name: 'test',
+          scan: async () => (verdict === 'clean' ? { status: 'clean' } : { status: 'rejected', signature: 'Test' }),
+        };
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        const deckPath = `decks/${roundId}/deck.pdf`;
+
+        const status = await scanRoundDeck(admin, { id: roundId, deckPath }, scanner, NOW);
+
+        expect(status).toBe(verdict);
+        expect(admin.storage.from).toHaveBeenCalledWith('decks');
+        expect(download).toHaveBeenCalledWith(deckPath);
+        expect(update).toHaveBeenCalledWith({ scan_status: verdict, scanned_at: NOW.toISOString() });
+        expect(updateChain.eq).toHaveBeenCalledWith('id', roundId);
+        expect(updateChain.eq).toHaveBeenCalledWith('deck_path', deckPath);
+        // The version keeps its own verdict, for when it is no longer the current deck
+        expect(versions.update).toHaveBeenCalledWith({ scan_status: verdict });
+        expect(versions.chain.eq).toHaveBeenCalledWith('deck_path', deckPath);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should leave the deck pending when the scan cannot run', async () => {
+    const { admin, update } = buildAdmin();
+    const error = new Error('clamd down');
+    const scanner: MalwareScanner = { name: 'test', scan: jest.fn().mockRejectedValue(error) };
+
+    await expect(scanRoundDeck(admin, { id: 'round-1', deckPath: 'decks/round-1/deck.pdf' }, scanner, NOW)).rejects.toBe(error);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('should scan pending versions that were replaced before their scan finished', async () => {
+    const download = jest.fn().mockResolvedValue({ data: new Blob(['%PDF-1.7 deck']), error: null });
+    const update = jest.fn().mockImplementation(() => {
+      const chain = { eq: jest.fn() };
+      chain.eq.mockReturnValueOnce(chain).mockResolvedValueOnce({ error: null });
+      return chain;
+    });
+    const pending: Record<string, unknown[]> = {
+      fundraising_rounds: [{ id: 'round-1', deck_path: 'decks/round-1/v2.pdf', deck_url: null }],
+      deck_versions: [
+        { id: 'version-1', round_id: 'round-1', deck_path: 'decks/round-1/v1.pdf' },
+        { id: 'version-2', round_id: 'round-1', deck_path: 'decks/round-1/v2.pdf' },
+      ],
+    };
+    const admin = {
+      storage: { from: jest.fn().mockReturnValue({ download }) },
+      from: jest.fn().mockImplementation((table: string) => {
+        const query: any = {
+          eq: jest.fn(() => query),
+          or: jest.fn(() => query),
+          order: jest.fn().mockResolvedValue({ data: pending[table], error: null }),
+        };
+        return { select: jest.fn(() => query), update };
+      }),
+    } as any;
+
+    const results = await scanPendingDecks(admin, noopScanner);
+
+    expect(results).toEqual({ 'round-1': 'clean', 'version-1': 'clean' });
+    // The current deck is scanned once, with the round
+    expect(download.mock.calls).toEqual([['decks/round-1/v2.pdf'], ['decks/round-1/v1.pdf']]);
+  });
+});
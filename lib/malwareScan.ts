@@ -0,0 +1,226 @@
+import { Socket } from 'net';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import { DeckScanStatus } from '@/types';
+import { DECK_BUCKET, PUBLIC_BUCKET, getStoragePathFromUrl } from './storage';
+
+export type ScanResult = { status: 'clean' } | { status: 'rejected'; signature: string };
+
+export interface MalwareScanner {
+  name: string;
+  // Throws when the file could not be scanned; that is not a verdict either way
+  scan(data: Uint8Array): Promise<ScanResult>;
+}
+
+const CLAMAV_DEFAULT_PORT = 3310;
+const CLAMAV_CHUNK_SIZE = 64 * 1024;
+const CLAMAV_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Parse clamd's reply to INSTREAM, e.g. "stream: OK" or
+ * "stream: Win.Test.EICAR_HDB-1 FOUND".
+ */
+export const parseClamAvReply = (reply: string): ScanResult => {
+  const trimmed = reply.replace(/\0/g, '').trim();
+
+  if (trimmed === 'stream: OK') {
+    return { status: 'clean' };
+  }
+
+  const found = trimmed.match(/^stream: (.+) FOUND$/);
+  if (found) {
+    return { status: 'rejected', signature: found[1] };
+  }
+
+  throw new Error(`Unexpected reply from ClamAV: ${trimmed}`);
+};
+
+/**
+ * Scan with a clamd daemon over TCP, streaming the file with the INSTREAM
+ * command. The daemon's StreamMaxLength must be at least the 10MB deck limit.
+ */
+export const createClamAvScanner = (host: string, port: number = CLAMAV_DEFAULT_PORT): MalwareScanner => ({
+  name: 'clamav',
+  scan: data =>
+    new Promise<ScanResult>((resolve, reject) => {
+      const socket = new Socket();
+      const chunks: Buffer[] = [];
+
+      socket.setTimeout(CLAMAV_TIMEOUT_MS, () => socket.destroy(new Error('ClamAV scan timed out')));
+      socket.on('error', reject);
+      socket.on('data', chunk => chunks.push(chunk));
+      socket.on('end', () => {
+        try {
+          resolve(parseClamAvReply(Buffer.concat(chunks).toString('utf8')));
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      socket.connect(port, host, () => {
+        socket.write('zINSTREAM\0');
+        // Each chunk is prefixed with its length as a 4-byte big-endian integer
+        for (let offset = 0; offset < data.length; offset += CLAMAV_CHUNK_SIZE) {
+          const chunk = data.subarray(offset, offset + CLAMAV_CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        // A zero-length chunk ends the stream
+        socket.end(Buffer.alloc(4));
+      });
+    }),
+});
+
+// Stand-in for environments without a scanner; passes every file
+export const noopScanner: MalwareScanner = {
+  name: 'noop',
+  scan: async () => ({ status: 'clean' }),
+};
+
+/**
+ * ClamAV when CLAMAV_HOST is set (with an optional CLAMAV_PORT), otherwise
+ * the no-op scanner.
+ */
+export const getMalwareScanner = (): MalwareScanner => {
+  const host = process.env.CLAMAV_HOST;
+  if (!host) {
+    return noopScanner;
+  }
+
+  const port = Number(process.env.CLAMAV_PORT);
+  return createClamAvScanner(host, Number.isInteger(port) && port > 0 ? port : CLAMAV_DEFAULT_PORT);
+};
+
+export interface ScannableRound {
+  id: string;
+  deckPath?: string | null;
+  deckUrl?: string | null;
+}
+
+// Where a round's deck is stored: the private bucket, or the public one for legacy decks
+const getDeckLocation = (round: ScannableRound): { bucket: string; path: string } | null => {
+  if (round.deckPath) {
+    return { bucket: DECK_BUCKET, path: round.deckPath };
+  }
+  const legacyPath = round.deckUrl ? getStoragePathFromUrl(round.deckUrl) : null;
+  return legacyPath ? { bucket: PUBLIC_BUCKET, path: legacyPath } : null;
+};
+
+/**
+ * Scan a round's current deck and record the verdict on the round and on its
+ * deck version. The round is only updated if the deck hasn't been replaced
+ * meanwhile. Needs a service-role client. Returns null for rounds without a
+ * deck in storage.
+ */
+export const scanRoundDeck = async (
+  admin: SupabaseClient<Database>,
+  round: ScannableRound,
+  scanner: MalwareScanner = getMalwareScanner(),
+  now: Date = new Date()
+): Promise<DeckScanStatus | null> => {
+  const location = getDeckLocation(round);
+  if (!location) {
+    return null;
+  }
+
+  const { data: file, error: downloadError } = await admin.storage.from(location.bucket).download(location.path);
+  if (downloadError) {
+    throw downloadError;
+  }
+
+  const result = await scanner.scan(new Uint8Array(await file.arrayBuffer()));
+  if (result.status === 'rejected') {
+    console.error(`Deck of round ${round.id} failed the ${scanner.name} scan: ${result.signature}`);
+  }
+
+  let query = (admin.from('fundraising_rounds') as any)
+    .update({ scan_status: result.status, scanned_at: now.toISOString() })
+    .eq('id', round.id);
+  query = round.deckPath ? query.eq('deck_path', round.deckPath) : query.eq('deck_url', round.deckUrl);
+
+  const { error: updateError }: any = await query;
+  if (updateError) {
+    throw updateError;
+  }
+
+  if (round.deckPath) {
+    const { error: versionError }: any = await (admin.from('deck_versions') as any)
+      .update({ scan_status: result.status })
+      .eq('round_id', round.id)
+      .eq('deck_path', round.deckPath);
+    if (versionError) {
+      throw versionError;
+    }
+  }
+
+  return result.status;
+};
+
+/**
+ * Scan every deck still pending, e.g. because the scanner was unreachable
+ * when it was uploaded. Earlier versions are included, since a deck replaced
+ * before its scan finished would otherwise stay pending for good. A deck
+ * that can't be scanned stays pending for the next run. Verdicts are keyed
+ * by round id, and by deck version id for earlier versions.
+ */
+export const scanPendingDecks = async (
+  admin: SupabaseClient<Database>,
+  scanner: MalwareScanner = getMalwareScanner()
+): Promise<Record<string, DeckScanStatus>> => {
+  const { data: rounds, error }: any = await admin
+    .from('fundraising_rounds')
+    .select('id, deck_path, deck_url')
+    .eq('scan_status', 'pending')
+    .or('deck_path.not.is.null,deck_url.not.is.null')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const results: Record<string, DeckScanStatus> = {};
+  // Current decks scanned above also settle their version
+  const scannedDecks = new Set<string>();
+  for (const round of rounds as { id: string; deck_path: string | null; deck_url: string | null }[]) {
+    try {
+      const status = await scanRoundDeck(admin, { id: round.id, deckPath: round.deck_path, deckUrl: round.deck_url }, scanner);
+      if (status) {
+        results[round.id] = status;
+        if (round.deck_path) {
+          scannedDecks.add(`${round.id}/${round.deck_path}`);
+        }
+      }
+    } catch (err) {
+      console.error(`Error scanning deck of round ${round.id}:`, err);
+    }
+  }
+
+  const { data: versions, error: versionsError }: any = await admin
+    .from('deck_versions')
+    .select('id, round_id, deck_path')
+    .eq('scan_status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (versionsError) {
+    throw versionsError;
+  }
+
+  for (const version of versions as { id: string; round_id: string; deck_path: string }[]) {
+    if (scannedDecks.has(`${version.round_id}/${version.deck_path}`)) {
+      continue;
+    }
+    try {
+      // The round itself is only updated if this is still its current deck
+      const status = await scanRoundDeck(admin, { id: version.round_id, deckPath: version.deck_path }, scanner);
+      if (status) {
+        results[version.id] = status;
+      }
+    } catch (err) {
+      console.error(`Error scanning deck version ${version.id} of round ${version.round_id}:`, err);
+    }
+  }
+
+  return results;
+};
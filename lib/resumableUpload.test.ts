@@ -0,0 +1,245 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Property-Based Tests for resumable (TUS) uploads
+ */
+
+import * as fc from 'fast-check';
+
+jest.mock('./auth', () => ({
+  getAccessToken: jest.fn().mockResolvedValue('access-token'),
+}));
+
+import {
+  UPLOAD_CHUNK_SIZE,
+  UploadCancelledError,
+  UploadRequestError,
+  encodeUploadMetadata,
+  uploadResumable,
+} from './resumableUpload';
+
+interface SentRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: Blob | null;
+}
+
+type Reply = { status: number; headers?: Record<string, string> } | 'network-error';
+
+/**
+ * Stand-in for a TUS server behind XMLHttpRequest. It keeps the received
+ * bytes; `failNextPatch` drops the connection after part of the next chunk.
+ */
+class FakeTusServer {
+  requests: SentRequest[] = [];
+  received = 0;
+  failNextPatch: number | null = null;
+  deleted = false;
+  createStatus = 201;
+  // Called before each PATCH reply, e.g. to cancel mid-upload
+  onPatch?: () => void;
+
+  reply(request: SentRequest): Reply {
+    switch (request.method) {
+      case 'POST':
+        return { status: this.createStatus, headers: { Location: '/storage/v1/upload/resumable/upload-1' } };
+      case 'HEAD':
+        return { status: 200, headers: { 'Upload-Offset': String(this.received) } };
+      case 'DELETE':
+        this.deleted = true;
+        return { status: 204 };
+      case 'PATCH': {
+        this.onPatch?.();
+        const offset = Number(request.headers['Upload-Offset']);
+        if (offset !== this.received) {
+          return { status: 409 };
+        }
+        const size = request.body?.size ?? 0;
+        if (this.failNextPatch !== null) {
+          this.received += Math.min(size, this.failNextPatch);
+          this.failNextPatch = null;
+          return 'network-error';
+        }
+        this.received += size;
+        return { status: 204, headers: { 'Upload-Offset': String(this.received) } };
+      }
+      default:
+        return { status: 405 };
+    }
+  }
+}
+
+let server: FakeTusServer;
+
+class FakeXMLHttpRequest {
+  status = 0;
+  upload: { onprogress: ((event: { loaded: number }) => void) | null } = { onprogress: null };
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+  onloadend: (() => void) | null = null;
+  private request: SentRequest = { method: '', url: '', headers: {}, body: null };
+  private responseHeaders: Record<string, string> = {};
+  private aborted = false;
+
+  open(method: string, url: string) {
+    this.request = { method, url, headers: {}, body: null };
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.request.headers[name] = value;
+  }
+
+  getResponseHeader(name: string) {
+    return this.responseHeaders[name] ?? null;
+  }
+
+  abort() {
+    this.aborted = true;
+  }
+
+  send(body: Blob | null) {
+    this.request.body = body;
+    server.requests.push(this.request);
+    setTimeout(() => {
+      const reply = server.reply(this.request);
+      if (this.aborted) {
+        this.onabort?.();
+      } else if (reply === 'network-error') {
+        this.onerror?.();
+      } else {
+        if (body) this.upload.onprogress?.({ loaded: body.size });
+        this.status = reply.status;
+        this.responseHeaders = reply.headers ?? {};
+        this.onload?.();
+      }
+      this.onloadend?.();
+    }, 0);
+  }
+}
+
+const makeFile = (size: number) => new Blob([new Uint8Array(size)], { type: 'application/pdf' });
+
+const target = (file: Blob) => ({
+  bucket: 'decks',
+  path: 'round-1/deck.pdf',
+  file,
+  contentType: 'application/pdf',
+});
+
+describe('Resumable uploads', () => {
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://project.supabase.co';
+    (global as any).XMLHttpRequest = FakeXMLHttpRequest;
+  });
+
+  beforeEach(() => {
+    server = new FakeTusServer();
+  });
+
+  it('should encode upload metadata as base64 UTF-8 values', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 40 }), value => {
+        const [key, encoded] = encodeUploadMetadata({ objectName: value }).split(' ');
+
+        expect(key).toBe('objectName');
+        expect(Buffer.from(encoded ?? '', 'base64').toString('utf8')).toBe(value);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should send the file in chunks and report progress up to its size', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 3 * UPLOAD_CHUNK_SIZE }), async size => {
+        server = new FakeTusServer();
+        const progress: number[] = [];
+
+        await uploadResumable(target(makeFile(size)), { onProgress: ({ uploaded }) => progress.push(uploaded) });
+
+        expect(server.received).toBe(size);
+        const patches = server.requests.filter(request => request.method === 'PATCH');
+        expect(patches).toHaveLength(Math.ceil(size / UPLOAD_CHUNK_SIZE));
+        patches.forEach(patch => expect(patch.body!.size).toBeLessThanOrEqual(UPLOAD_CHUNK_SIZE));
+        expect(progress[progress.length - 1]).toBe(size);
+        // Progress never goes backwards while nothing fails
+        expect(progress).toEqual([...progress].sort((a, b) => a - b));
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  it('should create the upload with the bucket, path and the signed-in user', async () => {
+    await uploadResumable({ ...target(makeFile(10)), upsert: true });
+
+    const create = server.requests[0];
+    expect(create.method).toBe('POST');
+    expect(create.url).toBe('https://project.supabase.co/storage/v1/upload/resumable');
+    expect(create.headers.Authorization).toBe('Bearer access-token');
+    expect(create.headers['Upload-Length']).toBe('10');
+    expect(create.headers['x-upsert']).toBe('true');
+    expect(create.headers['Upload-Metadata']).toBe(
+      encodeUploadMetadata({
+        bucketName: 'decks',
+        objectName: 'round-1/deck.pdf',
+        contentType: 'application/pdf',
+        cacheControl: '3600',
+      })
+    );
+    expect(server.requests[1].url).toBe('https://project.supabase.co/storage/v1/upload/resumable/upload-1');
+  });
+
+  it('should resume a failed chunk from the offset the server reports', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: UPLOAD_CHUNK_SIZE }), async partial => {
+        server = new FakeTusServer();
+        server.failNextPatch = partial;
+        const size = UPLOAD_CHUNK_SIZE + 100;
+
+        await uploadResumable(target(makeFile(size)));
+
+        expect(server.received).toBe(size);
+        const methods = server.requests.map(request => request.method);
+        expect(methods.slice(0, 4)).toEqual(['POST', 'PATCH', 'HEAD', 'PATCH']);
+        expect(server.requests[3].headers['Upload-Offset']).toBe(String(Math.min(partial, UPLOAD_CHUNK_SIZE)));
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  it('should not retry a refused upload', async () => {
+    server.createStatus = 403;
+
+    const error = (await uploadResumable(target(makeFile(10))).catch(err => err)) as UploadRequestError;
+
+    expect(error).toBeInstanceOf(UploadRequestError);
+    expect(error.status).toBe(403);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('should stop and discard the upload when cancelled', async () => {
+    const controller = new AbortController();
+    server.onPatch = () => controller.abort();
+
+    const error = await uploadResumable(target(makeFile(2 * UPLOAD_CHUNK_SIZE)), { signal: controller.signal }).catch(
+      err => err
+    );
+
+    expect(error).toBeInstanceOf(UploadCancelledError);
+    expect(server.requests.filter(request => request.method === 'PATCH')).toHaveLength(1);
+    expect(server.deleted).toBe(true);
+  });
+
+  it('should not start an upload that was already cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(uploadResumable(target(makeFile(10)), { signal: controller.signal })).rejects.toBeInstanceOf(
+      UploadCancelledError
+    );
+    expect(server.requests).toHaveLength(0);
+  });
+});
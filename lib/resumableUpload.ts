@@ -0,0 +1,263 @@
+import { getAccessToken } from './auth';
+
+// Supabase only accepts 6MB chunks (the last one may be shorter)
+export const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Wait before each retry of a failed request; the upload fails after the last
+export const UPLOAD_RETRY_DELAYS_MS = [0, 1000, 3000, 5000];
+
+const TUS_VERSION = '1.0.0';
+
+export interface UploadProgress {
+  uploaded: number;
+  total: number;
+}
+
+export interface ResumableUploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  // Aborting cancels the upload and discards what was sent so far
+  signal?: AbortSignal;
+}
+
+export interface ResumableUploadTarget {
+  bucket: string;
+  path: string;
+  file: Blob;
+  contentType: string;
+  cacheControl?: string;
+  upsert?: boolean;
+  // Stored as the object's user metadata
+  metadata?: Record<string, string>;
+}
+
+// The upload was cancelled through its AbortSignal
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadCancelledError';
+  }
+}
+
+// A request of the upload failed; status is 0 when the network failed
+export class UploadRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'UploadRequestError';
+  }
+}
+
+export const getResumableUploadEndpoint = (): string => {
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`;
+};
+
+/**
+ * Encode Upload-Metadata as TUS expects: comma-separated "key base64(value)"
+ * pairs, with values encoded as UTF-8.
+ */
+export const encodeUploadMetadata = (metadata: Record<string, string>): string => {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const binary = encodeURIComponent(value).replace(/%([0-9A-F]{2})/g, (_, hex) =>
+        String.fromCharCode(parseInt(hex, 16))
+      );
+      return `${key} ${btoa(binary)}`;
+    })
+    .join(',');
+};
+
+// Network failures and server errors may clear up on their own
+const isTransient = (error: unknown): boolean =>
+  error instanceof UploadRequestError && (error.status === 0 || error.status >= 500);
+
+// So do offset conflicts and locks on a chunk, once the server has caught up
+const isRetryable = (error: unknown): boolean =>
+  isTransient(error) || (error instanceof UploadRequestError && (error.status === 409 || error.status === 423));
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new UploadCancelledError();
+  }
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UploadCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface UploadResponse {
+  status: number;
+  header: (name: string) => string | null;
+}
+
+// XMLHttpRequest rather than fetch(), which can't report upload progress
+const sendRequest = (
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Blob | null,
+  signal?: AbortSignal,
+  onUploadProgress?: (loaded: number) => void
+): Promise<UploadResponse> =>
+  new Promise((resolve, reject) => {
+    throwIfCancelled(signal);
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+
+    xhr.open(method, url);
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+    if (onUploadProgress) {
+      xhr.upload.onprogress = event => onUploadProgress(event.loaded);
+    }
+
+    xhr.onload = () => resolve({ status: xhr.status, header: name => xhr.getResponseHeader(name) });
+    xhr.onerror = () => reject(new UploadRequestError(0, `Network error during ${method} upload request`));
+    xhr.onabort = () => reject(new UploadCancelledError());
+    xhr.onloadend = () => signal?.removeEventListener('abort', onAbort);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.send(body);
+  });
+
+const expectStatus = (response: UploadResponse, expected: number, action: string) => {
+  if (response.status !== expected) {
+    throw new UploadRequestError(response.status, `${action} failed with status ${response.status}`);
+  }
+};
+
+const readOffset = (response: UploadResponse): number => {
+  const offset = Number(response.header('Upload-Offset'));
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new UploadRequestError(response.status, 'Upload response is missing its offset');
+  }
+  return offset;
+};
+
+// Run a request, retrying it with the delays above while its failures are transient
+const withRetries = async <T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!isTransient(error) || attempt >= UPLOAD_RETRY_DELAYS_MS.length) {
+        throw error;
+      }
+      await wait(UPLOAD_RETRY_DELAYS_MS[attempt], signal);
+    }
+  }
+};
+
+/**
+ * Upload a file to Supabase Storage with the TUS resumable upload protocol,
+ * in chunks. A chunk that fails is retried from wherever the server says the
+ * upload got to, so a dropped connection costs at most one chunk. Throws
+ * UploadCancelledError if the signal is aborted; the partial upload is then
+ * discarded on the server as well.
+ */
+export const uploadResumable = async (
+  target: ResumableUploadTarget,
+  { onProgress, signal }: ResumableUploadOptions = {}
+): Promise<void> => {
+  throwIfCancelled(signal);
+
+  const accessToken = await getAccessToken();
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+  const headers = {
+    apikey: anonKey,
+    Authorization: `Bearer ${accessToken ?? anonKey}`,
+    'Tus-Resumable': TUS_VERSION,
+  };
+  const total = target.file.size;
+
+  const created = await withRetries(async () => {
+    const response = await sendRequest(
+      'POST',
+      getResumableUploadEndpoint(),
+      {
+        ...headers,
+        'Upload-Length': String(total),
+        'Upload-Metadata': encodeUploadMetadata({
+          bucketName: target.bucket,
+          objectName: target.path,
+          contentType: target.contentType,
+          cacheControl: target.cacheControl ?? '3600',
+          ...(target.metadata && { metadata: JSON.stringify(target.metadata) }),
+        }),
+        'x-upsert': target.upsert ? 'true' : 'false',
+      },
+      null,
+      signal
+    );
+    // A 409 here means the object exists, which retrying won't change
+    expectStatus(response, 201, 'Creating the upload');
+    return response;
+  }, signal);
+
+  const location = created.header('Location');
+  if (!location) {
+    throw new Error('Upload response is missing its location');
+  }
+  const uploadUrl = new URL(location, getResumableUploadEndpoint()).toString();
+
+  let offset = 0;
+  onProgress?.({ uploaded: 0, total });
+
+  try {
+    let attempt = 0;
+    let resumeFromServer = false;
+
+    while (resumeFromServer || offset < total) {
+      try {
+        if (resumeFromServer) {
+          // The failed chunk may have partly arrived; carry on from where it stopped
+          const response = await sendRequest('HEAD', uploadUrl, headers, null, signal);
+          expectStatus(response, 200, 'Resuming the upload');
+          offset = readOffset(response);
+          resumeFromServer = false;
+          onProgress?.({ uploaded: offset, total });
+          continue;
+        }
+
+        const chunkStart = offset;
+        const response = await sendRequest(
+          'PATCH',
+          uploadUrl,
+          {
+            ...headers,
+            'Upload-Offset': String(chunkStart),
+            'Content-Type': 'application/offset+octet-stream',
+          },
+          target.file.slice(chunkStart, chunkStart + UPLOAD_CHUNK_SIZE),
+          signal,
+          loaded => onProgress?.({ uploaded: Math.min(total, chunkStart + loaded), total })
+        );
+        expectStatus(response, 204, 'Uploading a chunk');
+        offset = readOffset(response);
+        attempt = 0;
+        onProgress?.({ uploaded: offset, total });
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= UPLOAD_RETRY_DELAYS_MS.length) {
+          throw error;
+        }
+        await wait(UPLOAD_RETRY_DELAYS_MS[attempt++], signal);
+        resumeFromServer = true;
+      }
+    }
+  } catch (error) {
+    if (error instanceof UploadCancelledError) {
+      // Let the server drop the partial upload; it expires on its own otherwise
+      await sendRequest('DELETE', uploadUrl, headers, null).catch(() => undefined);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for attaching uploaded files to a round
+ */
+
+const mockFinalizeFundraisingRound = jest.fn();
+const mockRecordDeckVersion = jest.fn();
+const mockUpdateCompany = jest.fn();
+const mockUpdateFundraisingRound = jest.fn();
+
+jest.mock('./database', () => ({
+  finalizeFundraisingRound: (...args: unknown[]) => mockFinalizeFundraisingRound(...args),
+  recordDeckVersion: (...args: unknown[]) => mockRecordDeckVersion(...args),
+  updateCompany: (...args: unknown[]) => mockUpdateCompany(...args),
+  updateFundraisingRound: (...args: unknown[]) => mockUpdateFundraisingRound(...args),
+}));
+
+jest.mock('./logoProcessing', () => ({
+  processCompanyLogo: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('./malwareScan', () => ({
+  scanRoundDeck: jest.fn().mockResolvedValue('clean'),
+}));
+
+jest.mock('./uploadVerification', () => ({
+  ...jest.requireActual('./uploadVerification'),
+  verifyRoundFiles: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { attachRoundFiles } from './roundFiles';
+
+const LOGO_URL = 'https://project.supabase.co/storage/v1/object/public/public/founder-1/logo-2.png';
+const FILES = { logoPath: 'founder-1/logo-2.png', deckPath: 'founder-1/deck.pdf', deckFilename: 'Deck.pdf' };
+
+const admin = {
+  storage: {
+    from: jest.fn().mockReturnValue({
+      getPublicUrl: jest.fn().mockReturnValue({ data: { publicUrl: LOGO_URL } }),
+    }),
+  },
+} as any;
+
+describe('attachRoundFiles', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFinalizeFundraisingRound.mockResolvedValue(undefined);
+    mockRecordDeckVersion.mockResolvedValue(1);
+    mockUpdateCompany.mockResolvedValue(undefined);
+    mockUpdateFundraisingRound.mockResolvedValue(undefined);
+  });
+
+  it('should give a company without a logo its first one before the round goes live', async () => {
+    const round = { id: 'round-1', status: 'draft' as const, companyId: 'company-1', logoUrl: '' };
+
+    await expect(attachRoundFiles(admin, round, FILES)).resolves.toMatchObject({ logoUrl: LOGO_URL, deckVersion: 1 });
+
+    expect(mockUpdateCompany).toHaveBeenCalledWith('company-1', { logoUrl: LOGO_URL }, admin);
+    expect(mockUpdateCompany.mock.invocationCallOrder[0]).toBeLessThan(
+      mockFinalizeFundraisingRound.mock.invocationCallOrder[0]
+    );
+  });
+
+  it("should replace an existing company's logo only after the deck version is recorded", async () => {
+    const round = { id: 'round-1', status: 'draft' as const, companyId: 'company-1', logoUrl: 'https://cdn/old.png' };
+
+    await attachRoundFiles(admin, round, FILES);
+
+    expect(mockUpdateCompany).toHaveBeenCalledWith('company-1', { logoUrl: LOGO_URL }, admin);
+    expect(mockUpdateCompany.mock.invocationCallOrder[0]).toBeGreaterThan(
+      mockRecordDeckVersion.mock.invocationCallOrder[0]
+    );
+  });
+
+  it("should keep an existing company's logo when finalizing the round fails", async () => {
+    mockFinalizeFundraisingRound.mockRejectedValue(new Error('finalize failed'));
+    const round = { id: 'round-1', status: 'draft' as const, companyId: 'company-1', logoUrl: 'https://cdn/old.png' };
+
+    await expect(attachRoundFiles(admin, round, FILES)).rejects.toThrow('finalize failed');
+
+    expect(mockUpdateCompany).not.toHaveBeenCalled();
+    expect(mockRecordDeckVersion).not.toHaveBeenCalled();
+  });
+
+  it("should keep an existing company's logo when recording the deck version fails", async () => {
+    mockRecordDeckVersion.mockRejectedValue(new Error('version failed'));
+    const round = { id: 'round-1', status: 'live' as const, companyId: 'company-1', logoUrl: 'https://cdn/old.png' };
+
+    await expect(attachRoundFiles(admin, round, FILES)).rejects.toThrow('version failed');
+
+    expect(mockUpdateFundraisingRound).toHaveBeenCalled();
+    expect(mockUpdateCompany).not.toHaveBeenCalled();
+  });
+});
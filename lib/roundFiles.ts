@@ -0,0 +1,92 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import { DeckScanStatus, FundraisingRound } from '@/types';
+import { finalizeFundraisingRound, recordDeckVersion, updateCompany, updateFundraisingRound } from './database';
+import { processCompanyLogo } from './logoProcessing';
+import { scanRoundDeck } from './malwareScan';
+import { PUBLIC_BUCKET, sanitizeFilename } from './storage';
+import { UploadRejectedError, verifyRoundFiles } from './uploadVerification';
+
+export interface RoundFiles {
+  logoPath?: string;
+  deckPath?: string;
+  // Original name of the deck file, offered when it is downloaded
+  deckFilename?: string;
+  // What changed in a new deck, shown to investors in the version history
+  changelog?: string;
+}
+
+/**
+ * Point a round at files its founder uploaded, once they pass verification.
+ * A draft needs a deck, and a logo unless its company has one, and goes live;
+ * a live round swaps whichever files are given. A logo replaces the company's,
+ * so every round of the company shows it. A new deck is recorded as the
+ * round's next version, then scanned for malware; if the scanner can't be
+ * reached it stays pending for /api/maintenance/scan-decks. Logo variants are
+ * made best effort, since the feed falls back to the original. Needs a
+ * service-role client.
+ */
+export const attachRoundFiles = async (
+  admin: SupabaseClient<Database>,
+  round: Pick<FundraisingRound, 'id' | 'status' | 'companyId' | 'logoUrl'>,
+  files: RoundFiles
+): Promise<{ logoUrl?: string; deckPath?: string; deckVersion?: number; scanStatus?: DeckScanStatus }> => {
+  if (round.status === 'draft') {
+    if (!files.deckPath) {
+      throw new UploadRejectedError('deck', 'A pitch deck is required');
+    }
+    if (!files.logoPath && !round.logoUrl) {
+      throw new UploadRejectedError('logo', 'A logo is required');
+    }
+  }
+
+  await verifyRoundFiles(admin, round.id, files);
+
+  const deckFilename = files.deckPath ? sanitizeFilename(files.deckFilename ?? '', 'deck.pdf') : undefined;
+  const logoUrl = files.logoPath
+    ? admin.storage.from(PUBLIC_BUCKET).getPublicUrl(files.logoPath).data.publicUrl
+    : undefined;
+
+  // A company without a logo has no live rounds to break, and its draft can't
+  // go live without one. Otherwise the logo is swapped last: if anything
+  // before fails, the caller deletes the new file while every round of the
+  // company still shows the old one
+  const replacesLogo = Boolean(round.logoUrl);
+  if (logoUrl && !replacesLogo) {
+    await updateCompany(round.companyId, { logoUrl }, admin);
+  }
+
+  if (round.status === 'draft') {
+    await finalizeFundraisingRound(round.id, { deckPath: files.deckPath!, deckFilename }, admin);
+  } else if (files.deckPath) {
+    await updateFundraisingRound(round.id, { deckPath: files.deckPath, deckFilename }, admin);
+  }
+
+  const deckVersion = files.deckPath
+    ? await recordDeckVersion(round.id, files.deckPath, files.changelog?.trim() || null, admin)
+    : undefined;
+
+  if (logoUrl && replacesLogo) {
+    await updateCompany(round.companyId, { logoUrl }, admin);
+  }
+
+  let scanStatus: DeckScanStatus | undefined;
+  if (files.deckPath) {
+    try {
+      scanStatus = (await scanRoundDeck(admin, { id: round.id, deckPath: files.deckPath })) ?? undefined;
+    } catch (error) {
+      console.error(`Error scanning deck of round ${round.id}:`, error);
+      scanStatus = 'pending';
+    }
+  }
+
+  if (logoUrl) {
+    try {
+      await processCompanyLogo(admin, { id: round.companyId, logoUrl });
+    } catch (error) {
+      console.error(`Error processing logo of company ${round.companyId}:`, error);
+    }
+  }
+
+  return { logoUrl, deckPath: files.deckPath, deckVersion, scanStatus };
+};
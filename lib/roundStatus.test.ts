@@ -0,0 +1,63 @@
+/**
+ * Property-Based Tests for the round lifecycle
+ */
+
+import * as fc from 'fast-check';
+import { RoundStatus } from '@/types';
+import {
+  ROUND_STATUS_TRANSITIONS,
+  canTransitionRound,
+  getFounderTransitions,
+  isRoundRaising,
+} from './roundStatus';
+
+const STATUSES = Object.keys(ROUND_STATUS_TRANSITIONS) as RoundStatus[];
+const FINAL_STATUSES: RoundStatus[] = ['closed', 'funded', 'withdrawn'];
+
+describe('Round lifecycle', () => {
+  it('should never lead a round back to a status it has left', () => {
+    fc.assert(
+      fc.property(fc.array(fc.nat(), { maxLength: 10 }), choices => {
+        let status: RoundStatus = 'draft';
+        const visited: RoundStatus[] = [status];
+
+        for (const choice of choices) {
+          const options: RoundStatus[] = ROUND_STATUS_TRANSITIONS[status];
+          if (options.length === 0) break;
+          status = options[choice % options.length];
+          expect(visited).not.toContain(status);
+          visited.push(status);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should allow no transition out of closed, funded or withdrawn', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...FINAL_STATUSES), fc.constantFrom(...STATUSES), (from, to) => {
+        expect(canTransitionRound(from, to)).toBe(false);
+        expect(getFounderTransitions(from)).toEqual([]);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should only reach funded or closed through closing', () => {
+    STATUSES.forEach(from => {
+      expect(canTransitionRound(from, 'funded')).toBe(from === 'closing');
+      expect(canTransitionRound(from, 'closed')).toBe(from === 'closing');
+    });
+  });
+
+  it('should never let the founder make a round live', () => {
+    STATUSES.forEach(status => {
+      expect(getFounderTransitions(status)).not.toContain('live');
+    });
+    expect(getFounderTransitions('live')).toEqual(['closing', 'withdrawn']);
+  });
+
+  it('should treat only live and closing rounds as raising', () => {
+    expect(STATUSES.filter(isRoundRaising)).toEqual(['live', 'closing']);
+  });
+});
@@ -0,0 +1,45 @@
+import { RoundStatus } from '@/types';
+
+// Statuses each status may move to; mirrors is_valid_round_transition() in
+// the database, which enforces it
+export const ROUND_STATUS_TRANSITIONS: Record<RoundStatus, RoundStatus[]> = {
+  draft: ['live'],
+  live: ['closing', 'withdrawn'],
+  closing: ['closed', 'funded', 'withdrawn'],
+  closed: [],
+  funded: [],
+  withdrawn: [],
+};
+
+export const ROUND_STATUS_LABELS: Record<RoundStatus, string> = {
+  draft: 'Draft',
+  live: 'Raising',
+  closing: 'Closing',
+  closed: 'Closed',
+  funded: 'Funded',
+  withdrawn: 'Withdrawn',
+};
+
+// Tailwind classes of the status badge on the round and company pages
+export const ROUND_STATUS_BADGE_STYLES: Record<RoundStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  live: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  closing: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  closed: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  funded: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  withdrawn: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+export const canTransitionRound = (from: RoundStatus, to: RoundStatus): boolean =>
+  ROUND_STATUS_TRANSITIONS[from].includes(to);
+
+/**
+ * Statuses the founder can move a round to from its page. Going live isn't
+ * one of them: that happens once the launch's files are verified.
+ */
+export const getFounderTransitions = (status: RoundStatus): RoundStatus[] =>
+  ROUND_STATUS_TRANSITIONS[status].filter(next => next !== 'live');
+
+// Whether the round is still taking investor interest, e.g. intro requests
+export const isRoundRaising = (status: RoundStatus): boolean => status === 'live' || status === 'closing';
+
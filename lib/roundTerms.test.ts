@@ -0,0 +1,67 @@
+/**
+ * Property-Based Tests for round terms
+ */
+
+import * as fc from 'fast-check';
+import { RoundTerms } from '@/types';
+import { describeRoundTerms, validateRoundTerms } from './roundTerms';
+
+const termsArbitrary = fc.record(
+  {
+    instrument: fc.constantFrom('safe' as const, 'convertible_note' as const, 'priced_equity' as const),
+    valuation: fc.integer({ min: -1000, max: 100000000 }),
+    valuationType: fc.constantFrom('pre_money' as const, 'post_money' as const),
+    discountPercent: fc.double({ min: -10, max: 110, noNaN: true }),
+    minimumCheck: fc.integer({ min: -1000, max: 10000000 }),
+    leadStatus: fc.constantFrom('seeking_lead' as const, 'lead_committed' as const, 'no_lead' as const),
+  },
+  { requiredKeys: [] }
+);
+
+// The rules of fundraising_rounds_terms_check and the column checks, restated
+const satisfiesDatabase = (terms: RoundTerms, raisingAmount: number): boolean => {
+  const { instrument, valuation, valuationType, discountPercent, minimumCheck } = terms;
+  return (
+    (valuation === undefined) === (valuationType === undefined) &&
+    (valuation === undefined || valuation > 0) &&
+    (discountPercent === undefined || (discountPercent > 0 && discountPercent < 100)) &&
+    (minimumCheck === undefined || minimumCheck > 0) &&
+    ((valuation === undefined && discountPercent === undefined) || instrument !== undefined) &&
+    (discountPercent === undefined || instrument === 'safe' || instrument === 'convertible_note') &&
+    (instrument !== 'priced_equity' || valuation !== undefined) &&
+    (valuationType !== 'post_money' || valuation! > raisingAmount) &&
+    (minimumCheck === undefined || minimumCheck <= raisingAmount)
+  );
+};
+
+describe('Round terms', () => {
+  it('should accept exactly the terms the database accepts', () => {
+    fc.assert(
+      fc.property(termsArbitrary, fc.integer({ min: 1, max: 10000000 }), (terms, raisingAmount) => {
+        const errors = validateRoundTerms(terms, raisingAmount);
+
+        expect(Object.keys(errors).length === 0).toBe(satisfiesDatabase(terms, raisingAmount));
+      }),
+      { numRuns: 500 }
+    );
+  });
+
+  it('should flag the discount of a priced round', () => {
+    const errors = validateRoundTerms(
+      { instrument: 'priced_equity', valuation: 8000000, valuationType: 'pre_money', discountPercent: 20 },
+      1000000
+    );
+
+    expect(errors).toEqual({ discountPercent: "Priced rounds don't have a discount" });
+  });
+
+  it('should describe a valuation as a cap for SAFEs and notes', () => {
+    expect(
+      describeRoundTerms({ instrument: 'safe', valuation: 10000000, valuationType: 'post_money' }, 'USD')
+    ).toEqual([
+      { label: 'Instrument', value: 'SAFE' },
+      { label: 'Valuation cap', value: '$10,000,000 post-money' },
+    ]);
+    expect(describeRoundTerms({}, 'USD')).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { formatAmount } from './format';
+import { LeadInvestorStatus, RoundInstrument, RoundTerms, ValuationType } from '@/types';
+
+export const INSTRUMENT_LABELS: Record<RoundInstrument, string> = {
+  safe: 'SAFE',
+  convertible_note: 'Convertible note',
+  priced_equity: 'Priced equity',
+};
+
+export const VALUATION_TYPE_LABELS: Record<ValuationType, string> = {
+  pre_money: 'Pre-money',
+  post_money: 'Post-money',
+};
+
+export const LEAD_STATUS_LABELS: Record<LeadInvestorStatus, string> = {
+  seeking_lead: 'Seeking a lead',
+  lead_committed: 'Lead committed',
+  no_lead: 'No lead',
+};
+
+export type RoundTermsErrors = Partial<Record<keyof RoundTerms, string>>;
+
+// SAFEs and notes convert later, so only they carry a cap and a discount
+export const isConvertibleInstrument = (instrument: RoundInstrument | undefined): boolean =>
+  instrument === 'safe' || instrument === 'convertible_note';
+
+// What the valuation means for the instrument: a cap, or the price itself
+export const getValuationLabel = (instrument: RoundInstrument | undefined): string =>
+  isConvertibleInstrument(instrument) ? 'Valuation cap' : 'Valuation';
+
+/**
+ * Check a round's terms for values that are out of range or contradict each
+ * other, e.g. a discount on a priced round. Returns an error per field; the
+ * database enforces the same rules.
+ */
+export const validateRoundTerms = (terms: RoundTerms, raisingAmount: number): RoundTermsErrors => {
+  const errors: RoundTermsErrors = {};
+  const { instrument, valuation, valuationType, discountPercent, minimumCheck } = terms;
+
+  if (valuation !== undefined) {
+    if (!(valuation > 0)) {
+      errors.valuation = 'Valuation must be a positive amount';
+    } else if (!valuationType) {
+      errors.valuationType = 'Say whether the valuation is pre- or post-money';
+    } else if (valuationType === 'post_money' && valuation <= raisingAmount) {
+      errors.valuation = 'A post-money valuation must be larger than the amount raised';
+    }
+  } else if (valuationType) {
+    errors.valuation = 'Enter the valuation, or clear its type';
+  } else if (instrument === 'priced_equity') {
+    errors.valuation = 'A priced round needs a valuation';
+  }
+
+  if (discountPercent !== undefined) {
+    if (!(discountPercent > 0 && discountPercent < 100)) {
+      errors.discountPercent = 'Discount must be between 0 and 100%';
+    } else if (instrument === 'priced_equity') {
+      errors.discountPercent = "Priced rounds don't have a discount";
+    }
+  }
+
+  if ((valuation !== undefined || discountPercent !== undefined) && !instrument) {
+    errors.instrument = 'Choose the instrument these terms apply to';
+  }
+
+  if (minimumCheck !== undefined) {
+    if (!(minimumCheck > 0)) {
+      errors.minimumCheck = 'Minimum check must be a positive amount';
+    } else if (minimumCheck > raisingAmount) {
+      errors.minimumCheck = "The minimum check can't be more than the amount raised";
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * The terms a round states, as label and value pairs for its page; terms the
+ * founder left out are skipped.
+ */
+export const describeRoundTerms = (terms: RoundTerms, currency: string): { label: string; value: string }[] => {
+  const rows: { label: string; value: string }[] = [];
+
+  if (terms.instrument) {
+    rows.push({ label: 'Instrument', value: INSTRUMENT_LABELS[terms.instrument] });
+  }
+  if (terms.valuation !== undefined) {
+    const amount = formatAmount(terms.valuation, currency);
+    rows.push({
+      label: getValuationLabel(terms.instrument),
+      value: terms.valuationType ? `${amount} ${VALUATION_TYPE_LABELS[terms.valuationType].toLowerCase()}` : amount,
+    });
+  }
+  if (terms.discountPercent !== undefined) {
+    rows.push({ label: 'Discount', value: `${terms.discountPercent}%` });
+  }
+  if (terms.minimumCheck !== undefined) {
+    rows.push({ label: 'Minimum check', value: formatAmount(terms.minimumCheck, currency) });
+  }
+  if (terms.leadStatus) {
+    rows.push({ label: 'Lead investor', value: LEAD_STATUS_LABELS[terms.leadStatus] });
+  }
+
+  return rows;
+};
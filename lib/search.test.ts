@@ -0,0 +1,79 @@
+/**
+ * Property-Based Tests for search result highlighting
+ */
+
+import * as fc from 'fast-check';
+import { getSearchSnippet, getSearchTerms, highlightMatches } from './search';
+
+const word = fc.stringOf(fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz0123456789'.split('')), { minLength: 1, maxLength: 10 });
+
+describe('Search highlighting', () => {
+  it('should split a query into unique lowercase words', () => {
+    expect(getSearchTerms('  Fin-Tech fintech, PAY ')).toEqual(['fin', 'tech', 'fintech', 'pay']);
+    expect(getSearchTerms(' -- ')).toEqual([]);
+  });
+
+  it('should always join segments back into the original text', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 200 }), fc.string({ maxLength: 30 }), (text, query) => {
+        const segments = highlightMatches(text, query);
+
+        expect(segments.map(segment => segment.text).join('')).toBe(text);
+        expect(segments.every(segment => segment.text.length > 0)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should only mark word prefixes that match a query term', () => {
+    fc.assert(
+      fc.property(fc.array(word, { minLength: 1, maxLength: 12 }), word, (words, query) => {
+        const text = words.join(' ');
+        const segments = highlightMatches(text, query.toUpperCase());
+        let position = 0;
+
+        for (const segment of segments) {
+          if (segment.match) {
+            expect(segment.text.toLowerCase()).toBe(query);
+            expect(position === 0 || text[position - 1] === ' ').toBe(true);
+          }
+          position += segment.text.length;
+        }
+
+        const expectedMatches = words.filter(w => w.startsWith(query)).length;
+        expect(segments.filter(segment => segment.match)).toHaveLength(expectedMatches);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should prefer the longest matching term', () => {
+    expect(highlightMatches('Fintech for everyone', 'fin fintech')).toEqual([
+      { text: 'Fintech', match: true },
+      { text: ' for everyone', match: false },
+    ]);
+  });
+
+  it('should keep snippets within the maximum length', () => {
+    fc.assert(
+      fc.property(fc.array(word, { minLength: 1, maxLength: 60 }), word, fc.integer({ min: 20, max: 120 }), (words, query, maxLength) => {
+        const text = words.join(' ');
+        const snippet = getSearchSnippet(text, query, maxLength);
+
+        // Two extra characters for the leading and trailing ellipsis
+        expect(snippet.length).toBeLessThanOrEqual(maxLength + 2);
+        expect(text.includes(snippet.replace(/^…|…$/g, ''))).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should centre snippets on the first match', () => {
+    const text = `${'lorem '.repeat(40)}payments platform ${'ipsum '.repeat(40)}`.trim();
+    const snippet = getSearchSnippet(text, 'payments', 60);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('payments platform');
+  });
+});
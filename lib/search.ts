@@ -0,0 +1,74 @@
+const NON_WORD_CHARS = new RegExp('[^\\p{L}\\p{N}]+', 'u');
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Split a query into the same words search_rounds() matches as prefixes
+export const getSearchTerms = (query: string): string[] => {
+  return Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(NON_WORD_CHARS)
+        .filter(Boolean)
+    )
+  );
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildMatcher = (terms: string[]): RegExp | null => {
+  if (terms.length === 0) {
+    return null;
+  }
+  // Longest first so "fintech" wins over "fin" at the same position
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+};
+
+/**
+ * Split text into segments, marking every word prefix that matches a query term.
+ * Joining the segments' text always gives back the original string.
+ */
+export const highlightMatches = (text: string, query: string): HighlightSegment[] => {
+  const matcher = buildMatcher(getSearchTerms(query));
+  if (!matcher || !text) {
+    return text ? [{ text, match: false }] : [];
+  }
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+
+  for (const found of Array.from(text.matchAll(matcher))) {
+    const start = found.index ?? 0;
+    if (start > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, start), match: false });
+    }
+    segments.push({ text: found[0], match: true });
+    lastIndex = start + found[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), match: false });
+  }
+
+  return segments;
+};
+
+/**
+ * Excerpt of `text` around the first match, for showing descriptions in results.
+ */
+export const getSearchSnippet = (text: string, query: string, maxLength: number = 120): string => {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const matcher = buildMatcher(getSearchTerms(query));
+  const firstMatch = matcher ? text.search(matcher) : -1;
+  const start = firstMatch > maxLength / 3 ? Math.min(firstMatch - Math.floor(maxLength / 3), text.length - maxLength) : 0;
+  const end = start + maxLength;
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
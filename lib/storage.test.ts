@@ -1,3 +1,7 @@
+/**
+ * @jest-environment node
+ */
+
 /**
  * Property-Based Tests for Supabase Storage helpers
  * Feature: fundfeed-pwa, Property 2: File upload validation
@@ -5,7 +9,38 @@
  */
 
 import * as fc from 'fast-check';
-import { validateLogoFile, validateDeckFile } from './storage';
+
+const mockUploadResumable = jest.fn();
+const mockRemove = jest.fn();
+
+jest.mock('./resumableUpload', () => ({
+  ...jest.requireActual('./resumableUpload'),
+  uploadResumable: (...args: unknown[]) => mockUploadResumable(...args),
+}));
+
+jest.mock('./supabase', () => ({
+  getSupabase: () => ({
+    storage: {
+      from: () => ({
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://example.com/${path}` } }),
+        remove: (...args: unknown[]) => mockRemove(...args),
+      }),
+    },
+  }),
+}));
+
+import { UploadCancelledError, UploadRequestError } from './resumableUpload';
+import {
+  getDeckPath,
+  getLogoPath,
+  getStorageFilename,
+  getStoragePathFromUrl,
+  hashFileContents,
+  sanitizeFilename,
+  uploadRoundFiles,
+  validateLogoFile,
+  validateDeckFile,
+} from './storage';
 
 describe('Storage - Property-Based Tests', () => {
   /**
@@ -287,4 +322,213 @@ describe('Storage - Property-Based Tests', () => {
       );
     });
   });
+
+  describe('Storage paths from public URLs', () => {
+    it('should recover the storage path of any uploaded file', async () => {
+      await fc.assert(
+        fc.property(
+          fc.uuid(),
+          fc.stringOf(fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz0123456789-_ '.split('')), { minLength: 1, maxLength: 30 }),
+          fc.boolean(),
+          (roundId, name, isDeck) => {
+            const path = isDeck ? getDeckPath(roundId, `${name}.pdf`) : getLogoPath(roundId, `${name}.png`);
+            const url = `https://project.supabase.co/storage/v1/object/public/fundraising/${encodeURI(path)}`;
+
+            expect(getStoragePathFromUrl(url)).toBe(path);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should ignore URLs outside the fundraising bucket', () => {
+      expect(getStoragePathFromUrl('https://example.com/logo.png')).toBeNull();
+      expect(getStoragePathFromUrl('https://project.supabase.co/storage/v1/object/public/other/logo.png')).toBeNull();
+    });
+  });
+  describe('Storage keys from content hashes', () => {
+    const contentHash = fc.hexaString({ minLength: 64, maxLength: 64 }).map(hex => hex.toLowerCase());
+    const contentType = fc.constantFrom('image/png', 'image/jpeg', 'image/jpg', 'image/webp', 'application/pdf');
+
+    it('should produce URL-safe keys made of the hash and an extension', () => {
+      fc.assert(
+        fc.property(fc.uuid(), contentHash, contentType, (roundId, hash, type) => {
+          const filename = getStorageFilename(hash, type);
+
+          expect(filename).toMatch(/^[0-9a-f]{64}\.(png|jpg|webp|pdf)$/);
+          expect(filename.startsWith(hash)).toBe(true);
+          // Nothing in the key needs escaping, so public URLs resolve back to it
+          const path = type === 'application/pdf' ? getDeckPath(roundId, filename) : getLogoPath(roundId, filename);
+          expect(encodeURIComponent(filename)).toBe(filename);
+          expect(getStoragePathFromUrl(`https://project.supabase.co/storage/v1/object/public/fundraising/${path}`)).toBe(path);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should give different contents different keys and identical contents the same key', () => {
+      fc.assert(
+        fc.property(contentHash, contentHash, contentType, (first, second, type) => {
+          expect(getStorageFilename(first, type) === getStorageFilename(second, type)).toBe(first === second);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should hash file contents with SHA-256', async () => {
+      expect(await hashFileContents(new Blob(['abc']))).toBe(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      );
+    });
+
+    it('should refuse anything that is not a SHA-256 hex digest', () => {
+      fc.assert(
+        fc.property(
+          fc.string({ maxLength: 80 }).filter(value => !/^[0-9a-f]{64}$/.test(value)),
+          contentType,
+          (value, type) => {
+            expect(() => getStorageFilename(value, type)).toThrow();
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Original filename sanitizer', () => {
+    it('should make any filename safe to store and offer as a download name', () => {
+      fc.assert(
+        fc.property(
+          fc.oneof(
+            fc.fullUnicodeString({ maxLength: 300 }),
+            fc.stringOf(fc.constantFrom('a', ' ', '.', '/', '\\', '"', '\n', '\u0000', '\uD83D', '\uDE80', 'é'), {
+              maxLength: 300,
+            })
+          ),
+          filename => {
+            const sanitized = sanitizeFilename(filename, 'deck.pdf');
+
+            expect(sanitized.length).toBeGreaterThan(0);
+            expect(sanitized.length).toBeLessThanOrEqual(255);
+            expect(sanitized).not.toMatch(/[\\/"\u0000-\u001f\u007f]/);
+            expect(sanitized.startsWith('.')).toBe(false);
+            expect(sanitized).toBe(sanitized.trim());
+            // No unpaired surrogates, which can't be put in a URL
+            expect(() => encodeURIComponent(sanitized)).not.toThrow();
+          }
+        ),
+        { numRuns: 200 }
+      );
+    });
+
+    it('should keep ordinary filenames as they are, minus any directories', () => {
+      fc.assert(
+        fc.property(
+          fc.stringOf(fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz0123456789-_'.split('')), { minLength: 1, maxLength: 40 }),
+          fc.constantFrom('', '../', 'C:\\Users\\ada\\', '/tmp/'),
+          (name, directory) => {
+            expect(sanitizeFilename(`${directory}${name} Q4.pdf`, 'deck.pdf')).toBe(`${name} Q4.pdf`);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should keep the extension when shortening long filenames', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: 256, max: 1000 }), length => {
+          const sanitized = sanitizeFilename(`${'x'.repeat(length)}.pdf`, 'deck.pdf');
+
+          expect(sanitized).toHaveLength(255);
+          expect(sanitized.endsWith('.pdf')).toBe(true);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should fall back when nothing usable is left', () => {
+      ['', '   ', '../', '...', '\u0000\u0001', 'folder/'].forEach(filename => {
+        expect(sanitizeFilename(filename, 'deck.pdf')).toBe('deck.pdf');
+      });
+    });
+  });
+
+  describe('Uploading a round\'s files', () => {
+    const logoFile = new File(['logo'], 'logo.png', { type: 'image/png' });
+    const deckFile = new File(['deck'], 'deck.pdf', { type: 'application/pdf' });
+
+    beforeEach(() => {
+      mockUploadResumable.mockReset();
+      mockRemove.mockReset().mockResolvedValue({ error: null });
+    });
+
+    it('should report progress per file', async () => {
+      mockUploadResumable.mockImplementation(async (target, { onProgress }) => {
+        onProgress({ uploaded: target.file.size, total: target.file.size });
+      });
+      const onProgress = jest.fn();
+
+      await uploadRoundFiles('round-1', logoFile, deckFile, { onProgress });
+
+      expect(onProgress).toHaveBeenCalledWith('logo', { uploaded: logoFile.size, total: logoFile.size });
+      expect(onProgress).toHaveBeenCalledWith('deck', { uploaded: deckFile.size, total: deckFile.size });
+    });
+
+    it('should store files under their content hash and keep the original name as metadata', async () => {
+      mockUploadResumable.mockResolvedValue(undefined);
+      const namedDeck = new File(['deck'], '../Acme "Series A".pdf', { type: 'application/pdf' });
+
+      const uploaded = await uploadRoundFiles('round-1', logoFile, namedDeck);
+
+      const deckHash = await hashFileContents(namedDeck);
+      expect(uploaded.deckPath).toBe(`decks/round-1/${deckHash}.pdf`);
+      expect(uploaded.deckFilename).toBe('Acme Series A.pdf');
+      expect(uploaded.logoPath).toBe(`logos/round-1/${await hashFileContents(logoFile)}.png`);
+      const deckTarget = mockUploadResumable.mock.calls.map(([target]) => target).find(target => target.bucket === 'decks');
+      expect(deckTarget.metadata).toEqual({ originalName: 'Acme Series A.pdf' });
+    });
+
+    it('should stage logos privately until the server publishes a sanitized copy', async () => {
+      mockUploadResumable.mockResolvedValue(undefined);
+
+      const uploaded = await uploadRoundFiles('round-1', logoFile, deckFile);
+
+      const buckets = mockUploadResumable.mock.calls.map(([target]) => target.bucket);
+      expect(buckets).toEqual(expect.arrayContaining(['logo-uploads', 'decks']));
+      expect(buckets).not.toContain('fundraising');
+      expect(uploaded).not.toHaveProperty('logoUrl');
+    });
+
+    it('should upload only the deck when the company already has a logo', async () => {
+      mockUploadResumable.mockResolvedValue(undefined);
+
+      const uploaded = await uploadRoundFiles('round-1', null, deckFile);
+
+      expect(mockUploadResumable).toHaveBeenCalledTimes(1);
+      expect(uploaded.logoPath).toBeUndefined();
+      expect(uploaded.deckPath).toBe(`decks/round-1/${await hashFileContents(deckFile)}.pdf`);
+    });
+
+    it('should cancel the other upload when one fails and report the failure, not the cancellation', async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.constantFrom('logo', 'deck'), async failing => {
+          const failure = new UploadRequestError(0, 'Network error');
+          mockUploadResumable.mockImplementation(
+            (target, { signal }) =>
+              new Promise<void>((_, reject) => {
+                if ((target.bucket === 'decks') === (failing === 'deck')) {
+                  setTimeout(() => reject(failure), 0);
+                } else {
+                  signal.addEventListener('abort', () => reject(new UploadCancelledError()));
+                }
+              })
+          );
+
+          await expect(uploadRoundFiles('round-1', logoFile, deckFile)).rejects.toBe(failure);
+          expect(mockRemove).not.toHaveBeenCalled();
+        }),
+        { numRuns: 10 }
+      );
+    });
+  });
 });
@@ -1,10 +1,20 @@
 import { getSupabase } from './supabase';
+import { ResumableUploadOptions, UploadCancelledError, UploadProgress, uploadResumable } from './resumableUpload';
+
+// Logos are public; decks are private and only reachable through signed URLs
+export const PUBLIC_BUCKET = 'fundraising';
+export const DECK_BUCKET = 'decks';
+// Logos as uploaded, kept private until the server publishes a sanitized copy
+export const LOGO_UPLOAD_BUCKET = 'logo-uploads';
 
 const LOGO_MAX_SIZE = 5 * 1024 * 1024;
 const DECK_MAX_SIZE = 10 * 1024 * 1024;
 const ALLOWED_LOGO_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp'];
 const ALLOWED_DECK_TYPES = ['application/pdf'];
 
+// Longest "what changed" note a founder can attach to a new deck version
+export const DECK_CHANGELOG_MAX_LENGTH = 500;
+
 export const validateLogoFile = (file: File): { valid: boolean; error?: string } => {
   if (!ALLOWED_LOGO_TYPES.includes(file.type)) {
     return {
@@ -41,6 +51,82 @@ export const validateDeckFile = (file: File): { valid: boolean; error?: string }
   return { valid: true };
 };
 
+// Extensions for the file types uploads are validated against
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+
+const CONTENT_HASH_PATTERN = /^[0-9a-f]{64}$/;
+const MAX_FILENAME_LENGTH = 255;
+
+/**
+ * SHA-256 of a file's contents as lowercase hex.
+ */
+export const hashFileContents = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Storage filename for an upload: its content hash plus an extension from its
+ * type, e.g. "3a7b…e1.pdf". Nothing from the original filename ends up in the
+ * key, so keys are always URL-safe, and two different files never share one.
+ * The same file uploaded twice gets the same key, so overwriting it is harmless.
+ */
+export const getStorageFilename = (contentHash: string, contentType: string): string => {
+  if (!CONTENT_HASH_PATTERN.test(contentHash)) {
+    throw new Error('Content hash must be a hex SHA-256 digest');
+  }
+  const extension = FILE_EXTENSIONS[contentType];
+  return extension ? `${contentHash}.${extension}` : contentHash;
+};
+
+/**
+ * Make an original filename safe to keep as metadata and to offer as a
+ * download name: no directories, control characters or quotes, and at most
+ * 255 characters, keeping the extension. Falls back when nothing is left.
+ */
+export const sanitizeFilename = (filename: string, fallback: string): string => {
+  // Whole code points, so no emoji is cut in half; unpaired surrogates can't be encoded in a URL
+  const basename = Array.from(filename.split(/[\\/]/).pop() ?? '')
+    .filter(character => !/^[\uD800-\uDFFF]$/.test(character))
+    .join('');
+  const characters = Array.from(
+    basename
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u001f\u007f"]/g, '')
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s.]+/, '')
+      .replace(/\s+$/, '')
+  );
+
+  if (characters.length === 0) {
+    return fallback;
+  }
+
+  const dot = characters.lastIndexOf('.');
+  const extension = dot > 0 && characters.length - dot <= 10 ? characters.slice(dot) : [];
+  const stem = dot > 0 && extension.length > 0 ? characters.slice(0, dot) : characters;
+
+  let length = extension.join('').length;
+  const kept: string[] = [];
+  for (const character of stem) {
+    if (length + character.length > MAX_FILENAME_LENGTH) break;
+    kept.push(character);
+    length += character.length;
+  }
+
+  // A shortened name shouldn't end in a space before its extension
+  const shortened = kept.length < stem.length ? kept.join('').replace(/\s+$/, '') : kept.join('');
+  return shortened + extension.join('');
+};
+
 export const getLogoPath = (roundId: string, filename: string): string => {
   return `logos/${roundId}/${filename}`;
 };
@@ -49,70 +135,97 @@ export const getDeckPath = (roundId: string, filename: string): string => {
   return `decks/${roundId}/${filename}`;
 };
 
+// Per-viewer stamped copies of a deck, kept next to the original in the decks bucket
+export const getWatermarkedDeckPath = (roundId: string, viewerId: string, accessedAt: Date): string => {
+  return `watermarked/${roundId}/${viewerId}-${accessedAt.getTime()}.pdf`;
+};
+
+// Public URLs look like {supabaseUrl}/storage/v1/object/public/fundraising/{path}
+const PUBLIC_URL_MARKER = `/storage/v1/object/public/${PUBLIC_BUCKET}/`;
+
+/**
+ * Storage path of a file from its public URL, or null for URLs outside the bucket.
+ */
+export const getStoragePathFromUrl = (url: string): string | null => {
+  const index = url.indexOf(PUBLIC_URL_MARKER);
+  if (index === -1) {
+    return null;
+  }
+  const path = url.slice(index + PUBLIC_URL_MARKER.length).split(/[?#]/)[0];
+  return path ? decodeURIComponent(path) : null;
+};
+
+/**
+ * Upload a logo to the private staging bucket. It is only public once the
+ * server has re-encoded it and published the copy under the same path in the
+ * public bucket; see verifyRoundFiles().
+ */
 export const uploadLogo = async (
   roundId: string,
-  file: File
-): Promise<{ url: string; path: string }> => {
+  file: File,
+  options?: ResumableUploadOptions
+): Promise<{ path: string }> => {
   const validation = validateLogoFile(file);
   if (!validation.valid) {
     throw new Error(validation.error);
   }
 
-  const supabase = getSupabase();
-  const path = getLogoPath(roundId, file.name);
+  const path = getLogoPath(roundId, getStorageFilename(await hashFileContents(file), file.type));
 
-  const { error: uploadError } = await supabase.storage
-    .from('fundraising')
-    .upload(path, file, {
-      cacheControl: '3600',
+  await uploadResumable(
+    {
+      bucket: LOGO_UPLOAD_BUCKET,
+      path,
+      file,
+      contentType: file.type,
       upsert: true,
-    });
-
-  if (uploadError) {
-    throw uploadError;
-  }
+      metadata: { originalName: sanitizeFilename(file.name, 'logo') },
+    },
+    options
+  );
 
-  const { data: { publicUrl } } = supabase.storage
-    .from('fundraising')
-    .getPublicUrl(path);
-
-  return { url: publicUrl, path };
+  return { path };
 };
 
+/**
+ * Upload a deck to the private bucket. There is no public URL; store the
+ * returned path and request a signed URL from /api/rounds/[id]/deck. Paths
+ * come from the deck's contents, so an earlier version is only ever
+ * overwritten by identical bytes. The returned filename is the sanitized
+ * original name, offered when the deck is downloaded.
+ */
 export const uploadDeck = async (
   roundId: string,
-  file: File
-): Promise<{ url: string; path: string }> => {
+  file: File,
+  options?: ResumableUploadOptions
+): Promise<{ path: string; filename: string }> => {
   const validation = validateDeckFile(file);
   if (!validation.valid) {
     throw new Error(validation.error);
   }
 
-  const supabase = getSupabase();
-  const path = getDeckPath(roundId, file.name);
+  const path = getDeckPath(roundId, getStorageFilename(await hashFileContents(file), file.type));
+  const filename = sanitizeFilename(file.name, 'deck.pdf');
 
-  const { error: uploadError } = await supabase.storage
-    .from('fundraising')
-    .upload(path, file, {
-      cacheControl: '3600',
+  await uploadResumable(
+    {
+      bucket: DECK_BUCKET,
+      path,
+      file,
+      contentType: file.type,
       upsert: true,
-    });
-
-  if (uploadError) {
-    throw uploadError;
-  }
+      metadata: { originalName: filename },
+    },
+    options
+  );
 
-  const { data: { publicUrl } } = supabase.storage
-    .from('fundraising')
-    .getPublicUrl(path);
-
-  return { url: publicUrl, path };
+  return { path, filename };
 };
 
-export const deleteFile = async (path: string): Promise<void> => {
+export const deleteFile = async (path: string, bucket: string = PUBLIC_BUCKET): Promise<void> => {
   const supabase = getSupabase();
   const { error } = await supabase.storage
-    .from('fundraising')
+    .from(bucket)
     .remove([path]);
 
   if (error) {
@@ -120,18 +233,65 @@ export const deleteFile = async (path: string): Promise<void> => {
   }
 };
 
+export interface RoundFilesUploadOptions {
+  onProgress?: (file: 'logo' | 'deck', progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Upload a round's logo and deck under its id. The logo can be left out when
+ * the round's company already has one. Both succeed or neither is kept: if one
+ * upload fails or is cancelled, the other file is deleted before rethrowing.
+ */
 export const uploadRoundFiles = async (
   roundId: string,
-  logoFile: File,
-  deckFile: File
-): Promise<{ logoUrl: string; deckUrl: string }> => {
-  const [logoResult, deckResult] = await Promise.all([
-    uploadLogo(roundId, logoFile),
-    uploadDeck(roundId, deckFile),
+  logoFile: File | null,
+  deckFile: File,
+  { onProgress, signal }: RoundFilesUploadOptions = {}
+): Promise<{ logoPath?: string; deckPath: string; deckFilename: string }> => {
+  // No point finishing one upload once the other has failed
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) controller.abort();
+  const abortOnFailure = <T>(upload: Promise<T>) =>
+    upload.catch(error => {
+      controller.abort();
+      throw error;
+    });
+
+  const [logoResult, deckResult] = await Promise.allSettled([
+    logoFile
+      ? abortOnFailure(uploadLogo(roundId, logoFile, {
+        signal: controller.signal,
+        onProgress: progress => onProgress?.('logo', progress),
+      }))
+      : null,
+    abortOnFailure(uploadDeck(roundId, deckFile, {
+      signal: controller.signal,
+      onProgress: progress => onProgress?.('deck', progress),
+    })),
   ]);
+  signal?.removeEventListener('abort', onAbort);
+
+  if (logoResult.status === 'rejected' || deckResult.status === 'rejected') {
+    const rollbacks: Promise<void>[] = [];
+    if (logoResult.status === 'fulfilled' && logoResult.value) rollbacks.push(deleteFile(logoResult.value.path, LOGO_UPLOAD_BUCKET));
+    if (deckResult.status === 'fulfilled') rollbacks.push(deleteFile(deckResult.value.path, DECK_BUCKET));
+    await Promise.all(
+      rollbacks.map(rollback => rollback.catch(err => console.error('Error rolling back upload:', err)))
+    );
+
+    // Report what went wrong, not the cancellation of the other upload it caused
+    const reasons = [logoResult, deckResult]
+      .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+      .map(result => result.reason);
+    throw reasons.find(reason => !(reason instanceof UploadCancelledError)) ?? reasons[0];
+  }
 
   return {
-    logoUrl: logoResult.url,
-    deckUrl: deckResult.url,
+    ...(logoResult.value && { logoPath: logoResult.value.path }),
+    deckPath: deckResult.value.path,
+    deckFilename: deckResult.value.filename,
   };
 };
@@ -0,0 +1,39 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/database';
+import { getSupabase } from './supabase';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+
+// Server-side client that acts as the user who owns the access token, so
+// row level security and auth.uid() apply exactly as they would in the browser
+export const createSupabaseForAccessToken = (accessToken: string): SupabaseClient<Database> => {
+  // Reuse the configuration check and error message of the shared client
+  getSupabase();
+
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+};
+
+// Service-role client for maintenance jobs. It bypasses row level security,
+// so it must only be used by server routes that authorize the caller themselves.
+export const getSupabaseAdmin = (): SupabaseClient<Database> => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Supabase service role is not configured. Set SUPABASE_SERVICE_ROLE_KEY in your environment.');
+  }
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+};
@@ -0,0 +1,59 @@
+/**
+ * Tests for the round taxonomy helpers
+ */
+
+import * as fc from 'fast-check';
+import { Tag } from '@/types';
+import { feedFiltersToQueryString, parseFeedFilters } from './feedFilters';
+import { TAG_TYPES, getTagFilters, getTagHref, groupTagOptions, isValidTagSlug, sortTagsByType } from './taxonomy';
+
+const tags: Tag[] = [
+  { id: 'europe', type: 'geography', slug: 'europe', name: 'Europe' },
+  { id: 'seed', type: 'stage', slug: 'seed', name: 'Seed' },
+  { id: 'germany', type: 'geography', slug: 'germany', name: 'Germany', parentId: 'europe' },
+  { id: 'africa', type: 'geography', slug: 'africa', name: 'Africa' },
+  { id: 'climate', type: 'sector', slug: 'climate', name: 'Climate' },
+  { id: 'france', type: 'geography', slug: 'france', name: 'France', parentId: 'europe' },
+];
+
+describe('Taxonomy', () => {
+  it('should only accept lowercase, hyphen-separated slugs', () => {
+    expect(['ai', 'pre-seed', 'b2b-saas', 'series-c-plus'].every(isValidTagSlug)).toBe(true);
+    expect(['', 'Pre-seed', '-seed', 'seed-', 'pre--seed', 'pre seed', '../seed'].some(isValidTagSlug)).toBe(false);
+  });
+
+  it('should link each tag to the browse page of its type', () => {
+    expect(getTagHref({ type: 'sector', slug: 'climate' })).toBe('/sectors/climate');
+    expect(getTagHref({ type: 'geography', slug: 'germany' })).toBe('/regions/germany');
+    expect(getTagHref({ type: 'business_model', slug: 'marketplace' })).toBe('/business-models/marketplace');
+  });
+
+  it('should turn any tag into feed filters that survive the query string', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...TAG_TYPES), fc.stringMatching(/^[a-z0-9]{1,10}(-[a-z0-9]{1,10}){0,3}$/), (type, slug) => {
+        const filters = getTagFilters({ type, slug });
+
+        expect(Object.values(filters)).toEqual([slug]);
+        expect(parseFeedFilters(new URLSearchParams(feedFiltersToQueryString(filters)))).toEqual(filters);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should sort tags by type and group countries under their region', () => {
+    expect(sortTagsByType(tags).map(tag => tag.type)).toEqual([
+      'sector',
+      'stage',
+      'geography',
+      'geography',
+      'geography',
+      'geography',
+    ]);
+    expect(
+      groupTagOptions(tags, 'geography').map(({ tag, children }) => [tag.id, children.map(child => child.id)])
+    ).toEqual([
+      ['europe', ['germany', 'france']],
+      ['africa', []],
+    ]);
+  });
+});
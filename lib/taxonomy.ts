@@ -0,0 +1,55 @@
+import { RoundFilters, Tag, TagType } from '@/types';
+
+// In the order tags are shown on a round
+export const TAG_TYPES: TagType[] = ['sector', 'stage', 'geography', 'business_model'];
+
+export const TAG_TYPE_LABELS: Record<TagType, string> = {
+  sector: 'Sector',
+  stage: 'Stage',
+  geography: 'HQ',
+  business_model: 'Business model',
+};
+
+// Browse page of each type, e.g. /sectors/climate
+export const TAG_TYPE_PATHS: Record<TagType, string> = {
+  sector: '/sectors',
+  stage: '/stages',
+  geography: '/regions',
+  business_model: '/business-models',
+};
+
+export type TagFilterKey = 'sector' | 'stage' | 'geography' | 'businessModel';
+
+// Feed filter that holds a slug of each type
+export const TAG_FILTER_KEYS: Record<TagType, TagFilterKey> = {
+  sector: 'sector',
+  stage: 'stage',
+  geography: 'geography',
+  business_model: 'businessModel',
+};
+
+const TAG_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Same rule as the tags table, so malformed slugs never reach a query
+export const isValidTagSlug = (slug: string): boolean => slug.length <= 64 && TAG_SLUG_PATTERN.test(slug);
+
+export const getTagHref = (tag: Pick<Tag, 'type' | 'slug'>): string => `${TAG_TYPE_PATHS[tag.type]}/${tag.slug}`;
+
+// Feed filters that narrow the feed to rounds with the tag
+export const getTagFilters = (tag: Pick<Tag, 'type' | 'slug'>): RoundFilters => ({
+  [TAG_FILTER_KEYS[tag.type]]: tag.slug,
+});
+
+export const sortTagsByType = (tags: Tag[]): Tag[] =>
+  [...tags].sort((a, b) => TAG_TYPES.indexOf(a.type) - TAG_TYPES.indexOf(b.type));
+
+/**
+ * Tags of one type as options for a select: top-level tags in order, each
+ * followed by its children (the countries of a region).
+ */
+export const groupTagOptions = (tags: Tag[], type: TagType): { tag: Tag; children: Tag[] }[] => {
+  const ofType = tags.filter(tag => tag.type === type);
+  return ofType
+    .filter(tag => !tag.parentId)
+    .map(tag => ({ tag, children: ofType.filter(child => child.parentId === tag.id) }));
+};
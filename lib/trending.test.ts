@@ -0,0 +1,172 @@
+/**
+ * Property-Based Tests for the trending score
+ * Feature: fundfeed-pwa, Property 12: Trending algorithm sorting
+ * Validates: Requirements 1.3
+ */
+
+import * as fc from 'fast-check';
+import {
+  DEFAULT_TRENDING_WEIGHTS,
+  TrendingCursor,
+  appendUniqueRounds,
+  calculateTrendingScore,
+  getTrendingCursor,
+  sortByTrendingScore,
+} from './trending';
+
+const HOUR_MS = 60 * 60 * 1000;
+const AS_OF = new Date('2025-12-10T12:00:00.000Z');
+
+const hoursAgo = (hours: number) => new Date(AS_OF.getTime() - hours * HOUR_MS).toISOString();
+
+interface TestRound {
+  id: string;
+  followerCount: number;
+  introRequestCount: number;
+  createdAt: string;
+}
+
+// In-memory stand-in for get_trending_rounds() with a keyset cursor
+const fetchPage = (rounds: TestRound[], pageSize: number, cursor: TrendingCursor | null) => {
+  return sortByTrendingScore(rounds, DEFAULT_TRENDING_WEIGHTS, AS_OF)
+    .map(round => ({ ...round, trendingScore: calculateTrendingScore(round, DEFAULT_TRENDING_WEIGHTS, AS_OF) }))
+    .filter(
+      round =>
+        !cursor ||
+        round.trendingScore < cursor.score ||
+        (round.trendingScore === cursor.score && round.id < cursor.id)
+    )
+    .slice(0, pageSize);
+};
+
+const roundsArb = fc.uniqueArray(
+  fc.record({
+    id: fc.uuid(),
+    followerCount: fc.integer({ min: 0, max: 50 }),
+    introRequestCount: fc.integer({ min: 0, max: 10 }),
+    createdAt: fc.integer({ min: 0, max: 24 * 14 }).map(hoursAgo),
+  }),
+  { maxLength: 60, selector: round => round.id }
+);
+
+describe('Trending score - Property-Based Tests', () => {
+  it('should rank more engaged rounds higher when they have the same age', async () => {
+    await fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 24 * 365 }),
+        fc.integer({ min: 0, max: 10000 }),
+        fc.integer({ min: 0, max: 1000 }),
+        fc.integer({ min: 1, max: 100 }),
+        (ageHours, followerCount, introRequestCount, extraFollowers) => {
+          const createdAt = hoursAgo(ageHours);
+          const base = calculateTrendingScore({ followerCount, introRequestCount, createdAt }, DEFAULT_TRENDING_WEIGHTS, AS_OF);
+          const boosted = calculateTrendingScore(
+            { followerCount: followerCount + extraFollowers, introRequestCount, createdAt },
+            DEFAULT_TRENDING_WEIGHTS,
+            AS_OF
+          );
+
+          expect(boosted).toBeGreaterThan(base);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should decay older rounds when they have the same engagement', async () => {
+    await fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 24 * 365 }),
+        fc.integer({ min: 1, max: 24 * 30 }),
+        fc.integer({ min: 0, max: 10000 }),
+        fc.integer({ min: 0, max: 1000 }),
+        (ageHours, extraHours, followerCount, introRequestCount) => {
+          const newer = calculateTrendingScore(
+            { followerCount, introRequestCount, createdAt: hoursAgo(ageHours) },
+            DEFAULT_TRENDING_WEIGHTS,
+            AS_OF
+          );
+          const older = calculateTrendingScore(
+            { followerCount, introRequestCount, createdAt: hoursAgo(ageHours + extraHours) },
+            DEFAULT_TRENDING_WEIGHTS,
+            AS_OF
+          );
+
+          expect(newer).toBeGreaterThan(older);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should weigh an intro request more than a follow by default', () => {
+    const createdAt = hoursAgo(6);
+    const followed = calculateTrendingScore({ followerCount: 1, introRequestCount: 0, createdAt }, DEFAULT_TRENDING_WEIGHTS, AS_OF);
+    const requested = calculateTrendingScore({ followerCount: 0, introRequestCount: 1, createdAt }, DEFAULT_TRENDING_WEIGHTS, AS_OF);
+
+    expect(requested).toBeGreaterThan(followed);
+  });
+
+  it('should pin the ordering of a known set of rounds', () => {
+    const rounds = [
+      { id: 'stale-popular', followerCount: 500, introRequestCount: 40, createdAt: hoursAgo(24 * 60) },
+      { id: 'fresh-quiet', followerCount: 0, introRequestCount: 0, createdAt: hoursAgo(1) },
+      { id: 'day-old-hot', followerCount: 60, introRequestCount: 10, createdAt: hoursAgo(24) },
+      { id: 'week-old-warm', followerCount: 120, introRequestCount: 15, createdAt: hoursAgo(24 * 7) },
+      { id: 'hour-old-busy', followerCount: 8, introRequestCount: 2, createdAt: hoursAgo(2) },
+    ];
+
+    expect(sortByTrendingScore(rounds, DEFAULT_TRENDING_WEIGHTS, AS_OF).map(round => round.id)).toEqual([
+      'hour-old-busy',
+      'day-old-hot',
+      'fresh-quiet',
+      'week-old-warm',
+      'stale-popular',
+    ]);
+  });
+
+  it('should break score ties by id descending like get_trending_rounds()', () => {
+    const createdAt = hoursAgo(3);
+    const rounds = ['a', 'c', 'b'].map(id => ({ id, followerCount: 4, introRequestCount: 1, createdAt }));
+
+    expect(sortByTrendingScore(rounds, DEFAULT_TRENDING_WEIGHTS, AS_OF).map(round => round.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('should visit every round exactly once when paging with cursors', async () => {
+    await fc.assert(
+      fc.property(roundsArb, fc.integer({ min: 1, max: 25 }), (rounds, pageSize) => {
+        let feed: TestRound[] = [];
+        let cursor: TrendingCursor | null = null;
+        let pages = 0;
+
+        do {
+          const page = fetchPage(rounds, pageSize, cursor);
+          feed = appendUniqueRounds(feed, page);
+          cursor = getTrendingCursor(page, pageSize);
+          pages++;
+        } while (cursor && pages <= rounds.length + 1);
+
+        expect(feed.map(round => round.id)).toEqual(
+          sortByTrendingScore(rounds, DEFAULT_TRENDING_WEIGHTS, AS_OF).map(round => round.id)
+        );
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should drop rounds that reappear on a later page', () => {
+    const first = [{ id: 'a' }, { id: 'b' }];
+    const second = [{ id: 'b' }, { id: 'c' }, { id: 'c' }];
+
+    expect(appendUniqueRounds(first, second).map(round => round.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should stop paging after a short page', () => {
+    expect(getTrendingCursor([{ id: 'a', trendingScore: 1 }], 2)).toBeNull();
+    expect(getTrendingCursor([], 2)).toBeNull();
+    expect(getTrendingCursor([{ id: 'a', trendingScore: 2 }, { id: 'b', trendingScore: 1 }], 2)).toEqual({
+      score: 1,
+      id: 'b',
+    });
+  });
+});
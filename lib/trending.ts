@@ -0,0 +1,91 @@
+import { FundraisingRound } from '@/types';
+
+export interface TrendingWeights {
+  follow: number;
+  intro: number;
+  gravity: number;
+}
+
+// Defaults mirror the argument defaults of trending_score() in Postgres
+export const DEFAULT_TRENDING_WEIGHTS: TrendingWeights = {
+  follow: 1,
+  intro: 3,
+  gravity: 1.5,
+};
+
+// Position after the last round of a page, in get_trending_rounds() order
+export interface TrendingCursor {
+  score: number;
+  id: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Time-decayed engagement score, identical to the trending_score() SQL function.
+ * Ranking happens in the database; this copy exists for tests and previews.
+ */
+export const calculateTrendingScore = (
+  round: Pick<FundraisingRound, 'followerCount' | 'introRequestCount' | 'createdAt'>,
+  weights: TrendingWeights = DEFAULT_TRENDING_WEIGHTS,
+  asOf: Date = new Date()
+): number => {
+  const ageHours = Math.max((asOf.getTime() - new Date(round.createdAt).getTime()) / HOUR_MS, 0);
+  const engagement =
+    (round.followerCount || 0) * weights.follow +
+    (round.introRequestCount || 0) * weights.intro +
+    1;
+
+  return engagement / Math.pow(ageHours + 2, weights.gravity);
+};
+
+/**
+ * Sort rounds the same way get_trending_rounds() does: score desc, then id desc.
+ */
+export const sortByTrendingScore = <T extends Pick<FundraisingRound, 'id' | 'followerCount' | 'introRequestCount' | 'createdAt'>>(
+  rounds: T[],
+  weights: TrendingWeights = DEFAULT_TRENDING_WEIGHTS,
+  asOf: Date = new Date()
+): T[] => {
+  return [...rounds]
+    .map(round => ({ round, score: calculateTrendingScore(round, weights, asOf) }))
+    .sort((a, b) => {
+      if (a.score !== b.score) {
+        return b.score - a.score;
+      }
+      return a.round.id < b.round.id ? 1 : a.round.id > b.round.id ? -1 : 0;
+    })
+    .map(({ round }) => round);
+};
+
+/**
+ * Cursor for the page after `page`, or null when the feed is exhausted.
+ */
+export const getTrendingCursor = (
+  page: Pick<FundraisingRound, 'id' | 'trendingScore'>[],
+  pageSize: number
+): TrendingCursor | null => {
+  const last = page[page.length - 1];
+  if (page.length < pageSize || !last || last.trendingScore === undefined) {
+    return null;
+  }
+  return { score: last.trendingScore, id: last.id };
+};
+
+/**
+ * Append a page to the feed, dropping rounds that are already shown. A round
+ * can come back on a later page when its score changed between requests.
+ */
+export const appendUniqueRounds = <T extends Pick<FundraisingRound, 'id'>>(existing: T[], page: T[]): T[] => {
+  const seen = new Set(existing.map(round => round.id));
+  const merged = [...existing];
+
+  for (const round of page) {
+    if (!seen.has(round.id)) {
+      seen.add(round.id);
+      merged.push(round);
+    }
+  }
+
+  return merged;
+};
@@ -0,0 +1,66 @@
+/**
+ * Property-Based Tests for the orphaned upload sweep
+ */
+
+import * as fc from 'fast-check';
+import { findOrphanedUploads, getUploadKey } from './uploadSweep';
+
+const NOW = new Date('2025-12-18T12:00:00.000Z');
+
+describe('findOrphanedUploads', () => {
+  it('should only select unreferenced uploads older than the cutoff', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(
+          fc.record({
+            bucket: fc.constantFrom('fundraising', 'decks'),
+            path: fc.uuid().map(id => `decks/${id}/deck.pdf`),
+            ageMinutes: fc.option(fc.integer({ min: 0, max: 10000 }), { nil: null }),
+            referenced: fc.boolean(),
+          }),
+          { selector: upload => getUploadKey(upload.bucket, upload.path), maxLength: 30 }
+        ),
+        fc.integer({ min: 0, max: 5000 }),
+        (uploads, cutoffMinutes) => {
+          const referenced = new Set(
+            uploads.filter(upload => upload.referenced).map(upload => getUploadKey(upload.bucket, upload.path))
+          );
+          const stored = uploads.map(upload => ({
+            bucket: upload.bucket,
+            path: upload.path,
+            createdAt:
+              upload.ageMinutes === null ? null : new Date(NOW.getTime() - upload.ageMinutes * 60000).toISOString(),
+          }));
+          const cutoff = new Date(NOW.getTime() - cutoffMinutes * 60000);
+
+          const orphaned = findOrphanedUploads(stored, referenced, cutoff);
+
+          expect(orphaned.map(upload => getUploadKey(upload.bucket, upload.path))).toEqual(
+            uploads
+              .filter(upload => !upload.referenced && (upload.ageMinutes === null || upload.ageMinutes > cutoffMinutes))
+              .map(upload => getUploadKey(upload.bucket, upload.path))
+          );
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should tell the same path apart in different buckets', () => {
+    fc.assert(
+      fc.property(fc.uuid(), roundId => {
+        const path = `decks/${roundId}/deck.pdf`;
+        const uploads = [
+          { bucket: 'fundraising', path, createdAt: null },
+          { bucket: 'decks', path, createdAt: null },
+        ];
+
+        // The round points at its private copy, so the public copy is orphaned
+        const orphaned = findOrphanedUploads(uploads, new Set([getUploadKey('decks', path)]), NOW);
+
+        expect(orphaned).toEqual([{ bucket: 'fundraising', path, createdAt: null }]);
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
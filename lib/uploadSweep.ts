@@ -0,0 +1,199 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import { DECK_BUCKET, LOGO_UPLOAD_BUCKET, PUBLIC_BUCKET, getStoragePathFromUrl } from './storage';
+
+// Folders written by getLogoPath(), getLogoVariantPath(), getDeckPath() and
+// getWatermarkedDeckPath(). Decks in the public bucket predate the private
+// decks bucket. Staged logos and watermarked copies are never referenced, so
+// each is removed once the grace period passes.
+const UPLOAD_LOCATIONS = [
+  { bucket: PUBLIC_BUCKET, folder: 'logos' },
+  { bucket: LOGO_UPLOAD_BUCKET, folder: 'logos' },
+  { bucket: PUBLIC_BUCKET, folder: 'decks' },
+  { bucket: DECK_BUCKET, folder: 'decks' },
+  { bucket: DECK_BUCKET, folder: 'watermarked' },
+];
+const LIST_PAGE_SIZE = 100;
+const REMOVE_BATCH_SIZE = 100;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface SweepOptions {
+  // Files younger than this may belong to a launch that is still uploading
+  gracePeriodMs?: number;
+  // Drafts older than this were abandoned mid-launch
+  draftTtlMs?: number;
+  // List what would be removed without deleting anything
+  dryRun?: boolean;
+  now?: Date;
+}
+
+export interface StoredUpload {
+  bucket: string;
+  path: string;
+  createdAt: string | null;
+}
+
+export interface SweepResult {
+  deletedDraftIds: string[];
+  deletedFiles: Pick<StoredUpload, 'bucket' | 'path'>[];
+}
+
+// Identifies a file across buckets, e.g. "decks/decks/{roundId}/deck.pdf"
+export const getUploadKey = (bucket: string, path: string): string => `${bucket}/${path}`;
+
+/**
+ * Uploads that no round or company references and that are older than `olderThan`.
+ * `referencedKeys` holds getUploadKey() of every referenced file. Files
+ * without a creation time are treated as old.
+ */
+export const findOrphanedUploads = (
+  uploads: StoredUpload[],
+  referencedKeys: Set<string>,
+  olderThan: Date
+): StoredUpload[] => {
+  return uploads
+    .filter(upload => !referencedKeys.has(getUploadKey(upload.bucket, upload.path)))
+    .filter(upload => !upload.createdAt || new Date(upload.createdAt).getTime() < olderThan.getTime());
+};
+
+const listFolder = async (supabase: SupabaseClient<Database>, bucket: string, prefix: string) => {
+  const entries: { name: string; id: string | null; created_at: string | null }[] = [];
+
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+
+    if (error) {
+      throw error;
+    }
+
+    entries.push(...(data as any[]));
+    if (data.length < LIST_PAGE_SIZE) {
+      return entries;
+    }
+  }
+};
+
+// Every file under {folder}/{roundId}/ in each upload location
+const listUploads = async (supabase: SupabaseClient<Database>): Promise<StoredUpload[]> => {
+  const uploads: StoredUpload[] = [];
+
+  for (const { bucket, folder } of UPLOAD_LOCATIONS) {
+    // Folders come back with a null id
+    const roundFolders = (await listFolder(supabase, bucket, folder)).filter(entry => entry.id === null);
+
+    for (const roundFolder of roundFolders) {
+      const prefix = `${folder}/${roundFolder.name}`;
+      const files = (await listFolder(supabase, bucket, prefix)).filter(entry => entry.id !== null);
+      uploads.push(...files.map(file => ({ bucket, path: `${prefix}/${file.name}`, createdAt: file.created_at })));
+    }
+  }
+
+  return uploads;
+};
+
+/**
+ * Delete drafts abandoned mid-launch, then every uploaded file that no round
+ * or company references. Needs a service-role client: drafts of other founders and
+ * storage listings are not visible through row level security.
+ */
+export const sweepOrphanedUploads = async (
+  supabase: SupabaseClient<Database>,
+  options: SweepOptions = {}
+): Promise<SweepResult> => {
+  const now = options.now ?? new Date();
+  const gracePeriodMs = options.gracePeriodMs ?? HOUR_MS;
+  const draftTtlMs = options.draftTtlMs ?? 24 * HOUR_MS;
+
+  const { data: staleDrafts, error: draftsError }: any = await supabase
+    .from('fundraising_rounds')
+    .select('id')
+    .eq('status', 'draft')
+    .lt('created_at', new Date(now.getTime() - draftTtlMs).toISOString());
+
+  if (draftsError) {
+    throw draftsError;
+  }
+
+  const deletedDraftIds: string[] = staleDrafts.map((draft: { id: string }) => draft.id);
+  if (deletedDraftIds.length > 0 && !options.dryRun) {
+    const { error } = await supabase.from('fundraising_rounds').delete().in('id', deletedDraftIds);
+    if (error) {
+      throw error;
+    }
+  }
+
+  const { data: rounds, error: roundsError }: any = await supabase
+    .from('fundraising_rounds')
+    .select('logo_url, logo_variants, deck_url, deck_path');
+
+  if (roundsError) {
+    throw roundsError;
+  }
+
+  const referencedKeys = new Set<string>();
+  for (const round of rounds) {
+    const variantUrls = Object.values((round.logo_variants ?? {}) as Record<string, string>);
+    for (const url of [round.logo_url, round.deck_url, ...variantUrls]) {
+      const path = url ? getStoragePathFromUrl(url) : null;
+      if (path) {
+        referencedKeys.add(getUploadKey(PUBLIC_BUCKET, path));
+      }
+    }
+    if (round.deck_path) {
+      referencedKeys.add(getUploadKey(DECK_BUCKET, round.deck_path));
+    }
+  }
+
+  // A company keeps its logo after the round it was uploaded with is gone
+  const { data: companies, error: companiesError }: any = await supabase
+    .from('companies')
+    .select('logo_url, logo_variants');
+
+  if (companiesError) {
+    throw companiesError;
+  }
+
+  for (const company of companies) {
+    const variantUrls = Object.values((company.logo_variants ?? {}) as Record<string, string>);
+    for (const url of [company.logo_url, ...variantUrls]) {
+      const path = url ? getStoragePathFromUrl(url) : null;
+      if (path) {
+        referencedKeys.add(getUploadKey(PUBLIC_BUCKET, path));
+      }
+    }
+  }
+
+  // Earlier deck versions stay referenced after the round moves on
+  const { data: versions, error: versionsError }: any = await supabase.from('deck_versions').select('deck_path');
+
+  if (versionsError) {
+    throw versionsError;
+  }
+
+  for (const version of versions) {
+    referencedKeys.add(getUploadKey(DECK_BUCKET, version.deck_path));
+  }
+
+  const uploads = await listUploads(supabase);
+  const orphaned = findOrphanedUploads(uploads, referencedKeys, new Date(now.getTime() - gracePeriodMs));
+
+  if (!options.dryRun) {
+    for (const bucket of Array.from(new Set(orphaned.map(upload => upload.bucket)))) {
+      const paths = orphaned.filter(upload => upload.bucket === bucket).map(upload => upload.path);
+      for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+        const { error } = await supabase.storage.from(bucket).remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+        if (error) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  return {
+    deletedDraftIds,
+    deletedFiles: orphaned.map(({ bucket, path }) => ({ bucket, path })),
+  };
+};
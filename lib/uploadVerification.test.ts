@@ -0,0 +1,189 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Property-Based Tests for server-side upload verification
+ */
+
+import * as fc from 'fast-check';
+import sharp from 'sharp';
+import { PDFDocument } from 'pdf-lib';
+
+jest.mock('./supabase', () => ({
+  getSupabase: jest.fn(),
+}));
+
+import {
+  LOGO_MAX_DIMENSION,
+  LOGO_MIN_DIMENSION,
+  UploadRejectedError,
+  sanitizeLogo,
+  verifyDeck,
+  verifyRoundFiles,
+} from './uploadVerification';
+
+const buildImage = (width: number, height: number, format: 'png' | 'jpeg' | 'webp' = 'png'): Promise<Buffer> =>
+  sharp({ create: { width, height, channels: 3, background: { r: 20, g: 120, b: 200 } } })
+    [format]()
+    .toBuffer();
+
+const buildPdf = async (pageCount: number): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdf.addPage();
+  }
+  // pdf-lib adds a blank page to empty documents unless told not to
+  return pdf.save({ addDefaultPage: false });
+};
+
+const expectRejection = async (promise: Promise<unknown>, file: 'logo' | 'deck') => {
+  const error = (await promise.catch(err => err)) as UploadRejectedError;
+  expect(error).toBeInstanceOf(UploadRejectedError);
+  expect(error.file).toBe(file);
+};
+
+describe('Upload verification', () => {
+  it('should accept PDFs with pages and report how many', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 5 }), async pageCount => {
+        await expect(verifyDeck(await buildPdf(pageCount))).resolves.toBe(pageCount);
+      }),
+      { numRuns: 5 }
+    );
+  });
+
+  it('should reject decks that only look like PDFs', async () => {
+    // Renamed executable labelled application/pdf
+    await expectRejection(verifyDeck(new TextEncoder().encode('MZ\x90\x00 this program cannot be run')), 'deck');
+    // Right signature, but not a parseable PDF
+    await expectRejection(verifyDeck(new TextEncoder().encode('%PDF-1.7\ngarbage')), 'deck');
+    // Parses, but has no pages
+    await expectRejection(verifyDeck(await buildPdf(0)), 'deck');
+  });
+
+  it('should keep logos within the size limits in their own format, without metadata', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: LOGO_MIN_DIMENSION, max: 600 }),
+        fc.integer({ min: LOGO_MIN_DIMENSION, max: 600 }),
+        fc.constantFrom('png' as const, 'jpeg' as const, 'webp' as const),
+        async (width, height, format) => {
+          const tagged = await sharp(await buildImage(width, height, format))
+            .withMetadata({ exif: { IFD0: { Copyright: 'secret', Artist: 'Jane Founder' } } })
+            [format]()
+            .toBuffer();
+          expect((await sharp(tagged).metadata()).exif).toBeDefined();
+
+          const logo = await sanitizeLogo(tagged);
+          const metadata = await sharp(logo.data).metadata();
+
+          expect(logo.contentType).toBe(`image/${format}`);
+          expect(metadata.format).toBe(format);
+          expect(metadata.width).toBe(width);
+          expect(metadata.height).toBe(height);
+          expect(metadata.exif).toBeUndefined();
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+
+  it('should bake in EXIF orientation before dropping it', async () => {
+    const rotated = await sharp(await buildImage(200, 100)).withMetadata({ orientation: 6 }).jpeg().toBuffer();
+
+    const metadata = await sharp((await sanitizeLogo(rotated)).data).metadata();
+
+    expect([metadata.width, metadata.height]).toEqual([100, 200]);
+    expect(metadata.orientation).toBeUndefined();
+  });
+
+  it('should reject logos that are too small, too large or not images', async () => {
+    await expectRejection(sanitizeLogo(await buildImage(LOGO_MIN_DIMENSION - 1, 200)), 'logo');
+    await expectRejection(sanitizeLogo(await buildImage(LOGO_MAX_DIMENSION + 1, 100)), 'logo');
+    await expectRejection(sanitizeLogo(await buildPdf(1)), 'logo');
+    // PNG signature followed by junk
+    await expectRejection(sanitizeLogo(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3])), 'logo');
+  });
+
+  describe('verifyRoundFiles', () => {
+    const buildAdmin = (files: Record<string, Uint8Array>) => {
+      const upload = jest.fn().mockResolvedValue({ error: null });
+      const remove = jest.fn().mockResolvedValue({ error: null });
+      const admin = {
+        storage: {
+          from: jest.fn().mockImplementation((bucket: string) => ({
+            download: jest.fn().mockImplementation(async (path: string) => ({
+              data: new Blob([new Uint8Array(files[`${bucket}/${path}`])]),
+              error: null,
+            })),
+            upload: (...args: unknown[]) => upload(bucket, ...args),
+            remove: (...args: unknown[]) => remove(bucket, ...args),
+          })),
+        },
+      } as any;
+      return { admin, upload, remove };
+    };
+
+    it('should publish only the sanitized copy of a staged logo', async () => {
+      const { admin, upload, remove } = buildAdmin({
+        'logo-uploads/logos/round-1/logo.png': await buildImage(120, 120),
+        'decks/decks/round-1/deck.pdf': await buildPdf(2),
+      });
+
+      await verifyRoundFiles(admin, 'round-1', {
+        logoPath: 'logos/round-1/logo.png',
+        deckPath: 'decks/round-1/deck.pdf',
+      });
+
+      expect(upload).toHaveBeenCalledTimes(1);
+      expect(upload.mock.calls[0].slice(0, 2)).toEqual(['fundraising', 'logos/round-1/logo.png']);
+      expect(upload.mock.calls[0][3]).toMatchObject({ contentType: 'image/png', upsert: true });
+      expect(remove).toHaveBeenCalledTimes(1);
+      expect(remove).toHaveBeenCalledWith('logo-uploads', ['logos/round-1/logo.png']);
+    });
+
+    it('should delete a rejected file', async () => {
+      const { admin, upload, remove } = buildAdmin({
+        'decks/decks/round-1/deck.pdf': new TextEncoder().encode('MZ not a pdf'),
+      });
+
+      await expectRejection(verifyRoundFiles(admin, 'round-1', { deckPath: 'decks/round-1/deck.pdf' }), 'deck');
+
+      expect(remove).toHaveBeenCalledWith('decks', ['decks/round-1/deck.pdf']);
+      expect(upload).not.toHaveBeenCalled();
+    });
+
+    it('should delete a rejected logo from staging without publishing it', async () => {
+      const { admin, upload, remove } = buildAdmin({
+        'logo-uploads/logos/round-1/logo.png': await buildPdf(1),
+      });
+
+      await expectRejection(verifyRoundFiles(admin, 'round-1', { logoPath: 'logos/round-1/logo.png' }), 'logo');
+
+      expect(remove).toHaveBeenCalledWith('logo-uploads', ['logos/round-1/logo.png']);
+      expect(upload).not.toHaveBeenCalled();
+    });
+
+    it('should refuse files uploaded for another round', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.constantFrom(
+            'logos/round-2/logo.png',
+            'logos/round-1/nested/logo.png',
+            'logos/round-1/',
+            'decks/round-1/logo.png',
+            'logos/round-10/logo.png'
+          ),
+          async logoPath => {
+            const { admin } = buildAdmin({});
+
+            await expectRejection(verifyRoundFiles(admin, 'round-1', { logoPath }), 'logo');
+            expect(admin.storage.from).not.toHaveBeenCalled();
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import sharp from 'sharp';
+import { PDFDocument } from 'pdf-lib';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import { detectFileType } from './fileSignatures';
+import { DECK_BUCKET, LOGO_UPLOAD_BUCKET, PUBLIC_BUCKET, getDeckPath, getLogoPath } from './storage';
+
+// Logos are shown at up to 96px on 2x screens, and sharp refuses to decode
+// anything above the pixel limit, which guards against decompression bombs
+export const LOGO_MIN_DIMENSION = 64;
+export const LOGO_MAX_DIMENSION = 4096;
+
+const LOGO_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export type RoundFileKind = 'logo' | 'deck';
+
+// A file that is not what it claims to be; the message is safe to show the founder
+export class UploadRejectedError extends Error {
+  constructor(public readonly file: RoundFileKind, message: string) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+export interface VerifiedLogo {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Check a logo's signature bytes and dimensions, then re-encode it in its own
+ * format with EXIF orientation applied and all metadata (EXIF, GPS, XMP)
+ * dropped.
+ */
+export const sanitizeLogo = async (bytes: Uint8Array): Promise<VerifiedLogo> => {
+  const contentType = detectFileType(bytes);
+  if (!contentType || !LOGO_TYPES.includes(contentType)) {
+    throw new UploadRejectedError('logo', 'Logo must be a PNG, JPEG or WebP image');
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(bytes, { limitInputPixels: LOGO_MAX_DIMENSION * LOGO_MAX_DIMENSION }).metadata();
+  } catch {
+    throw new UploadRejectedError('logo', 'Logo could not be read as an image');
+  }
+
+  const { width = 0, height = 0 } = metadata;
+  if (Math.min(width, height) < LOGO_MIN_DIMENSION) {
+    throw new UploadRejectedError('logo', `Logo must be at least ${LOGO_MIN_DIMENSION}x${LOGO_MIN_DIMENSION} pixels`);
+  }
+  if (Math.max(width, height) > LOGO_MAX_DIMENSION) {
+    throw new UploadRejectedError('logo', `Logo must be at most ${LOGO_MAX_DIMENSION}x${LOGO_MAX_DIMENSION} pixels`);
+  }
+
+  try {
+    // sharp writes no metadata unless asked to with withMetadata()
+    const image = sharp(bytes).rotate();
+    const data =
+      contentType === 'image/png'
+        ? await image.png().toBuffer()
+        : contentType === 'image/webp'
+          ? await image.webp().toBuffer()
+          : await image.jpeg({ quality: 90 }).toBuffer();
+
+    return { data, contentType };
+  } catch {
+    throw new UploadRejectedError('logo', 'Logo could not be read as an image');
+  }
+};
+
+/**
+ * Check a deck's signature bytes and that it parses as a PDF with at least
+ * one page. Returns the page count.
+ */
+export const verifyDeck = async (bytes: Uint8Array): Promise<number> => {
+  if (detectFileType(bytes) !== 'application/pdf') {
+    throw new UploadRejectedError('deck', 'Pitch deck must be a PDF');
+  }
+
+  let pageCount: number;
+  try {
+    // Encrypted decks can still be opened by viewers, so don't refuse them
+    const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+    pageCount = pdf.getPageCount();
+  } catch {
+    throw new UploadRejectedError('deck', 'Pitch deck could not be read as a PDF');
+  }
+
+  if (pageCount < 1) {
+    throw new UploadRejectedError('deck', 'Pitch deck has no pages');
+  }
+
+  return pageCount;
+};
+
+// Uploads for a round live directly under its folder, see getLogoPath() and getDeckPath()
+const isRoundUploadPath = (path: string, folderPrefix: string): boolean => {
+  const filename = path.slice(folderPrefix.length);
+  return path.startsWith(folderPrefix) && filename.length > 0 && !filename.includes('/') && filename !== '..';
+};
+
+const download = async (admin: SupabaseClient<Database>, bucket: string, path: string): Promise<Uint8Array> => {
+  const { data, error } = await admin.storage.from(bucket).download(path);
+  if (error) {
+    throw error;
+  }
+  return new Uint8Array(await data.arrayBuffer());
+};
+
+/**
+ * Verify files a founder uploaded for a round before the round points at
+ * them. The logo is read from the staging bucket, and only its sanitized copy
+ * is published, under the same path in the public bucket. A rejected file
+ * is deleted and an UploadRejectedError thrown. Needs a service-role client.
+ */
+export const verifyRoundFiles = async (
+  admin: SupabaseClient<Database>,
+  roundId: string,
+  files: { logoPath?: string; deckPath?: string }
+): Promise<void> => {
+  if (files.logoPath && !isRoundUploadPath(files.logoPath, getLogoPath(roundId, ''))) {
+    throw new UploadRejectedError('logo', 'Logo was not uploaded for this round');
+  }
+  if (files.deckPath && !isRoundUploadPath(files.deckPath, getDeckPath(roundId, ''))) {
+    throw new UploadRejectedError('deck', 'Pitch deck was not uploaded for this round');
+  }
+
+  try {
+    if (files.deckPath) {
+      await verifyDeck(await download(admin, DECK_BUCKET, files.deckPath));
+    }
+
+    if (files.logoPath) {
+      const logo = await sanitizeLogo(await download(admin, LOGO_UPLOAD_BUCKET, files.logoPath));
+      const { error } = await admin.storage
+        .from(PUBLIC_BUCKET)
+        .upload(files.logoPath, logo.data, { contentType: logo.contentType, cacheControl: '3600', upsert: true });
+      if (error) {
+        throw error;
+      }
+
+      // Left for the upload sweep if this fails; it is never served
+      const { error: removeError } = await admin.storage.from(LOGO_UPLOAD_BUCKET).remove([files.logoPath]);
+      if (removeError) {
+        console.error('Error removing staged logo:', removeError);
+      }
+    }
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      const rejected = error.file === 'logo'
+        ? { bucket: LOGO_UPLOAD_BUCKET, path: files.logoPath }
+        : { bucket: DECK_BUCKET, path: files.deckPath };
+      // Left for the upload sweep if this fails, since nothing references it
+      const { error: removeError } = await admin.storage.from(rejected.bucket).remove([rejected.path as string]);
+      if (removeError) {
+        console.error(`Error removing rejected ${error.file}:`, removeError);
+      }
+    }
+    throw error;
+  }
+};
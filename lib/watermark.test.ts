@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Property-Based Tests for per-viewer deck watermarking
+ */
+
+import * as fc from 'fast-check';
+import { inflateSync } from 'zlib';
+import { PDFDocument, PDFName, PDFRawStream } from 'pdf-lib';
+import { getWatermarkText, watermarkPdf } from './watermark';
+
+const buildPdf = async (pageSizes: [number, number][]): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  pageSizes.forEach(size => pdf.addPage(size));
+  return pdf.save();
+};
+
+// Decoded content streams of every page, where drawn text ends up as hex strings
+const getPageContents = async (pdfBytes: Uint8Array): Promise<string[]> => {
+  const pdf = await PDFDocument.load(pdfBytes);
+  return pdf.getPages().map(page => {
+    const contents = page.node.normalizedEntries().Contents;
+    const streams = Array.from({ length: contents?.size() ?? 0 }, (_, i) => pdf.context.lookup(contents!.get(i)));
+    return streams
+      .filter((stream): stream is PDFRawStream => stream instanceof PDFRawStream)
+      .map(stream => {
+        const compressed = stream.dict.get(PDFName.of('Filter')) === PDFName.of('FlateDecode');
+        return (compressed ? inflateSync(stream.contents) : Buffer.from(stream.contents)).toString('latin1');
+      })
+      .join('\n');
+  });
+};
+
+const toPdfHex = (text: string): string =>
+  Buffer.from(text, 'latin1').toString('hex').toUpperCase();
+
+describe('Deck watermarking', () => {
+  it('should name the viewer and the access time in UTC', () => {
+    fc.assert(
+      fc.property(
+        fc.string({ minLength: 1, maxLength: 40 }).filter(name => name.trim().length > 0),
+        fc.emailAddress(),
+        fc.date({ min: new Date('2020-01-01T00:00:00Z'), max: new Date('2030-12-31T23:59:59Z') }),
+        (displayName, email, accessedAt) => {
+          const text = getWatermarkText({ displayName, email }, accessedAt);
+
+          expect(text).toContain(email);
+          expect(text.endsWith(`${accessedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`)).toBe(true);
+          // Only characters the standard PDF fonts can draw, on a single line
+          expect(text).toMatch(/^[\x20-\x7E\xA0-\xFF]+$/);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should replace characters the PDF font cannot draw', () => {
+    const text = getWatermarkText({ displayName: 'Zoë 李\nSmith', email: 'zoe@example.com' }, new Date('2025-12-21T09:30:00Z'));
+
+    expect(text).toBe('Zoë ? Smith · zoe@example.com · 2025-12-21 09:30 UTC');
+  });
+
+  it('should stamp every page without changing the original', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.tuple(fc.integer({ min: 200, max: 1200 }), fc.integer({ min: 200, max: 1200 })), {
+          minLength: 1,
+          maxLength: 5,
+        }),
+        async pageSizes => {
+          const original = await buildPdf(pageSizes);
+          const originalCopy = original.slice();
+          const text = 'Ada Lovelace · ada@example.com · 2025-12-21 09:30 UTC';
+
+          const stamped = await watermarkPdf(original, text);
+
+          expect(Buffer.from(original).equals(Buffer.from(originalCopy))).toBe(true);
+
+          const stampedPdf = await PDFDocument.load(stamped);
+          expect(stampedPdf.getPageCount()).toBe(pageSizes.length);
+          stampedPdf.getPages().forEach((page, index) => {
+            expect(page.getWidth()).toBe(pageSizes[index][0]);
+            expect(page.getHeight()).toBe(pageSizes[index][1]);
+          });
+
+          const contents = await getPageContents(stamped);
+          contents.forEach(content => {
+            // Once across the page and once along the bottom edge
+            expect(content.split(`<${toPdfHex(text)}>`).length - 1).toBe(2);
+          });
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+
+  it('should reject files that are not PDFs', async () => {
+    await expect(watermarkPdf(new TextEncoder().encode('not a pdf'), 'viewer')).rejects.toThrow();
+  });
+});
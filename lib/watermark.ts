@@ -0,0 +1,62 @@
+import { PDFDocument, StandardFonts, degrees, rgb } from 'pdf-lib';
+import { User } from '@/types';
+
+const DIAGONAL_FONT_SIZE = 28;
+const FOOTER_FONT_SIZE = 8;
+const FOOTER_MARGIN = 12;
+const MAX_LABEL_LENGTH = 80;
+
+/**
+ * The line stamped on every page, e.g. "Ada Lovelace · ada@example.com · 2025-12-21 09:30 UTC".
+ * The standard PDF fonts only cover Latin-1, so anything outside it becomes "?".
+ */
+export const getWatermarkText = (viewer: Pick<User, 'displayName' | 'email'>, accessedAt: Date): string => {
+  const name = viewer.displayName.trim().slice(0, MAX_LABEL_LENGTH);
+  const parts = [name, viewer.email].filter(Boolean);
+  const timestamp = `${accessedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+  return [...parts, timestamp]
+    .join(' · ')
+    .replace(/[\r\n\t]+/g, ' ')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+};
+
+/**
+ * Stamp `text` diagonally across the middle of every page and along the
+ * bottom edge. Returns a new file; the input bytes are not modified.
+ */
+export const watermarkPdf = async (pdfBytes: Uint8Array, text: string): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+
+  for (const page of pdf.getPages()) {
+    const { width, height } = page.getSize();
+
+    // Shrink long labels so the diagonal stays on the page
+    const diagonal = Math.sqrt(width * width + height * height);
+    const size = Math.min(DIAGONAL_FONT_SIZE, (diagonal * 0.8) / Math.max(1, font.widthOfTextAtSize(text, 1)));
+    const textWidth = font.widthOfTextAtSize(text, size);
+    const angle = Math.atan2(height, width);
+
+    page.drawText(text, {
+      x: width / 2 - (Math.cos(angle) * textWidth) / 2 + (Math.sin(angle) * size) / 2,
+      y: height / 2 - (Math.sin(angle) * textWidth) / 2 - (Math.cos(angle) * size) / 2,
+      size,
+      font,
+      color: rgb(0.5, 0.5, 0.5),
+      opacity: 0.2,
+      rotate: degrees((angle * 180) / Math.PI),
+    });
+
+    page.drawText(text, {
+      x: FOOTER_MARGIN,
+      y: FOOTER_MARGIN,
+      size: FOOTER_FONT_SIZE,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+      opacity: 0.6,
+    });
+  }
+
+  return pdf.save();
+};
@@ -0,0 +1,84 @@
+/*
+  # Add Trending Score
+
+  ## Overview
+  Replaces the "newest first" ordering of the homepage with a time-decayed
+  engagement score, computed in Postgres so that every page of results is
+  ranked by the same function.
+
+  ## 1. New Functions
+
+  ### `trending_score(follower_count, intro_request_count, created_at, ...)`
+  Scores a round as:
+
+      (followers * follow_weight + intro_requests * intro_weight + 1)
+      / (age_in_hours + 2) ^ gravity
+
+  - `follow_weight` (numeric, default 1) - Weight of a single follow
+  - `intro_weight` (numeric, default 3) - Weight of a single intro request
+  - `gravity` (numeric, default 1.5) - How quickly older rounds decay
+  - `as_of` (timestamptz, default now()) - Reference time used for the decay
+
+  The same formula is mirrored in `lib/trending.ts`; keep the two in sync.
+
+  ### `get_trending_rounds(limit_count, offset_count, ...)`
+  Returns fundraising rounds ordered by `trending_score` descending, with `id`
+  as a tie-breaker so the order is total. Each row contains the round as
+  `fundraising_round` plus the computed `trending_score`.
+
+  ## 2. Important Notes
+
+  - Weights are plain function arguments so callers can tune them without a
+    new migration; the defaults match `DEFAULT_TRENDING_WEIGHTS`.
+  - Rounds created after `as_of` are excluded so a page request never ranks a
+    round against a reference time earlier than its creation.
+*/
+
+CREATE OR REPLACE FUNCTION trending_score(
+  follower_count integer,
+  intro_request_count integer,
+  created_at timestamptz,
+  follow_weight numeric DEFAULT 1,
+  intro_weight numeric DEFAULT 3,
+  gravity numeric DEFAULT 1.5,
+  as_of timestamptz DEFAULT now()
+)
+RETURNS double precision
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (
+    (COALESCE(follower_count, 0) * follow_weight
+      + COALESCE(intro_request_count, 0) * intro_weight
+      + 1)
+    / power(GREATEST(EXTRACT(EPOCH FROM (as_of - created_at)) / 3600, 0) + 2, gravity)
+  )::double precision;
+$$;
+
+CREATE OR REPLACE FUNCTION get_trending_rounds(
+  limit_count integer DEFAULT 20,
+  offset_count integer DEFAULT 0,
+  follow_weight numeric DEFAULT 1,
+  intro_weight numeric DEFAULT 3,
+  gravity numeric DEFAULT 1.5,
+  as_of timestamptz DEFAULT now()
+)
+RETURNS TABLE (fundraising_round fundraising_rounds, trending_score double precision)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT r, trending_score(
+    r.follower_count,
+    r.intro_request_count,
+    r.created_at,
+    get_trending_rounds.follow_weight,
+    get_trending_rounds.intro_weight,
+    get_trending_rounds.gravity,
+    get_trending_rounds.as_of
+  ) AS score
+  FROM fundraising_rounds r
+  WHERE r.created_at <= get_trending_rounds.as_of
+  ORDER BY score DESC, r.id DESC
+  LIMIT limit_count
+  OFFSET offset_count;
+$$;
@@ -0,0 +1,160 @@
+/*
+  # Add Atomic Counter Functions
+
+  ## Overview
+  Following a round, unfollowing it and requesting an intro used to be a
+  read-modify-write sequence issued from the client. Concurrent clicks lost
+  increments, and a failure between the two updates left
+  `users.followed_rounds` out of sync with `fundraising_rounds.follower_count`.
+  These functions perform both writes in a single transaction.
+
+  ## 1. New Functions
+
+  ### `follow_round(p_user_id, p_round_id)`
+  - Appends the round to `users.followed_rounds` if it is not already there
+  - Increments `fundraising_rounds.follower_count` only when the list changed
+
+  ### `unfollow_round(p_user_id, p_round_id)`
+  - Removes the round from `users.followed_rounds` if present
+  - Decrements `fundraising_rounds.follower_count` (never below zero) only
+    when the list changed
+
+  ### `create_intro_request(p_investor_id, p_round_id, p_startup_name, p_message)`
+  - Inserts the intro request, or returns the existing one for the same
+    investor and round
+  - Increments `fundraising_rounds.intro_request_count` only on insert
+  - Returns the request id
+
+  ## 2. Security
+
+  - Functions run as SECURITY DEFINER because followers and investors are not
+    allowed to update rounds they do not own
+  - Each function rejects calls where `auth.uid()` does not match the user the
+    call is made for
+  - Execution is granted to authenticated users only
+
+  ## 3. Important Notes
+
+  - Counter updates use `count = count + 1` inside the same statement, so
+    concurrent calls cannot lose increments
+  - Every function raises if the round does not exist, rolling back the
+    follow list or intro request change
+*/
+
+CREATE OR REPLACE FUNCTION follow_round(p_user_id uuid, p_round_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot follow rounds on behalf of another user'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE users
+  SET followed_rounds = array_append(COALESCE(followed_rounds, '{}'), p_round_id::text)
+  WHERE id = p_user_id
+    AND NOT (p_round_id::text = ANY (COALESCE(followed_rounds, '{}')));
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE fundraising_rounds
+  SET follower_count = COALESCE(follower_count, 0) + 1
+  WHERE id = p_round_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fundraising round % not found', p_round_id
+      USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unfollow_round(p_user_id uuid, p_round_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot unfollow rounds on behalf of another user'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE users
+  SET followed_rounds = array_remove(followed_rounds, p_round_id::text)
+  WHERE id = p_user_id
+    AND p_round_id::text = ANY (COALESCE(followed_rounds, '{}'));
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE fundraising_rounds
+  SET follower_count = GREATEST(COALESCE(follower_count, 0) - 1, 0)
+  WHERE id = p_round_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fundraising round % not found', p_round_id
+      USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_intro_request(
+  p_investor_id uuid,
+  p_round_id uuid,
+  p_startup_name text,
+  p_message text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_id uuid;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_investor_id THEN
+    RAISE EXCEPTION 'Cannot request intros on behalf of another user'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO intro_requests (investor_id, round_id, startup_name, message)
+  VALUES (p_investor_id, p_round_id, p_startup_name, p_message)
+  ON CONFLICT (investor_id, round_id) DO NOTHING
+  RETURNING id INTO request_id;
+
+  IF request_id IS NULL THEN
+    SELECT id INTO request_id
+    FROM intro_requests
+    WHERE investor_id = p_investor_id
+      AND round_id = p_round_id;
+
+    RETURN request_id;
+  END IF;
+
+  UPDATE fundraising_rounds
+  SET intro_request_count = COALESCE(intro_request_count, 0) + 1
+  WHERE id = p_round_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fundraising round % not found', p_round_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN request_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION follow_round(uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION unfollow_round(uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION create_intro_request(uuid, uuid, text, text) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION follow_round(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION unfollow_round(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_intro_request(uuid, uuid, text, text) TO authenticated;
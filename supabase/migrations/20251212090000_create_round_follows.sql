@@ -0,0 +1,148 @@
+/*
+  # Create round_follows Join Table
+
+  ## Overview
+  Follows used to live in the `users.followed_rounds text[]` column, which had
+  no foreign keys, no timestamps and no cheap way to list the followers of a
+  round. This migration moves them into a proper join table.
+
+  ## 1. New Tables
+
+  ### `round_follows`
+  - `user_id` (uuid) - References users.id
+  - `round_id` (uuid) - References fundraising_rounds.id
+  - `created_at` (timestamptz) - When the user followed the round
+  - Primary key on (user_id, round_id)
+
+  ## 2. Data Migration
+
+  - Every entry of `users.followed_rounds` that points at an existing round is
+    copied into `round_follows`; entries for deleted rounds are dropped
+  - The original follow time was never recorded, so backfilled rows use the
+    time of this migration
+  - `fundraising_rounds.follower_count` is recomputed from the new table
+  - `users.followed_rounds` is dropped
+
+  ## 3. Counter Maintenance
+
+  - A trigger on `round_follows` keeps `fundraising_rounds.follower_count` in
+    step with inserts and deletes, including cascades from deleted users
+  - `follow_round()` and `unfollow_round()` now insert into and delete from
+    `round_follows`
+
+  ## 4. Security
+
+  - Users can read their own follows
+  - Founders can read the follows of their own rounds
+  - Writes go through `follow_round()` and `unfollow_round()`
+*/
+
+-- Create round_follows table
+CREATE TABLE IF NOT EXISTS round_follows (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  round_id uuid NOT NULL REFERENCES fundraising_rounds(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, round_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_round_follows_round_id ON round_follows(round_id, created_at DESC);
+
+-- Backfill from users.followed_rounds, skipping ids of deleted rounds
+INSERT INTO round_follows (user_id, round_id)
+SELECT DISTINCT users.id, fundraising_rounds.id
+FROM users
+CROSS JOIN LATERAL unnest(COALESCE(users.followed_rounds, '{}')) AS followed(round_id)
+JOIN fundraising_rounds ON fundraising_rounds.id::text = followed.round_id
+ON CONFLICT DO NOTHING;
+
+UPDATE fundraising_rounds
+SET follower_count = (
+  SELECT count(*)
+  FROM round_follows
+  WHERE round_follows.round_id = fundraising_rounds.id
+);
+
+ALTER TABLE users DROP COLUMN IF EXISTS followed_rounds;
+
+-- Keep follower_count in step with round_follows
+CREATE OR REPLACE FUNCTION sync_round_follower_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE fundraising_rounds
+    SET follower_count = COALESCE(follower_count, 0) + 1
+    WHERE id = NEW.round_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE fundraising_rounds
+  SET follower_count = GREATEST(COALESCE(follower_count, 0) - 1, 0)
+  WHERE id = OLD.round_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER round_follows_sync_follower_count
+  AFTER INSERT OR DELETE ON round_follows
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_round_follower_count();
+
+-- Re-point the follow functions at round_follows
+CREATE OR REPLACE FUNCTION follow_round(p_user_id uuid, p_round_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot follow rounds on behalf of another user'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO round_follows (user_id, round_id)
+  VALUES (p_user_id, p_round_id)
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unfollow_round(p_user_id uuid, p_round_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot unfollow rounds on behalf of another user'
+      USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM round_follows
+  WHERE user_id = p_user_id
+    AND round_id = p_round_id;
+END;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE round_follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own follows"
+  ON round_follows FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Founders can read follows of their rounds"
+  ON round_follows FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM fundraising_rounds
+      WHERE fundraising_rounds.id = round_follows.round_id
+      AND fundraising_rounds.founder_id = auth.uid()
+    )
+  );
@@ -0,0 +1,51 @@
+/*
+  # Let Founders Manage Intro Requests
+
+  ## Overview
+  Intro requests are answered by the founder of the round, not by the
+  investor who sent them. The original policy let investors update their own
+  requests, which meant an investor could mark their own request accepted
+  while the founder could not respond at all.
+
+  ## 1. Security Changes
+
+  ### Intro Requests Table
+  - Dropped "Investors can update own requests"
+  - Added "Founders can update requests for their rounds": the founder of the
+    round may update a request, unless they also sent it
+  - UPDATE is limited to the `status` column, so founders cannot rewrite the
+    investor, round or message of a request
+
+  ## 2. Important Notes
+
+  - Investors no longer have any UPDATE access to intro requests
+  - Inserts are not changed here: the original insert policy stayed active
+    until 20260102090000_intro_requests_rpc_only.sql, which leaves
+    `create_intro_request()` as the only way to create a request
+*/
+
+DROP POLICY IF EXISTS "Investors can update own requests" ON intro_requests;
+
+CREATE POLICY "Founders can update requests for their rounds"
+  ON intro_requests FOR UPDATE
+  TO authenticated
+  USING (
+    intro_requests.investor_id <> auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM fundraising_rounds
+      WHERE fundraising_rounds.id = intro_requests.round_id
+      AND fundraising_rounds.founder_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    intro_requests.investor_id <> auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM fundraising_rounds
+      WHERE fundraising_rounds.id = intro_requests.round_id
+      AND fundraising_rounds.founder_id = auth.uid()
+    )
+  );
+
+-- Only the status of a request can change after it is sent
+REVOKE UPDATE ON intro_requests FROM authenticated;
+GRANT UPDATE (status) ON intro_requests TO authenticated;
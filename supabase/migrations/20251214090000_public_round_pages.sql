@@ -0,0 +1,38 @@
+/*
+  # Public Round Pages
+
+  ## Overview
+  Round detail pages are rendered on the server with the anonymous key, and
+  signed-out visitors browse the homepage. Both need to read rounds and the
+  public part of a founder's profile without a session.
+
+  ## 1. Security Changes
+
+  ### Fundraising Rounds Table
+  - "Anyone can read fundraising rounds" now applies to the `anon` role as
+    well as `authenticated`, matching its name
+
+  ## 2. New Views
+
+  ### `public_profiles`
+  - `id` (uuid) - References users.id
+  - `display_name` (text) - User's display name
+  - `photo_url` (text, nullable) - User profile photo URL
+  - `role` (text) - User role
+
+  Exposes only the columns that are safe to show next to a round. Email
+  addresses stay behind the authenticated-only policy on `users`.
+*/
+
+DROP POLICY IF EXISTS "Anyone can read fundraising rounds" ON fundraising_rounds;
+
+CREATE POLICY "Anyone can read fundraising rounds"
+  ON fundraising_rounds FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE OR REPLACE VIEW public_profiles AS
+  SELECT id, display_name, photo_url, role
+  FROM users;
+
+GRANT SELECT ON public_profiles TO anon, authenticated;
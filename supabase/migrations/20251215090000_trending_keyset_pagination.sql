@@ -0,0 +1,62 @@
+/*
+  # Keyset Pagination for Trending Rounds
+
+  ## Overview
+  The homepage now loads trending rounds page by page as the user scrolls.
+  Offset pagination over a score that decays with time is unstable: between
+  two requests every score moves, so rounds shift across page boundaries and
+  appear twice or not at all. This migration replaces the offset argument of
+  `get_trending_rounds()` with a keyset cursor.
+
+  ## 1. Changed Functions
+
+  ### `get_trending_rounds(limit_count, ..., as_of, cursor_score, cursor_id)`
+  - `offset_count` is removed
+  - `cursor_score` (double precision, nullable) - Score of the last round on
+    the previous page
+  - `cursor_id` (uuid, nullable) - Id of the last round on the previous page
+  - When a cursor is given, only rounds that sort strictly after
+    (`cursor_score`, `cursor_id`) in (score DESC, id DESC) order are returned
+
+  ## 2. Important Notes
+
+  - Clients pin `as_of` to the time of their first page and send it with every
+    following page, so all pages are scored against the same reference time
+  - Rounds created after `as_of` are excluded, so new launches never push
+    already-seen rounds onto the next page
+*/
+
+DROP FUNCTION IF EXISTS get_trending_rounds(integer, integer, numeric, numeric, numeric, timestamptz);
+
+CREATE OR REPLACE FUNCTION get_trending_rounds(
+  limit_count integer DEFAULT 20,
+  follow_weight numeric DEFAULT 1,
+  intro_weight numeric DEFAULT 3,
+  gravity numeric DEFAULT 1.5,
+  as_of timestamptz DEFAULT now(),
+  cursor_score double precision DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (fundraising_round fundraising_rounds, trending_score double precision)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ranked.r, ranked.score
+  FROM (
+    SELECT r, r.id AS round_id, trending_score(
+      r.follower_count,
+      r.intro_request_count,
+      r.created_at,
+      get_trending_rounds.follow_weight,
+      get_trending_rounds.intro_weight,
+      get_trending_rounds.gravity,
+      get_trending_rounds.as_of
+    ) AS score
+    FROM fundraising_rounds r
+    WHERE r.created_at <= get_trending_rounds.as_of
+  ) ranked
+  WHERE get_trending_rounds.cursor_score IS NULL
+    OR (ranked.score, ranked.round_id) < (get_trending_rounds.cursor_score, get_trending_rounds.cursor_id)
+  ORDER BY ranked.score DESC, ranked.round_id DESC
+  LIMIT limit_count;
+$$;
@@ -0,0 +1,82 @@
+/*
+  # Add Full-Text Search for Rounds
+
+  ## Overview
+  Lets users find a round by company name or by words in its description,
+  tolerating prefixes ("fint" finds "fintech") and small typos in company
+  names ("stirpe" finds "Stripe").
+
+  ## 1. Schema Changes
+
+  ### `fundraising_rounds`
+  - `search_vector` (tsvector, generated) - Company name (weight A) and
+    description (weight B), parsed with the english configuration
+
+  ## 2. Indexes
+
+  - GIN index on `fundraising_rounds.search_vector` for full-text matches
+  - GIN trigram index on `fundraising_rounds.company_name` for fuzzy matches
+
+  ## 3. New Functions
+
+  ### `search_rounds(search_query, currency_filter, min_amount, max_amount, limit_count)`
+  - Every word of the query is matched as a prefix against `search_vector`
+  - Company names also match by trigram similarity, which covers typos
+  - Optional filters on currency and raising amount range
+  - Returns each round as `fundraising_round` with its `rank`, best first
+
+  ## 4. Important Notes
+
+  - `pg_trgm` is installed into the `extensions` schema, as Supabase expects
+  - The function runs with the caller's privileges, so row level security on
+    `fundraising_rounds` still applies
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE fundraising_rounds
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(company_name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_fundraising_rounds_search_vector
+  ON fundraising_rounds USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_fundraising_rounds_company_name_trgm
+  ON fundraising_rounds USING GIN (company_name extensions.gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION search_rounds(
+  search_query text,
+  currency_filter text DEFAULT NULL,
+  min_amount numeric DEFAULT NULL,
+  max_amount numeric DEFAULT NULL,
+  limit_count integer DEFAULT 10
+)
+RETURNS TABLE (fundraising_round fundraising_rounds, rank real)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH prefix_query AS (
+    -- "fint pay" becomes 'fint':* & 'pay':*
+    SELECT to_tsquery('english', string_agg(word || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(lower(search_query), '[^[:alnum:]]+') AS word
+    WHERE word <> ''
+  )
+  SELECT r, (
+    COALESCE(ts_rank(r.search_vector, prefix_query.query), 0)
+    + similarity(r.company_name, search_query)
+  )::real AS match_rank
+  FROM fundraising_rounds r, prefix_query
+  WHERE (
+      (prefix_query.query IS NOT NULL AND r.search_vector @@ prefix_query.query)
+      OR r.company_name % search_query
+      OR search_query <% r.company_name
+    )
+    AND (currency_filter IS NULL OR r.currency = currency_filter)
+    AND (min_amount IS NULL OR r.raising_amount >= min_amount)
+    AND (max_amount IS NULL OR r.raising_amount <= max_amount)
+  ORDER BY match_rank DESC, r.created_at DESC
+  LIMIT limit_count;
+$$;
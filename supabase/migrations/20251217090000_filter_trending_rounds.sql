@@ -0,0 +1,70 @@
+/*
+  # Filter Trending Rounds
+
+  ## Overview
+  Investors narrow the homepage feed to the check sizes, currencies and
+  launch dates they care about. Filtering has to happen in the database:
+  filtering a page on the client would leave short or empty pages and break
+  the keyset cursor.
+
+  ## 1. Changed Functions
+
+  ### `get_trending_rounds(..., currency_filter, min_amount, max_amount, posted_after)`
+  - `currency_filter` (text, nullable) - Only rounds raising in this currency
+  - `min_amount` (numeric, nullable) - Only rounds raising at least this much
+  - `max_amount` (numeric, nullable) - Only rounds raising at most this much
+  - `posted_after` (timestamptz, nullable) - Only rounds created at or after this time
+  - Filters are applied before the cursor and limit, so every page is full
+    until the filtered feed is exhausted
+
+  ## 2. Indexes
+
+  - Index on `fundraising_rounds.currency` for the currency filter
+  - Index on `fundraising_rounds.raising_amount` for the amount range
+*/
+
+DROP FUNCTION IF EXISTS get_trending_rounds(integer, numeric, numeric, numeric, timestamptz, double precision, uuid);
+
+CREATE INDEX IF NOT EXISTS idx_fundraising_rounds_currency ON fundraising_rounds(currency);
+CREATE INDEX IF NOT EXISTS idx_fundraising_rounds_raising_amount ON fundraising_rounds(raising_amount);
+
+CREATE OR REPLACE FUNCTION get_trending_rounds(
+  limit_count integer DEFAULT 20,
+  follow_weight numeric DEFAULT 1,
+  intro_weight numeric DEFAULT 3,
+  gravity numeric DEFAULT 1.5,
+  as_of timestamptz DEFAULT now(),
+  cursor_score double precision DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  currency_filter text DEFAULT NULL,
+  min_amount numeric DEFAULT NULL,
+  max_amount numeric DEFAULT NULL,
+  posted_after timestamptz DEFAULT NULL
+)
+RETURNS TABLE (fundraising_round fundraising_rounds, trending_score double precision)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ranked.r, ranked.score
+  FROM (
+    SELECT r, r.id AS round_id, trending_score(
+      r.follower_count,
+      r.intro_request_count,
+      r.created_at,
+      get_trending_rounds.follow_weight,
+      get_trending_rounds.intro_weight,
+      get_trending_rounds.gravity,
+      get_trending_rounds.as_of
+    ) AS score
+    FROM fundraising_rounds r
+    WHERE r.created_at <= get_trending_rounds.as_of
+      AND (get_trending_rounds.currency_filter IS NULL OR r.currency = get_trending_rounds.currency_filter)
+      AND (get_trending_rounds.min_amount IS NULL OR r.raising_amount >= get_trending_rounds.min_amount)
+      AND (get_trending_rounds.max_amount IS NULL OR r.raising_amount <= get_trending_rounds.max_amount)
+      AND (get_trending_rounds.posted_after IS NULL OR r.created_at >= get_trending_rounds.posted_after)
+  ) ranked
+  WHERE get_trending_rounds.cursor_score IS NULL
+    OR (ranked.score, ranked.round_id) < (get_trending_rounds.cursor_score, get_trending_rounds.cursor_id)
+  ORDER BY ranked.score DESC, ranked.round_id DESC
+  LIMIT limit_count;
+$$;
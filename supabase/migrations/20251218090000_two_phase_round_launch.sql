@@ -0,0 +1,136 @@
+/*
+  # Two-Phase Round Launch
+
+  ## Overview
+  Launching used to upload the logo and deck under a temporary id before the
+  round existed, so storage paths never matched the round id and a failed
+  insert left the files orphaned. A launch now happens in two phases:
+
+  1. Reserve: insert the round as a `draft` without files, which yields its id
+  2. Upload the files under that id, then finalize the round as `live`
+
+  If an upload or the finalize step fails, the client deletes the uploaded
+  files and the draft.
+
+  ## 1. Schema Changes
+
+  ### `fundraising_rounds`
+  - `status` (text) - 'draft' while files are uploading, 'live' once launched.
+    Existing rounds become 'live'
+  - `logo_url` and `deck_url` are nullable, since a draft has no files yet.
+    A check constraint still requires both on live rounds
+
+  ## 2. Security Changes
+
+  - "Anyone can read fundraising rounds" only exposes live rounds; founders
+    can still read their own drafts
+
+  ## 3. Changed Functions
+
+  - `get_trending_rounds()` and `search_rounds()` only return live rounds, so
+    a founder never sees their own draft in the feed or in search
+
+  ## 4. Important Notes
+
+  - Drafts abandoned mid-launch (closed tab, lost connection) and files that
+    no round references are removed by the upload sweep in
+    `/api/maintenance/sweep-uploads`
+*/
+
+ALTER TABLE fundraising_rounds
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'live'
+  CHECK (status IN ('draft', 'live'));
+
+ALTER TABLE fundraising_rounds ALTER COLUMN logo_url DROP NOT NULL;
+ALTER TABLE fundraising_rounds ALTER COLUMN deck_url DROP NOT NULL;
+
+ALTER TABLE fundraising_rounds
+  ADD CONSTRAINT fundraising_rounds_live_files_check
+  CHECK (status <> 'live' OR (logo_url IS NOT NULL AND deck_url IS NOT NULL));
+
+CREATE INDEX IF NOT EXISTS idx_fundraising_rounds_status ON fundraising_rounds(status);
+
+DROP POLICY IF EXISTS "Anyone can read fundraising rounds" ON fundraising_rounds;
+
+CREATE POLICY "Anyone can read fundraising rounds"
+  ON fundraising_rounds FOR SELECT
+  TO anon, authenticated
+  USING (status = 'live' OR auth.uid() = founder_id);
+
+CREATE OR REPLACE FUNCTION get_trending_rounds(
+  limit_count integer DEFAULT 20,
+  follow_weight numeric DEFAULT 1,
+  intro_weight numeric DEFAULT 3,
+  gravity numeric DEFAULT 1.5,
+  as_of timestamptz DEFAULT now(),
+  cursor_score double precision DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  currency_filter text DEFAULT NULL,
+  min_amount numeric DEFAULT NULL,
+  max_amount numeric DEFAULT NULL,
+  posted_after timestamptz DEFAULT NULL
+)
+RETURNS TABLE (fundraising_round fundraising_rounds, trending_score double precision)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ranked.r, ranked.score
+  FROM (
+    SELECT r, r.id AS round_id, trending_score(
+      r.follower_count,
+      r.intro_request_count,
+      r.created_at,
+      get_trending_rounds.follow_weight,
+      get_trending_rounds.intro_weight,
+      get_trending_rounds.gravity,
+      get_trending_rounds.as_of
+    ) AS score
+    FROM fundraising_rounds r
+    WHERE r.status = 'live'
+      AND r.created_at <= get_trending_rounds.as_of
+      AND (get_trending_rounds.currency_filter IS NULL OR r.currency = get_trending_rounds.currency_filter)
+      AND (get_trending_rounds.min_amount IS NULL OR r.raising_amount >= get_trending_rounds.min_amount)
+      AND (get_trending_rounds.max_amount IS NULL OR r.raising_amount <= get_trending_rounds.max_amount)
+      AND (get_trending_rounds.posted_after IS NULL OR r.created_at >= get_trending_rounds.posted_after)
+  ) ranked
+  WHERE get_trending_rounds.cursor_score IS NULL
+    OR (ranked.score, ranked.round_id) < (get_trending_rounds.cursor_score, get_trending_rounds.cursor_id)
+  ORDER BY ranked.score DESC, ranked.round_id DESC
+  LIMIT limit_count;
+$$;
+
+CREATE OR REPLACE FUNCTION search_rounds(
+  search_query text,
+  currency_filter text DEFAULT NULL,
+  min_amount numeric DEFAULT NULL,
+  max_amount numeric DEFAULT NULL,
+  limit_count integer DEFAULT 10
+)
+RETURNS TABLE (fundraising_round fundraising_rounds, rank real)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH prefix_query AS (
+    -- "fint pay" becomes 'fint':* & 'pay':*
+    SELECT to_tsquery('english', string_agg(word || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(lower(search_query), '[^[:alnum:]]+') AS word
+    WHERE word <> ''
+  )
+  SELECT r, (
+    COALESCE(ts_rank(r.search_vector, prefix_query.query), 0)
+    + similarity(r.company_name, search_query)
+  )::real AS match_rank
+  FROM fundraising_rounds r, prefix_query
+  WHERE r.status = 'live'
+    AND (
+      (prefix_query.query IS NOT NULL AND r.search_vector @@ prefix_query.query)
+      OR r.company_name % search_query
+      OR search_query <% r.company_name
+    )
+    AND (currency_filter IS NULL OR r.currency = currency_filter)
+    AND (min_amount IS NULL OR r.raising_amount >= min_amount)
+    AND (max_amount IS NULL OR r.raising_amount <= max_amount)
+  ORDER BY match_rank DESC, r.created_at DESC
+  LIMIT limit_count;
+$$;
@@ -0,0 +1,115 @@
+/*
+  # Private Pitch Decks
+
+  ## Overview
+  Decks used to live in the public `fundraising` bucket with their public URL
+  stored in `deck_url`, so anyone holding a link could download a
+  confidential deck forever. Decks now go to a private `decks` bucket.
+  Signed-in investors get a short-lived signed URL from
+  `/api/rounds/[id]/deck`, and every URL issued is logged against the round.
+
+  ## 1. Storage
+
+  ### `decks` bucket (private)
+  - PDF only, 10MB limit, same as the client-side validation
+  - Objects live at `decks/{round_id}/{filename}` (see `getDeckPath()`)
+  - Founders can upload, replace, read and delete decks of their own rounds
+  - Nobody else can read objects directly; signed URLs are created by the
+    server with the service role
+
+  ## 2. Schema Changes
+
+  ### `fundraising_rounds`
+  - `deck_path` (text, nullable) - Path of the deck in the `decks` bucket
+  - `deck_url` is kept for decks uploaded before this migration, until they
+    are moved with `POST /api/maintenance/migrate-decks`
+  - Live rounds need a logo and either a `deck_path` or a legacy `deck_url`
+
+  ## 3. New Tables
+
+  ### `deck_access_logs`
+  - `id` (uuid, primary key)
+  - `round_id` (uuid) - References fundraising_rounds.id
+  - `viewer_id` (uuid) - References users.id, the user a URL was issued to
+  - `created_at` (timestamptz) - When the signed URL was issued
+
+  ## 4. Security
+
+  - Founders can read the access log of their own rounds
+  - Rows are only written by the deck route with the service role
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('decks', 'decks', false, 10485760, ARRAY['application/pdf'])
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+CREATE POLICY "Founders can upload decks for their rounds"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'decks'
+    AND (storage.foldername(name))[1] = 'decks'
+    AND (storage.foldername(name))[2] IN (
+      SELECT id::text FROM fundraising_rounds WHERE founder_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Founders can read decks of their rounds"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'decks'
+    AND (storage.foldername(name))[2] IN (
+      SELECT id::text FROM fundraising_rounds WHERE founder_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Founders can replace decks of their rounds"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'decks'
+    AND (storage.foldername(name))[2] IN (
+      SELECT id::text FROM fundraising_rounds WHERE founder_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Founders can delete decks of their rounds"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'decks'
+    AND (storage.foldername(name))[2] IN (
+      SELECT id::text FROM fundraising_rounds WHERE founder_id = auth.uid()
+    )
+  );
+
+ALTER TABLE fundraising_rounds ADD COLUMN IF NOT EXISTS deck_path text;
+
+ALTER TABLE fundraising_rounds DROP CONSTRAINT IF EXISTS fundraising_rounds_live_files_check;
+ALTER TABLE fundraising_rounds
+  ADD CONSTRAINT fundraising_rounds_live_files_check
+  CHECK (status <> 'live' OR (logo_url IS NOT NULL AND (deck_path IS NOT NULL OR deck_url IS NOT NULL)));
+
+CREATE TABLE IF NOT EXISTS deck_access_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  round_id uuid NOT NULL REFERENCES fundraising_rounds(id) ON DELETE CASCADE,
+  viewer_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deck_access_logs_round_id ON deck_access_logs(round_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_deck_access_logs_viewer_id ON deck_access_logs(viewer_id);
+
+ALTER TABLE deck_access_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Founders can read deck access for their rounds"
+  ON deck_access_logs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM fundraising_rounds
+      WHERE fundraising_rounds.id = deck_access_logs.round_id
+      AND fundraising_rounds.founder_id = auth.uid()
+    )
+  );
@@ -0,0 +1,77 @@
+/*
+  # Deck View Analytics
+
+  ## Overview
+  Every signed deck URL is already logged in `deck_access_logs`. This
+  migration records where the viewer came from and adds the aggregate
+  founders see on their round's analytics panel.
+
+  ## 1. Schema Changes
+
+  ### `deck_access_logs`
+  - `referrer` (text, nullable) - Page that sent the viewer to the round,
+    reduced to origin and path so query-string tokens are never stored
+
+  ## 2. New Functions
+
+  ### `get_deck_view_stats(p_round_id, p_days)`
+  - Returns a JSON object with `total_views`, `unique_viewers` and `daily`,
+    one entry per UTC day for the last `p_days` days (including days without
+    views), each with `day`, `views` and `unique_viewers`
+  - Views by the round's own founder are not counted
+
+  ## 3. Important Notes
+
+  - The function runs with the caller's privileges, so the row level security
+    policy on `deck_access_logs` limits it to founders of the round; anyone
+    else gets zeros
+*/
+
+ALTER TABLE deck_access_logs ADD COLUMN IF NOT EXISTS referrer text;
+
+CREATE OR REPLACE FUNCTION get_deck_view_stats(
+  p_round_id uuid,
+  p_days integer DEFAULT 30
+)
+RETURNS json
+LANGUAGE sql
+STABLE
+AS $$
+  WITH views AS (
+    SELECT l.viewer_id, (l.created_at AT TIME ZONE 'UTC')::date AS day
+    FROM deck_access_logs l
+    JOIN fundraising_rounds r ON r.id = l.round_id
+    WHERE l.round_id = p_round_id
+      AND l.viewer_id <> r.founder_id
+  ),
+  days AS (
+    SELECT generate_series(
+      (now() AT TIME ZONE 'UTC')::date - (p_days - 1),
+      (now() AT TIME ZONE 'UTC')::date,
+      interval '1 day'
+    )::date AS day
+  ),
+  daily AS (
+    SELECT day, count(*) AS views, count(DISTINCT viewer_id) AS unique_viewers
+    FROM views
+    GROUP BY day
+  )
+  SELECT json_build_object(
+    'total_views', (SELECT count(*) FROM views),
+    'unique_viewers', (SELECT count(DISTINCT viewer_id) FROM views),
+    'daily', (
+      SELECT json_agg(
+        json_build_object(
+          'day', days.day,
+          'views', COALESCE(daily.views, 0),
+          'unique_viewers', COALESCE(daily.unique_viewers, 0)
+        )
+        ORDER BY days.day
+      )
+      FROM days
+      LEFT JOIN daily ON daily.day = days.day
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION get_deck_view_stats(uuid, integer) TO authenticated;
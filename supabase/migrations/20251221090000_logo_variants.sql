@@ -0,0 +1,32 @@
+/*
+  # Logo Variants
+
+  ## Overview
+  Logos are stored exactly as the founder uploaded them, up to 5MB, and the
+  feed renders them in a 96px box. After upload, the server now crops each
+  logo to a square, resizes it to a fixed set of sizes and stores each size
+  as WebP next to the original. The feed loads the smallest variant that is
+  sharp at the size it is displayed.
+
+  ## 1. Schema Changes
+
+  ### `fundraising_rounds`
+  - `logo_variants` (jsonb, nullable) - Public URL of each variant keyed by
+    its width in pixels, e.g. `{"96": "https://.../acme.png.96.webp"}`
+  - Null until the logo has been processed, and again after the logo is
+    replaced, so clients fall back to `logo_url`
+
+  ## 2. Important Notes
+
+  - Variants are written by `POST /api/rounds/[id]/logo` with the service
+    role. Logos uploaded before this migration are processed once with
+    `POST /api/maintenance/process-logos`
+  - `get_trending_rounds` and `search_rounds` return whole
+    `fundraising_rounds` rows, so they include the new column unchanged
+*/
+
+ALTER TABLE fundraising_rounds ADD COLUMN IF NOT EXISTS logo_variants jsonb;
+
+ALTER TABLE fundraising_rounds
+  ADD CONSTRAINT fundraising_rounds_logo_variants_check
+  CHECK (logo_variants IS NULL OR jsonb_typeof(logo_variants) = 'object');
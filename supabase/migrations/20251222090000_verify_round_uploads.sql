@@ -0,0 +1,65 @@
+/*
+  # Server-Verified Round Files
+
+  ## Overview
+  Logos and decks are uploaded straight from the browser, and the only
+  checks were on the client-supplied MIME type and size. A renamed
+  executable labelled `application/pdf` passed. Files are now attached to a
+  round only by `POST /api/rounds/[id]/files`, which checks each file's
+  signature bytes, parses decks, checks logo dimensions and strips image
+  metadata before pointing the round at them.
+
+  ## 1. New Functions
+
+  ### `protect_round_files()` (trigger on `fundraising_rounds`)
+  - Signed-in users can no longer set `logo_url`, `logo_variants`,
+    `deck_path`, `deck_url` or `status` themselves; these are written by the
+    server with the service role after verification
+  - Inserts by signed-in users must be drafts without files, as written by
+    `reserveFundraisingRound()`
+
+  ## 2. Important Notes
+
+  - Other columns stay editable by founders under the existing update policy
+  - Requests with the service role, and direct SQL, are not affected
+*/
+
+CREATE OR REPLACE FUNCTION protect_round_files()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft'
+      OR NEW.logo_url IS NOT NULL
+      OR NEW.logo_variants IS NOT NULL
+      OR NEW.deck_path IS NOT NULL
+      OR NEW.deck_url IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'New rounds must be drafts without files'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NEW.logo_url IS DISTINCT FROM OLD.logo_url
+    OR NEW.logo_variants IS DISTINCT FROM OLD.logo_variants
+    OR NEW.deck_path IS DISTINCT FROM OLD.deck_path
+    OR NEW.deck_url IS DISTINCT FROM OLD.deck_url
+    OR NEW.status IS DISTINCT FROM OLD.status
+  THEN
+    RAISE EXCEPTION 'Round files and status can only be changed through the API'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_round_files ON fundraising_rounds;
+
+CREATE TRIGGER protect_round_files
+  BEFORE INSERT OR UPDATE ON fundraising_rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_round_files();
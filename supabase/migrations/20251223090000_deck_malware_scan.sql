@@ -0,0 +1,79 @@
+/*
+  # Deck Malware Scanning
+
+  ## Overview
+  Every pitch deck is scanned for malware before investors can open it.
+  `POST /api/rounds/[id]/files` scans a deck right after verifying it; decks
+  whose scan could not run stay pending and are retried by
+  `/api/maintenance/scan-decks`. The scanner is ClamAV when `CLAMAV_HOST`
+  is set, and a no-op that passes everything otherwise.
+
+  ## 1. Schema Changes
+
+  ### `fundraising_rounds`
+  - `scan_status` (text, default 'pending') - 'pending', 'clean' or
+    'rejected'; only clean decks are served
+  - `scanned_at` (timestamptz, nullable) - When the current deck was scanned
+  - Both go back to pending/null whenever the deck is replaced
+
+  ## 2. Modified Functions
+
+  ### `protect_round_files()`
+  - `scan_status` and `scanned_at` are protected like the file columns, so
+    founders can't mark their own deck clean
+
+  ## 3. Important Notes
+
+  - Existing decks start out pending and are hidden until the first scan
+    run; trigger it once with `GET /api/maintenance/scan-decks`
+  - Rejected decks are kept in storage for review but never served
+*/
+
+ALTER TABLE fundraising_rounds
+  ADD COLUMN IF NOT EXISTS scan_status text NOT NULL DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS scanned_at timestamptz;
+
+ALTER TABLE fundraising_rounds
+  ADD CONSTRAINT fundraising_rounds_scan_status_check
+  CHECK (scan_status IN ('pending', 'clean', 'rejected'));
+
+CREATE INDEX IF NOT EXISTS idx_fundraising_rounds_pending_scan
+  ON fundraising_rounds (created_at)
+  WHERE scan_status = 'pending';
+
+CREATE OR REPLACE FUNCTION protect_round_files()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft'
+      OR NEW.logo_url IS NOT NULL
+      OR NEW.logo_variants IS NOT NULL
+      OR NEW.deck_path IS NOT NULL
+      OR NEW.deck_url IS NOT NULL
+      OR NEW.scan_status <> 'pending'
+      OR NEW.scanned_at IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'New rounds must be drafts without files'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NEW.logo_url IS DISTINCT FROM OLD.logo_url
+    OR NEW.logo_variants IS DISTINCT FROM OLD.logo_variants
+    OR NEW.deck_path IS DISTINCT FROM OLD.deck_path
+    OR NEW.deck_url IS DISTINCT FROM OLD.deck_url
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.scan_status IS DISTINCT FROM OLD.scan_status
+    OR NEW.scanned_at IS DISTINCT FROM OLD.scanned_at
+  THEN
+    RAISE EXCEPTION 'Round files and status can only be changed through the API'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,179 @@
+/*
+  # Deck Version History
+
+  ## Overview
+  Replacing a deck used to overwrite the file (same filename) or orphan it
+  (different filename). Every deck attached to a round is now kept as a
+  numbered version with an optional changelog note. Investors see when the
+  deck was last updated, and can open earlier versions if the founder
+  allows it.
+
+  ## 1. New Tables
+
+  ### `deck_versions`
+  - `id` (uuid, primary key)
+  - `round_id` (uuid) - References fundraising_rounds.id
+  - `version` (integer) - 1 for the launch deck, then counting up; unique
+    per round
+  - `deck_path` (text) - Path of this version in the `decks` bucket
+  - `changelog` (text, nullable) - What changed, up to 500 characters
+  - `scan_status` (text) - Malware scan verdict for this version, as on
+    `fundraising_rounds`
+  - `created_at` (timestamptz)
+
+  ## 2. Schema Changes
+
+  ### `fundraising_rounds`
+  - `deck_version` (integer, nullable) - Version number of the current deck
+  - `deck_updated_at` (timestamptz, nullable) - When the current deck was
+    attached
+  - `allow_previous_deck_versions` (boolean, default false) - Whether
+    investors may open earlier versions; founders always can
+
+  ## 3. New Functions
+
+  ### `record_deck_version(p_round_id, p_deck_path, p_changelog)`
+  - Adds the next version for a round and points the round at it, in one
+    transaction. Called by the server with the service role after the deck
+    has been verified, and when a legacy deck is moved into the private
+    bucket
+
+  ## 4. Security
+
+  - Anyone who can read a round can read its version list; the files
+    themselves are still only served through signed URLs
+  - Only the service role writes versions
+  - `deck_version` and `deck_updated_at` are protected like the other file
+    columns by `protect_round_files()`
+
+  ## 5. Important Notes
+
+  - Rounds with a private deck get it recorded as version 1
+*/
+
+CREATE TABLE IF NOT EXISTS deck_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  round_id uuid NOT NULL REFERENCES fundraising_rounds(id) ON DELETE CASCADE,
+  version integer NOT NULL CHECK (version > 0),
+  deck_path text NOT NULL,
+  changelog text CHECK (char_length(changelog) <= 500),
+  scan_status text NOT NULL DEFAULT 'pending' CHECK (scan_status IN ('pending', 'clean', 'rejected')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (round_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deck_versions_deck_path ON deck_versions(deck_path);
+
+ALTER TABLE deck_versions ENABLE ROW LEVEL SECURITY;
+
+-- Rounds' own policy decides who can see them (live, or the founder's drafts)
+CREATE POLICY "Anyone can read versions of visible rounds"
+  ON deck_versions FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM fundraising_rounds
+      WHERE fundraising_rounds.id = deck_versions.round_id
+    )
+  );
+
+ALTER TABLE fundraising_rounds
+  ADD COLUMN IF NOT EXISTS deck_version integer,
+  ADD COLUMN IF NOT EXISTS deck_updated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS allow_previous_deck_versions boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION record_deck_version(
+  p_round_id uuid,
+  p_deck_path text,
+  p_changelog text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  next_version integer;
+BEGIN
+  -- Serialize concurrent uploads for the same round
+  PERFORM 1 FROM fundraising_rounds WHERE id = p_round_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM deck_versions
+  WHERE round_id = p_round_id;
+
+  -- A deck the round already points at keeps its scan verdict, e.g. a legacy
+  -- deck moved into the private bucket
+  INSERT INTO deck_versions (round_id, version, deck_path, changelog, scan_status)
+  VALUES (
+    p_round_id,
+    next_version,
+    p_deck_path,
+    NULLIF(btrim(p_changelog), ''),
+    COALESCE(
+      (SELECT scan_status FROM fundraising_rounds WHERE id = p_round_id AND deck_path = p_deck_path),
+      'pending'
+    )
+  );
+
+  UPDATE fundraising_rounds
+  SET deck_version = next_version,
+      deck_updated_at = now()
+  WHERE id = p_round_id;
+
+  RETURN next_version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_deck_version(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+INSERT INTO deck_versions (round_id, version, deck_path, scan_status, created_at)
+SELECT id, 1, deck_path, scan_status, updated_at
+FROM fundraising_rounds
+WHERE deck_path IS NOT NULL
+ON CONFLICT (round_id, version) DO NOTHING;
+
+UPDATE fundraising_rounds
+SET deck_version = 1,
+    deck_updated_at = updated_at
+WHERE deck_path IS NOT NULL
+  AND deck_version IS NULL;
+
+CREATE OR REPLACE FUNCTION protect_round_files()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft'
+      OR NEW.logo_url IS NOT NULL
+      OR NEW.logo_variants IS NOT NULL
+      OR NEW.deck_path IS NOT NULL
+      OR NEW.deck_url IS NOT NULL
+      OR NEW.scan_status <> 'pending'
+      OR NEW.scanned_at IS NOT NULL
+      OR NEW.deck_version IS NOT NULL
+      OR NEW.deck_updated_at IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'New rounds must be drafts without files'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NEW.logo_url IS DISTINCT FROM OLD.logo_url
+    OR NEW.logo_variants IS DISTINCT FROM OLD.logo_variants
+    OR NEW.deck_path IS DISTINCT FROM OLD.deck_path
+    OR NEW.deck_url IS DISTINCT FROM OLD.deck_url
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.scan_status IS DISTINCT FROM OLD.scan_status
+    OR NEW.scanned_at IS DISTINCT FROM OLD.scanned_at
+    OR NEW.deck_version IS DISTINCT FROM OLD.deck_version
+    OR NEW.deck_updated_at IS DISTINCT FROM OLD.deck_updated_at
+  THEN
+    RAISE EXCEPTION 'Round files and status can only be changed through the API'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,131 @@
+/*
+  # Original Deck Filenames
+
+  ## Overview
+  Uploads used to be stored under the name the founder's file happened to
+  have, so spaces, unicode or "../" in it broke URLs, and two files with the
+  same name overwrote each other. Storage keys are now derived from a hash of
+  the file contents. The original filename is kept here instead, and offered
+  as the name of a downloaded deck.
+
+  ## 1. Schema Changes
+
+  ### `fundraising_rounds`
+  - `deck_filename` (text, nullable) - Sanitized original filename of the
+    current deck, up to 255 characters
+
+  ### `deck_versions`
+  - `deck_filename` (text, nullable) - Sanitized original filename of that
+    version
+
+  ## 2. Modified Functions
+
+  ### `record_deck_version(p_round_id, p_deck_path, p_changelog)`
+  - Copies the round's `deck_filename` onto the new version when the round
+    points at that deck, as it already does for the scan verdict
+
+  ### `protect_round_files()`
+  - `deck_filename` can only be changed with the service role, like the
+    other file columns
+
+  ## 3. Important Notes
+
+  - Existing decks keep their storage paths and have no original filename;
+    downloads of them fall back to the last segment of the path
+*/
+
+ALTER TABLE fundraising_rounds
+  ADD COLUMN IF NOT EXISTS deck_filename text CHECK (char_length(deck_filename) <= 255);
+
+ALTER TABLE deck_versions
+  ADD COLUMN IF NOT EXISTS deck_filename text CHECK (char_length(deck_filename) <= 255);
+
+CREATE OR REPLACE FUNCTION record_deck_version(
+  p_round_id uuid,
+  p_deck_path text,
+  p_changelog text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  next_version integer;
+  current_scan_status text;
+  current_filename text;
+BEGIN
+  -- Serialize concurrent uploads for the same round
+  PERFORM 1 FROM fundraising_rounds WHERE id = p_round_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM deck_versions
+  WHERE round_id = p_round_id;
+
+  -- A deck the round already points at keeps its scan verdict and filename,
+  -- e.g. a legacy deck moved into the private bucket
+  SELECT scan_status, deck_filename INTO current_scan_status, current_filename
+  FROM fundraising_rounds
+  WHERE id = p_round_id AND deck_path = p_deck_path;
+
+  INSERT INTO deck_versions (round_id, version, deck_path, deck_filename, changelog, scan_status)
+  VALUES (
+    p_round_id,
+    next_version,
+    p_deck_path,
+    current_filename,
+    NULLIF(btrim(p_changelog), ''),
+    COALESCE(current_scan_status, 'pending')
+  );
+
+  UPDATE fundraising_rounds
+  SET deck_version = next_version,
+      deck_updated_at = now()
+  WHERE id = p_round_id;
+
+  RETURN next_version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_deck_version(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION protect_round_files()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft'
+      OR NEW.logo_url IS NOT NULL
+      OR NEW.logo_variants IS NOT NULL
+      OR NEW.deck_path IS NOT NULL
+      OR NEW.deck_url IS NOT NULL
+      OR NEW.deck_filename IS NOT NULL
+      OR NEW.scan_status <> 'pending'
+      OR NEW.scanned_at IS NOT NULL
+      OR NEW.deck_version IS NOT NULL
+      OR NEW.deck_updated_at IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'New rounds must be drafts without files'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NEW.logo_url IS DISTINCT FROM OLD.logo_url
+    OR NEW.logo_variants IS DISTINCT FROM OLD.logo_variants
+    OR NEW.deck_path IS DISTINCT FROM OLD.deck_path
+    OR NEW.deck_url IS DISTINCT FROM OLD.deck_url
+    OR NEW.deck_filename IS DISTINCT FROM OLD.deck_filename
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.scan_status IS DISTINCT FROM OLD.scan_status
+    OR NEW.scanned_at IS DISTINCT FROM OLD.scanned_at
+    OR NEW.deck_version IS DISTINCT FROM OLD.deck_version
+    OR NEW.deck_updated_at IS DISTINCT FROM OLD.deck_updated_at
+  THEN
+    RAISE EXCEPTION 'Round files and status can only be changed through the API'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,194 @@
+/*
+  # Round Lifecycle
+
+  ## Overview
+  A round used to stay "raising" forever once launched. Rounds now move
+  through a lifecycle, and every move is timestamped:
+
+    draft -> live -> closing -> closed
+                             -> funded
+    live or closing -> withdrawn
+
+  `draft -> live` still happens when the launch's files are verified; the
+  founder moves the round through the rest from its page.
+
+  ## 1. Schema Changes
+
+  ### `fundraising_rounds`
+  - `status` accepts 'closing', 'closed', 'funded' and 'withdrawn' besides
+    'draft' and 'live'
+  - `launched_at` (timestamptz, nullable) - When the round went live
+  - `closing_at` (timestamptz, nullable) - When the founder announced the
+    round is closing
+  - `closed_at` (timestamptz, nullable) - When the round closed
+  - `funded_at` (timestamptz, nullable) - When the round was marked funded
+  - `withdrawn_at` (timestamptz, nullable) - When the founder withdrew it
+  - `fundraising_rounds_live_files_check` now requires files on every round
+    past the draft stage
+
+  ## 2. New Functions
+
+  ### `is_valid_round_transition(from_status, to_status)`
+  - Whether a round may move from one status to the other; mirrored by
+    `lib/roundStatus.ts`
+
+  ### `track_round_status()` (trigger)
+  - Rejects any other status change, for every role including the service
+    role, and stamps the matching timestamp. The timestamps can't be written
+    directly
+
+  ## 3. Modified Functions
+
+  ### `protect_round_files()`
+  - Founders may now change the status of their launched rounds themselves,
+    since the transitions are enforced above. Going live still needs the
+    service role, which verifies the files first
+
+  ## 4. Security Changes
+
+  - "Anyone can read fundraising rounds" also exposes closing, closed and
+    funded rounds, so their pages stay up for history. Drafts and withdrawn
+    rounds are only visible to their founder
+
+  ## 5. Important Notes
+
+  - `get_trending_rounds()` and `search_rounds()` already only return live
+    rounds, so rounds drop out of the feed as soon as they start closing
+  - Existing live rounds get `launched_at` from `created_at`
+*/
+
+ALTER TABLE fundraising_rounds DROP CONSTRAINT IF EXISTS fundraising_rounds_status_check;
+ALTER TABLE fundraising_rounds
+  ADD CONSTRAINT fundraising_rounds_status_check
+  CHECK (status IN ('draft', 'live', 'closing', 'closed', 'funded', 'withdrawn'));
+
+ALTER TABLE fundraising_rounds DROP CONSTRAINT IF EXISTS fundraising_rounds_live_files_check;
+ALTER TABLE fundraising_rounds
+  ADD CONSTRAINT fundraising_rounds_live_files_check
+  CHECK (status = 'draft' OR (logo_url IS NOT NULL AND (deck_path IS NOT NULL OR deck_url IS NOT NULL)));
+
+ALTER TABLE fundraising_rounds
+  ADD COLUMN IF NOT EXISTS launched_at timestamptz,
+  ADD COLUMN IF NOT EXISTS closing_at timestamptz,
+  ADD COLUMN IF NOT EXISTS closed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS funded_at timestamptz,
+  ADD COLUMN IF NOT EXISTS withdrawn_at timestamptz;
+
+UPDATE fundraising_rounds
+SET launched_at = created_at
+WHERE status = 'live'
+  AND launched_at IS NULL;
+
+CREATE OR REPLACE FUNCTION is_valid_round_transition(from_status text, to_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (from_status, to_status) IN (
+    ('draft', 'live'),
+    ('live', 'closing'),
+    ('live', 'withdrawn'),
+    ('closing', 'closed'),
+    ('closing', 'funded'),
+    ('closing', 'withdrawn')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION track_round_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.launched_at := CASE WHEN NEW.status = 'live' THEN now() END;
+    NEW.closing_at := NULL;
+    NEW.closed_at := NULL;
+    NEW.funded_at := NULL;
+    NEW.withdrawn_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Timestamps only ever change along with the status
+  NEW.launched_at := OLD.launched_at;
+  NEW.closing_at := OLD.closing_at;
+  NEW.closed_at := OLD.closed_at;
+  NEW.funded_at := OLD.funded_at;
+  NEW.withdrawn_at := OLD.withdrawn_at;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_valid_round_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'A round cannot go from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  CASE NEW.status
+    WHEN 'live' THEN NEW.launched_at := now();
+    WHEN 'closing' THEN NEW.closing_at := now();
+    WHEN 'closed' THEN NEW.closed_at := now();
+    WHEN 'funded' THEN NEW.funded_at := now();
+    WHEN 'withdrawn' THEN NEW.withdrawn_at := now();
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_round_status ON fundraising_rounds;
+CREATE TRIGGER track_round_status
+  BEFORE INSERT OR UPDATE ON fundraising_rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION track_round_status();
+
+CREATE OR REPLACE FUNCTION protect_round_files()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft'
+      OR NEW.logo_url IS NOT NULL
+      OR NEW.logo_variants IS NOT NULL
+      OR NEW.deck_path IS NOT NULL
+      OR NEW.deck_url IS NOT NULL
+      OR NEW.deck_filename IS NOT NULL
+      OR NEW.scan_status <> 'pending'
+      OR NEW.scanned_at IS NOT NULL
+      OR NEW.deck_version IS NOT NULL
+      OR NEW.deck_updated_at IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'New rounds must be drafts without files'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NEW.logo_url IS DISTINCT FROM OLD.logo_url
+    OR NEW.logo_variants IS DISTINCT FROM OLD.logo_variants
+    OR NEW.deck_path IS DISTINCT FROM OLD.deck_path
+    OR NEW.deck_url IS DISTINCT FROM OLD.deck_url
+    OR NEW.deck_filename IS DISTINCT FROM OLD.deck_filename
+    -- A draft only goes live once its files have been verified
+    OR (NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'live')
+    OR NEW.scan_status IS DISTINCT FROM OLD.scan_status
+    OR NEW.scanned_at IS DISTINCT FROM OLD.scanned_at
+    OR NEW.deck_version IS DISTINCT FROM OLD.deck_version
+    OR NEW.deck_updated_at IS DISTINCT FROM OLD.deck_updated_at
+  THEN
+    RAISE EXCEPTION 'Round files can only be changed through the API'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Anyone can read fundraising rounds" ON fundraising_rounds;
+
+CREATE POLICY "Anyone can read fundraising rounds"
+  ON fundraising_rounds FOR SELECT
+  TO anon, authenticated
+  USING (status NOT IN ('draft', 'withdrawn') OR auth.uid() = founder_id);
@@ -0,0 +1,63 @@
+/*
+  # Round Terms
+
+  ## Overview
+  A round only had an amount and a currency, which isn't enough for an
+  investor to triage it. Rounds now carry structured terms, all optional so
+  existing rounds stay valid. Amounts are in the round's currency.
+
+  ## 1. Schema Changes
+
+  ### `fundraising_rounds`
+  - `instrument` (text, nullable) - 'safe', 'convertible_note' or
+    'priced_equity'
+  - `valuation` (numeric, nullable) - Valuation cap of a SAFE or note, or the
+    valuation of a priced round
+  - `valuation_type` (text, nullable) - 'pre_money' or 'post_money'; set
+    exactly when `valuation` is
+  - `discount_percent` (numeric, nullable) - Discount to the next priced
+    round, between 0 and 100 exclusive
+  - `minimum_check` (numeric, nullable) - Smallest check the founder accepts
+  - `lead_status` (text, nullable) - 'seeking_lead', 'lead_committed' or
+    'no_lead'
+
+  ## 2. Constraints
+
+  ### `fundraising_rounds_terms_check`
+  Rejects combinations that contradict each other; mirrored by
+  `validateRoundTerms()` in `lib/roundTerms.ts`:
+  - A valuation or discount needs an instrument
+  - Only SAFEs and convertible notes have a discount
+  - A priced round needs a valuation
+  - A post-money valuation is larger than the amount raised
+  - The minimum check is at most the amount raised
+
+  ## 3. Important Notes
+
+  - `get_trending_rounds()` and `search_rounds()` return whole rows, so the
+    terms reach the feed without changes to them
+*/
+
+ALTER TABLE fundraising_rounds
+  ADD COLUMN IF NOT EXISTS instrument text
+    CHECK (instrument IN ('safe', 'convertible_note', 'priced_equity')),
+  ADD COLUMN IF NOT EXISTS valuation numeric CHECK (valuation > 0),
+  ADD COLUMN IF NOT EXISTS valuation_type text
+    CHECK (valuation_type IN ('pre_money', 'post_money')),
+  ADD COLUMN IF NOT EXISTS discount_percent numeric(5, 2)
+    CHECK (discount_percent > 0 AND discount_percent < 100),
+  ADD COLUMN IF NOT EXISTS minimum_check numeric CHECK (minimum_check > 0),
+  ADD COLUMN IF NOT EXISTS lead_status text
+    CHECK (lead_status IN ('seeking_lead', 'lead_committed', 'no_lead'));
+
+ALTER TABLE fundraising_rounds DROP CONSTRAINT IF EXISTS fundraising_rounds_terms_check;
+ALTER TABLE fundraising_rounds
+  ADD CONSTRAINT fundraising_rounds_terms_check
+  CHECK (
+    (valuation IS NULL) = (valuation_type IS NULL)
+    AND ((valuation IS NULL AND discount_percent IS NULL) OR instrument IS NOT NULL)
+    AND (discount_percent IS NULL OR instrument IN ('safe', 'convertible_note'))
+    AND (instrument IS DISTINCT FROM 'priced_equity' OR valuation IS NOT NULL)
+    AND (valuation_type IS DISTINCT FROM 'post_money' OR valuation > raising_amount)
+    AND (minimum_check IS NULL OR minimum_check <= raising_amount)
+  );
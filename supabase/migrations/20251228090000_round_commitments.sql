@@ -0,0 +1,189 @@
+/*
+  # Round Commitments
+
+  ## Overview
+  Investors can soft-circle an amount they intend to put into a round, so
+  founders can show progress such as "$600k of $1.5M committed". Only the
+  founder sees who committed what; everyone else sees at most the total, and
+  only if the founder makes it public.
+
+  ## 1. New Tables
+
+  ### `commitments`
+  - `id` (uuid, primary key)
+  - `round_id` (uuid, references fundraising_rounds)
+  - `investor_id` (uuid, references users)
+  - `amount` (numeric) - Amount the investor intends to put in, in the
+    round's currency
+  - `created_at`, `updated_at` (timestamptz)
+  - One commitment per investor and round; investors change its amount
+    instead of adding another
+
+  ### `round_commitment_totals`
+  - `round_id` (uuid, primary key, references fundraising_rounds)
+  - `committed_amount` (numeric) - Sum of the round's commitments
+  - `commitment_count` (integer) - Number of investors who committed
+  - Kept up to date by a trigger on `commitments`. It is a separate table
+    rather than columns on `fundraising_rounds`, since those are readable by
+    anyone who can see the round
+
+  ## 2. Schema Changes
+
+  ### `fundraising_rounds`
+  - `show_commitments` (boolean, default false) - Whether the round's totals
+    are public
+
+  ## 3. Security
+
+  - Investors manage their own commitment while the round is live or
+    closing; founders can't commit to their own round
+  - Founders read every commitment to their rounds
+  - Totals are readable by everyone when `show_commitments` is set, and
+    always by the founder
+  - `track_commitment_totals()` runs as SECURITY DEFINER because investors
+    can't write totals themselves
+
+  ## 4. Important Notes
+
+  - Totals change by the difference of each write
+    (`committed_amount = committed_amount + delta`), so concurrent
+    commitments can't lose updates
+  - Deleting a round deletes its commitments and totals
+*/
+
+ALTER TABLE fundraising_rounds
+  ADD COLUMN IF NOT EXISTS show_commitments boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS commitments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  round_id uuid NOT NULL REFERENCES fundraising_rounds(id) ON DELETE CASCADE,
+  investor_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (round_id, investor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_commitments_investor_id ON commitments(investor_id);
+
+CREATE TABLE IF NOT EXISTS round_commitment_totals (
+  round_id uuid PRIMARY KEY REFERENCES fundraising_rounds(id) ON DELETE CASCADE,
+  committed_amount numeric NOT NULL DEFAULT 0,
+  commitment_count integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE commitments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE round_commitment_totals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Investors can read own commitments"
+  ON commitments FOR SELECT
+  TO authenticated
+  USING (auth.uid() = investor_id);
+
+CREATE POLICY "Founders can read commitments to their rounds"
+  ON commitments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM fundraising_rounds r
+      WHERE r.id = commitments.round_id
+        AND r.founder_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Investors can commit to raising rounds"
+  ON commitments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = investor_id
+    AND EXISTS (
+      SELECT 1 FROM fundraising_rounds r
+      WHERE r.id = commitments.round_id
+        AND r.status IN ('live', 'closing')
+        AND r.founder_id <> auth.uid()
+    )
+  );
+
+CREATE POLICY "Investors can change own commitments while raising"
+  ON commitments FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = investor_id)
+  WITH CHECK (
+    auth.uid() = investor_id
+    AND EXISTS (
+      SELECT 1 FROM fundraising_rounds r
+      WHERE r.id = commitments.round_id
+        AND r.status IN ('live', 'closing')
+    )
+  );
+
+CREATE POLICY "Investors can withdraw own commitments while raising"
+  ON commitments FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = investor_id
+    AND EXISTS (
+      SELECT 1 FROM fundraising_rounds r
+      WHERE r.id = commitments.round_id
+        AND r.status IN ('live', 'closing')
+    )
+  );
+
+CREATE POLICY "Anyone can read public commitment totals"
+  ON round_commitment_totals FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM fundraising_rounds r
+      WHERE r.id = round_commitment_totals.round_id
+        AND (r.show_commitments OR r.founder_id = auth.uid())
+    )
+  );
+
+CREATE OR REPLACE FUNCTION track_commitment_totals()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO round_commitment_totals (round_id, committed_amount, commitment_count)
+    VALUES (NEW.round_id, NEW.amount, 1)
+    ON CONFLICT (round_id) DO UPDATE
+    SET committed_amount = round_commitment_totals.committed_amount + EXCLUDED.committed_amount,
+        commitment_count = round_commitment_totals.commitment_count + 1,
+        updated_at = now();
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.round_id IS DISTINCT FROM OLD.round_id OR NEW.investor_id IS DISTINCT FROM OLD.investor_id THEN
+      RAISE EXCEPTION 'A commitment cannot move to another round or investor'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE round_commitment_totals
+    SET committed_amount = committed_amount + (NEW.amount - OLD.amount),
+        updated_at = now()
+    WHERE round_id = NEW.round_id;
+    RETURN NEW;
+  END IF;
+
+  -- No upsert here: when the round itself is being deleted, its totals are
+  -- already gone and must not be recreated
+  UPDATE round_commitment_totals
+  SET committed_amount = committed_amount - OLD.amount,
+      commitment_count = GREATEST(commitment_count - 1, 0),
+      updated_at = now()
+  WHERE round_id = OLD.round_id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_commitment_totals ON commitments;
+CREATE TRIGGER track_commitment_totals
+  AFTER INSERT OR UPDATE OR DELETE ON commitments
+  FOR EACH ROW
+  EXECUTE FUNCTION track_commitment_totals();
@@ -0,0 +1,304 @@
+/*
+  # Round Tags
+
+  ## Overview
+  Rounds had no tags, so investors couldn't narrow the feed to e.g.
+  "pre-seed climate in Europe". Rounds are now tagged from a curated
+  taxonomy of sectors, stages, HQ regions and countries, and business
+  models. Each round has at most one tag of each type.
+
+  ## 1. New Tables
+
+  ### `tags`
+  - `id` (uuid, primary key)
+  - `type` (text) - 'sector', 'stage', 'geography' or 'business_model'
+  - `slug` (text) - URL name, unique per type, e.g. 'climate'
+  - `name` (text) - Display name
+  - `parent_id` (uuid, nullable) - Region of a country; a filter on a
+    region also matches rounds tagged with its countries
+  - `position` (integer) - Order within its type
+  - Curated: seeded here, and only changed by migrations
+
+  ### `round_tags`
+  - `round_id` (uuid, references fundraising_rounds)
+  - `tag_id` (uuid, references tags)
+  - Primary key on both
+
+  ## 2. New Functions
+
+  ### `round_has_tag(p_round_id, p_type, p_slug)`
+  - Whether the round has the tag, or a child of it
+
+  ### `get_round_tags(p_round_id)`
+  - The round's tags as a JSON array, for feed results
+
+  ### `set_round_tags(p_round_id, p_tag_ids)`
+  - Replaces a round's tags in one transaction. Runs as the caller, so only
+    the founder can tag a round
+
+  ### `check_round_tag_types()` (trigger)
+  - Rejects a second tag of the same type on a round
+
+  ## 3. Modified Functions
+
+  ### `get_trending_rounds(...)`
+  - New `sector_filter`, `stage_filter`, `geography_filter` and
+    `business_model_filter` arguments, each a tag slug
+  - Also returns each round's tags
+
+  ## 4. Security
+
+  - Everyone can read tags, and the tags of rounds they can see
+  - Founders add and remove tags on their own rounds
+*/
+
+CREATE TABLE IF NOT EXISTS tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  type text NOT NULL CHECK (type IN ('sector', 'stage', 'geography', 'business_model')),
+  slug text NOT NULL CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text NOT NULL,
+  parent_id uuid REFERENCES tags(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  UNIQUE (type, slug)
+);
+
+CREATE TABLE IF NOT EXISTS round_tags (
+  round_id uuid NOT NULL REFERENCES fundraising_rounds(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (round_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_round_tags_tag_id ON round_tags(tag_id);
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE round_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read tags"
+  ON tags FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can read tags of visible rounds"
+  ON round_tags FOR SELECT
+  TO anon, authenticated
+  USING (EXISTS (SELECT 1 FROM fundraising_rounds r WHERE r.id = round_tags.round_id));
+
+CREATE POLICY "Founders can tag own rounds"
+  ON round_tags FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM fundraising_rounds r
+      WHERE r.id = round_tags.round_id
+        AND r.founder_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Founders can untag own rounds"
+  ON round_tags FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM fundraising_rounds r
+      WHERE r.id = round_tags.round_id
+        AND r.founder_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION check_round_tag_types()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM round_tags rt
+    JOIN tags existing ON existing.id = rt.tag_id
+    JOIN tags added ON added.id = NEW.tag_id
+    WHERE rt.round_id = NEW.round_id
+      AND rt.tag_id <> NEW.tag_id
+      AND existing.type = added.type
+  ) THEN
+    RAISE EXCEPTION 'A round can only have one tag of each type'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_round_tag_types ON round_tags;
+CREATE TRIGGER check_round_tag_types
+  BEFORE INSERT ON round_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION check_round_tag_types();
+
+CREATE OR REPLACE FUNCTION set_round_tags(p_round_id uuid, p_tag_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM round_tags
+  WHERE round_id = p_round_id
+    AND NOT (tag_id = ANY (p_tag_ids));
+
+  INSERT INTO round_tags (round_id, tag_id)
+  SELECT p_round_id, tag_id
+  FROM unnest(p_tag_ids) AS tag_id
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION round_has_tag(p_round_id uuid, p_type text, p_slug text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM round_tags rt
+    JOIN tags t ON t.id = rt.tag_id
+    LEFT JOIN tags parent ON parent.id = t.parent_id
+    WHERE rt.round_id = p_round_id
+      AND t.type = p_type
+      AND p_slug IN (t.slug, parent.slug)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION get_round_tags(p_round_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object('id', t.id, 'type', t.type, 'slug', t.slug, 'name', t.name, 'parent_id', t.parent_id)
+      ORDER BY t.type, t.position
+    ),
+    '[]'::jsonb
+  )
+  FROM round_tags rt
+  JOIN tags t ON t.id = rt.tag_id
+  WHERE rt.round_id = p_round_id;
+$$;
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS get_trending_rounds(
+  integer, numeric, numeric, numeric, timestamptz, double precision, uuid, text, numeric, numeric, timestamptz
+);
+
+CREATE OR REPLACE FUNCTION get_trending_rounds(
+  limit_count integer DEFAULT 20,
+  follow_weight numeric DEFAULT 1,
+  intro_weight numeric DEFAULT 3,
+  gravity numeric DEFAULT 1.5,
+  as_of timestamptz DEFAULT now(),
+  cursor_score double precision DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  currency_filter text DEFAULT NULL,
+  min_amount numeric DEFAULT NULL,
+  max_amount numeric DEFAULT NULL,
+  posted_after timestamptz DEFAULT NULL,
+  sector_filter text DEFAULT NULL,
+  stage_filter text DEFAULT NULL,
+  geography_filter text DEFAULT NULL,
+  business_model_filter text DEFAULT NULL
+)
+RETURNS TABLE (fundraising_round fundraising_rounds, trending_score double precision, tags jsonb)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ranked.r, ranked.score, get_round_tags(ranked.round_id)
+  FROM (
+    SELECT r, r.id AS round_id, trending_score(
+      r.follower_count,
+      r.intro_request_count,
+      r.created_at,
+      get_trending_rounds.follow_weight,
+      get_trending_rounds.intro_weight,
+      get_trending_rounds.gravity,
+      get_trending_rounds.as_of
+    ) AS score
+    FROM fundraising_rounds r
+    WHERE r.status = 'live'
+      AND r.created_at <= get_trending_rounds.as_of
+      AND (get_trending_rounds.currency_filter IS NULL OR r.currency = get_trending_rounds.currency_filter)
+      AND (get_trending_rounds.min_amount IS NULL OR r.raising_amount >= get_trending_rounds.min_amount)
+      AND (get_trending_rounds.max_amount IS NULL OR r.raising_amount <= get_trending_rounds.max_amount)
+      AND (get_trending_rounds.posted_after IS NULL OR r.created_at >= get_trending_rounds.posted_after)
+      AND (get_trending_rounds.sector_filter IS NULL
+        OR round_has_tag(r.id, 'sector', get_trending_rounds.sector_filter))
+      AND (get_trending_rounds.stage_filter IS NULL
+        OR round_has_tag(r.id, 'stage', get_trending_rounds.stage_filter))
+      AND (get_trending_rounds.geography_filter IS NULL
+        OR round_has_tag(r.id, 'geography', get_trending_rounds.geography_filter))
+      AND (get_trending_rounds.business_model_filter IS NULL
+        OR round_has_tag(r.id, 'business_model', get_trending_rounds.business_model_filter))
+  ) ranked
+  WHERE get_trending_rounds.cursor_score IS NULL
+    OR (ranked.score, ranked.round_id) < (get_trending_rounds.cursor_score, get_trending_rounds.cursor_id)
+  ORDER BY ranked.score DESC, ranked.round_id DESC
+  LIMIT limit_count;
+$$;
+
+INSERT INTO tags (type, slug, name, position) VALUES
+  ('sector', 'ai', 'AI', 1),
+  ('sector', 'climate', 'Climate', 2),
+  ('sector', 'fintech', 'Fintech', 3),
+  ('sector', 'health', 'Health', 4),
+  ('sector', 'biotech', 'Biotech', 5),
+  ('sector', 'developer-tools', 'Developer tools', 6),
+  ('sector', 'enterprise-software', 'Enterprise software', 7),
+  ('sector', 'cybersecurity', 'Cybersecurity', 8),
+  ('sector', 'consumer', 'Consumer', 9),
+  ('sector', 'edtech', 'Education', 10),
+  ('sector', 'mobility', 'Mobility', 11),
+  ('sector', 'proptech', 'Real estate', 12),
+  ('sector', 'food-agriculture', 'Food and agriculture', 13),
+  ('sector', 'hardware', 'Hardware and robotics', 14),
+  ('sector', 'media-gaming', 'Media and gaming', 15),
+  ('stage', 'pre-seed', 'Pre-seed', 1),
+  ('stage', 'seed', 'Seed', 2),
+  ('stage', 'series-a', 'Series A', 3),
+  ('stage', 'series-b', 'Series B', 4),
+  ('stage', 'growth', 'Series C and later', 5),
+  ('business_model', 'b2b-saas', 'B2B SaaS', 1),
+  ('business_model', 'marketplace', 'Marketplace', 2),
+  ('business_model', 'consumer-subscription', 'Consumer subscription', 3),
+  ('business_model', 'transactional', 'Transactional', 4),
+  ('business_model', 'e-commerce', 'E-commerce', 5),
+  ('business_model', 'hardware-sales', 'Hardware sales', 6),
+  ('business_model', 'advertising', 'Advertising', 7),
+  ('business_model', 'licensing', 'Licensing', 8),
+  ('geography', 'north-america', 'North America', 1),
+  ('geography', 'latin-america', 'Latin America', 2),
+  ('geography', 'europe', 'Europe', 3),
+  ('geography', 'middle-east', 'Middle East', 4),
+  ('geography', 'africa', 'Africa', 5),
+  ('geography', 'asia-pacific', 'Asia-Pacific', 6)
+ON CONFLICT (type, slug) DO NOTHING;
+
+INSERT INTO tags (type, slug, name, parent_id, position)
+SELECT 'geography', country.slug, country.name, region.id, country.position
+FROM (VALUES
+  ('united-states', 'United States', 'north-america', 1),
+  ('canada', 'Canada', 'north-america', 2),
+  ('brazil', 'Brazil', 'latin-america', 1),
+  ('mexico', 'Mexico', 'latin-america', 2),
+  ('united-kingdom', 'United Kingdom', 'europe', 1),
+  ('germany', 'Germany', 'europe', 2),
+  ('france', 'France', 'europe', 3),
+  ('netherlands', 'Netherlands', 'europe', 4),
+  ('nordics', 'Nordics', 'europe', 5),
+  ('spain', 'Spain', 'europe', 6),
+  ('israel', 'Israel', 'middle-east', 1),
+  ('united-arab-emirates', 'United Arab Emirates', 'middle-east', 2),
+  ('nigeria', 'Nigeria', 'africa', 1),
+  ('kenya', 'Kenya', 'africa', 2),
+  ('india', 'India', 'asia-pacific', 1),
+  ('singapore', 'Singapore', 'asia-pacific', 2),
+  ('japan', 'Japan', 'asia-pacific', 3),
+  ('australia', 'Australia', 'asia-pacific', 4)
+) AS country(slug, name, region_slug, position)
+JOIN tags region ON region.type = 'geography' AND region.slug = country.region_slug
+ON CONFLICT (type, slug) DO NOTHING;
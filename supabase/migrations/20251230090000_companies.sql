@@ -0,0 +1,337 @@
+/*
+  # Companies
+
+  ## Overview
+  A round carried its own company name and logo, so a startup that raised a
+  seed and then a Series A showed up as two unrelated entries. Companies are
+  now their own table owning the name, logo, website and team, and every
+  round belongs to one. Existing rounds are grouped into companies by founder
+  and name.
+
+  ## 1. New Tables
+
+  ### `companies`
+  - `id` (uuid, primary key)
+  - `founder_id` (uuid, references users) - Founder who manages the company
+    and launches its rounds
+  - `name` (text) - Unique per founder, ignoring case
+  - `logo_url` (text, nullable) - Set through the API once an uploaded logo
+    is verified, like round files
+  - `logo_variants` (jsonb, nullable) - Resized copies of the logo, see
+    20251221090000_logo_variants.sql
+  - `website` (text, nullable) - http(s) URL
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### `company_team_members`
+  - `id` (uuid, primary key)
+  - `company_id` (uuid, references companies)
+  - `name` (text)
+  - `title` (text, nullable) - e.g. 'CTO'
+  - `profile_url` (text, nullable) - http(s) URL, e.g. LinkedIn
+  - `position` (integer) - Order on the company page
+
+  ## 2. Schema Changes
+
+  ### `fundraising_rounds`
+  - `company_id` (uuid, references companies) - Required; a company can't be
+    deleted while it has rounds
+  - `company_name`, `logo_url` and `logo_variants` are now copies of the
+    company's, kept in sync by `sync_round_company()` so the feed and search
+    don't need a join. Writing them directly has no effect
+
+  ## 3. New Functions
+
+  ### `sync_round_company()` (trigger on `fundraising_rounds`)
+  - Copies the company's name and logo onto the round, and rejects a company
+    of another founder
+
+  ### `sync_company_rounds()` (trigger on `companies`)
+  - Copies a changed name or logo onto every round of the company
+
+  ### `protect_company_logo()` (trigger on `companies`)
+  - Signed-in users can't set the logo; the API does once it is verified
+
+  ### `set_company_team(p_company_id, p_members)`
+  - Replaces a company's team with the given JSON array of
+    `{ name, title, profile_url }`, in order. Runs as the caller, so only the
+    founder can change it
+
+  ## 4. Modified Functions
+
+  ### `protect_round_files()`
+  - No longer checks the logo columns, since they are overwritten from the
+    company anyway
+
+  ## 5. Security
+
+  - Companies and their teams are readable when one of their rounds is
+    visible, and always by their founder
+  - Founders create, edit and delete their own companies and teams
+
+  ## 6. Important Notes
+
+  - Rounds are grouped by founder and name, trimmed and ignoring case. Each
+    company takes the name and logo of its most recent round with a logo, so
+    older rounds now show that logo; their previous logo files are no longer
+    referenced and are removed by the upload sweep
+  - Rounds with a blank company name are grouped under 'Untitled company',
+    since a company needs a name; founders can rename it
+*/
+
+CREATE TABLE IF NOT EXISTS companies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  founder_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  logo_url text,
+  logo_variants jsonb CHECK (logo_variants IS NULL OR jsonb_typeof(logo_variants) = 'object'),
+  website text CHECK (website ~* '^https?://[^[:space:]]+$'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_companies_founder_name ON companies(founder_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS company_team_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  title text,
+  profile_url text CHECK (profile_url ~* '^https?://[^[:space:]]+$'),
+  position integer NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_team_members_company_id ON company_team_members(company_id, position);
+
+ALTER TABLE fundraising_rounds
+  ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES companies(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_fundraising_rounds_company_id ON fundraising_rounds(company_id, created_at DESC);
+
+-- One company per founder and name, from the most recent round with a logo.
+-- A blank name would fail the name check, so those rounds share a placeholder
+INSERT INTO companies (founder_id, name, logo_url, logo_variants, created_at, updated_at)
+SELECT DISTINCT ON (r.founder_id, lower(r.name))
+  r.founder_id,
+  r.name,
+  r.logo_url,
+  r.logo_variants,
+  min(r.created_at) OVER (PARTITION BY r.founder_id, lower(r.name)),
+  now()
+FROM (
+  SELECT
+    founder_id,
+    coalesce(nullif(btrim(company_name), ''), 'Untitled company') AS name,
+    logo_url,
+    logo_variants,
+    created_at
+  FROM fundraising_rounds
+  WHERE company_id IS NULL
+) r
+ORDER BY r.founder_id, lower(r.name), r.logo_url IS NULL, r.created_at DESC
+ON CONFLICT DO NOTHING;
+
+UPDATE fundraising_rounds r
+SET company_id = c.id
+FROM companies c
+WHERE r.company_id IS NULL
+  AND c.founder_id = r.founder_id
+  AND lower(c.name) = lower(coalesce(nullif(btrim(r.company_name), ''), 'Untitled company'));
+
+ALTER TABLE fundraising_rounds ALTER COLUMN company_id SET NOT NULL;
+
+-- Runs for whoever updates the round, e.g. a follower count trigger, so it
+-- reads the company regardless of that user's access
+CREATE OR REPLACE FUNCTION sync_round_company()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  company companies%ROWTYPE;
+BEGIN
+  SELECT * INTO company FROM companies WHERE id = NEW.company_id;
+
+  IF NOT FOUND OR company.founder_id <> NEW.founder_id THEN
+    RAISE EXCEPTION 'A round can only belong to a company of its founder'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  NEW.company_name := company.name;
+  NEW.logo_url := company.logo_url;
+  NEW.logo_variants := company.logo_variants;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_round_company ON fundraising_rounds;
+CREATE TRIGGER sync_round_company
+  BEFORE INSERT OR UPDATE ON fundraising_rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_round_company();
+
+-- Give the grouped rounds their company's name and logo
+UPDATE fundraising_rounds SET company_id = company_id;
+
+CREATE OR REPLACE FUNCTION sync_company_rounds()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.logo_url IS DISTINCT FROM OLD.logo_url
+    OR NEW.logo_variants IS DISTINCT FROM OLD.logo_variants
+  THEN
+    -- sync_round_company() copies the new values
+    UPDATE fundraising_rounds
+    SET company_name = NEW.name
+    WHERE company_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_company_rounds ON companies;
+CREATE TRIGGER sync_company_rounds
+  AFTER UPDATE ON companies
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_company_rounds();
+
+CREATE OR REPLACE FUNCTION protect_company_logo()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.logo_url IS NOT NULL OR NEW.logo_variants IS NOT NULL THEN
+      RAISE EXCEPTION 'New companies must not have a logo yet'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NEW.logo_url IS DISTINCT FROM OLD.logo_url
+    OR NEW.logo_variants IS DISTINCT FROM OLD.logo_variants
+  THEN
+    RAISE EXCEPTION 'Company logos can only be changed through the API'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_company_logo ON companies;
+CREATE TRIGGER protect_company_logo
+  BEFORE INSERT OR UPDATE ON companies
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_company_logo();
+
+CREATE OR REPLACE FUNCTION protect_round_files()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft'
+      OR NEW.deck_path IS NOT NULL
+      OR NEW.deck_url IS NOT NULL
+      OR NEW.deck_filename IS NOT NULL
+      OR NEW.scan_status <> 'pending'
+      OR NEW.scanned_at IS NOT NULL
+      OR NEW.deck_version IS NOT NULL
+      OR NEW.deck_updated_at IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'New rounds must be drafts without files'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NEW.deck_path IS DISTINCT FROM OLD.deck_path
+    OR NEW.deck_url IS DISTINCT FROM OLD.deck_url
+    OR NEW.deck_filename IS DISTINCT FROM OLD.deck_filename
+    -- A draft only goes live once its files have been verified
+    OR (NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'live')
+    OR NEW.scan_status IS DISTINCT FROM OLD.scan_status
+    OR NEW.scanned_at IS DISTINCT FROM OLD.scanned_at
+    OR NEW.deck_version IS DISTINCT FROM OLD.deck_version
+    OR NEW.deck_updated_at IS DISTINCT FROM OLD.deck_updated_at
+  THEN
+    RAISE EXCEPTION 'Round files can only be changed through the API'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_company_team(p_company_id uuid, p_members jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM company_team_members WHERE company_id = p_company_id;
+
+  INSERT INTO company_team_members (company_id, name, title, profile_url, position)
+  SELECT p_company_id, btrim(member.name), NULLIF(btrim(member.title), ''), NULLIF(btrim(member.profile_url), ''), member.ordinality
+  FROM jsonb_to_recordset(p_members) WITH ORDINALITY AS member(name text, title text, profile_url text, ordinality bigint);
+END;
+$$;
+
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read companies with visible rounds"
+  ON companies FOR SELECT
+  TO anon, authenticated
+  USING (
+    auth.uid() = founder_id
+    OR EXISTS (SELECT 1 FROM fundraising_rounds r WHERE r.company_id = companies.id)
+  );
+
+CREATE POLICY "Founders can create own companies"
+  ON companies FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = founder_id);
+
+CREATE POLICY "Founders can update own companies"
+  ON companies FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = founder_id)
+  WITH CHECK (auth.uid() = founder_id);
+
+CREATE POLICY "Founders can delete own companies"
+  ON companies FOR DELETE
+  TO authenticated
+  USING (auth.uid() = founder_id);
+
+CREATE POLICY "Anyone can read teams of visible companies"
+  ON company_team_members FOR SELECT
+  TO anon, authenticated
+  USING (EXISTS (SELECT 1 FROM companies c WHERE c.id = company_team_members.company_id));
+
+CREATE POLICY "Founders can add to own teams"
+  ON company_team_members FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM companies c
+      WHERE c.id = company_team_members.company_id
+        AND c.founder_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Founders can remove from own teams"
+  ON company_team_members FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM companies c
+      WHERE c.id = company_team_members.company_id
+        AND c.founder_id = auth.uid()
+    )
+  );
@@ -0,0 +1,33 @@
+/*
+  # Deck Version Visibility
+
+  ## Overview
+  Anyone who could read a round could read its whole version list, including
+  the paths and changelogs of earlier decks, even when the founder had not
+  shared earlier versions. The list now follows
+  `allow_previous_deck_versions` like the files do.
+
+  ## 1. Security
+
+  - Versions are readable by the round's founder, and by anyone who can see
+    the round once the founder allows earlier versions
+  - The current deck is still described on the round itself
+    (`deck_version`, `deck_updated_at`)
+*/
+
+DROP POLICY IF EXISTS "Anyone can read versions of visible rounds" ON deck_versions;
+
+-- Rounds' own policy decides who can see them (live, or the founder's drafts)
+CREATE POLICY "Founders and allowed viewers can read deck versions"
+  ON deck_versions FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM fundraising_rounds
+      WHERE fundraising_rounds.id = deck_versions.round_id
+        AND (
+          fundraising_rounds.allow_previous_deck_versions
+          OR fundraising_rounds.founder_id = auth.uid()
+        )
+    )
+  );
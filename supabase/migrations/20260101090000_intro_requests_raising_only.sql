@@ -0,0 +1,79 @@
+/*
+  # Intro Requests Only While Raising
+
+  ## Overview
+  The intro request API refuses rounds that are no longer raising, but
+  `create_intro_request()` itself did not, so calling it directly still
+  created requests on closed, funded or withdrawn rounds. The function now
+  applies the same rule.
+
+  ## 1. Modified Functions
+
+  ### `create_intro_request(p_investor_id, p_round_id, p_startup_name, p_message)`
+  - Raises `check_violation` unless the round is live or closing, matching
+    `isRoundRaising()` in `lib/roundStatus.ts`
+  - Locks the round first, so it can't stop raising while the request is
+    being created
+
+  ## 2. Important Notes
+
+  - Existing requests on rounds that stopped raising are kept
+  - Grants are unchanged
+*/
+
+CREATE OR REPLACE FUNCTION create_intro_request(
+  p_investor_id uuid,
+  p_round_id uuid,
+  p_startup_name text,
+  p_message text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_id uuid;
+  round_status text;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_investor_id THEN
+    RAISE EXCEPTION 'Cannot request intros on behalf of another user'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT status INTO round_status
+  FROM fundraising_rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fundraising round % not found', p_round_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF round_status NOT IN ('live', 'closing') THEN
+    RAISE EXCEPTION 'Fundraising round % is no longer taking intro requests', p_round_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO intro_requests (investor_id, round_id, startup_name, message)
+  VALUES (p_investor_id, p_round_id, p_startup_name, p_message)
+  ON CONFLICT (investor_id, round_id) DO NOTHING
+  RETURNING id INTO request_id;
+
+  IF request_id IS NULL THEN
+    SELECT id INTO request_id
+    FROM intro_requests
+    WHERE investor_id = p_investor_id
+      AND round_id = p_round_id;
+
+    RETURN request_id;
+  END IF;
+
+  UPDATE fundraising_rounds
+  SET intro_request_count = COALESCE(intro_request_count, 0) + 1
+  WHERE id = p_round_id;
+
+  RETURN request_id;
+END;
+$$;
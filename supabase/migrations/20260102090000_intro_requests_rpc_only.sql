@@ -0,0 +1,26 @@
+/*
+  # Intro Requests Only Through create_intro_request()
+
+  ## Overview
+  The original "Authenticated users can create intro requests" policy was
+  never dropped, so signed-in users could still insert into `intro_requests`
+  directly. Those inserts skipped the raising check and the
+  `intro_request_count` increment in `create_intro_request()`. The function
+  is now the only way to create a request.
+
+  ## 1. Security Changes
+
+  ### Intro Requests Table
+  - Dropped "Authenticated users can create intro requests"
+  - Revoked INSERT from `authenticated`; `create_intro_request()` runs as
+    SECURITY DEFINER and keeps inserting
+
+  ## 2. Important Notes
+
+  - Requests already inserted directly are kept, and counted again in
+    20260103090000_recount_intro_requests.sql
+*/
+
+DROP POLICY IF EXISTS "Authenticated users can create intro requests" ON intro_requests;
+
+REVOKE INSERT ON intro_requests FROM authenticated;
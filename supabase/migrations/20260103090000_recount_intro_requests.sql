@@ -0,0 +1,26 @@
+/*
+  # Recount Intro Requests
+
+  ## Overview
+  Until 20260102090000_intro_requests_rpc_only.sql, intro requests inserted
+  directly into `intro_requests` skipped the increment in
+  `create_intro_request()`, so `intro_request_count` could fall behind. Every
+  round's count is set once more from its requests.
+
+  ## 1. Data Changes
+
+  ### `fundraising_rounds`
+  - `intro_request_count` is the number of intro requests of the round, in
+    any status, as `create_intro_request()` counts them
+*/
+
+UPDATE fundraising_rounds r
+SET intro_request_count = counts.total
+FROM (
+  SELECT fr.id, count(ir.id)::integer AS total
+  FROM fundraising_rounds fr
+  LEFT JOIN intro_requests ir ON ir.round_id = fr.id
+  GROUP BY fr.id
+) counts
+WHERE counts.id = r.id
+  AND r.intro_request_count IS DISTINCT FROM counts.total;
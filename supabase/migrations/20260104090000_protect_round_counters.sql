@@ -0,0 +1,77 @@
+/*
+  # Protect Round Counters
+
+  ## Overview
+  "Users can update own rounds" let founders write `follower_count` and
+  `intro_request_count` on their rounds directly, and so inflate their own
+  trending score. Both counters are now only changed by the database
+  functions that follow rounds and create intro requests.
+
+  ## 1. Modified Functions
+
+  ### `protect_round_files()`
+  - Rejects a new round with followers or intro requests, and any change to
+    either count, when the statement runs as `authenticated`
+  - `sync_round_follower_count()`, `create_intro_request()` and the other
+    SECURITY DEFINER functions run as their owner, so the counters they keep
+    are not affected
+
+  ## 2. Important Notes
+
+  - The check uses `current_user` rather than `auth.role()`, since a signed-in
+    user's requests keep their role claim inside SECURITY DEFINER functions
+*/
+
+CREATE OR REPLACE FUNCTION protect_round_files()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    IF TG_OP = 'INSERT' THEN
+      IF COALESCE(NEW.follower_count, 0) <> 0 OR COALESCE(NEW.intro_request_count, 0) <> 0 THEN
+        RAISE EXCEPTION 'New rounds start without followers or intro requests'
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+    ELSIF NEW.follower_count IS DISTINCT FROM OLD.follower_count
+      OR NEW.intro_request_count IS DISTINCT FROM OLD.intro_request_count
+    THEN
+      RAISE EXCEPTION 'Round counters can only be changed by following or requesting an intro'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft'
+      OR NEW.deck_path IS NOT NULL
+      OR NEW.deck_url IS NOT NULL
+      OR NEW.deck_filename IS NOT NULL
+      OR NEW.scan_status <> 'pending'
+      OR NEW.scanned_at IS NOT NULL
+      OR NEW.deck_version IS NOT NULL
+      OR NEW.deck_updated_at IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'New rounds must be drafts without files'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NEW.deck_path IS DISTINCT FROM OLD.deck_path
+    OR NEW.deck_url IS DISTINCT FROM OLD.deck_url
+    OR NEW.deck_filename IS DISTINCT FROM OLD.deck_filename
+    -- A draft only goes live once its files have been verified
+    OR (NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'live')
+    OR NEW.scan_status IS DISTINCT FROM OLD.scan_status
+    OR NEW.scanned_at IS DISTINCT FROM OLD.scanned_at
+    OR NEW.deck_version IS DISTINCT FROM OLD.deck_version
+    OR NEW.deck_updated_at IS DISTINCT FROM OLD.deck_updated_at
+  THEN
+    RAISE EXCEPTION 'Round files can only be changed through the API'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,72 @@
+/*
+  # Private Logo Uploads
+
+  ## Overview
+  Founders uploaded logos straight into the public `fundraising` bucket, where
+  the raw file, EXIF data included, was readable until the server re-encoded
+  it in place. Uploading the same original again put the raw file back over
+  the sanitized copy. Logos are now uploaded to a private `logo-uploads`
+  bucket, and only the sanitized copy is published to the public bucket, by
+  the server with the service role.
+
+  ## 1. Storage
+
+  ### `logo-uploads` bucket (private)
+  - PNG, JPEG and WEBP only, 5MB limit, same as the client-side validation
+  - Objects live at `logos/{round_id}/{filename}` (see `getLogoPath()`),
+    the path the sanitized copy is published under
+  - Founders can upload, replace, read and delete logos of their own rounds
+  - The server removes a logo once it is published or rejected; leftovers are
+    removed by the upload sweep
+
+  ## 2. Important Notes
+
+  - Founder write access to `logos/` in the `fundraising` bucket was set up
+    outside the migrations and should be removed in the dashboard, so logos
+    can only be published by the server
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('logo-uploads', 'logo-uploads', false, 5242880, ARRAY['image/png', 'image/jpeg', 'image/jpg', 'image/webp'])
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+CREATE POLICY "Founders can upload logos for their rounds"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'logo-uploads'
+    AND (storage.foldername(name))[1] = 'logos'
+    AND (storage.foldername(name))[2] IN (
+      SELECT id::text FROM fundraising_rounds WHERE founder_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Founders can read uploaded logos of their rounds"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'logo-uploads'
+    AND (storage.foldername(name))[2] IN (
+      SELECT id::text FROM fundraising_rounds WHERE founder_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Founders can replace uploaded logos of their rounds"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'logo-uploads'
+    AND (storage.foldername(name))[2] IN (
+      SELECT id::text FROM fundraising_rounds WHERE founder_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Founders can delete uploaded logos of their rounds"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'logo-uploads'
+    AND (storage.foldername(name))[2] IN (
+      SELECT id::text FROM fundraising_rounds WHERE founder_id = auth.uid()
+    )
+  );
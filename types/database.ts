@@ -16,7 +16,6 @@ export interface Database {
           display_name: string
           photo_url: string | null
           role: 'founder' | 'investor' | 'both'
-          followed_rounds: string[]
           created_at: string
         }
         Insert: {
@@ -25,7 +24,6 @@ export interface Database {
           display_name: string
           photo_url?: string | null
           role?: 'founder' | 'investor' | 'both'
-          followed_rounds?: string[]
           created_at?: string
         }
         Update: {
@@ -34,54 +32,337 @@ export interface Database {
           display_name?: string
           photo_url?: string | null
           role?: 'founder' | 'investor' | 'both'
-          followed_rounds?: string[]
           created_at?: string
         }
       }
+      companies: {
+        Row: {
+          id: string
+          founder_id: string
+          name: string
+          logo_url: string | null
+          logo_variants: Json | null
+          website: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          founder_id: string
+          name: string
+          logo_url?: string | null
+          logo_variants?: Json | null
+          website?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          founder_id?: string
+          name?: string
+          logo_url?: string | null
+          logo_variants?: Json | null
+          website?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      company_team_members: {
+        Row: {
+          id: string
+          company_id: string
+          name: string
+          title: string | null
+          profile_url: string | null
+          position: number
+        }
+        Insert: {
+          id?: string
+          company_id: string
+          name: string
+          title?: string | null
+          profile_url?: string | null
+          position?: number
+        }
+        Update: {
+          id?: string
+          company_id?: string
+          name?: string
+          title?: string | null
+          profile_url?: string | null
+          position?: number
+        }
+      }
       fundraising_rounds: {
         Row: {
           id: string
+          company_id: string
           company_name: string
-          logo_url: string
+          logo_url: string | null
+          logo_variants: Json | null
+          scan_status: string
+          scanned_at: string | null
+          deck_version: number | null
+          deck_updated_at: string | null
+          allow_previous_deck_versions: boolean
+          show_commitments: boolean
           raising_amount: number
           currency: string
+          instrument: 'safe' | 'convertible_note' | 'priced_equity' | null
+          valuation: number | null
+          valuation_type: 'pre_money' | 'post_money' | null
+          discount_percent: number | null
+          minimum_check: number | null
+          lead_status: 'seeking_lead' | 'lead_committed' | 'no_lead' | null
           description: string
-          deck_url: string
+          deck_url: string | null
+          deck_path: string | null
+          deck_filename: string | null
           founder_id: string
           follower_count: number
           intro_request_count: number
+          status: 'draft' | 'live' | 'closing' | 'closed' | 'funded' | 'withdrawn'
+          launched_at: string | null
+          closing_at: string | null
+          closed_at: string | null
+          funded_at: string | null
+          withdrawn_at: string | null
           created_at: string
           updated_at: string
+          search_vector: unknown
         }
         Insert: {
           id?: string
-          company_name: string
-          logo_url: string
+          company_id: string
+          // Copied from the company by the database
+          company_name?: string
+          logo_url?: string | null
+          logo_variants?: Json | null
+          scan_status?: string
+          scanned_at?: string | null
+          deck_version?: number | null
+          deck_updated_at?: string | null
+          allow_previous_deck_versions?: boolean
+          show_commitments?: boolean
           raising_amount: number
           currency?: string
+          instrument?: 'safe' | 'convertible_note' | 'priced_equity' | null
+          valuation?: number | null
+          valuation_type?: 'pre_money' | 'post_money' | null
+          discount_percent?: number | null
+          minimum_check?: number | null
+          lead_status?: 'seeking_lead' | 'lead_committed' | 'no_lead' | null
           description: string
-          deck_url: string
+          deck_url?: string | null
+          deck_path?: string | null
+          deck_filename?: string | null
           founder_id: string
           follower_count?: number
           intro_request_count?: number
+          status?: 'draft' | 'live' | 'closing' | 'closed' | 'funded' | 'withdrawn'
+          launched_at?: string | null
+          closing_at?: string | null
+          closed_at?: string | null
+          funded_at?: string | null
+          withdrawn_at?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
+          company_id?: string
           company_name?: string
-          logo_url?: string
+          logo_url?: string | null
+          logo_variants?: Json | null
+          scan_status?: string
+          scanned_at?: string | null
+          deck_version?: number | null
+          deck_updated_at?: string | null
+          allow_previous_deck_versions?: boolean
+          show_commitments?: boolean
           raising_amount?: number
           currency?: string
+          instrument?: 'safe' | 'convertible_note' | 'priced_equity' | null
+          valuation?: number | null
+          valuation_type?: 'pre_money' | 'post_money' | null
+          discount_percent?: number | null
+          minimum_check?: number | null
+          lead_status?: 'seeking_lead' | 'lead_committed' | 'no_lead' | null
           description?: string
-          deck_url?: string
+          deck_url?: string | null
+          deck_path?: string | null
+          deck_filename?: string | null
           founder_id?: string
           follower_count?: number
           intro_request_count?: number
+          status?: 'draft' | 'live' | 'closing' | 'closed' | 'funded' | 'withdrawn'
+          launched_at?: string | null
+          closing_at?: string | null
+          closed_at?: string | null
+          funded_at?: string | null
+          withdrawn_at?: string | null
           created_at?: string
           updated_at?: string
         }
       }
+      round_follows: {
+        Row: {
+          user_id: string
+          round_id: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          round_id: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          round_id?: string
+          created_at?: string
+        }
+      }
+      deck_access_logs: {
+        Row: {
+          id: string
+          round_id: string
+          viewer_id: string
+          referrer: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          round_id: string
+          viewer_id: string
+          referrer?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          round_id?: string
+          viewer_id?: string
+          referrer?: string | null
+          created_at?: string
+        }
+      }
+      commitments: {
+        Row: {
+          id: string
+          round_id: string
+          investor_id: string
+          amount: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          round_id: string
+          investor_id: string
+          amount: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          round_id?: string
+          investor_id?: string
+          amount?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      round_commitment_totals: {
+        Row: {
+          round_id: string
+          committed_amount: number
+          commitment_count: number
+          updated_at: string
+        }
+        Insert: {
+          round_id: string
+          committed_amount?: number
+          commitment_count?: number
+          updated_at?: string
+        }
+        Update: {
+          round_id?: string
+          committed_amount?: number
+          commitment_count?: number
+          updated_at?: string
+        }
+      }
+      tags: {
+        Row: {
+          id: string
+          type: 'sector' | 'stage' | 'geography' | 'business_model'
+          slug: string
+          name: string
+          parent_id: string | null
+          position: number
+        }
+        Insert: {
+          id?: string
+          type: 'sector' | 'stage' | 'geography' | 'business_model'
+          slug: string
+          name: string
+          parent_id?: string | null
+          position?: number
+        }
+        Update: {
+          id?: string
+          type?: 'sector' | 'stage' | 'geography' | 'business_model'
+          slug?: string
+          name?: string
+          parent_id?: string | null
+          position?: number
+        }
+      }
+      round_tags: {
+        Row: {
+          round_id: string
+          tag_id: string
+        }
+        Insert: {
+          round_id: string
+          tag_id: string
+        }
+        Update: {
+          round_id?: string
+          tag_id?: string
+        }
+      }
+      deck_versions: {
+        Row: {
+          id: string
+          round_id: string
+          version: number
+          deck_path: string
+          deck_filename: string | null
+          changelog: string | null
+          scan_status: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          round_id: string
+          version: number
+          deck_path: string
+          deck_filename?: string | null
+          changelog?: string | null
+          scan_status?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          round_id?: string
+          version?: number
+          deck_path?: string
+          deck_filename?: string | null
+          changelog?: string | null
+          scan_status?: string
+          created_at?: string
+        }
+      }
       intro_requests: {
         Row: {
           id: string
@@ -112,5 +393,110 @@ export interface Database {
         }
       }
     }
+    Views: {
+      public_profiles: {
+        Row: {
+          id: string
+          display_name: string
+          photo_url: string | null
+          role: 'founder' | 'investor' | 'both'
+        }
+      }
+    }
+    Functions: {
+      get_trending_rounds: {
+        Args: {
+          limit_count?: number
+          follow_weight?: number
+          intro_weight?: number
+          gravity?: number
+          as_of?: string
+          cursor_score?: number | null
+          cursor_id?: string | null
+          currency_filter?: string | null
+          min_amount?: number | null
+          max_amount?: number | null
+          posted_after?: string | null
+          sector_filter?: string | null
+          stage_filter?: string | null
+          geography_filter?: string | null
+          business_model_filter?: string | null
+        }
+        Returns: {
+          fundraising_round: Database['public']['Tables']['fundraising_rounds']['Row']
+          trending_score: number
+          tags: Omit<Database['public']['Tables']['tags']['Row'], 'position'>[]
+        }[]
+      }
+      set_company_team: {
+        Args: {
+          p_company_id: string
+          p_members: { name: string; title: string | null; profile_url: string | null }[]
+        }
+        Returns: undefined
+      }
+      set_round_tags: {
+        Args: {
+          p_round_id: string
+          p_tag_ids: string[]
+        }
+        Returns: undefined
+      }
+      search_rounds: {
+        Args: {
+          search_query: string
+          currency_filter?: string | null
+          min_amount?: number | null
+          max_amount?: number | null
+          limit_count?: number
+        }
+        Returns: {
+          fundraising_round: Database['public']['Tables']['fundraising_rounds']['Row']
+          rank: number
+        }[]
+      }
+      record_deck_version: {
+        Args: {
+          p_round_id: string
+          p_deck_path: string
+          p_changelog?: string | null
+        }
+        Returns: number
+      }
+      get_deck_view_stats: {
+        Args: {
+          p_round_id: string
+          p_days?: number
+        }
+        Returns: {
+          total_views: number
+          unique_viewers: number
+          daily: { day: string; views: number; unique_viewers: number }[]
+        }
+      }
+      follow_round: {
+        Args: {
+          p_user_id: string
+          p_round_id: string
+        }
+        Returns: undefined
+      }
+      unfollow_round: {
+        Args: {
+          p_user_id: string
+          p_round_id: string
+        }
+        Returns: undefined
+      }
+      create_intro_request: {
+        Args: {
+          p_investor_id: string
+          p_round_id: string
+          p_startup_name: string
+          p_message?: string | null
+        }
+        Returns: string
+      }
+    }
   }
 }
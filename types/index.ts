@@ -1,16 +1,132 @@
+// 'draft' while a launch is uploading its files, 'live' once launched; the
+// founder then moves it on. See lib/roundStatus.ts for the allowed transitions
+export type RoundStatus = 'draft' | 'live' | 'closing' | 'closed' | 'funded' | 'withdrawn';
+
+// 'pending' until the deck has been scanned for malware, 'rejected' if the scan found any
+export type DeckScanStatus = 'pending' | 'clean' | 'rejected';
+
+export type RoundInstrument = 'safe' | 'convertible_note' | 'priced_equity';
+
+export type ValuationType = 'pre_money' | 'post_money';
+
+export type LeadInvestorStatus = 'seeking_lead' | 'lead_committed' | 'no_lead';
+
+// Structured terms of a round, in its currency; all optional, see lib/roundTerms.ts
+export interface RoundTerms {
+  instrument?: RoundInstrument;
+  // Valuation cap of a SAFE or note, or the valuation of a priced round
+  valuation?: number;
+  valuationType?: ValuationType;
+  // Discount to the next priced round in percent; SAFEs and notes only
+  discountPercent?: number;
+  minimumCheck?: number;
+  leadStatus?: LeadInvestorStatus;
+}
+
+// Dimensions of the curated taxonomy; see lib/taxonomy.ts
+export type TagType = 'sector' | 'stage' | 'geography' | 'business_model';
+
+export interface Tag {
+  id: string;
+  type: TagType;
+  slug: string;
+  name: string;
+  // Region of a country tag; filtering on a region matches its countries too
+  parentId?: string;
+}
+
+export type LogoVariants = { [size: number]: string };
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  title?: string;
+  // e.g. a LinkedIn profile
+  profileUrl?: string;
+}
+
+// A startup; each of its rounds belongs to it
+export interface Company {
+  id: string;
+  founderId: string;
+  name: string;
+  // Unset until the logo of its first round is verified
+  logoUrl?: string;
+  logoVariants?: LogoVariants;
+  website?: string;
+  // Only loaded with a single company, in display order
+  team?: TeamMember[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface FundraisingRound {
   id: string;
+  companyId: string;
+  // Name and logo are copies of the company's, kept in sync by the database
   companyName: string;
   logoUrl: string;
+  // Square WebP copies of the logo keyed by width in pixels; see getLogoSrc()
+  logoVariants?: LogoVariants;
   raisingAmount: number;
   currency: string;
+  terms: RoundTerms;
+  // At most one tag of each type
+  tags?: Tag[];
   description: string;
-  deckUrl: string;
+  // Path of the deck in the private decks bucket; viewers get a signed URL
+  // from /api/rounds/[id]/deck
+  deckPath?: string;
+  // Original name of the deck file, offered when the deck is downloaded
+  deckFilename?: string;
+  // Public URL of a deck uploaded before decks became private, until it is moved
+  deckUrl?: string;
+  scanStatus: DeckScanStatus;
+  scannedAt?: string;
+  // Version number of the current deck and when it was attached; see DeckVersion
+  deckVersion?: number;
+  deckUpdatedAt?: string;
+  // Whether investors may open earlier deck versions; founders always can
+  allowPreviousDeckVersions: boolean;
+  // Whether everyone sees the committed total; founders always do
+  showCommitments: boolean;
   founderId: string;
   createdAt: string;
   updatedAt: string;
   followerCount: number;
   introRequestCount: number;
+  status: RoundStatus;
+  // When the round entered each status it has been through
+  launchedAt?: string;
+  closingAt?: string;
+  closedAt?: string;
+  fundedAt?: string;
+  withdrawnAt?: string;
+  trendingScore?: number;
+}
+
+export interface DeckVersion {
+  id: string;
+  roundId: string;
+  version: number;
+  deckPath: string;
+  deckFilename?: string;
+  changelog?: string;
+  scanStatus: DeckScanStatus;
+  createdAt: string;
+}
+
+export interface RoundFilters {
+  currency?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  // Only rounds posted in the last N days
+  postedWithinDays?: number;
+  // Tag slugs; a region also matches rounds tagged with its countries
+  sector?: string;
+  stage?: string;
+  geography?: string;
+  businessModel?: string;
 }
 
 export interface User {
@@ -23,6 +139,49 @@ export interface User {
   followedRounds: string[];
 }
 
+export type PublicProfile = Pick<User, 'id' | 'displayName' | 'photoUrl' | 'role'>;
+
+export interface RoundFollower {
+  userId: string;
+  roundId: string;
+  displayName?: string;
+  photoUrl?: string;
+  followedAt: string;
+}
+
+// One signed deck URL issued to a viewer
+export interface DeckView {
+  viewerId: string;
+  viewedAt: string;
+  referrer?: string;
+  viewer?: Pick<PublicProfile, 'displayName' | 'photoUrl'>;
+}
+
+export interface DeckViewStats {
+  totalViews: number;
+  uniqueViewers: number;
+  // One entry per UTC day, oldest first, including days without views
+  daily: { date: string; views: number; uniqueViewers: number }[];
+}
+
+// Amount an investor intends to put into a round (a soft circle), in the
+// round's currency. Only the investor and the founder can see it
+export interface Commitment {
+  id: string;
+  roundId: string;
+  investorId: string;
+  amount: number;
+  createdAt: string;
+  updatedAt: string;
+  investor?: Pick<PublicProfile, 'displayName' | 'photoUrl'>;
+}
+
+export interface CommitmentProgress {
+  roundId: string;
+  committedAmount: number;
+  commitmentCount: number;
+}
+
 export interface IntroRequest {
   id: string;
   investorId: string;
@@ -31,4 +190,5 @@ export interface IntroRequest {
   status: 'pending' | 'accepted' | 'declined';
   createdAt: string;
   message?: string;
+  investor?: Pick<User, 'id' | 'email' | 'displayName' | 'photoUrl' | 'role'>;
 }